@@ -31,10 +31,14 @@ export default defineConfig({
 					items: [
 						{ label: 'Caching', slug: 'guides/caching' },
 						{ label: 'Deduplication', slug: 'guides/deduplication' },
+						{ label: 'Pagination', slug: 'guides/pagination' },
 						{ label: 'Rate Limiting', slug: 'guides/rate-limiting' },
 						{ label: 'Retries', slug: 'guides/retries' },
+						{ label: 'Circuit Breaker', slug: 'guides/circuit-breaker' },
 						{ label: 'Interceptors', slug: 'guides/interceptors' },
+						{ label: 'Authentication', slug: 'guides/authentication' },
 						{ label: 'Error Handling', slug: 'guides/error-handling' },
+						{ label: 'Observability', slug: 'guides/observability' },
 						{
 							label: 'Response Transformation',
 							slug: 'guides/response-transformation',
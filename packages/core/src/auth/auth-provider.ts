@@ -0,0 +1,17 @@
+/**
+ * Supplies bearer tokens for the client's `auth` option. The client sends
+ * `Authorization: Bearer <token>` on every attempt and, when a response is
+ * 401, asks for a new token once and replays the request with it.
+ */
+export interface AuthProvider {
+  /**
+   * The token to send. Called for every attempt, so implementations should
+   * cache the token rather than fetch one each time.
+   */
+  getToken(): Promise<string>;
+  /**
+   * Replace a token the server rejected. Concurrent 401s share a single
+   * call, so implementations need not coordinate themselves.
+   */
+  refreshToken(): Promise<string>;
+}
@@ -0,0 +1,3 @@
+export type { AuthProvider } from './auth-provider.js';
+export { OAuth2ClientCredentials } from './oauth2-client-credentials.js';
+export type { OAuth2ClientCredentialsOptions } from './oauth2-client-credentials.js';
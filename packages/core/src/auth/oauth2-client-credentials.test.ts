@@ -0,0 +1,132 @@
+import { OAuth2ClientCredentials } from './oauth2-client-credentials.js';
+import { HttpClientError } from '../errors/http-client-error.js';
+
+const tokenUrl = 'https://auth.example.com/oauth/token';
+
+function tokenResponse(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+describe('OAuth2ClientCredentials', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  test('requests a token with HTTP Basic client authentication', async () => {
+    const fetchFn = vi.fn(async () =>
+      tokenResponse({ access_token: 'abc', expires_in: 3600 }),
+    );
+    const provider = new OAuth2ClientCredentials({
+      tokenUrl,
+      clientId: 'my client',
+      clientSecret: 's3cret',
+      scope: ['read', 'write'],
+      params: { audience: 'https://api.example.com' },
+      fetchFn,
+    });
+
+    await expect(provider.getToken()).resolves.toBe('abc');
+
+    const [url, init] = fetchFn.mock.calls[0] as unknown as [
+      string,
+      RequestInit,
+    ];
+    expect(url).toBe(tokenUrl);
+    expect(init.method).toBe('POST');
+    expect((init.headers as Record<string, string>)['Authorization']).toBe(
+      `Basic ${btoa('my%20client:s3cret')}`,
+    );
+    expect(Object.fromEntries(init.body as URLSearchParams)).toEqual({
+      grant_type: 'client_credentials',
+      audience: 'https://api.example.com',
+      scope: 'read write',
+    });
+  });
+
+  test('sends client credentials in the body with authMethod body', async () => {
+    const fetchFn = vi.fn(async () => tokenResponse({ access_token: 'abc' }));
+    const provider = new OAuth2ClientCredentials({
+      tokenUrl,
+      clientId: 'id',
+      clientSecret: 'secret',
+      authMethod: 'body',
+      fetchFn,
+    });
+
+    await provider.getToken();
+
+    const init = (fetchFn.mock.calls[0] as unknown as [string, RequestInit])[1];
+    expect(init.headers).not.toHaveProperty('Authorization');
+    expect(Object.fromEntries(init.body as URLSearchParams)).toMatchObject({
+      client_id: 'id',
+      client_secret: 'secret',
+    });
+  });
+
+  test('caches the token until expires_in runs out', async () => {
+    const now = Date.now();
+    const dateNow = vi.spyOn(Date, 'now').mockReturnValue(now);
+    let issued = 0;
+    const fetchFn = vi.fn(async () =>
+      tokenResponse({ access_token: `token-${++issued}`, expires_in: 60 }),
+    );
+    const provider = new OAuth2ClientCredentials({
+      tokenUrl,
+      clientId: 'id',
+      clientSecret: 'secret',
+      fetchFn,
+    });
+
+    await provider.getToken();
+    dateNow.mockReturnValue(now + 59_999);
+    await expect(provider.getToken()).resolves.toBe('token-1');
+    dateNow.mockReturnValue(now + 60_000);
+    await expect(provider.getToken()).resolves.toBe('token-2');
+    expect(fetchFn).toHaveBeenCalledTimes(2);
+  });
+
+  test('concurrent callers share one token request', async () => {
+    const fetchFn = vi.fn(async () => tokenResponse({ access_token: 'abc' }));
+    const provider = new OAuth2ClientCredentials({
+      tokenUrl,
+      clientId: 'id',
+      clientSecret: 'secret',
+      fetchFn,
+    });
+
+    const tokens = await Promise.all([
+      provider.getToken(),
+      provider.getToken(),
+      provider.refreshToken(),
+    ]);
+
+    expect(tokens).toEqual(['abc', 'abc', 'abc']);
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+
+  test('rejects failed token requests and responses without a token', async () => {
+    const fetchFn = vi
+      .fn()
+      .mockResolvedValueOnce(tokenResponse({ error: 'invalid_client' }, 401))
+      .mockResolvedValueOnce(tokenResponse({ token_type: 'Bearer' }));
+    const provider = new OAuth2ClientCredentials({
+      tokenUrl,
+      clientId: 'id',
+      clientSecret: 'wrong',
+      fetchFn,
+    });
+
+    const failed = await provider.getToken().catch((e) => e);
+    expect(failed).toBeInstanceOf(HttpClientError);
+    expect(failed).toMatchObject({
+      statusCode: 401,
+      data: { error: 'invalid_client' },
+    });
+    await expect(provider.getToken()).rejects.toThrow(
+      'OAuth2 token response has no access_token',
+    );
+  });
+});
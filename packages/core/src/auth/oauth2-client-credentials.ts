@@ -0,0 +1,137 @@
+import type { AuthProvider } from './auth-provider.js';
+import { HttpClientError } from '../errors/http-client-error.js';
+
+export interface OAuth2ClientCredentialsOptions {
+  /** Token endpoint of the authorization server. */
+  tokenUrl: string;
+  clientId: string;
+  clientSecret: string;
+  /** Scopes to request, joined with spaces when given as an array. */
+  scope?: string | Array<string>;
+  /** Extra form params for the token request, e.g. `audience`. */
+  params?: Record<string, string>;
+  /**
+   * How the client authenticates to the token endpoint: HTTP Basic
+   * (`client_secret_basic`, the default) or form params
+   * (`client_secret_post`).
+   */
+  authMethod?: 'basic' | 'body';
+  /**
+   * Fetch implementation for token requests. Defaults to
+   * `globalThis.fetch`. Token requests never go through the client's own
+   * pipeline, so they cannot recurse into `auth`.
+   */
+  fetchFn?: (url: string, init?: RequestInit) => Promise<Response>;
+  /**
+   * Treat a token as expired this many ms before its `expires_in` runs
+   * out. Defaults to 0.
+   */
+  expiryMarginMs?: number;
+}
+
+interface CachedToken {
+  value: string;
+  /** Epoch ms; undefined when the server sent no `expires_in`. */
+  expiresAt?: number;
+}
+
+/**
+ * OAuth 2.0 client credentials grant (RFC 6749 §4.4). The token is cached
+ * until its `expires_in` runs out, and concurrent callers share one token
+ * request.
+ */
+export class OAuth2ClientCredentials implements AuthProvider {
+  private token?: CachedToken;
+  private pending?: Promise<string>;
+
+  constructor(private readonly options: OAuth2ClientCredentialsOptions) {}
+
+  async getToken(): Promise<string> {
+    const token = this.token;
+    const margin = this.options.expiryMarginMs ?? 0;
+    if (
+      token &&
+      (token.expiresAt === undefined || Date.now() < token.expiresAt - margin)
+    ) {
+      return token.value;
+    }
+    return this.refreshToken();
+  }
+
+  refreshToken(): Promise<string> {
+    this.pending ??= this.requestToken().finally(() => {
+      this.pending = undefined;
+    });
+    return this.pending;
+  }
+
+  private async requestToken(): Promise<string> {
+    const {
+      clientId,
+      clientSecret,
+      scope,
+      authMethod = 'basic',
+    } = this.options;
+    const body = new URLSearchParams({
+      grant_type: 'client_credentials',
+      ...this.options.params,
+    });
+    if (scope !== undefined) {
+      body.set('scope', Array.isArray(scope) ? scope.join(' ') : scope);
+    }
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      'Content-Type': 'application/x-www-form-urlencoded',
+    };
+    if (authMethod === 'basic') {
+      // RFC 6749 §2.3.1: form-encode each part before Base64
+      headers['Authorization'] = `Basic ${btoa(
+        `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret)}`,
+      )}`;
+    } else {
+      body.set('client_id', clientId);
+      body.set('client_secret', clientSecret);
+    }
+
+    const fetchFn = this.options.fetchFn ?? globalThis.fetch;
+    const response = await fetchFn(this.options.tokenUrl, {
+      method: 'POST',
+      headers,
+      body,
+    });
+    const text = await response.text();
+    let data: unknown = text;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      // Keep the raw body for the error below
+    }
+
+    if (!response.ok) {
+      throw new HttpClientError(
+        `OAuth2 token request failed with status ${response.status}`,
+        response.status,
+        { data, headers: response.headers },
+      );
+    }
+    const { access_token: accessToken, expires_in: expiresIn } = (data ??
+      {}) as { access_token?: unknown; expires_in?: unknown };
+    if (typeof accessToken !== 'string' || accessToken === '') {
+      throw new HttpClientError(
+        'OAuth2 token response has no access_token',
+        response.status,
+        { data, headers: response.headers },
+      );
+    }
+
+    const seconds = Number(expiresIn);
+    this.token = {
+      value: accessToken,
+      expiresAt:
+        expiresIn === undefined || !Number.isFinite(seconds)
+          ? undefined
+          : Date.now() + seconds * 1000,
+    };
+    return accessToken;
+  }
+}
@@ -1,5 +1,9 @@
 import { describe, it, expect } from 'vitest';
-import { parseCacheControl } from './cache-control-parser.js';
+import {
+  formatCacheControl,
+  parseCacheControl,
+  parseRequestCacheControl,
+} from './cache-control-parser.js';
 
 describe('parseCacheControl', () => {
   it('parses max-age', () => {
@@ -100,3 +104,66 @@ describe('parseCacheControl', () => {
     ).toBeUndefined();
   });
 });
+
+describe('formatCacheControl', () => {
+  it('returns an empty string when no directives are set', () => {
+    expect(formatCacheControl(parseCacheControl(null))).toBe('');
+  });
+
+  it('serialises boolean and numeric directives', () => {
+    expect(
+      formatCacheControl(
+        parseCacheControl(
+          'public, max-age=60, s-maxage=120, stale-while-revalidate=30, stale-if-error=300',
+        ),
+      ),
+    ).toBe(
+      'public, max-age=60, s-maxage=120, stale-while-revalidate=30, stale-if-error=300',
+    );
+  });
+
+  it('round-trips through parseCacheControl', () => {
+    const header =
+      'private, no-cache, no-store, must-revalidate, proxy-revalidate, immutable';
+    expect(
+      parseCacheControl(formatCacheControl(parseCacheControl(header))),
+    ).toEqual(parseCacheControl(header));
+  });
+});
+
+describe('parseRequestCacheControl', () => {
+  it('returns defaults for a missing header', () => {
+    expect(parseRequestCacheControl(undefined)).toEqual({
+      noCache: false,
+      noStore: false,
+      onlyIfCached: false,
+    });
+  });
+
+  it('parses request directives', () => {
+    expect(
+      parseRequestCacheControl(
+        'max-age=30, max-stale=300, min-fresh=60, no-cache, no-store, only-if-cached',
+      ),
+    ).toEqual({
+      maxAge: 30,
+      maxStale: 300,
+      minFresh: 60,
+      noCache: true,
+      noStore: true,
+      onlyIfCached: true,
+    });
+  });
+
+  it('treats a bare max-stale as accepting any staleness', () => {
+    expect(parseRequestCacheControl('max-stale').maxStale).toBe(
+      Number.POSITIVE_INFINITY,
+    );
+  });
+
+  it('ignores response-only and malformed directives', () => {
+    expect(
+      parseRequestCacheControl('s-maxage=60, immutable, min-fresh=soon'),
+    ).toEqual({ noCache: false, noStore: false, onlyIfCached: false });
+  });
+});
@@ -12,6 +12,25 @@ export interface CacheControlDirectives {
   staleIfError?: number;
 }
 
+/**
+ * Directives a client sends in a request's Cache-Control header
+ * (RFC 9111 §5.2.1). They narrow what the cache may serve for that request.
+ */
+export interface RequestCacheControlDirectives {
+  /** Reject entries older than this many seconds. */
+  maxAge?: number;
+  /**
+   * Accept entries stale by up to this many seconds. A bare `max-stale`
+   * accepts any staleness and parses as `Infinity`.
+   */
+  maxStale?: number;
+  /** Reject entries that stay fresh for fewer than this many seconds. */
+  minFresh?: number;
+  noCache: boolean;
+  noStore: boolean;
+  onlyIfCached: boolean;
+}
+
 const EMPTY_DIRECTIVES: CacheControlDirectives = {
   noCache: false,
   noStore: false,
@@ -95,3 +114,89 @@ export function parseCacheControl(
 
   return result;
 }
+
+/**
+ * Parse a request Cache-Control header value into structured directives.
+ *
+ * Lenient in the same way as `parseCacheControl`; response-only
+ * directives are ignored.
+ */
+export function parseRequestCacheControl(
+  header: string | null | undefined,
+): RequestCacheControlDirectives {
+  const result: RequestCacheControlDirectives = {
+    noCache: false,
+    noStore: false,
+    onlyIfCached: false,
+  };
+  if (!header) return result;
+
+  for (const part of header.split(',')) {
+    const trimmed = part.trim();
+    if (!trimmed) continue;
+
+    const eqIdx = trimmed.indexOf('=');
+    const key = (eqIdx === -1 ? trimmed : trimmed.slice(0, eqIdx))
+      .trim()
+      .toLowerCase();
+    const value = eqIdx === -1 ? undefined : trimmed.slice(eqIdx + 1).trim();
+
+    switch (key) {
+      case 'max-age':
+        result.maxAge = parseSeconds(value);
+        break;
+      case 'max-stale':
+        // Without a value the client accepts a stale entry of any age
+        result.maxStale =
+          value === undefined ? Number.POSITIVE_INFINITY : parseSeconds(value);
+        break;
+      case 'min-fresh':
+        result.minFresh = parseSeconds(value);
+        break;
+      case 'no-cache':
+        result.noCache = true;
+        break;
+      case 'no-store':
+        result.noStore = true;
+        break;
+      case 'only-if-cached':
+        result.onlyIfCached = true;
+        break;
+      // Unknown directives silently ignored
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Serialise directives back into a Cache-Control header value.
+ *
+ * Inverse of `parseCacheControl` for the directives it understands; used
+ * when reconstructing headers for responses served from the cache.
+ */
+export function formatCacheControl(directives: CacheControlDirectives): string {
+  const parts: Array<string> = [];
+
+  if (directives.public) parts.push('public');
+  if (directives.private) parts.push('private');
+  if (directives.noCache) parts.push('no-cache');
+  if (directives.noStore) parts.push('no-store');
+  if (directives.maxAge !== undefined) {
+    parts.push(`max-age=${directives.maxAge}`);
+  }
+  if (directives.sMaxAge !== undefined) {
+    parts.push(`s-maxage=${directives.sMaxAge}`);
+  }
+  if (directives.mustRevalidate) parts.push('must-revalidate');
+  if (directives.proxyRevalidate) parts.push('proxy-revalidate');
+  if (directives.immutable) parts.push('immutable');
+  if (directives.staleWhileRevalidate !== undefined) {
+    parts.push(`stale-while-revalidate=${directives.staleWhileRevalidate}`);
+  }
+  if (directives.staleIfError !== undefined) {
+    parts.push(`stale-if-error=${directives.staleIfError}`);
+  }
+
+  return parts.join(', ');
+}
@@ -1,9 +1,11 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
+import { parseCacheControl } from './cache-control-parser.js';
 import {
   isCacheEntry,
   createCacheEntry,
   refreshCacheEntry,
   parseHttpDate,
+  buildCachedHeaders,
   type CacheEntry,
 } from './cache-entry.js';
 
@@ -325,3 +327,106 @@ describe('refreshCacheEntry', () => {
     );
   });
 });
+
+describe('stored response headers', () => {
+  it('captures response headers except Set-Cookie and Content-Length', () => {
+    const entry = createCacheEntry(
+      { id: 1 },
+      new Headers({
+        'Content-Type': 'application/json',
+        Link: '<https://api.example.com/items?page=2>; rel="next"',
+        'Set-Cookie': 'session=secret',
+        'Content-Length': '10',
+      }),
+      200,
+    );
+
+    expect(entry.metadata.headers).toEqual({
+      'content-type': 'application/json',
+      link: '<https://api.example.com/items?page=2>; rel="next"',
+    });
+  });
+
+  it('merges 304 headers into stored headers', () => {
+    const entry = createCacheEntry(
+      { id: 1 },
+      new Headers({ 'X-Total': '10', ETag: '"a"' }),
+      200,
+    );
+
+    const refreshed = refreshCacheEntry(
+      entry,
+      new Headers({ ETag: '"b"', 'X-Request-Id': 'r2' }),
+    );
+
+    expect(refreshed.metadata.headers).toEqual({
+      'x-total': '10',
+      etag: '"b"',
+      'x-request-id': 'r2',
+    });
+  });
+
+  it('leaves headers absent when refreshing a legacy entry', () => {
+    const entry = createCacheEntry({ id: 1 }, new Headers(), 200);
+    delete entry.metadata.headers;
+
+    const refreshed = refreshCacheEntry(entry, new Headers({ ETag: '"b"' }));
+
+    expect(refreshed.metadata.headers).toBeUndefined();
+  });
+});
+
+describe('buildCachedHeaders', () => {
+  const now = 1_700_000_100_000;
+
+  it('overlays metadata fields and the current age on stored headers', () => {
+    vi.spyOn(Date, 'now').mockReturnValue(1_700_000_000_000);
+    const entry = createCacheEntry(
+      { id: 1 },
+      new Headers({
+        'Cache-Control': 'max-age=300',
+        'Content-Type': 'application/json',
+        ETag: '"v1"',
+        Date: new Date(1_700_000_000_000).toUTCString(),
+        Link: '</items?page=2>; rel="next"',
+      }),
+      200,
+    );
+
+    const headers = buildCachedHeaders(entry.metadata, now);
+
+    expect(headers.get('content-type')).toBe('application/json');
+    expect(headers.get('link')).toBe('</items?page=2>; rel="next"');
+    expect(headers.get('etag')).toBe('"v1"');
+    expect(headers.get('cache-control')).toBe('max-age=300');
+    expect(headers.get('date')).toBe(new Date(1_700_000_000_000).toUTCString());
+    expect(headers.get('age')).toBe('100');
+  });
+
+  it('reconstructs what it can from metadata on legacy entries', () => {
+    const headers = buildCachedHeaders(
+      {
+        etag: '"legacy"',
+        lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT',
+        cacheControl: parseCacheControl('no-cache'),
+        responseDate: 1_700_000_000_000,
+        storedAt: 1_700_000_000_000,
+        ageHeader: 5,
+        statusCode: 200,
+        varyHeaders: 'Accept',
+        expires: 1_700_000_060_000,
+      },
+      now,
+    );
+
+    expect(Object.fromEntries(headers)).toEqual({
+      age: '105',
+      'cache-control': 'no-cache',
+      date: new Date(1_700_000_000_000).toUTCString(),
+      etag: '"legacy"',
+      expires: new Date(1_700_000_060_000).toUTCString(),
+      'last-modified': 'Mon, 01 Jan 2024 00:00:00 GMT',
+      vary: 'Accept',
+    });
+  });
+});
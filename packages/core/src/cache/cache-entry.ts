@@ -1,7 +1,9 @@
 import {
+  formatCacheControl,
   parseCacheControl,
   type CacheControlDirectives,
 } from './cache-control-parser.js';
+import { calculateCurrentAge } from './freshness.js';
 
 export interface CacheEntryMetadata {
   /** ETag response header, for If-None-Match conditional requests */
@@ -30,6 +32,28 @@ export interface CacheEntryMetadata {
    * when Cache-Control max-age is absent.
    */
   expires?: number;
+  /**
+   * Response headers captured at store time (lowercased names), so cached
+   * responses can expose headers such as `Link` or `Content-Type`.
+   * `Set-Cookie` is never stored. Absent on entries written by older versions.
+   */
+  headers?: Record<string, string>;
+}
+
+/**
+ * Headers that are never persisted with a cache entry: cookies are
+ * per-response state, and framing headers describe the original transfer.
+ */
+const UNSTORED_HEADERS = new Set(['set-cookie', 'content-length']);
+
+function captureStoredHeaders(headers: Headers): Record<string, string> {
+  const stored: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    if (!UNSTORED_HEADERS.has(name)) {
+      stored[name] = value;
+    }
+  });
+  return stored;
 }
 
 export interface CacheEntry<T = unknown> {
@@ -106,6 +130,7 @@ export function createCacheEntry<T>(
       varyHeaders: headers.get('vary') ?? undefined,
       statusCode,
       expires: parseHttpDate(headers.get('expires')),
+      headers: captureStoredHeaders(headers),
     },
   };
 }
@@ -153,7 +178,41 @@ export function refreshCacheEntry<T>(
           ? parseHttpDate(newExpires)
           : existing.metadata.expires,
       varyHeaders: newVary ?? existing.metadata.varyHeaders,
+      headers: existing.metadata.headers
+        ? { ...existing.metadata.headers, ...captureStoredHeaders(newHeaders) }
+        : undefined,
       // statusCode stays the same (the original 200, not 304)
     },
   };
 }
+
+/**
+ * Reconstruct response headers for a value served from the cache.
+ *
+ * Starts from the headers captured at store time (if any), then overlays
+ * the validator and freshness fields from metadata — which reflect the
+ * latest 304 refresh — and sets `Age` to the entry's current age.
+ */
+export function buildCachedHeaders(
+  metadata: CacheEntryMetadata,
+  now?: number,
+): Headers {
+  const headers = new Headers(metadata.headers);
+
+  const cacheControl = formatCacheControl(metadata.cacheControl);
+  if (cacheControl) {
+    headers.set('cache-control', cacheControl);
+  }
+  if (metadata.etag) headers.set('etag', metadata.etag);
+  if (metadata.lastModified) {
+    headers.set('last-modified', metadata.lastModified);
+  }
+  if (metadata.varyHeaders) headers.set('vary', metadata.varyHeaders);
+  if (metadata.expires !== undefined) {
+    headers.set('expires', new Date(metadata.expires).toUTCString());
+  }
+  headers.set('date', new Date(metadata.responseDate).toUTCString());
+  headers.set('age', String(Math.floor(calculateCurrentAge(metadata, now))));
+
+  return headers;
+}
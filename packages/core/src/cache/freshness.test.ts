@@ -1,9 +1,14 @@
 import { describe, it, expect, vi, afterEach } from 'vitest';
+import type {
+  CacheControlDirectives,
+  RequestCacheControlDirectives,
+} from './cache-control-parser.js';
 import type { CacheEntryMetadata } from './cache-entry.js';
 import {
   calculateFreshnessLifetime,
   calculateCurrentAge,
   getFreshnessStatus,
+  acceptsStale,
   calculateStoreTTL,
 } from './freshness.js';
 
@@ -48,6 +53,18 @@ describe('calculateFreshnessLifetime', () => {
     expect(calculateFreshnessLifetime(m)).toBe(0);
   });
 
+  it('prefers s-maxage over max-age in a shared cache', () => {
+    const m = makeMetadata({
+      cacheControl: {
+        ...makeMetadata().cacheControl,
+        maxAge: 300,
+        sMaxAge: 600,
+      },
+    });
+    expect(calculateFreshnessLifetime(m, 'shared')).toBe(600);
+    expect(calculateFreshnessLifetime(m, 'private')).toBe(300);
+  });
+
   it('falls back to Expires − Date', () => {
     const now = Date.now();
     const m = makeMetadata({
@@ -326,6 +343,110 @@ describe('getFreshnessStatus', () => {
   });
 });
 
+describe('getFreshnessStatus with request directives', () => {
+  const now = Date.now();
+
+  function aged(ageSeconds: number, maxAge: number, mustRevalidate = false) {
+    return makeMetadata({
+      cacheControl: { ...makeMetadata().cacheControl, maxAge, mustRevalidate },
+      storedAt: now - ageSeconds * 1000,
+      responseDate: now - ageSeconds * 1000,
+    });
+  }
+
+  function request(directives: Partial<RequestCacheControlDirectives>) {
+    return {
+      noCache: false,
+      noStore: false,
+      onlyIfCached: false,
+      ...directives,
+    };
+  }
+
+  it('revalidates a fresh entry for request no-cache', () => {
+    expect(
+      getFreshnessStatus(aged(0, 300), now, request({ noCache: true })),
+    ).toBe('must-revalidate');
+  });
+
+  it('revalidates an entry older than request max-age', () => {
+    const m = aged(120, 300);
+    expect(getFreshnessStatus(m, now, request({ maxAge: 60 }))).toBe(
+      'must-revalidate',
+    );
+    expect(getFreshnessStatus(m, now, request({ maxAge: 180 }))).toBe('fresh');
+  });
+
+  it('revalidates an entry expiring within min-fresh', () => {
+    const m = aged(270, 300);
+    expect(getFreshnessStatus(m, now, request({ minFresh: 60 }))).toBe(
+      'must-revalidate',
+    );
+    expect(getFreshnessStatus(m, now, request({ minFresh: 10 }))).toBe('fresh');
+  });
+
+  it('accepts a stale entry within max-stale but still labels it stale', () => {
+    const m = aged(200, 60);
+    expect(getFreshnessStatus(m, now, request({ maxStale: 300 }))).toBe(
+      'stale',
+    );
+    expect(acceptsStale(m, now, request({ maxStale: 300 }))).toBe(true);
+    expect(acceptsStale(m, now, request({ maxStale: 60 }))).toBe(false);
+    expect(
+      acceptsStale(m, now, request({ maxStale: Number.POSITIVE_INFINITY })),
+    ).toBe(true);
+    expect(acceptsStale(aged(0, 60), now, request({ maxStale: 300 }))).toBe(
+      false,
+    );
+  });
+
+  it('does not let max-stale override must-revalidate', () => {
+    const m = aged(200, 60, true);
+    expect(getFreshnessStatus(m, now, request({ maxStale: 300 }))).toBe(
+      'must-revalidate',
+    );
+    expect(acceptsStale(m, now, request({ maxStale: 300 }))).toBe(false);
+  });
+});
+
+describe('getFreshnessStatus in a shared cache', () => {
+  const now = Date.now();
+
+  function stale(overrides: Partial<CacheControlDirectives>) {
+    return makeMetadata({
+      cacheControl: {
+        ...makeMetadata().cacheControl,
+        maxAge: 60,
+        staleWhileRevalidate: 600,
+        ...overrides,
+      },
+      storedAt: now - 120_000,
+      responseDate: now - 120_000,
+    });
+  }
+
+  it('uses s-maxage for freshness', () => {
+    const m = stale({ sMaxAge: 300 });
+    expect(getFreshnessStatus(m, now, undefined, 'shared')).toBe('fresh');
+    expect(getFreshnessStatus(m, now)).toBe('stale-while-revalidate');
+  });
+
+  it('treats proxy-revalidate as must-revalidate', () => {
+    const m = stale({ proxyRevalidate: true });
+    expect(getFreshnessStatus(m, now, undefined, 'shared')).toBe(
+      'must-revalidate',
+    );
+    expect(getFreshnessStatus(m, now)).toBe('stale-while-revalidate');
+  });
+
+  it('never serves a stale s-maxage entry', () => {
+    const m = stale({ sMaxAge: 60 });
+    expect(getFreshnessStatus(m, now, undefined, 'shared')).toBe(
+      'must-revalidate',
+    );
+  });
+});
+
 describe('calculateStoreTTL', () => {
   it('returns freshness + stale window', () => {
     const m = makeMetadata({
@@ -363,6 +484,18 @@ describe('calculateStoreTTL', () => {
     expect(calculateStoreTTL(m, 3600)).toBe(0);
   });
 
+  it('uses s-maxage in a shared cache, even when 0', () => {
+    const m = makeMetadata({
+      cacheControl: {
+        ...makeMetadata().cacheControl,
+        sMaxAge: 0,
+        staleIfError: 60,
+      },
+    });
+    expect(calculateStoreTTL(m, 3600, 'shared')).toBe(60);
+    expect(calculateStoreTTL(m, 3600)).toBe(3600);
+  });
+
   it('uses freshness from Expires header', () => {
     const now = Date.now();
     const m = makeMetadata({
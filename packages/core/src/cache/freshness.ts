@@ -1,4 +1,6 @@
+import type { RequestCacheControlDirectives } from './cache-control-parser.js';
 import type { CacheEntryMetadata } from './cache-entry.js';
+import type { CacheMode } from './shared-cache.js';
 
 export type FreshnessStatus =
   | 'fresh'
@@ -11,23 +13,30 @@ export type FreshnessStatus =
 /**
  * Calculate the freshness lifetime of a cache entry in seconds.
  *
- * Priority order for a private cache (RFC 9111 §4.2.2):
- *   1. max-age (s-maxage is ignored — shared-cache-only)
- *   2. Expires − Date
- *   3. Heuristic: 10% of (Date − Last-Modified)
- *   4. 0 (treat as immediately stale)
+ * Priority order (RFC 9111 §4.2.1):
+ *   1. s-maxage, in a shared cache only
+ *   2. max-age
+ *   3. Expires − Date
+ *   4. Heuristic: 10% of (Date − Last-Modified)
+ *   5. 0 (treat as immediately stale)
  */
 export function calculateFreshnessLifetime(
   metadata: CacheEntryMetadata,
+  mode: CacheMode = 'private',
 ): number {
   const { cacheControl } = metadata;
 
-  // 1. max-age
+  // 1. s-maxage overrides max-age for shared caches only
+  if (mode === 'shared' && cacheControl.sMaxAge !== undefined) {
+    return cacheControl.sMaxAge;
+  }
+
+  // 2. max-age
   if (cacheControl.maxAge !== undefined) {
     return cacheControl.maxAge;
   }
 
-  // 2. Expires − Date
+  // 3. Expires − Date
   if (metadata.expires !== undefined) {
     // Expires: 0 means already expired
     if (metadata.expires === 0) return 0;
@@ -35,7 +44,7 @@ export function calculateFreshnessLifetime(
     return Math.max(0, delta);
   }
 
-  // 3. Heuristic: 10% of (Date − Last-Modified)
+  // 4. Heuristic: 10% of (Date − Last-Modified)
   if (metadata.lastModified) {
     const lastModMs = Date.parse(metadata.lastModified);
     if (Number.isFinite(lastModMs)) {
@@ -46,7 +55,7 @@ export function calculateFreshnessLifetime(
     }
   }
 
-  // 4. No freshness info — treat as immediately stale
+  // 5. No freshness info — treat as immediately stale
   return 0;
 }
 
@@ -93,34 +102,69 @@ export function calculateCurrentAge(
  *
  * Returns the most specific applicable status, used by HttpClient
  * to decide whether to serve from cache, revalidate, or re-fetch.
+ *
+ * `request` carries the request's own Cache-Control directives
+ * (RFC 9111 §5.2.1). An entry they reject comes back as
+ * `'must-revalidate'`. A stale entry within `max-stale` is still
+ * `'stale'`; use {@link acceptsStale} to decide whether to serve it.
+ *
+ * In a shared cache, `proxy-revalidate` and `s-maxage` forbid serving
+ * stale entries just as `must-revalidate` does (RFC 9111 §5.2.2.8, §5.2.2.10).
  */
 export function getFreshnessStatus(
   metadata: CacheEntryMetadata,
   now?: number,
+  request?: RequestCacheControlDirectives,
+  mode: CacheMode = 'private',
 ): FreshnessStatus {
   const { cacheControl } = metadata;
 
+  // Request no-cache: the caller wants the origin to confirm the entry
+  if (request?.noCache) {
+    return 'must-revalidate';
+  }
+
   // no-cache: always revalidate, even if "fresh" by age
   if (cacheControl.noCache) {
     return 'no-cache';
   }
 
-  const freshnessLifetime = calculateFreshnessLifetime(metadata);
+  const freshnessLifetime = calculateFreshnessLifetime(metadata, mode);
   const currentAge = calculateCurrentAge(metadata, now);
+  const tooOld = request?.maxAge !== undefined && currentAge > request.maxAge;
 
-  // Still fresh
-  if (freshnessLifetime > currentAge) {
+  // Still fresh, for at least min-fresh more seconds
+  if (!tooOld && freshnessLifetime - (request?.minFresh ?? 0) > currentAge) {
     return 'fresh';
   }
 
+  // Rejected by request max-age or min-fresh: no stale serving either
+  if (
+    tooOld ||
+    request?.minFresh !== undefined ||
+    freshnessLifetime > currentAge
+  ) {
+    return 'must-revalidate';
+  }
+
   // Stale. Determine which stale state applies.
   const staleness = currentAge - freshnessLifetime;
 
   // must-revalidate: cannot serve stale under any circumstances
-  if (cacheControl.mustRevalidate) {
+  if (
+    cacheControl.mustRevalidate ||
+    (mode === 'shared' &&
+      (cacheControl.proxyRevalidate || cacheControl.sMaxAge !== undefined))
+  ) {
     return 'must-revalidate';
   }
 
+  // Request max-stale: the caller accepts this much staleness, but the
+  // entry is stale all the same
+  if (request?.maxStale !== undefined && staleness <= request.maxStale) {
+    return 'stale';
+  }
+
   // stale-while-revalidate: can serve stale if within the SWR window
   if (
     cacheControl.staleWhileRevalidate !== undefined &&
@@ -140,6 +184,29 @@ export function getFreshnessStatus(
   return 'stale';
 }
 
+/**
+ * Whether the request's `max-stale` lets a stale entry be served as is
+ * (RFC 9111 §5.2.1.2). Never true for fresh entries, or for stale ones
+ * whose directives forbid serving them stale.
+ */
+export function acceptsStale(
+  metadata: CacheEntryMetadata,
+  now?: number,
+  request?: RequestCacheControlDirectives,
+  mode: CacheMode = 'private',
+): boolean {
+  if (
+    request?.maxStale === undefined ||
+    getFreshnessStatus(metadata, now, request, mode) !== 'stale'
+  ) {
+    return false;
+  }
+  const staleness =
+    calculateCurrentAge(metadata, now) -
+    calculateFreshnessLifetime(metadata, mode);
+  return staleness <= request.maxStale;
+}
+
 /**
  * Calculate the TTL to pass to CacheStore.set().
  *
@@ -152,11 +219,15 @@ export function getFreshnessStatus(
 export function calculateStoreTTL(
   metadata: CacheEntryMetadata,
   defaultTTL: number,
+  mode: CacheMode = 'private',
 ): number {
-  const freshness = calculateFreshnessLifetime(metadata);
+  const freshness = calculateFreshnessLifetime(metadata, mode);
+  const explicitLifetime =
+    metadata.cacheControl.maxAge !== undefined ||
+    (mode === 'shared' && metadata.cacheControl.sMaxAge !== undefined);
 
   // If no cache headers gave us a freshness lifetime, use the default
-  if (freshness === 0 && metadata.cacheControl.maxAge === undefined) {
+  if (freshness === 0 && !explicitLifetime) {
     // No explicit freshness info and heuristic returned 0.
     // Use defaultTTL so the entry doesn't expire immediately.
     return defaultTTL;
@@ -1,17 +1,37 @@
-export { parseCacheControl } from './cache-control-parser.js';
-export type { CacheControlDirectives } from './cache-control-parser.js';
+export {
+  parseCacheControl,
+  parseRequestCacheControl,
+  formatCacheControl,
+} from './cache-control-parser.js';
+export type {
+  CacheControlDirectives,
+  RequestCacheControlDirectives,
+} from './cache-control-parser.js';
 export {
   isCacheEntry,
   createCacheEntry,
   refreshCacheEntry,
   parseHttpDate,
+  buildCachedHeaders,
 } from './cache-entry.js';
 export type { CacheEntry, CacheEntryMetadata } from './cache-entry.js';
 export {
   calculateFreshnessLifetime,
   calculateCurrentAge,
   getFreshnessStatus,
+  acceptsStale,
   calculateStoreTTL,
 } from './freshness.js';
 export type { FreshnessStatus } from './freshness.js';
+export { isStorableInSharedCache } from './shared-cache.js';
+export type { CacheMode } from './shared-cache.js';
 export { parseVaryHeader, captureVaryValues, varyMatches } from './vary.js';
+export { getInvalidationTargets } from './invalidation.js';
+export {
+  isCacheVariantIndex,
+  variantKey,
+  selectVariant,
+  addVariant,
+  touchVariant,
+} from './variants.js';
+export type { CacheVariant, CacheVariantIndex } from './variants.js';
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { getInvalidationTargets } from './invalidation.js';
+
+describe('getInvalidationTargets', () => {
+  const url = 'https://api.example.com/items/1?expand=true';
+
+  it('always includes the target URI', () => {
+    expect(getInvalidationTargets(url, new Headers())).toEqual([url]);
+  });
+
+  it('includes same-origin Location and Content-Location', () => {
+    const headers = new Headers({
+      Location: 'https://api.example.com/items/2',
+      'Content-Location': '/items',
+    });
+
+    expect(getInvalidationTargets(url, headers)).toEqual([
+      url,
+      'https://api.example.com/items/2',
+      'https://api.example.com/items',
+    ]);
+  });
+
+  it('resolves relative values against the request URL', () => {
+    const headers = new Headers({ Location: '../collections' });
+
+    expect(getInvalidationTargets(url, headers)).toEqual([
+      url,
+      'https://api.example.com/collections',
+    ]);
+  });
+
+  it('ignores cross-origin header values', () => {
+    const headers = new Headers({
+      Location: 'https://other.example.com/items/1',
+      'Content-Location': 'http://api.example.com/items/1',
+    });
+
+    expect(getInvalidationTargets(url, headers)).toEqual([url]);
+  });
+
+  it('de-duplicates headers that point at the target', () => {
+    const headers = new Headers({ 'Content-Location': url });
+
+    expect(getInvalidationTargets(url, headers)).toEqual([url]);
+  });
+
+  it('ignores unparseable header values', () => {
+    const headers = new Headers({ Location: 'http://[invalid' });
+
+    expect(getInvalidationTargets(url, headers)).toEqual([url]);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Determine which cached URIs must be invalidated after an unsafe request.
+ *
+ * Per RFC 9111 §4.4, a cache must invalidate the target URI when it receives
+ * a non-error response to an unsafe method, and may invalidate the URIs in
+ * the `Location` and `Content-Location` response headers. The latter are only
+ * invalidated when they share the target's origin, to prevent a response from
+ * one origin evicting another origin's entries.
+ *
+ * Relative header values are resolved against the request URL. Returns a
+ * de-duplicated list of absolute URLs, target first.
+ */
+export function getInvalidationTargets(
+  requestUrl: string,
+  responseHeaders: Headers,
+): Array<string> {
+  const target = new URL(requestUrl);
+  const targets = new Set<string>([target.href]);
+
+  for (const name of ['location', 'content-location']) {
+    const value = responseHeaders.get(name);
+    if (!value) continue;
+
+    let resolved: URL;
+    try {
+      resolved = new URL(value, target);
+    } catch {
+      continue;
+    }
+
+    if (resolved.origin === target.origin) {
+      targets.add(resolved.href);
+    }
+  }
+
+  return [...targets];
+}
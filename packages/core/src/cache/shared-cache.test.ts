@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { parseCacheControl } from './cache-control-parser.js';
+import { isStorableInSharedCache } from './shared-cache.js';
+
+describe('isStorableInSharedCache', () => {
+  it('stores ordinary responses', () => {
+    expect(
+      isStorableInSharedCache(parseCacheControl('max-age=60'), false),
+    ).toBe(true);
+  });
+
+  it('refuses private responses', () => {
+    expect(
+      isStorableInSharedCache(parseCacheControl('private, max-age=60'), false),
+    ).toBe(false);
+    expect(
+      isStorableInSharedCache(parseCacheControl('private, public'), true),
+    ).toBe(false);
+  });
+
+  it('refuses authorized responses unless they allow sharing', () => {
+    expect(isStorableInSharedCache(parseCacheControl('max-age=60'), true)).toBe(
+      false,
+    );
+    for (const header of ['public', 's-maxage=60', 'must-revalidate']) {
+      expect(isStorableInSharedCache(parseCacheControl(header), true)).toBe(
+        true,
+      );
+    }
+  });
+});
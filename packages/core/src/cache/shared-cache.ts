@@ -0,0 +1,28 @@
+import type { CacheControlDirectives } from './cache-control-parser.js';
+
+/**
+ * Whether the cache serves one user (`'private'`) or is shared between
+ * users and services (`'shared'`), in the sense of RFC 9111 §1.
+ */
+export type CacheMode = 'private' | 'shared';
+
+/**
+ * Whether a shared cache may store a response (RFC 9111 §3).
+ *
+ * Returns false if:
+ *  - the response is marked `private` (§5.2.2.7)
+ *  - the request carried `Authorization`, unless the response allows it
+ *    with `public`, `s-maxage` or `must-revalidate` (§3.5)
+ */
+export function isStorableInSharedCache(
+  cacheControl: CacheControlDirectives,
+  requestHasAuthorization: boolean,
+): boolean {
+  if (cacheControl.private) return false;
+  if (!requestHasAuthorization) return true;
+  return (
+    cacheControl.public ||
+    cacheControl.mustRevalidate ||
+    cacheControl.sMaxAge !== undefined
+  );
+}
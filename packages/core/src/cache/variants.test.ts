@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import {
+  isCacheVariantIndex,
+  variantKey,
+  selectVariant,
+  addVariant,
+  touchVariant,
+  type CacheVariant,
+} from './variants.js';
+
+function variant(language: string, expiresAt = 10_000): CacheVariant {
+  const varyValues = { 'accept-language': language };
+  return {
+    key: variantKey('primary', 'Accept-Language', varyValues),
+    varyHeaders: 'Accept-Language',
+    varyValues,
+    expiresAt,
+  };
+}
+
+describe('isCacheVariantIndex', () => {
+  it('accepts an index', () => {
+    expect(isCacheVariantIndex({ __variantIndex: true, variants: [] })).toBe(
+      true,
+    );
+  });
+
+  it('rejects entries and raw values', () => {
+    expect(isCacheVariantIndex({ __cacheEntry: true, value: 1 })).toBe(false);
+    expect(isCacheVariantIndex({ __variantIndex: true })).toBe(false);
+    expect(isCacheVariantIndex(null)).toBe(false);
+    expect(isCacheVariantIndex('index')).toBe(false);
+  });
+});
+
+describe('variantKey', () => {
+  it('differs per vary value and ignores field case and spacing', () => {
+    const en = variantKey('primary', 'Accept-Language', {
+      'accept-language': 'en',
+    });
+    expect(
+      variantKey('primary', 'accept-language ', { 'accept-language': 'en' }),
+    ).toBe(en);
+    expect(
+      variantKey('primary', 'Accept-Language', { 'accept-language': 'fr' }),
+    ).not.toBe(en);
+    expect(
+      variantKey('other', 'Accept-Language', { 'accept-language': 'en' }),
+    ).not.toBe(en);
+  });
+});
+
+describe('selectVariant', () => {
+  it('returns the variant matching the request headers', () => {
+    const index = {
+      __variantIndex: true as const,
+      variants: [variant('en'), variant('fr')],
+    };
+
+    expect(selectVariant(index, { 'accept-language': 'fr' })).toBe(
+      index.variants[1],
+    );
+    expect(selectVariant(index, { 'accept-language': 'de' })).toBeUndefined();
+  });
+});
+
+describe('addVariant', () => {
+  it('puts the new variant first and replaces one with the same key', () => {
+    const first = addVariant(undefined, variant('en'), 8, 0).index;
+    const second = addVariant(first, variant('fr'), 8, 0).index;
+    const { index, evicted } = addVariant(second, variant('en', 20_000), 8, 0);
+
+    expect(index.variants.map((v) => v.varyValues['accept-language'])).toEqual([
+      'en',
+      'fr',
+    ]);
+    expect(index.variants[0]!.expiresAt).toBe(20_000);
+    expect(evicted).toEqual([]);
+  });
+
+  it('evicts the least recently used variants beyond the cap', () => {
+    let index = addVariant(undefined, variant('en'), 2, 0).index;
+    index = addVariant(index, variant('fr'), 2, 0).index;
+    const result = addVariant(index, variant('de'), 2, 0);
+
+    expect(
+      result.index.variants.map((v) => v.varyValues['accept-language']),
+    ).toEqual(['de', 'fr']);
+    expect(result.evicted.map((v) => v.varyValues['accept-language'])).toEqual([
+      'en',
+    ]);
+  });
+
+  it('drops expired variants without counting them as evicted', () => {
+    const index = addVariant(undefined, variant('en', 1_000), 8, 0).index;
+    const result = addVariant(index, variant('fr'), 8, 5_000);
+
+    expect(result.index.variants).toHaveLength(1);
+    expect(result.evicted).toEqual([]);
+  });
+});
+
+describe('touchVariant', () => {
+  it('moves a variant to the front', () => {
+    const en = variant('en');
+    const fr = variant('fr');
+    const index = { __variantIndex: true as const, variants: [en, fr] };
+
+    expect(touchVariant(index, fr.key)?.variants).toEqual([fr, en]);
+  });
+
+  it('returns undefined when the variant is already first or missing', () => {
+    const en = variant('en');
+    const index = { __variantIndex: true as const, variants: [en] };
+
+    expect(touchVariant(index, en.key)).toBeUndefined();
+    expect(touchVariant(index, 'missing')).toBeUndefined();
+  });
+});
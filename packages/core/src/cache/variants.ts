@@ -0,0 +1,105 @@
+import { varyMatches } from './vary.js';
+import { hashRequest } from '../stores/request-hasher.js';
+
+/** One stored variant of a response that has a `Vary` header. */
+export interface CacheVariant {
+  /** Secondary cache key the variant's entry is stored under. */
+  key: string;
+  /** Vary header value the variant was selected by. */
+  varyHeaders: string;
+  /** Request header values captured for the variant's Vary fields. */
+  varyValues: Record<string, string | undefined>;
+  /** Epoch ms when the variant's entry expires from the store. */
+  expiresAt: number;
+}
+
+/**
+ * Stored under a request's primary key in place of a `CacheEntry` when its
+ * response has a `Vary` header (RFC 9111 §4.1). Each variant's entry lives
+ * under its own secondary key, so variants selected by different request
+ * headers coexist.
+ */
+export interface CacheVariantIndex {
+  /** Discriminant field for the isCacheVariantIndex type guard */
+  __variantIndex: true;
+  /** Most recently used first. */
+  variants: Array<CacheVariant>;
+}
+
+/**
+ * Type guard: distinguishes a variant index from a cache entry or raw value.
+ */
+export function isCacheVariantIndex(
+  value: unknown,
+): value is CacheVariantIndex {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    (value as Record<string, unknown>).__variantIndex === true &&
+    Array.isArray((value as Record<string, unknown>).variants)
+  );
+}
+
+/**
+ * Secondary key for one variant: the primary key plus the normalised Vary
+ * field names and the request's values for them.
+ */
+export function variantKey(
+  primaryKey: string,
+  varyHeaders: string,
+  varyValues: Record<string, string | undefined>,
+): string {
+  return hashRequest(`${primaryKey} variant`, {
+    vary: varyHeaders.toLowerCase().replace(/\s+/g, ''),
+    values: varyValues,
+  });
+}
+
+/** The variant whose Vary values match the request headers, if any. */
+export function selectVariant(
+  index: CacheVariantIndex,
+  requestHeaders: Record<string, string | undefined>,
+): CacheVariant | undefined {
+  return index.variants.find((variant) =>
+    varyMatches(variant.varyValues, variant.varyHeaders, requestHeaders),
+  );
+}
+
+/**
+ * Record `variant` as the most recently used in `index`, replacing any
+ * variant with the same key and dropping expired ones. Variants beyond
+ * `maxVariants` are evicted least recently used first.
+ */
+export function addVariant(
+  index: CacheVariantIndex | undefined,
+  variant: CacheVariant,
+  maxVariants: number,
+  now = Date.now(),
+): { index: CacheVariantIndex; evicted: Array<CacheVariant> } {
+  const others = (index?.variants ?? []).filter(
+    (existing) => existing.key !== variant.key && existing.expiresAt > now,
+  );
+  const variants = [variant, ...others];
+  const keep = Math.max(maxVariants, 1);
+  return {
+    index: { __variantIndex: true, variants: variants.slice(0, keep) },
+    evicted: variants.slice(keep),
+  };
+}
+
+/**
+ * Move `key` to the front of the index, or `undefined` when it is already
+ * the most recently used and the index need not be rewritten.
+ */
+export function touchVariant(
+  index: CacheVariantIndex,
+  key: string,
+): CacheVariantIndex | undefined {
+  const position = index.variants.findIndex((variant) => variant.key === key);
+  if (position <= 0) {
+    return undefined;
+  }
+  const variants = [...index.variants];
+  const [variant] = variants.splice(position, 1);
+  return { __variantIndex: true, variants: [variant!, ...variants] };
+}
@@ -0,0 +1,17 @@
+import { HttpClientError } from './http-client-error.js';
+
+/**
+ * Thrown for `cache: 'only-if-cached'` requests with no usable cached
+ * response. The network is never contacted. The status is 504, as RFC 9111
+ * §5.2.1.7 prescribes for caches that cannot satisfy such a request.
+ */
+export class CacheMissError extends HttpClientError {
+  /** The URL that had no cached response. */
+  public readonly url: string;
+
+  constructor(url: string) {
+    super(`No cached response for ${url} (cache mode 'only-if-cached')`, 504);
+    this.name = 'CacheMissError';
+    this.url = url;
+  }
+}
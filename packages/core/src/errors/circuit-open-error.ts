@@ -0,0 +1,21 @@
+import { HttpClientError } from './http-client-error.js';
+
+/**
+ * Thrown without contacting the origin while its circuit breaker is open,
+ * or half-open with every probe slot taken.
+ */
+export class CircuitOpenError extends HttpClientError {
+  /** Origin whose breaker rejected the request. */
+  public readonly origin: string;
+  /** Ms until the breaker lets a probe request through. */
+  public readonly retryAfterMs: number;
+
+  constructor(origin: string, retryAfterMs: number) {
+    super(
+      `Circuit breaker for origin '${origin}' is open. Retry in ${retryAfterMs}ms.`,
+    );
+    this.name = 'CircuitOpenError';
+    this.origin = origin;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
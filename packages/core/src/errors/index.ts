@@ -2,3 +2,7 @@ export {
   HttpClientError,
   type HttpClientErrorOptions,
 } from './http-client-error.js';
+export { ResponseValidationError } from './response-validation-error.js';
+export { TimeoutError, type TimeoutPhase } from './timeout-error.js';
+export { CircuitOpenError } from './circuit-open-error.js';
+export { CacheMissError } from './cache-miss-error.js';
@@ -0,0 +1,38 @@
+import type { ZodIssue } from 'zod';
+import {
+  HttpClientError,
+  type HttpClientErrorOptions,
+} from './http-client-error.js';
+
+/**
+ * Thrown when a response does not match the request's `schema`.
+ * Invalid payloads are never cached or shared with deduplicated callers.
+ */
+export class ResponseValidationError extends HttpClientError {
+  /** The URL whose response failed validation. */
+  public readonly url: string;
+  /** Zod issues describing every mismatch. */
+  public readonly issues: Array<ZodIssue>;
+
+  constructor(
+    url: string,
+    issues: Array<ZodIssue>,
+    options?: HttpClientErrorOptions,
+  ) {
+    const summary = issues
+      .map((issue) =>
+        issue.path.length > 0
+          ? `${issue.path.join('.')}: ${issue.message}`
+          : issue.message,
+      )
+      .join('; ');
+    super(
+      `Response from ${url} failed schema validation: ${summary}`,
+      undefined,
+      options,
+    );
+    this.name = 'ResponseValidationError';
+    this.url = url;
+    this.issues = issues;
+  }
+}
@@ -0,0 +1,26 @@
+import { HttpClientError } from './http-client-error.js';
+
+/**
+ * Which timeout budget expired:
+ * - `'total'`: the whole call, including rate-limit/cooldown waits and retries
+ * - `'attempt'`: a single fetch attempt inside the retry loop
+ */
+export type TimeoutPhase = 'total' | 'attempt';
+
+/**
+ * Thrown when a request exceeds its configured `timeout`.
+ * Distinct from a caller-initiated `AbortError`.
+ */
+export class TimeoutError extends HttpClientError {
+  /** The budget that expired, in milliseconds. */
+  public readonly timeout: number;
+  /** Which budget expired. */
+  public readonly phase: TimeoutPhase;
+
+  constructor(message: string, timeout: number, phase: TimeoutPhase) {
+    super(message);
+    this.name = 'TimeoutError';
+    this.timeout = timeout;
+    this.phase = phase;
+  }
+}
@@ -0,0 +1,31 @@
+import type { AuthProvider } from '../auth/index.js';
+
+/**
+ * Shares token refreshes between requests. Internal: the client creates
+ * one when `auth` is configured.
+ */
+export class AuthSession {
+  private refreshing?: Promise<string>;
+
+  constructor(private readonly provider: AuthProvider) {}
+
+  getToken(): Promise<string> {
+    return this.provider.getToken();
+  }
+
+  /**
+   * A token to replace `rejected`. Requests that hit 401 at the same moment
+   * share one `refreshToken()` call; a request that was rejected after
+   * another already refreshed gets the current token without a new refresh.
+   */
+  refreshAfter(rejected: string): Promise<string> {
+    // Assigned synchronously so concurrent callers cannot both refresh
+    this.refreshing ??= (async () => {
+      const current = await this.provider.getToken();
+      return current === rejected ? this.provider.refreshToken() : current;
+    })().finally(() => {
+      this.refreshing = undefined;
+    });
+    return this.refreshing;
+  }
+}
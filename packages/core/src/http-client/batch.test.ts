@@ -0,0 +1,141 @@
+import { runBatch, type GetManyProgress } from './batch.js';
+
+const urls = ['https://a.test/1', 'https://a.test/2', 'https://a.test/3'];
+
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((r) => {
+    resolve = r;
+  });
+  return { promise, resolve };
+}
+
+describe('runBatch', () => {
+  test('settles every URL in input order', async () => {
+    const results = await runBatch(
+      urls,
+      { concurrency: 2, stopOnError: false, immediate: new Set() },
+      async (url, index) => {
+        if (index === 1) throw new Error('boom');
+        // Finish out of order
+        await new Promise((resolve) => setTimeout(resolve, 10 - index * 5));
+        return url.length;
+      },
+    );
+
+    expect(results).toEqual([
+      { status: 'fulfilled', url: urls[0], data: 16 },
+      { status: 'rejected', url: urls[1], error: new Error('boom') },
+      { status: 'fulfilled', url: urls[2], data: 16 },
+    ]);
+  });
+
+  test('keeps at most `concurrency` queued URLs in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    await runBatch(
+      [...urls, ...urls],
+      { concurrency: 2, stopOnError: false, immediate: new Set() },
+      async () => {
+        inFlight += 1;
+        peak = Math.max(peak, inFlight);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        inFlight -= 1;
+      },
+    );
+
+    expect(peak).toBe(2);
+  });
+
+  test('runs immediate URLs outside the concurrency limit', async () => {
+    const gate = deferred<void>();
+    const started: Array<number> = [];
+
+    const batch = runBatch(
+      urls,
+      { concurrency: 1, stopOnError: false, immediate: new Set([1, 2]) },
+      async (_url, index) => {
+        started.push(index);
+        if (index === 0) await gate.promise;
+        return index;
+      },
+    );
+    await Promise.resolve();
+
+    expect(started.sort()).toEqual([0, 1, 2]);
+    gate.resolve();
+    await batch;
+  });
+
+  test('stopOnError aborts requests in flight and skips the rest', async () => {
+    const seen: Array<AbortSignal> = [];
+
+    const results = await runBatch(
+      [...urls, 'https://a.test/4'],
+      { concurrency: 2, stopOnError: true, immediate: new Set() },
+      (_url, index, signal) => {
+        seen.push(signal);
+        if (index === 1) return Promise.reject(new Error('boom'));
+        return new Promise((_, reject) => {
+          signal.addEventListener('abort', () => reject(new Error('aborted')));
+        });
+      },
+    );
+
+    expect(results.map((result) => result.status)).toEqual([
+      'aborted',
+      'rejected',
+      'aborted',
+      'aborted',
+    ]);
+    expect(seen).toHaveLength(2);
+  });
+
+  test('reports the caller aborting as aborted results', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const fetchOne = vi.fn();
+
+    const results = await runBatch(
+      urls,
+      {
+        concurrency: 2,
+        stopOnError: false,
+        signal: controller.signal,
+        immediate: new Set(),
+      },
+      fetchOne,
+    );
+
+    expect(results.every((result) => result.status === 'aborted')).toBe(true);
+    expect(fetchOne).not.toHaveBeenCalled();
+  });
+
+  test('reports progress as each URL settles', async () => {
+    const progress: Array<GetManyProgress> = [];
+
+    await runBatch(
+      urls,
+      {
+        concurrency: 1,
+        stopOnError: false,
+        immediate: new Set(),
+        onProgress: (update) => progress.push(update),
+      },
+      async (_url, index) => {
+        if (index === 2) throw new Error('boom');
+        return index;
+      },
+    );
+
+    expect(progress.at(-1)).toEqual({
+      total: 3,
+      completed: 3,
+      fulfilled: 2,
+      rejected: 1,
+      aborted: 0,
+    });
+    expect(progress.map((update) => update.completed)).toEqual([1, 2, 3]);
+  });
+});
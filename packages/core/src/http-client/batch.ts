@@ -0,0 +1,131 @@
+import type { RequestOptions } from '../types/index.js';
+
+/**
+ * Outcome of one URL in a `getMany()` batch. `'aborted'` covers URLs
+ * cancelled by the caller's signal or skipped after `stopOnError`.
+ */
+export type GetManyResult<Result> =
+  | { status: 'fulfilled'; url: string; data: Result }
+  | { status: 'rejected'; url: string; error: Error }
+  | { status: 'aborted'; url: string };
+
+export interface GetManyProgress {
+  total: number;
+  completed: number;
+  fulfilled: number;
+  rejected: number;
+  aborted: number;
+}
+
+export interface GetManyOptions<Result>
+  extends Omit<RequestOptions, 'responseType' | 'bufferStream'> {
+  /** Requests to the origin in flight at once. Defaults to 4. */
+  concurrency?: number;
+  /**
+   * Stop at the first rejected URL: requests in flight are aborted and
+   * URLs not yet started are reported as `'aborted'`. Defaults to `false`.
+   */
+  stopOnError?: boolean;
+  /** Called as each URL settles, with running totals. */
+  onProgress?: (
+    progress: GetManyProgress,
+    result: GetManyResult<Result>,
+  ) => void;
+}
+
+interface BatchRunOptions<Result> {
+  concurrency: number;
+  stopOnError: boolean;
+  signal?: AbortSignal;
+  onProgress?: GetManyOptions<Result>['onProgress'];
+  /** Indexes to run straight away, outside the concurrency limit. */
+  immediate: ReadonlySet<number>;
+}
+
+/**
+ * Run `fetchOne` for every URL and settle each into a result, in input
+ * order. Internal: `HttpClient.getMany()` supplies `fetchOne` and decides
+ * which URLs are cache hits that may skip the queue.
+ */
+export async function runBatch<Result>(
+  urls: ReadonlyArray<string>,
+  options: BatchRunOptions<Result>,
+  fetchOne: (
+    url: string,
+    index: number,
+    signal: AbortSignal,
+  ) => Promise<Result>,
+): Promise<Array<GetManyResult<Result>>> {
+  const results = new Array<GetManyResult<Result>>(urls.length);
+  const progress: GetManyProgress = {
+    total: urls.length,
+    completed: 0,
+    fulfilled: 0,
+    rejected: 0,
+    aborted: 0,
+  };
+
+  // One signal for the whole batch: the caller's, or stopOnError
+  const controller = new AbortController();
+  const onAbort = () => controller.abort();
+  if (options.signal?.aborted) {
+    controller.abort();
+  } else {
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+  }
+
+  const settle = (index: number, result: GetManyResult<Result>) => {
+    results[index] = result;
+    progress.completed += 1;
+    progress[result.status] += 1;
+    options.onProgress?.({ ...progress }, result);
+  };
+
+  const run = async (index: number): Promise<void> => {
+    const url = urls[index]!;
+    if (controller.signal.aborted) {
+      settle(index, { status: 'aborted', url });
+      return;
+    }
+    try {
+      const data = await fetchOne(url, index, controller.signal);
+      settle(index, { status: 'fulfilled', url, data });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        settle(index, { status: 'aborted', url });
+        return;
+      }
+      settle(index, {
+        status: 'rejected',
+        url,
+        error: error instanceof Error ? error : new Error(String(error)),
+      });
+      if (options.stopOnError) {
+        controller.abort();
+      }
+    }
+  };
+
+  const queue = urls
+    .map((_, index) => index)
+    .filter((index) => !options.immediate.has(index));
+  let next = 0;
+  const worker = async () => {
+    while (next < queue.length) {
+      await run(queue[next++]!);
+    }
+  };
+
+  try {
+    await Promise.all([
+      ...[...options.immediate].map(run),
+      ...Array.from(
+        { length: Math.min(Math.max(options.concurrency, 1), queue.length) },
+        worker,
+      ),
+    ]);
+  } finally {
+    options.signal?.removeEventListener('abort', onAbort);
+  }
+  return results;
+}
@@ -0,0 +1,194 @@
+import { Bulkhead } from './bulkhead.js';
+
+const origin = 'https://api.example.com';
+
+describe('Bulkhead', () => {
+  test('admits up to the origin limit and queues the rest in order', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrentPerOrigin: 1 }, 1_000);
+    const admitted: Array<string> = [];
+
+    const releaseFirst = await bulkhead.acquire(origin, 'a', 'background');
+    const second = bulkhead
+      .acquire(origin, 'b', 'background')
+      .then((release) => {
+        admitted.push('second');
+        return release;
+      });
+    const third = bulkhead
+      .acquire(origin, 'c', 'background')
+      .then((release) => {
+        admitted.push('third');
+        return release;
+      });
+
+    expect(bulkhead.getStatus().origins[origin]).toEqual({
+      maxConcurrent: 1,
+      inFlight: 1,
+      queued: 2,
+    });
+
+    releaseFirst();
+    (await second)();
+    (await third)();
+
+    expect(admitted).toEqual(['second', 'third']);
+    expect(bulkhead.getStatus()).toEqual({ origins: {}, resources: {} });
+  });
+
+  test('queues user requests ahead of background requests', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrentPerOrigin: 1 }, 1_000);
+    const admitted: Array<string> = [];
+
+    const release = await bulkhead.acquire(origin, 'a', 'background');
+    const background = bulkhead
+      .acquire(origin, 'a', 'background')
+      .then((next) => {
+        admitted.push('background');
+        next();
+      });
+    const user = bulkhead.acquire(origin, 'a', 'user').then((next) => {
+      admitted.push('user');
+      next();
+    });
+
+    release();
+    await Promise.all([background, user]);
+
+    expect(admitted).toEqual(['user', 'background']);
+  });
+
+  test('limits resources separately from their origin', async () => {
+    const bulkhead = new Bulkhead(
+      { maxConcurrentPerOrigin: 3, resources: { search: 1 } },
+      1_000,
+    );
+
+    const release = await bulkhead.acquire(origin, 'search', 'user');
+    const queued = bulkhead.acquire(origin, 'search', 'user');
+    // Another resource on the same origin is not held up
+    const other = await bulkhead.acquire(origin, 'items', 'user');
+
+    expect(bulkhead.getStatus()).toEqual({
+      origins: { [origin]: { maxConcurrent: 3, inFlight: 2, queued: 1 } },
+      resources: { search: { maxConcurrent: 1, inFlight: 1, queued: 1 } },
+    });
+
+    release();
+    (await queued)();
+    other();
+  });
+
+  test('keeps a slot for a queued request waiting on several compartments', async () => {
+    const bulkhead = new Bulkhead(
+      { origins: { [origin]: 1 }, resources: { search: 1 } },
+      1_000,
+    );
+    const admitted: Array<string> = [];
+    const track = (name: string) => (release: () => void) => {
+      admitted.push(name);
+      return release;
+    };
+
+    const search = await bulkhead.acquire(
+      'https://other.example.com',
+      'search',
+      'user',
+    );
+    const items = await bulkhead.acquire(origin, 'items', 'user');
+    const waiting = bulkhead
+      .acquire(origin, 'search', 'user')
+      .then(track('waiting'));
+
+    items();
+    // The free origin slot is owed to the request still waiting on search
+    const later = bulkhead
+      .acquire(origin, 'items', 'user')
+      .then(track('later'));
+    expect(bulkhead.tryAcquire(origin, 'items')).toBeUndefined();
+    expect(bulkhead.getStatus().origins[origin]).toEqual({
+      maxConcurrent: 1,
+      inFlight: 0,
+      queued: 2,
+    });
+
+    search();
+    (await waiting)();
+    (await later)();
+
+    expect(admitted).toEqual(['waiting', 'later']);
+  });
+
+  test('hands on the slot owed to a request that gives up', async () => {
+    const bulkhead = new Bulkhead(
+      { origins: { [origin]: 1 }, resources: { search: 1 } },
+      1_000,
+    );
+    await bulkhead.acquire('https://other.example.com', 'search', 'user');
+    const controller = new AbortController();
+
+    const waiting = bulkhead.acquire(
+      origin,
+      'search',
+      'user',
+      controller.signal,
+    );
+    const later = bulkhead.acquire(origin, 'items', 'user');
+    controller.abort();
+
+    await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+    (await later)();
+  });
+
+  test('rejects when the wait exceeds maxWaitTime', async () => {
+    const bulkhead = new Bulkhead(
+      { origins: { [origin]: 1 }, maxWaitTime: 10 },
+      60_000,
+    );
+    await bulkhead.acquire(origin, 'a', 'user');
+
+    await expect(bulkhead.acquire(origin, 'a', 'user')).rejects.toThrow(
+      `Concurrency limit wait exceeded maxWaitTime (10ms) for origin '${origin}'.`,
+    );
+    expect(bulkhead.getStatus().origins[origin]!.queued).toBe(0);
+  });
+
+  test('removes aborted requests from the queue', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrentPerOrigin: 1 }, 1_000);
+    await bulkhead.acquire(origin, 'a', 'user');
+    const controller = new AbortController();
+
+    const queued = bulkhead.acquire(origin, 'a', 'user', controller.signal);
+    controller.abort();
+
+    await expect(queued).rejects.toMatchObject({ name: 'AbortError' });
+    expect(bulkhead.getStatus().origins[origin]!.queued).toBe(0);
+  });
+
+  test('tryAcquire never jumps the queue', async () => {
+    const bulkhead = new Bulkhead({ maxConcurrentPerOrigin: 2 }, 1_000);
+    const first = await bulkhead.acquire(origin, 'a', 'user');
+    const second = bulkhead.tryAcquire(origin, 'a');
+    expect(second).toBeTypeOf('function');
+    expect(bulkhead.tryAcquire(origin, 'a')).toBeUndefined();
+
+    const queued = bulkhead.acquire(origin, 'a', 'user');
+    first();
+    // The freed slot went to the queued request
+    expect(bulkhead.tryAcquire(origin, 'a')).toBeUndefined();
+    (await queued)();
+    second!();
+  });
+
+  test('does not limit origins and resources without a maxConcurrent', async () => {
+    const bulkhead = new Bulkhead({ resources: { search: 1 } }, 1_000);
+
+    const releases = await Promise.all(
+      Array.from({ length: 5 }, () =>
+        bulkhead.acquire(origin, 'items', 'user'),
+      ),
+    );
+
+    expect(releases).toHaveLength(5);
+    expect(bulkhead.getStatus()).toEqual({ origins: {}, resources: {} });
+  });
+});
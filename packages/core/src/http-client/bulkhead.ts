@@ -0,0 +1,280 @@
+import type { RequestPriority } from '../stores/index.js';
+
+export interface BulkheadOptions {
+  /** Requests in flight at once per origin, unless set in `origins`. */
+  maxConcurrentPerOrigin?: number;
+  /** Requests in flight at once per resource, unless set in `resources`. */
+  maxConcurrentPerResource?: number;
+  /** `maxConcurrent` for specific origins, e.g. `{ 'https://api.example.com': 4 }`. */
+  origins?: Record<string, number>;
+  /** `maxConcurrent` for specific resources. */
+  resources?: Record<string, number>;
+  /** Longest a request may wait in the queue, in ms. Defaults to the client `maxWaitTime`. */
+  maxWaitTime?: number;
+}
+
+export interface BulkheadStatus {
+  maxConcurrent: number;
+  inFlight: number;
+  queued: number;
+}
+
+/** Live counts for every origin and resource with a concurrency limit. */
+export interface BulkheadSnapshot {
+  origins: Record<string, BulkheadStatus>;
+  resources: Record<string, BulkheadStatus>;
+}
+
+interface Compartment {
+  kind: 'origin' | 'resource';
+  name: string;
+  limit: number;
+}
+
+interface Waiter {
+  compartments: Array<Compartment>;
+  priority: RequestPriority;
+  admit: () => void;
+}
+
+function compartmentKey(compartment: Compartment): string {
+  return `${compartment.kind}:${compartment.name}`;
+}
+
+/**
+ * Caps requests in flight per origin and per resource. Requests over a cap
+ * wait in one queue, user priority ahead of background and FIFO otherwise.
+ * A queued request is admitted as soon as every compartment it needs has
+ * room, so one full resource does not hold up others on the same origin.
+ * Each queued request is owed a slot in every compartment it needs, which
+ * later requests leave free, so a request waiting on several compartments
+ * is not starved by later ones that need fewer.
+ * Internal: the client creates one when `bulkhead` is configured.
+ */
+export class Bulkhead {
+  private readonly inFlight = new Map<string, number>();
+  private queue: Array<Waiter> = [];
+
+  constructor(
+    private readonly options: BulkheadOptions,
+    private readonly defaultMaxWaitTime: number,
+  ) {}
+
+  /**
+   * Wait for a slot in the request's origin and resource. Resolves with a
+   * function that releases the slot, which must be called exactly once.
+   */
+  acquire(
+    origin: string,
+    resource: string,
+    priority: RequestPriority,
+    signal?: AbortSignal,
+  ): Promise<() => void> {
+    const compartments = this.compartmentsFor(origin, resource);
+    const release = this.tryTake(compartments);
+    if (release) {
+      return Promise.resolve(release);
+    }
+
+    const maxWaitTime = this.options.maxWaitTime ?? this.defaultMaxWaitTime;
+
+    return new Promise<() => void>((resolve, reject) => {
+      const leave = () => {
+        this.queue = this.queue.filter((queued) => queued !== waiter);
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+
+      const waiter: Waiter = {
+        compartments,
+        priority,
+        admit: () => {
+          leave();
+          resolve(this.take(compartments));
+        },
+      };
+
+      // Leaving frees the slots this request was owed
+      const onAbort = () => {
+        leave();
+        this.drain();
+        const err = new Error('Aborted');
+        err.name = 'AbortError';
+        reject(err);
+      };
+
+      const timer = setTimeout(() => {
+        leave();
+        this.drain();
+        const full = compartments.find(
+          (compartment) => !this.hasRoom(compartment),
+        );
+        reject(
+          new Error(
+            `Concurrency limit wait exceeded maxWaitTime (${maxWaitTime}ms) for ${full?.kind ?? 'origin'} '${full?.name ?? origin}'.`,
+          ),
+        );
+      }, maxWaitTime);
+
+      if (signal?.aborted) {
+        onAbort();
+        return;
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.enqueue(waiter);
+    });
+  }
+
+  /**
+   * Take a slot only if one is free right now, e.g. for a hedge that is not
+   * worth waiting for. Queued requests keep their turn.
+   */
+  tryAcquire(origin: string, resource: string): (() => void) | undefined {
+    return this.tryTake(this.compartmentsFor(origin, resource));
+  }
+
+  getStatus(): BulkheadSnapshot {
+    const snapshot: BulkheadSnapshot = { origins: {}, resources: {} };
+    const statusFor = (compartment: Compartment): BulkheadStatus => {
+      const group =
+        compartment.kind === 'origin' ? snapshot.origins : snapshot.resources;
+      return (group[compartment.name] ??= {
+        maxConcurrent: compartment.limit,
+        inFlight: this.inFlight.get(compartmentKey(compartment)) ?? 0,
+        queued: 0,
+      });
+    };
+
+    for (const key of this.inFlight.keys()) {
+      const separator = key.indexOf(':');
+      const kind = key.slice(0, separator) as Compartment['kind'];
+      const name = key.slice(separator + 1);
+      const limit = this.limitFor(kind, name);
+      if (limit !== undefined) {
+        statusFor({ kind, name, limit });
+      }
+    }
+    for (const waiter of this.queue) {
+      for (const compartment of waiter.compartments) {
+        statusFor(compartment).queued += 1;
+      }
+    }
+    return snapshot;
+  }
+
+  private compartmentsFor(
+    origin: string,
+    resource: string,
+  ): Array<Compartment> {
+    const compartments: Array<Compartment> = [];
+    const originLimit = this.limitFor('origin', origin);
+    if (originLimit !== undefined) {
+      compartments.push({ kind: 'origin', name: origin, limit: originLimit });
+    }
+    const resourceLimit = this.limitFor('resource', resource);
+    if (resourceLimit !== undefined) {
+      compartments.push({
+        kind: 'resource',
+        name: resource,
+        limit: resourceLimit,
+      });
+    }
+    return compartments;
+  }
+
+  private limitFor(
+    kind: Compartment['kind'],
+    name: string,
+  ): number | undefined {
+    return kind === 'origin'
+      ? (this.options.origins?.[name] ?? this.options.maxConcurrentPerOrigin)
+      : (this.options.resources?.[name] ??
+          this.options.maxConcurrentPerResource);
+  }
+
+  /** Whether a compartment has a slot beyond those `owed` to queued requests. */
+  private hasRoom(
+    compartment: Compartment,
+    owed?: Map<string, number>,
+  ): boolean {
+    const key = compartmentKey(compartment);
+    return (
+      (this.inFlight.get(key) ?? 0) + (owed?.get(key) ?? 0) < compartment.limit
+    );
+  }
+
+  /** Count one slot owed to `waiter` in each of its compartments. */
+  private owe(owed: Map<string, number>, waiter: Waiter): void {
+    for (const compartment of waiter.compartments) {
+      const key = compartmentKey(compartment);
+      owed.set(key, (owed.get(key) ?? 0) + 1);
+    }
+  }
+
+  /**
+   * Take a slot without queueing, leaving free the slots owed to queued
+   * requests so a new arrival never takes one ahead of them.
+   */
+  private tryTake(compartments: Array<Compartment>): (() => void) | undefined {
+    const owed = new Map<string, number>();
+    for (const waiter of this.queue) {
+      this.owe(owed, waiter);
+    }
+    if (!compartments.every((c) => this.hasRoom(c, owed))) {
+      return undefined;
+    }
+    return this.take(compartments);
+  }
+
+  private take(compartments: Array<Compartment>): () => void {
+    for (const compartment of compartments) {
+      const key = compartmentKey(compartment);
+      this.inFlight.set(key, (this.inFlight.get(key) ?? 0) + 1);
+    }
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      for (const compartment of compartments) {
+        const key = compartmentKey(compartment);
+        const count = (this.inFlight.get(key) ?? 0) - 1;
+        if (count > 0) {
+          this.inFlight.set(key, count);
+        } else {
+          this.inFlight.delete(key);
+        }
+      }
+      this.drain();
+    };
+  }
+
+  private enqueue(waiter: Waiter): void {
+    if (waiter.priority === 'user') {
+      // Ahead of every background request, behind earlier user requests
+      const firstBackground = this.queue.findIndex(
+        (queued) => queued.priority !== 'user',
+      );
+      if (firstBackground !== -1) {
+        this.queue.splice(firstBackground, 0, waiter);
+        return;
+      }
+    }
+    this.queue.push(waiter);
+  }
+
+  /**
+   * Admit queued requests, in order, whose compartments all have room once
+   * the slots owed to requests ahead of them are set aside.
+   */
+  private drain(): void {
+    const owed = new Map<string, number>();
+    for (const waiter of [...this.queue]) {
+      if (waiter.compartments.every((c) => this.hasRoom(c, owed))) {
+        waiter.admit();
+      } else {
+        this.owe(owed, waiter);
+      }
+    }
+  }
+}
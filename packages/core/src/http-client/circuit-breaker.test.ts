@@ -0,0 +1,211 @@
+import { CircuitBreaker } from './circuit-breaker.js';
+import { CircuitOpenError } from '../errors/circuit-open-error.js';
+import type {
+  CircuitBreakerState,
+  CircuitBreakerStore,
+} from '../stores/index.js';
+
+const origin = 'https://api.example.com';
+
+describe('CircuitBreaker', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    vi.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  async function fail(breaker: CircuitBreaker, times = 1) {
+    for (let i = 0; i < times; i++) {
+      await breaker.acquire(origin);
+      await breaker.onFailure(origin);
+    }
+  }
+
+  test('opens after consecutive failures and fails fast while cooling off', async () => {
+    const breaker = new CircuitBreaker({
+      consecutiveFailureThreshold: 3,
+      coolOffMs: 1_000,
+    });
+
+    await fail(breaker, 2);
+    expect((await breaker.getState(origin)).state).toBe('closed');
+    await fail(breaker);
+    expect((await breaker.getState(origin)).state).toBe('open');
+
+    now += 400;
+    const error = await breaker.acquire(origin).catch((e) => e);
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error).toMatchObject({ origin, retryAfterMs: 600 });
+    await expect(breaker.assertNotOpen(origin)).rejects.toThrow(
+      CircuitOpenError,
+    );
+  });
+
+  test('a success resets the consecutive failure count', async () => {
+    const breaker = new CircuitBreaker({ consecutiveFailureThreshold: 2 });
+
+    await fail(breaker);
+    await breaker.acquire(origin);
+    await breaker.onSuccess(origin);
+    await fail(breaker);
+
+    expect((await breaker.getState(origin)).state).toBe('closed');
+  });
+
+  test('opens on the failure rate once the window has enough requests', async () => {
+    const breaker = new CircuitBreaker({
+      consecutiveFailureThreshold: 100,
+      failureRateThreshold: 0.5,
+      minimumRequests: 4,
+    });
+
+    for (const ok of [true, false, true]) {
+      await breaker.acquire(origin);
+      await (ok ? breaker.onSuccess(origin) : breaker.onFailure(origin));
+    }
+    expect((await breaker.getState(origin)).state).toBe('closed');
+
+    await fail(breaker);
+    expect((await breaker.getState(origin)).state).toBe('open');
+  });
+
+  test('starts a new failure-rate window after windowMs', async () => {
+    const breaker = new CircuitBreaker({
+      consecutiveFailureThreshold: 100,
+      minimumRequests: 2,
+      windowMs: 1_000,
+    });
+
+    await fail(breaker);
+    now += 1_000;
+    await breaker.acquire(origin);
+    await breaker.onSuccess(origin);
+
+    expect(await breaker.getState(origin)).toMatchObject({
+      state: 'closed',
+      windowRequests: 1,
+      windowFailures: 0,
+    });
+  });
+
+  test('half-opens after the cool-off and limits probes', async () => {
+    const breaker = new CircuitBreaker({
+      consecutiveFailureThreshold: 1,
+      coolOffMs: 1_000,
+    });
+    await fail(breaker);
+    now += 1_000;
+
+    await breaker.acquire(origin);
+    expect((await breaker.getState(origin)).state).toBe('half-open');
+    await expect(breaker.acquire(origin)).rejects.toMatchObject({
+      retryAfterMs: 0,
+    });
+
+    await breaker.onSuccess(origin);
+    expect((await breaker.getState(origin)).state).toBe('closed');
+    await expect(breaker.acquire(origin)).resolves.toBeUndefined();
+  });
+
+  test('a failed probe re-opens the breaker', async () => {
+    const breaker = new CircuitBreaker({
+      consecutiveFailureThreshold: 1,
+      coolOffMs: 1_000,
+    });
+    await fail(breaker);
+    now += 1_000;
+
+    await fail(breaker);
+
+    expect(await breaker.getState(origin)).toMatchObject({
+      state: 'open',
+      openedAt: now,
+    });
+  });
+
+  test('a released probe frees its slot', async () => {
+    const breaker = new CircuitBreaker({
+      consecutiveFailureThreshold: 1,
+      coolOffMs: 1_000,
+    });
+    await fail(breaker);
+    now += 1_000;
+
+    await breaker.acquire(origin);
+    breaker.release(origin);
+
+    await expect(breaker.acquire(origin)).resolves.toBeUndefined();
+  });
+
+  test('keeps state in the given store', async () => {
+    const states = new Map<string, CircuitBreakerState>();
+    const store: CircuitBreakerStore = {
+      get: vi.fn(async (key: string) => states.get(key)),
+      set: vi.fn(async (key: string, state: CircuitBreakerState) => {
+        states.set(key, state);
+      }),
+      delete: vi.fn(async (key: string) => {
+        states.delete(key);
+      }),
+    };
+    const first = new CircuitBreaker({ consecutiveFailureThreshold: 1 }, store);
+    const second = new CircuitBreaker(
+      { consecutiveFailureThreshold: 1 },
+      store,
+    );
+
+    await fail(first);
+
+    expect(states.get(origin)?.state).toBe('open');
+    await expect(second.acquire(origin)).rejects.toThrow(CircuitOpenError);
+  });
+
+  test("records concurrent outcomes through the store's update", async () => {
+    const states = new Map<string, CircuitBreakerState>();
+    const store: CircuitBreakerStore = {
+      get: vi.fn(async (key: string) => states.get(key)),
+      set: vi.fn(),
+      delete: vi.fn(),
+      update: vi.fn(async (key, updater) => {
+        const next = updater(states.get(key));
+        if (next) states.set(key, next);
+        return states.get(key);
+      }),
+    };
+    const breakers = [1, 2].map(
+      () => new CircuitBreaker({ consecutiveFailureThreshold: 2 }, store),
+    );
+
+    await Promise.all(breakers.map((breaker) => fail(breaker)));
+
+    expect(states.get(origin)?.state).toBe('open');
+    expect(store.set).not.toHaveBeenCalled();
+  });
+
+  test('does not write a state that has not changed', async () => {
+    const states = new Map<string, CircuitBreakerState>();
+    const store: CircuitBreakerStore = {
+      get: vi.fn(async (key: string) => states.get(key)),
+      set: vi.fn(async (key: string, state: CircuitBreakerState) => {
+        states.set(key, state);
+      }),
+      delete: vi.fn(),
+    };
+    const first = new CircuitBreaker({ consecutiveFailureThreshold: 1 }, store);
+    const second = new CircuitBreaker(
+      { consecutiveFailureThreshold: 1 },
+      store,
+    );
+    await second.acquire(origin);
+
+    await fail(first);
+    await second.onFailure(origin);
+
+    expect(store.set).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,256 @@
+import { CircuitOpenError } from '../errors/circuit-open-error.js';
+import type {
+  CircuitBreakerState,
+  CircuitBreakerStore,
+} from '../stores/index.js';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the breaker. Defaults to 5. */
+  consecutiveFailureThreshold?: number;
+  /**
+   * Failure ratio (0–1) within `windowMs` that opens the breaker once at
+   * least `minimumRequests` were recorded. Defaults to 0.5.
+   */
+  failureRateThreshold?: number;
+  /** Requests needed in a window before its failure rate counts. Defaults to 10. */
+  minimumRequests?: number;
+  /** Length of the failure-rate window in ms. Defaults to 60 000. */
+  windowMs?: number;
+  /** How long an open breaker rejects requests before probing, in ms. Defaults to 30 000. */
+  coolOffMs?: number;
+  /** Probe requests allowed at once while half-open, per process. Defaults to 1. */
+  halfOpenMaxRequests?: number;
+  /**
+   * While open, serve any cached entry for the request, even one outside its
+   * `stale-if-error` window. Entries inside the window are always served.
+   * Defaults to `false`.
+   */
+  serveStaleWhenOpen?: boolean;
+}
+
+function closedState(now: number): CircuitBreakerState {
+  return {
+    state: 'closed',
+    openedAt: 0,
+    consecutiveFailures: 0,
+    windowStart: now,
+    windowRequests: 0,
+    windowFailures: 0,
+  };
+}
+
+function sameState(a: CircuitBreakerState, b: CircuitBreakerState): boolean {
+  return (
+    a.state === b.state &&
+    a.openedAt === b.openedAt &&
+    a.consecutiveFailures === b.consecutiveFailures &&
+    a.windowStart === b.windowStart &&
+    a.windowRequests === b.windowRequests &&
+    a.windowFailures === b.windowFailures
+  );
+}
+
+/**
+ * Per-origin circuit breaker. State lives in the given store, or in memory
+ * for this client when there is none. Half-open probe slots are always
+ * tracked per process.
+ */
+export class CircuitBreaker {
+  private readonly localState = new Map<string, CircuitBreakerState>();
+  private readonly probesInFlight = new Map<string, number>();
+  private readonly consecutiveFailureThreshold: number;
+  private readonly failureRateThreshold: number;
+  private readonly minimumRequests: number;
+  private readonly windowMs: number;
+  private readonly coolOffMs: number;
+  private readonly halfOpenMaxRequests: number;
+  readonly serveStaleWhenOpen: boolean;
+
+  constructor(
+    options: CircuitBreakerOptions = {},
+    private readonly store?: CircuitBreakerStore,
+  ) {
+    this.consecutiveFailureThreshold = options.consecutiveFailureThreshold ?? 5;
+    this.failureRateThreshold = options.failureRateThreshold ?? 0.5;
+    this.minimumRequests = options.minimumRequests ?? 10;
+    this.windowMs = options.windowMs ?? 60_000;
+    this.coolOffMs = options.coolOffMs ?? 30_000;
+    this.halfOpenMaxRequests = options.halfOpenMaxRequests ?? 1;
+    this.serveStaleWhenOpen = options.serveStaleWhenOpen ?? false;
+  }
+
+  async getState(origin: string): Promise<CircuitBreakerState> {
+    const state = this.store
+      ? await this.store.get(origin)
+      : this.localState.get(origin);
+    return state ?? closedState(Date.now());
+  }
+
+  /**
+   * Fail fast if the breaker is open and still cooling off. Does not take a
+   * probe slot, so it is safe to call before any waiting.
+   */
+  async assertNotOpen(origin: string): Promise<void> {
+    this.throwIfCoolingOff(origin, await this.getState(origin));
+  }
+
+  /**
+   * Admit one request. An open breaker whose cool-off has ended becomes
+   * half-open and the request becomes a probe. Every admitted request must
+   * be followed by exactly one of `onSuccess`, `onFailure` or `release`.
+   */
+  async acquire(origin: string): Promise<void> {
+    let state = await this.getState(origin);
+    this.throwIfCoolingOff(origin, state);
+
+    if (state.state === 'open') {
+      // Another process may have half-opened or re-opened it since the read
+      state = await this.update(origin, (current) =>
+        current.state === 'open' && !this.isCoolingOff(current)
+          ? { ...current, state: 'half-open' }
+          : undefined,
+      );
+      this.throwIfCoolingOff(origin, state);
+    }
+
+    if (state.state === 'half-open') {
+      const probes = this.probesInFlight.get(origin) ?? 0;
+      if (probes >= this.halfOpenMaxRequests) {
+        throw new CircuitOpenError(origin, 0);
+      }
+      this.probesInFlight.set(origin, probes + 1);
+    }
+  }
+
+  /** The admitted request reached the origin and it responded healthily. */
+  async onSuccess(origin: string): Promise<void> {
+    const wasProbe = this.releaseProbe(origin);
+    const now = Date.now();
+
+    await this.update(origin, (state) => {
+      if (state.state === 'half-open' || (wasProbe && state.state === 'open')) {
+        return closedState(now);
+      }
+
+      const next = this.rollWindow(state, now);
+      next.consecutiveFailures = 0;
+      next.windowRequests += 1;
+      return next;
+    });
+  }
+
+  /** The admitted request failed in a way that counts against the origin. */
+  async onFailure(origin: string): Promise<void> {
+    const wasProbe = this.releaseProbe(origin);
+    const now = Date.now();
+    const opened: CircuitBreakerState = {
+      ...closedState(now),
+      state: 'open',
+      openedAt: now,
+    };
+
+    await this.update(origin, (state) => {
+      if (state.state === 'open') {
+        // Another request already tripped the breaker
+        return undefined;
+      }
+      if (state.state === 'half-open' || wasProbe) {
+        return opened;
+      }
+
+      const next = this.rollWindow(state, now);
+      next.consecutiveFailures += 1;
+      next.windowRequests += 1;
+      next.windowFailures += 1;
+
+      const tripped =
+        next.consecutiveFailures >= this.consecutiveFailureThreshold ||
+        (next.windowRequests >= this.minimumRequests &&
+          next.windowFailures / next.windowRequests >=
+            this.failureRateThreshold);
+      return tripped ? opened : next;
+    });
+  }
+
+  /** The admitted request ended without an outcome, e.g. it was aborted. */
+  release(origin: string): void {
+    this.releaseProbe(origin);
+  }
+
+  private releaseProbe(origin: string): boolean {
+    const probes = this.probesInFlight.get(origin) ?? 0;
+    if (probes === 0) {
+      return false;
+    }
+    if (probes === 1) {
+      this.probesInFlight.delete(origin);
+    } else {
+      this.probesInFlight.set(origin, probes - 1);
+    }
+    return true;
+  }
+
+  private rollWindow(
+    state: CircuitBreakerState,
+    now: number,
+  ): CircuitBreakerState {
+    if (now - state.windowStart >= this.windowMs) {
+      return {
+        ...state,
+        windowStart: now,
+        windowRequests: 0,
+        windowFailures: 0,
+      };
+    }
+    return { ...state };
+  }
+
+  private isCoolingOff(state: CircuitBreakerState): boolean {
+    return state.openedAt + this.coolOffMs > Date.now();
+  }
+
+  private throwIfCoolingOff(origin: string, state: CircuitBreakerState): void {
+    if (state.state === 'open' && this.isCoolingOff(state)) {
+      throw new CircuitOpenError(
+        origin,
+        state.openedAt + this.coolOffMs - Date.now(),
+      );
+    }
+  }
+
+  /**
+   * Replace the origin's state with what `updater` computes from it,
+   * atomically when the store supports `update`. Nothing is written when
+   * `updater` returns undefined or an identical state.
+   * @returns The state after the update
+   */
+  private async update(
+    origin: string,
+    updater: (state: CircuitBreakerState) => CircuitBreakerState | undefined,
+  ): Promise<CircuitBreakerState> {
+    const apply = (stored: CircuitBreakerState | undefined) => {
+      const state = stored ?? closedState(Date.now());
+      const next = updater(state);
+      return next && !sameState(state, next) ? next : undefined;
+    };
+
+    if (this.store?.update) {
+      const state = await this.store.update(origin, apply);
+      return state ?? closedState(Date.now());
+    }
+
+    const stored = this.store
+      ? await this.store.get(origin)
+      : this.localState.get(origin);
+    const next = apply(stored);
+    if (!next) {
+      return stored ?? closedState(Date.now());
+    }
+    if (this.store) {
+      await this.store.set(origin, next);
+    } else {
+      this.localState.set(origin, next);
+    }
+    return next;
+  }
+}
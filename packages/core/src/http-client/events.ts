@@ -0,0 +1,137 @@
+import type { FreshnessStatus } from '../cache/index.js';
+import type { RequestPriority } from '../stores/index.js';
+import type {
+  HttpMethod,
+  ResponseCacheStatus,
+  RetryContext,
+} from '../types/index.js';
+
+/** Fields carried by every lifecycle event. */
+export interface HttpClientEventBase {
+  url: string;
+  /** Cache/dedupe key of the request. */
+  hash: string;
+  /** Rate-limit resource the request is counted against. */
+  resource: string;
+  priority: RequestPriority;
+  /** Epoch ms when the event was emitted. */
+  timestamp: number;
+  /** Ms since the request (or background revalidation) started. */
+  elapsedMs: number;
+}
+
+export interface HttpClientEvents {
+  /** A fresh cache entry was served without contacting the origin. */
+  cacheHit: HttpClientEventBase & { age: number; freshness: FreshnessStatus };
+  /**
+   * The cache could not answer on its own: there was no entry, the entry did
+   * not match the request's `Vary` headers, or it was stale and needs a
+   * conditional request.
+   */
+  cacheMiss: HttpClientEventBase & {
+    reason: 'absent' | 'vary-mismatch' | 'stale';
+  };
+  /** A stale entry was served instead of a fresh response. */
+  staleServed: HttpClientEventBase & {
+    reason: 'stale-while-revalidate' | 'stale-if-error';
+    age: number;
+    /** The origin failure that triggered a `stale-if-error` fallback. */
+    error?: unknown;
+  };
+  /** A stale entry was refreshed, by a 304 or by a new background response. */
+  revalidated: HttpClientEventBase & {
+    background: boolean;
+    notModified: boolean;
+  };
+  /** A background revalidation failed; the stale entry was kept. */
+  revalidationFailed: HttpClientEventBase & { error: unknown };
+  /** The request was answered by an identical in-flight request. */
+  dedupeJoined: HttpClientEventBase & { waitMs: number };
+  /** A slow attempt was hedged with an identical one. */
+  hedge: HttpClientEventBase & {
+    attempt: number;
+    /** How long the attempt had been outstanding. */
+    delayMs: number;
+  };
+  /** The rate-limit store blocked the request; emitted before each wait. */
+  rateLimitWait: HttpClientEventBase & { waitMs: number };
+  /** A server-imposed cooldown delayed the request; emitted before each wait. */
+  serverCooldown: HttpClientEventBase & { origin: string; waitMs: number };
+  /** A failed attempt is about to be retried. */
+  retry: HttpClientEventBase & {
+    attempt: number;
+    delayMs: number;
+    context: RetryContext;
+  };
+  /** A request settled, successfully or not. */
+  requestComplete: HttpClientEventBase & {
+    method: HttpMethod;
+    /** HTTP status of the response served, when there was one. */
+    status?: number;
+    cacheStatus?: ResponseCacheStatus;
+    durationMs: number;
+    error?: unknown;
+  };
+}
+
+export type HttpClientEventName = keyof HttpClientEvents;
+
+export type HttpClientEventListener<Name extends HttpClientEventName> = (
+  event: HttpClientEvents[Name],
+) => void;
+
+/** One optional listener per event, for passing to the constructor. */
+export type HttpClientHooks = {
+  [Name in HttpClientEventName]?: HttpClientEventListener<Name>;
+};
+
+/**
+ * Minimal typed emitter. Listener errors are swallowed so observability code
+ * can never fail a request.
+ */
+export class HttpClientEventEmitter {
+  private listeners = new Map<
+    HttpClientEventName,
+    Set<(event: never) => void>
+  >();
+
+  on<Name extends HttpClientEventName>(
+    name: Name,
+    listener: HttpClientEventListener<Name>,
+  ): () => void {
+    let set = this.listeners.get(name);
+    if (!set) {
+      set = new Set();
+      this.listeners.set(name, set);
+    }
+    set.add(listener);
+    return () => this.off(name, listener);
+  }
+
+  off<Name extends HttpClientEventName>(
+    name: Name,
+    listener: HttpClientEventListener<Name>,
+  ): void {
+    this.listeners.get(name)?.delete(listener);
+  }
+
+  hasListeners(name: HttpClientEventName): boolean {
+    return (this.listeners.get(name)?.size ?? 0) > 0;
+  }
+
+  emit<Name extends HttpClientEventName>(
+    name: Name,
+    event: HttpClientEvents[Name],
+  ): void {
+    const set = this.listeners.get(name);
+    if (!set) return;
+
+    for (const listener of set) {
+      try {
+        (listener as HttpClientEventListener<Name>)(event);
+      } catch {
+        // Listener failures must not affect the request
+      }
+    }
+  }
+}
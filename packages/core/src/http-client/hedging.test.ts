@@ -0,0 +1,52 @@
+import { RequestHedger } from './hedging.js';
+
+const origin = 'https://api.example.com';
+
+describe('RequestHedger', () => {
+  test('uses the fixed delay by default', () => {
+    const hedger = new RequestHedger({ delayMs: 250 });
+    hedger.recordLatency(origin, 10);
+
+    expect(hedger.getDelay(origin)).toBe(250);
+    expect(new RequestHedger().getDelay(origin)).toBe(500);
+  });
+
+  test('switches to the latency percentile once there are enough samples', () => {
+    const hedger = new RequestHedger({
+      delayMs: 1_000,
+      percentile: 90,
+      minSamples: 10,
+    });
+    for (let ms = 10; ms <= 90; ms += 10) {
+      hedger.recordLatency(origin, ms);
+    }
+    expect(hedger.getDelay(origin)).toBe(1_000);
+
+    hedger.recordLatency(origin, 100);
+    expect(hedger.getDelay(origin)).toBe(90);
+    // Samples are kept per origin
+    expect(hedger.getDelay('https://other.example.com')).toBe(1_000);
+  });
+
+  test('keeps only the most recent samples', () => {
+    const hedger = new RequestHedger({ percentile: 100, minSamples: 1 });
+    hedger.recordLatency(origin, 5_000);
+    for (let i = 0; i < 100; i++) {
+      hedger.recordLatency(origin, 20);
+    }
+
+    expect(hedger.getDelay(origin)).toBe(20);
+  });
+
+  test('caps hedges in flight per origin', () => {
+    const hedger = new RequestHedger({ maxPerOrigin: 2 });
+
+    expect(hedger.tryAcquire(origin)).toBe(true);
+    expect(hedger.tryAcquire(origin)).toBe(true);
+    expect(hedger.tryAcquire(origin)).toBe(false);
+    expect(hedger.tryAcquire('https://other.example.com')).toBe(true);
+
+    hedger.release(origin);
+    expect(hedger.tryAcquire(origin)).toBe(true);
+  });
+});
@@ -0,0 +1,88 @@
+export interface HedgingOptions {
+  /**
+   * Ms to wait for the first attempt before sending a hedge. Also used while
+   * `percentile` has too few samples. Defaults to 500.
+   */
+  delayMs?: number;
+  /**
+   * Hedge once the attempt has been outstanding longer than this percentile
+   * (0–100) of recent response times from the origin, e.g. `95`.
+   */
+  percentile?: number;
+  /** Response times needed before `percentile` is used. Defaults to 20. */
+  minSamples?: number;
+  /** Hedges allowed in flight at once per origin. Defaults to 2. */
+  maxPerOrigin?: number;
+}
+
+/** Response times kept per origin for the percentile delay. */
+const MAX_SAMPLES = 100;
+
+/**
+ * Decides when to hedge and how many hedges each origin may have in flight.
+ * Internal: the client creates one when `hedging` is configured.
+ */
+export class RequestHedger {
+  private readonly samples = new Map<string, Array<number>>();
+  private readonly hedgesInFlight = new Map<string, number>();
+  private readonly delayMs: number;
+  private readonly percentile?: number;
+  private readonly minSamples: number;
+  private readonly maxPerOrigin: number;
+
+  constructor(options: HedgingOptions = {}) {
+    this.delayMs = options.delayMs ?? 500;
+    this.percentile = options.percentile;
+    this.minSamples = options.minSamples ?? 20;
+    this.maxPerOrigin = options.maxPerOrigin ?? 2;
+  }
+
+  /** Ms to wait for an attempt to `origin` before hedging it. */
+  getDelay(origin: string): number {
+    const samples = this.samples.get(origin);
+    if (
+      this.percentile === undefined ||
+      !samples ||
+      samples.length < this.minSamples
+    ) {
+      return this.delayMs;
+    }
+
+    // Nearest-rank percentile
+    const sorted = [...samples].sort((a, b) => a - b);
+    const rank = Math.ceil((this.percentile / 100) * sorted.length);
+    return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1]!;
+  }
+
+  /** Record how long an attempt to `origin` took to respond. */
+  recordLatency(origin: string, ms: number): void {
+    let samples = this.samples.get(origin);
+    if (!samples) {
+      samples = [];
+      this.samples.set(origin, samples);
+    }
+    samples.push(ms);
+    if (samples.length > MAX_SAMPLES) {
+      samples.shift();
+    }
+  }
+
+  /** Take a hedge slot for `origin`, or return `false` when at the cap. */
+  tryAcquire(origin: string): boolean {
+    const inFlight = this.hedgesInFlight.get(origin) ?? 0;
+    if (inFlight >= this.maxPerOrigin) {
+      return false;
+    }
+    this.hedgesInFlight.set(origin, inFlight + 1);
+    return true;
+  }
+
+  release(origin: string): void {
+    const inFlight = this.hedgesInFlight.get(origin) ?? 0;
+    if (inFlight <= 1) {
+      this.hedgesInFlight.delete(origin);
+    } else {
+      this.hedgesInFlight.set(origin, inFlight - 1);
+    }
+  }
+}
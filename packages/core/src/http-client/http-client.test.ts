@@ -1,12 +1,62 @@
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
 import nock from 'nock';
+import { z } from 'zod';
+import type { HttpClientEventName } from './events.js';
 import { HttpClient } from './http-client.js';
+import type { Middleware, MiddlewareContext } from './middleware.js';
+import {
+  cursorPagination,
+  linkHeaderPagination,
+  offsetPagination,
+  pageNumberPagination,
+} from './pagination.js';
+import { buildPath } from './request-url.js';
 import { isCacheEntry, type CacheEntry } from '../cache/index.js';
+import { CacheMissError } from '../errors/cache-miss-error.js';
+import { CircuitOpenError } from '../errors/circuit-open-error.js';
 import { HttpClientError } from '../errors/http-client-error.js';
-import { hashRequest } from '../stores/index.js';
+import { ResponseValidationError } from '../errors/response-validation-error.js';
+import { TimeoutError } from '../errors/timeout-error.js';
+import {
+  HttpClientMetricNames,
+  InMemoryMetricsCollector,
+} from '../metrics/index.js';
+import {
+  hashRequest,
+  serializeStoreValue,
+  deserializeStoreValue,
+  type CircuitBreakerState,
+} from '../stores/index.js';
 
 const baseUrl = 'https://api.example.com';
 const alternateBaseUrl = 'https://api-alt.example.com';
 
+/**
+ * A cache store backed by a Map, with every method spied on. `_store` keeps
+ * each entry's value and TTL.
+ */
+function makeSpiedCacheStore() {
+  const store = new Map<string, { value: unknown; ttl: number }>();
+  return {
+    get: vi.fn(async (hash: string) => store.get(hash)?.value),
+    set: vi.fn(async (hash: string, value: unknown, ttl: number) => {
+      store.set(hash, { value, ttl });
+    }),
+    delete: vi.fn(async (hash: string) => {
+      store.delete(hash);
+    }),
+    clear: vi.fn(async () => {
+      store.clear();
+    }),
+    _store: store,
+  };
+}
+
 describe('HttpClient', () => {
   let httpClient: HttpClient;
   beforeEach(() => {
@@ -844,7 +894,7 @@ describe('HttpClient', () => {
         resetMs?: number;
       };
       getOriginScope: (url: string) => string;
-      inferResource: (url: string) => string;
+      resolveResource: (method: string, url: string) => string;
     };
 
     expect(privateClient.normalizeHeaderNames(undefined, ['x-a'])).toEqual([
@@ -895,8 +945,12 @@ describe('HttpClient', () => {
     expect(privateClient.parseCombinedRateLimitHeader(undefined)).toEqual({});
 
     expect(privateClient.getOriginScope('not-a-url')).toBe('unknown');
-    expect(privateClient.inferResource('/still-not-a-url')).toBe('unknown');
-    expect(privateClient.inferResource(`${baseUrl}/`)).toBe('unknown');
+    expect(privateClient.resolveResource('GET', '/still-not-a-url')).toBe(
+      'unknown',
+    );
+    expect(privateClient.resolveResource('GET', `${baseUrl}/`)).toBe(
+      'api.example.com',
+    );
 
     const privateApplyClient = client as unknown as {
       applyServerRateLimitHints: (
@@ -3255,4 +3309,3875 @@ describe('HttpClient', () => {
       });
     });
   });
+
+  describe('HTTP methods', () => {
+    function makeDedupeStore() {
+      return {
+        waitFor: vi.fn(async () => undefined),
+        register: vi.fn(async () => 'job'),
+        complete: vi.fn(async () => {}),
+        fail: vi.fn(async () => {}),
+        isInProgress: vi.fn(async () => false),
+      };
+    }
+
+    test('post serialises plain objects as JSON', async () => {
+      nock(baseUrl)
+        .post('/items', { name: 'widget' })
+        .matchHeader('content-type', 'application/json')
+        .reply(201, { id: 1, name: 'widget' });
+
+      const result = await httpClient.post<{ id: number }>(`${baseUrl}/items`, {
+        name: 'widget',
+      });
+
+      expect(result).toEqual({ id: 1, name: 'widget' });
+    });
+
+    test('post keeps a caller-provided content type', async () => {
+      nock(baseUrl)
+        .post('/items', '{"a":1}')
+        .matchHeader('content-type', 'application/vnd.api+json')
+        .reply(201, { ok: true });
+
+      await httpClient.post(
+        `${baseUrl}/items`,
+        { a: 1 },
+        { headers: { 'Content-Type': 'application/vnd.api+json' } },
+      );
+
+      expect(nock.isDone()).toBe(true);
+    });
+
+    test('sends string, URLSearchParams and FormData bodies as-is', async () => {
+      const captured: Array<RequestInit | undefined> = [];
+      const client = new HttpClient(
+        {},
+        {
+          fetchFn: async (_url, init) => {
+            captured.push(init);
+            return new Response(null, { status: 204 });
+          },
+        },
+      );
+
+      const form = new FormData();
+      form.set('file', 'contents');
+      const params = new URLSearchParams({ q: 'search' });
+
+      await client.put(`${baseUrl}/text`, 'plain text');
+      await client.patch(`${baseUrl}/params`, params);
+      await client.post(`${baseUrl}/form`, form);
+
+      expect(captured.map((init) => init?.method)).toEqual([
+        'PUT',
+        'PATCH',
+        'POST',
+      ]);
+      expect(captured[0]?.body).toBe('plain text');
+      expect(captured[1]?.body).toBe(params);
+      expect(captured[2]?.body).toBe(form);
+      expect(new Headers(captured[2]?.headers).has('content-type')).toBe(false);
+    });
+
+    test('sends a stream body once, without retries', async () => {
+      const fetchFn = vi.fn(
+        async (_url: string, _init?: RequestInit) =>
+          new Response(null, { status: 503 }),
+      );
+      const client = new HttpClient(
+        {},
+        { fetchFn, retry: { jitter: 'none', baseDelay: 1 } },
+      );
+      const stream = new Blob(['chunk']).stream();
+
+      await expect(client.put(`${baseUrl}/upload`, stream)).rejects.toThrow(
+        HttpClientError,
+      );
+
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+      const init = fetchFn.mock.calls[0]![1] as RequestInit & {
+        duplex?: string;
+      };
+      expect(init.body).toBe(stream);
+      expect(init.duplex).toBe('half');
+    });
+
+    test('delete accepts an optional body', async () => {
+      nock(baseUrl).delete('/items/1', { reason: 'gone' }).reply(204);
+
+      const result = await httpClient.delete(`${baseUrl}/items/1`, {
+        body: { reason: 'gone' },
+      });
+
+      expect(result).toBeUndefined();
+    });
+
+    test('head and options resolve through the same pipeline', async () => {
+      nock(baseUrl).head('/items').reply(200, undefined, { 'X-Total': '3' });
+      nock(baseUrl)
+        .options('/items')
+        .reply(200, { methods: ['GET', 'POST'] });
+
+      await expect(httpClient.head(`${baseUrl}/items`)).resolves.toBe(
+        undefined,
+      );
+      await expect(httpClient.options(`${baseUrl}/items`)).resolves.toEqual({
+        methods: ['GET', 'POST'],
+      });
+    });
+
+    test('request() accepts an arbitrary method', async () => {
+      nock(baseUrl).put('/items/1', 'raw').reply(200, { updated: true });
+
+      const result = await httpClient.request('PUT', `${baseUrl}/items/1`, {
+        body: 'raw',
+      });
+
+      expect(result).toEqual({ updated: true });
+    });
+
+    test('unsafe methods bypass cache and dedupe stores', async () => {
+      const cache = makeSpiedCacheStore();
+      const dedupe = makeDedupeStore();
+      const client = new HttpClient({ cache, dedupe });
+
+      nock(baseUrl)
+        .post('/items')
+        .reply(201, { id: 1 }, { 'Cache-Control': 'max-age=60' });
+
+      await client.post(`${baseUrl}/items`, { name: 'a' });
+
+      expect(cache.get).not.toHaveBeenCalled();
+      expect(cache.set).not.toHaveBeenCalled();
+      expect(dedupe.waitFor).not.toHaveBeenCalled();
+      expect(dedupe.register).not.toHaveBeenCalled();
+    });
+
+    test('safe non-GET methods are deduped but never cached', async () => {
+      const cache = makeSpiedCacheStore();
+      const dedupe = makeDedupeStore();
+      const client = new HttpClient({ cache, dedupe });
+
+      nock(baseUrl).head('/items').reply(200);
+
+      await client.head(`${baseUrl}/items`);
+
+      expect(cache.get).not.toHaveBeenCalled();
+      expect(dedupe.register).toHaveBeenCalledTimes(1);
+      const [headHash] = dedupe.register.mock.calls[0] as unknown as [string];
+      expect(headHash).not.toBe(hashRequest(`${baseUrl}/items`, {}));
+    });
+
+    test('unsafe methods go through rate limiting', async () => {
+      const record = vi.fn(async () => {});
+      const client = new HttpClient({
+        rateLimit: {
+          canProceed: async () => true,
+          record,
+          getStatus: async () => ({
+            remaining: 1,
+            resetTime: new Date(),
+            limit: 1,
+          }),
+          reset: async () => {},
+          getWaitTime: async () => 0,
+        },
+      });
+
+      nock(baseUrl).post('/things').reply(201, { ok: true });
+
+      await client.post(`${baseUrl}/things`, { a: 1 });
+
+      expect(record).toHaveBeenCalledWith(
+        'api.example.com/things',
+        'background',
+      );
+    });
+
+    test('unsafe methods use errorHandler and retries', async () => {
+      nock(baseUrl).post('/flaky').reply(503, { message: 'down' });
+      nock(baseUrl).post('/flaky').reply(400, { message: 'bad' });
+
+      const errorHandler = vi.fn(
+        (ctx: { response: { status: number } }) =>
+          new Error(`handled ${ctx.response.status}`),
+      );
+      const client = new HttpClient(
+        {},
+        {
+          errorHandler,
+          retry: { maxRetries: 2, baseDelay: 1, jitter: 'none' },
+        },
+      );
+
+      await expect(client.post(`${baseUrl}/flaky`, { a: 1 })).rejects.toThrow(
+        'handled 400',
+      );
+      expect(errorHandler).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('cache invalidation', () => {
+    test('successful unsafe request evicts the cached target URL', async () => {
+      const cache = makeSpiedCacheStore();
+      const client = new HttpClient({ cache });
+
+      nock(baseUrl)
+        .get('/items/1')
+        .times(2)
+        .reply(200, { v: 1 }, { 'Cache-Control': 'max-age=3600' });
+      nock(baseUrl).put('/items/1').reply(200, { v: 2 });
+
+      await client.get(`${baseUrl}/items/1`);
+      expect(cache._store.size).toBe(1);
+
+      await client.put(`${baseUrl}/items/1`, { v: 2 });
+
+      expect(cache._store.size).toBe(0);
+      expect(cache.delete).toHaveBeenCalledWith(
+        hashRequest(`${baseUrl}/items/1`, {}),
+      );
+
+      // Next read goes back to the network
+      await client.get(`${baseUrl}/items/1`);
+      expect(nock.isDone()).toBe(true);
+    });
+
+    test('evicts same-origin Location and Content-Location URLs', async () => {
+      const cache = makeSpiedCacheStore();
+      const client = new HttpClient({ cache });
+
+      nock(baseUrl)
+        .post('/items')
+        .reply(201, undefined, {
+          Location: '/items/7',
+          'Content-Location': `${alternateBaseUrl}/items`,
+        });
+
+      await client.post(`${baseUrl}/items`, { name: 'seven' });
+
+      const targets = [`${baseUrl}/items`, `${baseUrl}/items/7`];
+      expect(cache.delete.mock.calls.map(([hash]) => hash)).toEqual(
+        targets.flatMap((target) => [
+          hashRequest(target, {}),
+          hashRequest(`text ${target}`, {}),
+          hashRequest(`binary ${target}`, {}),
+        ]),
+      );
+    });
+
+    test('keeps query parameters in the invalidated key', async () => {
+      const cache = makeSpiedCacheStore();
+      const client = new HttpClient({ cache });
+
+      nock(baseUrl).delete('/items').query({ id: '3' }).reply(204);
+
+      await client.delete(`${baseUrl}/items?id=3`);
+
+      expect(cache.delete).toHaveBeenCalledWith(
+        hashRequest(`${baseUrl}/items`, { id: '3' }),
+      );
+    });
+
+    test('failed unsafe request leaves the cache untouched', async () => {
+      const cache = makeSpiedCacheStore();
+      const client = new HttpClient({ cache });
+
+      nock(baseUrl).patch('/items/1').reply(409, { message: 'conflict' });
+
+      await expect(client.patch(`${baseUrl}/items/1`, {})).rejects.toThrow(
+        HttpClientError,
+      );
+      expect(cache.delete).not.toHaveBeenCalled();
+    });
+
+    test('safe requests never invalidate', async () => {
+      const cache = makeSpiedCacheStore();
+      const client = new HttpClient({ cache });
+
+      nock(baseUrl).head('/items/1').reply(200);
+
+      await client.head(`${baseUrl}/items/1`);
+
+      expect(cache.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('timeouts', () => {
+    /** fetch that only settles when its signal aborts. */
+    function hangingFetch() {
+      return vi.fn(
+        (_url: string, init?: RequestInit) =>
+          new Promise<Response>((_resolve, reject) => {
+            const onAbort = () => {
+              const err = new Error('The operation was aborted');
+              err.name = 'AbortError';
+              reject(err);
+            };
+            if (init?.signal?.aborted) {
+              onAbort();
+            }
+            init?.signal?.addEventListener('abort', onAbort);
+          }),
+      );
+    }
+
+    test('rejects with TimeoutError when the total budget expires', async () => {
+      nock(baseUrl).get('/slow').delay(500).reply(200, { ok: true });
+
+      const client = new HttpClient({}, { timeout: 30 });
+
+      const error = await client.get(`${baseUrl}/slow`).catch((e) => e);
+
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(error).toBeInstanceOf(HttpClientError);
+      expect(error).toMatchObject({
+        name: 'TimeoutError',
+        phase: 'total',
+        timeout: 30,
+      });
+    });
+
+    test('per-request timeout overrides the client default', async () => {
+      const client = new HttpClient(
+        {},
+        { fetchFn: hangingFetch(), timeout: 60_000 },
+      );
+
+      await expect(
+        client.get(`${baseUrl}/slow`, { timeout: 20 }),
+      ).rejects.toMatchObject({ phase: 'total', timeout: 20 });
+    });
+
+    test('total budget covers rate-limit waits', async () => {
+      const fetchFn = vi.fn();
+      const client = new HttpClient(
+        {
+          rateLimit: {
+            canProceed: async () => false,
+            record: async () => {},
+            getStatus: async () => ({
+              remaining: 0,
+              resetTime: new Date(),
+              limit: 1,
+            }),
+            reset: async () => {},
+            getWaitTime: async () => 10_000,
+          },
+        },
+        { fetchFn, throwOnRateLimit: false, timeout: 30 },
+      );
+
+      await expect(client.get(`${baseUrl}/limited`)).rejects.toBeInstanceOf(
+        TimeoutError,
+      );
+      expect(fetchFn).not.toHaveBeenCalled();
+    });
+
+    test('per-attempt timeout fails a single attempt without retries', async () => {
+      const client = new HttpClient(
+        {},
+        { fetchFn: hangingFetch(), timeout: { perAttempt: 20 } },
+      );
+
+      await expect(client.get(`${baseUrl}/slow`)).rejects.toMatchObject({
+        name: 'TimeoutError',
+        phase: 'attempt',
+        timeout: 20,
+      });
+    });
+
+    test('per-attempt timeouts are retried by default', async () => {
+      const hanging = hangingFetch();
+      const fetchFn = vi
+        .fn()
+        .mockImplementationOnce(hanging)
+        .mockImplementationOnce(
+          async () => new Response(JSON.stringify({ ok: true })),
+        );
+      const onRetry = vi.fn();
+
+      const client = new HttpClient(
+        {},
+        {
+          fetchFn,
+          timeout: { perAttempt: 20 },
+          retry: { maxRetries: 1, baseDelay: 1, jitter: 'none', onRetry },
+        },
+      );
+
+      await expect(client.get(`${baseUrl}/flaky`)).resolves.toEqual({
+        ok: true,
+      });
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+      expect(onRetry.mock.calls[0]?.[0].error).toBeInstanceOf(TimeoutError);
+    });
+
+    test('retryCondition can opt out of retrying attempt timeouts', async () => {
+      const fetchFn = hangingFetch();
+      const client = new HttpClient(
+        {},
+        {
+          fetchFn,
+          timeout: { perAttempt: 20 },
+          retry: {
+            maxRetries: 3,
+            baseDelay: 1,
+            retryCondition: ({ error }) => !(error instanceof TimeoutError),
+          },
+        },
+      );
+
+      await expect(client.get(`${baseUrl}/slow`)).rejects.toBeInstanceOf(
+        TimeoutError,
+      );
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+    });
+
+    test('total budget bounds the whole retry loop', async () => {
+      const fetchFn = hangingFetch();
+      const client = new HttpClient(
+        {},
+        {
+          fetchFn,
+          timeout: { total: 80, perAttempt: 20 },
+          retry: { maxRetries: 100, baseDelay: 1, jitter: 'none' },
+        },
+      );
+
+      await expect(client.get(`${baseUrl}/slow`)).rejects.toMatchObject({
+        phase: 'total',
+      });
+      expect(fetchFn.mock.calls.length).toBeGreaterThan(1);
+      expect(fetchFn.mock.calls.length).toBeLessThan(100);
+    });
+
+    test('caller aborts still surface as AbortError', async () => {
+      const client = new HttpClient(
+        {},
+        { fetchFn: hangingFetch(), timeout: 60_000 },
+      );
+      const controller = new AbortController();
+
+      const pending = client.get(`${baseUrl}/slow`, {
+        signal: controller.signal,
+      });
+      controller.abort();
+
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    });
+
+    test('serves a stale-if-error entry when the origin times out', async () => {
+      const store = new Map<string, unknown>();
+      const cache = {
+        get: async (hash: string) => store.get(hash),
+        set: async (hash: string, value: unknown) => {
+          store.set(hash, value);
+        },
+        delete: async () => {},
+        clear: async () => {},
+      };
+
+      nock(baseUrl)
+        .get('/sie')
+        .reply(
+          200,
+          { v: 1 },
+          { 'Cache-Control': 'max-age=0, stale-if-error=60' },
+        );
+      await new HttpClient({ cache }).get(`${baseUrl}/sie`);
+
+      const client = new HttpClient(
+        { cache },
+        { fetchFn: hangingFetch(), timeout: 20 },
+      );
+
+      await expect(client.get(`${baseUrl}/sie`)).resolves.toEqual({ v: 1 });
+    });
+  });
+
+  describe('schema validation', () => {
+    const userSchema = z.object({
+      id: z.number(),
+      name: z.string(),
+    });
+
+    test('returns parsed data typed from the schema', async () => {
+      nock(baseUrl).get('/users/1').reply(200, { id: 1, name: 'Ada' });
+
+      const user = await httpClient.get(`${baseUrl}/users/1`, {
+        schema: userSchema,
+      });
+
+      expectTypeOf(user).toEqualTypeOf<{ id: number; name: string }>();
+      expect(user).toEqual({ id: 1, name: 'Ada' });
+    });
+
+    test('returns the schema output, including transforms', async () => {
+      nock(baseUrl).get('/count').reply(200, { count: '42' });
+
+      const result = await httpClient.get(`${baseUrl}/count`, {
+        schema: z.object({ count: z.coerce.number() }),
+      });
+
+      expect(result).toEqual({ count: 42 });
+    });
+
+    test('throws ResponseValidationError carrying the zod issues', async () => {
+      nock(baseUrl).get('/users/2').reply(200, { id: 'two' });
+
+      const error = await httpClient
+        .get(`${baseUrl}/users/2`, { schema: userSchema })
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ResponseValidationError);
+      expect(error).toBeInstanceOf(HttpClientError);
+      const validationError = error as ResponseValidationError;
+      expect(validationError.url).toBe(`${baseUrl}/users/2`);
+      expect(validationError.data).toEqual({ id: 'two' });
+      expect(validationError.issues.map((issue) => issue.path)).toEqual([
+        ['id'],
+        ['name'],
+      ]);
+      expect(validationError.message).toContain('id: Expected number');
+    });
+
+    test('validates after responseTransformer and responseHandler', async () => {
+      nock(baseUrl).get('/users/3').reply(200, { user_id: 3, user_name: 'Al' });
+
+      const client = new HttpClient(
+        {},
+        {
+          responseTransformer: (data) => {
+            const raw = data as { user_id: number; user_name: string };
+            return { id: raw.user_id, name: raw.user_name };
+          },
+          responseHandler: (data) => data,
+        },
+      );
+
+      await expect(
+        client.get(`${baseUrl}/users/3`, { schema: userSchema }),
+      ).resolves.toEqual({ id: 3, name: 'Al' });
+    });
+
+    test('never caches or shares an invalid payload', async () => {
+      const cache = makeSpiedCacheStore();
+      const dedupe = {
+        waitFor: vi.fn(async () => undefined),
+        register: vi.fn(async () => 'job'),
+        complete: vi.fn(async () => {}),
+        fail: vi.fn(async () => {}),
+        isInProgress: vi.fn(async () => false),
+      };
+      const client = new HttpClient({ cache, dedupe });
+
+      nock(baseUrl)
+        .get('/users/4')
+        .reply(200, { id: 4 }, { 'Cache-Control': 'max-age=60' });
+
+      await expect(
+        client.get(`${baseUrl}/users/4`, { schema: userSchema }),
+      ).rejects.toBeInstanceOf(ResponseValidationError);
+
+      expect(cache.set).not.toHaveBeenCalled();
+      expect(dedupe.complete).not.toHaveBeenCalled();
+      expect(dedupe.fail).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.any(ResponseValidationError),
+      );
+    });
+
+    test('applies the client-level schema unless overridden', async () => {
+      nock(baseUrl).get('/users/5').reply(200, { id: 5, name: 'Bo' });
+      nock(baseUrl).get('/health').reply(200, { status: 'ok' });
+
+      const client = new HttpClient({}, { schema: userSchema });
+
+      await expect(client.get(`${baseUrl}/users/5`)).resolves.toEqual({
+        id: 5,
+        name: 'Bo',
+      });
+      await expect(
+        client.get(`${baseUrl}/health`, {
+          schema: z.object({ status: z.literal('ok') }),
+        }),
+      ).resolves.toEqual({ status: 'ok' });
+    });
+
+    test('background revalidation does not store invalid payloads', async () => {
+      const cache = makeSpiedCacheStore();
+      const client = new HttpClient({ cache });
+
+      nock(baseUrl)
+        .get('/users/6')
+        .reply(
+          200,
+          { id: 6, name: 'Cy' },
+          { 'Cache-Control': 'max-age=0, stale-while-revalidate=60' },
+        );
+      nock(baseUrl).get('/users/6').reply(200, { id: 'broken' });
+
+      await client.get(`${baseUrl}/users/6`, { schema: userSchema });
+      const stale = await client.get(`${baseUrl}/users/6`, {
+        schema: userSchema,
+      });
+      await client.flushRevalidations();
+
+      expect(stale).toEqual({ id: 6, name: 'Cy' });
+      expect(cache.set).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('getResponse', () => {
+    test('returns data, status and headers from the origin', async () => {
+      nock(baseUrl)
+        .get('/items')
+        .reply(200, [{ id: 1 }], {
+          Link: `<${baseUrl}/items?page=2>; rel="next"`,
+        });
+
+      const response = await httpClient.getResponse<Array<{ id: number }>>(
+        `${baseUrl}/items`,
+      );
+
+      expect(response.data).toEqual([{ id: 1 }]);
+      expect(response.status).toBe(200);
+      expect(response.headers.get('link')).toContain('rel="next"');
+      expect(response.cache).toEqual({ status: 'bypass' });
+    });
+
+    test('reports miss and then hit with reconstructed headers', async () => {
+      const client = new HttpClient({ cache: makeSpiedCacheStore() });
+      nock(baseUrl)
+        .get('/cached')
+        .reply(
+          203,
+          { id: 1 },
+          { 'Cache-Control': 'max-age=60', 'X-Total-Count': '1', ETag: '"a"' },
+        );
+
+      const first = await client.getResponse(`${baseUrl}/cached`);
+      const second = await client.getResponse(`${baseUrl}/cached`);
+
+      expect(first.cache).toEqual({ status: 'miss' });
+      expect(second.data).toEqual({ id: 1 });
+      expect(second.status).toBe(203);
+      expect(second.headers.get('x-total-count')).toBe('1');
+      expect(second.headers.get('etag')).toBe('"a"');
+      expect(second.headers.get('cache-control')).toBe('max-age=60');
+      expect(second.headers.has('age')).toBe(true);
+      expect(second.cache).toMatchObject({
+        status: 'hit',
+        freshness: 'fresh',
+        storedAt: expect.any(Number),
+      });
+      expect(second.cache.age).toBeGreaterThanOrEqual(0);
+    });
+
+    test('reports revalidated after a 304', async () => {
+      const client = new HttpClient({ cache: makeSpiedCacheStore() });
+      nock(baseUrl)
+        .get('/etag')
+        .reply(200, { v: 1 }, { 'Cache-Control': 'no-cache', ETag: '"v1"' });
+      nock(baseUrl)
+        .get('/etag')
+        .matchHeader('if-none-match', '"v1"')
+        .reply(304, undefined, { ETag: '"v1"' });
+
+      await client.get(`${baseUrl}/etag`);
+      const response = await client.getResponse(`${baseUrl}/etag`);
+
+      expect(response.data).toEqual({ v: 1 });
+      expect(response.status).toBe(200);
+      expect(response.cache).toMatchObject({
+        status: 'revalidated',
+        freshness: 'no-cache',
+      });
+    });
+
+    test('reports stale-while-revalidate', async () => {
+      const client = new HttpClient({ cache: makeSpiedCacheStore() });
+      nock(baseUrl)
+        .get('/swr')
+        .times(2)
+        .reply(
+          200,
+          { v: 1 },
+          { 'Cache-Control': 'max-age=0, stale-while-revalidate=60' },
+        );
+
+      await client.get(`${baseUrl}/swr`);
+      const response = await client.getResponse(`${baseUrl}/swr`);
+      await client.flushRevalidations();
+
+      expect(response.cache).toMatchObject({
+        status: 'stale-while-revalidate',
+        freshness: 'stale-while-revalidate',
+      });
+    });
+
+    test('reports stale-if-error fallbacks', async () => {
+      const client = new HttpClient({ cache: makeSpiedCacheStore() });
+      nock(baseUrl)
+        .get('/sie')
+        .reply(
+          200,
+          { v: 1 },
+          { 'Cache-Control': 'max-age=0, stale-if-error=60' },
+        );
+      nock(baseUrl).get('/sie').reply(500);
+
+      await client.get(`${baseUrl}/sie`);
+      const response = await client.getResponse(`${baseUrl}/sie`);
+
+      expect(response.data).toEqual({ v: 1 });
+      expect(response.cache.status).toBe('stale-if-error');
+    });
+
+    test('infers the data type from a schema', async () => {
+      nock(baseUrl).get('/typed').reply(200, { id: 1 });
+
+      const response = await httpClient.getResponse(`${baseUrl}/typed`, {
+        schema: z.object({ id: z.number() }),
+      });
+
+      expectTypeOf(response.data).toEqualTypeOf<{ id: number }>();
+      expect(response.data.id).toBe(1);
+    });
+
+    test('does not join in-flight deduplicated requests', async () => {
+      const dedupe = {
+        waitFor: vi.fn(async () => ({ joined: true })),
+        register: vi.fn(async () => 'job'),
+        complete: vi.fn(async () => {}),
+        fail: vi.fn(async () => {}),
+        isInProgress: vi.fn(async () => true),
+      };
+      const client = new HttpClient({ dedupe });
+      nock(baseUrl).get('/raw').reply(200, { fresh: true });
+
+      const response = await client.getResponse(`${baseUrl}/raw`);
+
+      expect(response.data).toEqual({ fresh: true });
+      expect(dedupe.waitFor).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('response types', () => {
+    const bytes = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x00, 0xff]);
+
+    // Round-trips values the way persistent stores do
+    function makeSerializingCacheStore() {
+      const store = new Map<string, ReturnType<typeof serializeStoreValue>>();
+      return {
+        get: vi.fn(async (hash: string) => {
+          const stored = store.get(hash);
+          return stored ? deserializeStoreValue(stored) : undefined;
+        }),
+        set: vi.fn(async (hash: string, value: unknown) => {
+          store.set(hash, serializeStoreValue(value));
+        }),
+        delete: vi.fn(async (hash: string) => {
+          store.delete(hash);
+        }),
+        clear: vi.fn(async () => {
+          store.clear();
+        }),
+      };
+    }
+
+    async function readStream(stream: ReadableStream<Uint8Array>) {
+      return new Uint8Array(await new Response(stream).arrayBuffer());
+    }
+
+    test('returns text without JSON parsing', async () => {
+      nock(baseUrl)
+        .get('/text')
+        .reply(200, '{"a":1}', { 'Content-Type': 'application/json' });
+
+      const result = await httpClient.get(`${baseUrl}/text`, {
+        responseType: 'text',
+      });
+
+      expectTypeOf(result).toEqualTypeOf<string>();
+      expect(result).toBe('{"a":1}');
+    });
+
+    test('returns an ArrayBuffer with the exact bytes', async () => {
+      nock(baseUrl)
+        .get('/image.png')
+        .reply(200, Buffer.from(bytes), { 'Content-Type': 'image/png' });
+
+      const result = await httpClient.get(`${baseUrl}/image.png`, {
+        responseType: 'arrayBuffer',
+      });
+
+      expectTypeOf(result).toEqualTypeOf<ArrayBuffer>();
+      expect(new Uint8Array(result)).toEqual(bytes);
+    });
+
+    test('returns a Blob typed from the response content type', async () => {
+      nock(baseUrl)
+        .get('/doc.pdf')
+        .reply(200, Buffer.from(bytes), { 'Content-Type': 'application/pdf' });
+
+      const result = await httpClient.get(`${baseUrl}/doc.pdf`, {
+        responseType: 'blob',
+      });
+
+      expect(result).toBeInstanceOf(Blob);
+      expect(result.type).toBe('application/pdf');
+      expect(new Uint8Array(await result.arrayBuffer())).toEqual(bytes);
+    });
+
+    test('returns the unread body for streams', async () => {
+      nock(baseUrl).get('/stream').reply(200, Buffer.from(bytes));
+
+      const result = await httpClient.get(`${baseUrl}/stream`, {
+        responseType: 'stream',
+      });
+
+      expect(result).toBeInstanceOf(ReadableStream);
+      expect(await readStream(result)).toEqual(bytes);
+    });
+
+    test('skips the transformer and handler for binary bodies', async () => {
+      const responseTransformer = vi.fn((data: unknown) => data);
+      const responseHandler = vi.fn((data: unknown) => data);
+      const client = new HttpClient(
+        {},
+        { responseTransformer, responseHandler },
+      );
+      nock(baseUrl).get('/bin').reply(200, Buffer.from(bytes));
+
+      await client.get(`${baseUrl}/bin`, { responseType: 'arrayBuffer' });
+
+      expect(responseTransformer).not.toHaveBeenCalled();
+      expect(responseHandler).not.toHaveBeenCalled();
+    });
+
+    test('still parses error bodies for errorHandler', async () => {
+      nock(baseUrl).get('/missing').reply(404, { error: 'gone' });
+
+      await expect(
+        httpClient.get(`${baseUrl}/missing`, { responseType: 'arrayBuffer' }),
+      ).rejects.toMatchObject({ statusCode: 404, data: { error: 'gone' } });
+    });
+
+    test('caches binary bodies through a serializing store', async () => {
+      const cache = makeSerializingCacheStore();
+      const client = new HttpClient({ cache });
+      nock(baseUrl).get('/cached.bin').once().reply(200, Buffer.from(bytes), {
+        'Cache-Control': 'max-age=60',
+        'Content-Type': 'application/octet-stream',
+      });
+
+      await client.get(`${baseUrl}/cached.bin`, {
+        responseType: 'arrayBuffer',
+      });
+      const hit = await client.getResponse(`${baseUrl}/cached.bin`, {
+        responseType: 'blob',
+      });
+
+      expect(hit.cache.status).toBe('hit');
+      expect(hit.data.type).toBe('application/octet-stream');
+      expect(new Uint8Array(await hit.data.arrayBuffer())).toEqual(bytes);
+    });
+
+    test('keeps binary and JSON cache entries apart', async () => {
+      const cache = makeSerializingCacheStore();
+      const client = new HttpClient({ cache });
+      nock(baseUrl)
+        .get('/data')
+        .twice()
+        .reply(200, { a: 1 }, { 'Cache-Control': 'max-age=60' });
+
+      const json = await client.get(`${baseUrl}/data`);
+      const binary = await client.get(`${baseUrl}/data`, {
+        responseType: 'arrayBuffer',
+      });
+
+      expect(json).toEqual({ a: 1 });
+      expect(new TextDecoder().decode(binary)).toBe('{"a":1}');
+      expect(nock.isDone()).toBe(true);
+    });
+
+    test('does not cache unbuffered streams', async () => {
+      const cache = makeSerializingCacheStore();
+      const client = new HttpClient({ cache });
+      nock(baseUrl)
+        .get('/live')
+        .reply(200, Buffer.from(bytes), { 'Cache-Control': 'max-age=60' });
+
+      const response = await client.getResponse(`${baseUrl}/live`, {
+        responseType: 'stream',
+      });
+
+      expect(response.cache.status).toBe('bypass');
+      expect(cache.get).not.toHaveBeenCalled();
+      expect(cache.set).not.toHaveBeenCalled();
+      expect(await readStream(response.data)).toEqual(bytes);
+    });
+
+    test('caches streams when bufferStream is set', async () => {
+      const cache = makeSerializingCacheStore();
+      const client = new HttpClient({ cache });
+      nock(baseUrl)
+        .get('/buffered')
+        .once()
+        .reply(200, Buffer.from(bytes), { 'Cache-Control': 'max-age=60' });
+
+      const first = await client.get(`${baseUrl}/buffered`, {
+        responseType: 'stream',
+        bufferStream: true,
+      });
+      const second = await client.get(`${baseUrl}/buffered`, {
+        responseType: 'stream',
+        bufferStream: true,
+      });
+
+      expect(await readStream(first)).toEqual(bytes);
+      expect(await readStream(second)).toEqual(bytes);
+      expect(cache.set).toHaveBeenCalledTimes(1);
+    });
+
+    test('does not deduplicate binary requests', async () => {
+      const dedupe = {
+        waitFor: vi.fn(async () => undefined),
+        register: vi.fn(async () => 'job'),
+        complete: vi.fn(async () => {}),
+        fail: vi.fn(async () => {}),
+        isInProgress: vi.fn(async () => false),
+      };
+      const client = new HttpClient({ dedupe });
+      nock(baseUrl).get('/bin').reply(200, Buffer.from(bytes));
+
+      await client.get(`${baseUrl}/bin`, { responseType: 'blob' });
+
+      expect(dedupe.waitFor).not.toHaveBeenCalled();
+      expect(dedupe.complete).not.toHaveBeenCalled();
+    });
+
+    test('invalidates binary entries after writes', async () => {
+      const cache = makeSerializingCacheStore();
+      const client = new HttpClient({ cache });
+      nock(baseUrl)
+        .get('/file')
+        .twice()
+        .reply(200, Buffer.from(bytes), { 'Cache-Control': 'max-age=60' });
+      nock(baseUrl).put('/file').reply(204);
+
+      await client.get(`${baseUrl}/file`, { responseType: 'arrayBuffer' });
+      await client.put(`${baseUrl}/file`, 'new');
+      await client.get(`${baseUrl}/file`, { responseType: 'arrayBuffer' });
+
+      expect(nock.isDone()).toBe(true);
+    });
+  });
+
+  describe('middleware', () => {
+    test('exposes the request to middleware', async () => {
+      const seen: Array<MiddlewareContext> = [];
+      const client = new HttpClient(
+        {},
+        {
+          middleware: [
+            (ctx, next) => {
+              seen.push({ ...ctx });
+              return next();
+            },
+          ],
+        },
+      );
+      nock(baseUrl).post('/items').reply(201, { id: 1 });
+
+      await client.post(
+        `${baseUrl}/items`,
+        { name: 'a' },
+        { priority: 'user' },
+      );
+
+      expect(seen).toHaveLength(1);
+      expect(seen[0]).toMatchObject({
+        url: `${baseUrl}/items`,
+        method: 'POST',
+        attempt: 1,
+        priority: 'user',
+        background: false,
+      });
+      expect(seen[0]!.init.method).toBe('POST');
+      expect(seen[0]!.init.body).toBe('{"name":"a"}');
+      expect(seen[0]!.cacheEntry).toBeUndefined();
+    });
+
+    test('lets middleware change the URL and headers', async () => {
+      const client = new HttpClient().use((ctx, next) => {
+        ctx.url = `${ctx.url}?sig=abc`;
+        const headers = new Headers(ctx.init.headers);
+        headers.set('x-signed', 'yes');
+        ctx.init = { ...ctx.init, headers };
+        return next();
+      });
+      nock(baseUrl)
+        .get('/signed')
+        .query({ sig: 'abc' })
+        .matchHeader('x-signed', 'yes')
+        .reply(200, { ok: true });
+
+      await expect(client.get(`${baseUrl}/signed`)).resolves.toEqual({
+        ok: true,
+      });
+    });
+
+    test('runs in order and sees each retry attempt', async () => {
+      const calls: Array<string> = [];
+      const track =
+        (name: string): Middleware =>
+        async (ctx, next) => {
+          calls.push(`${name}:${ctx.attempt}`);
+          return next();
+        };
+      const client = new HttpClient(
+        {},
+        {
+          middleware: [track('a')],
+          retry: { maxRetries: 1, baseDelay: 1, jitter: 'none' },
+        },
+      ).use(track('b'));
+      nock(baseUrl).get('/flaky').reply(503).get('/flaky').reply(200, {});
+
+      await client.get(`${baseUrl}/flaky`);
+
+      expect(calls).toEqual(['a:1', 'b:1', 'a:2', 'b:2']);
+    });
+
+    test('short-circuits with a synthetic response that gets cached', async () => {
+      const cache = makeSpiedCacheStore();
+      const fetchFn = vi.fn();
+      const client = new HttpClient(
+        { cache },
+        {
+          fetchFn,
+          middleware: [
+            () =>
+              Response.json(
+                { mocked: true },
+                { headers: { 'cache-control': 'max-age=60' } },
+              ),
+          ],
+        },
+      );
+
+      const first = await client.getResponse(`${baseUrl}/mocked`);
+      const second = await client.getResponse(`${baseUrl}/mocked`);
+
+      expect(first.data).toEqual({ mocked: true });
+      expect(second.cache.status).toBe('hit');
+      expect(fetchFn).not.toHaveBeenCalled();
+    });
+
+    test('treats synthetic error responses like network ones', async () => {
+      const client = new HttpClient(
+        {},
+        { middleware: [() => new Response('nope', { status: 418 })] },
+      );
+
+      await expect(client.get(`${baseUrl}/teapot`)).rejects.toMatchObject({
+        statusCode: 418,
+      });
+    });
+
+    test('runs user middleware outside the built-in interceptors', async () => {
+      const order: Array<string> = [];
+      const client = new HttpClient(
+        {},
+        {
+          requestInterceptor: (_url, init) => {
+            order.push('requestInterceptor');
+            return init;
+          },
+          responseInterceptor: (response) => {
+            order.push('responseInterceptor');
+            return response;
+          },
+          middleware: [
+            async (_ctx, next) => {
+              order.push('middleware:before');
+              const response = await next();
+              order.push('middleware:after');
+              return response;
+            },
+          ],
+        },
+      );
+      nock(baseUrl).get('/ordered').reply(200, {});
+
+      await client.get(`${baseUrl}/ordered`);
+
+      expect(order).toEqual([
+        'middleware:before',
+        'requestInterceptor',
+        'responseInterceptor',
+        'middleware:after',
+      ]);
+    });
+
+    test('passes the stale entry to background revalidations', async () => {
+      const cache = makeSpiedCacheStore();
+      const seen: Array<MiddlewareContext> = [];
+      const client = new HttpClient(
+        { cache },
+        {
+          middleware: [
+            (ctx, next) => {
+              seen.push({ ...ctx });
+              return next();
+            },
+          ],
+        },
+      );
+      nock(baseUrl).get('/swr').twice().reply(
+        200,
+        { v: 1 },
+        {
+          'Cache-Control': 'max-age=0, stale-while-revalidate=60',
+          ETag: '"v1"',
+        },
+      );
+
+      await client.get(`${baseUrl}/swr`);
+      await client.get(`${baseUrl}/swr`);
+      await client.flushRevalidations();
+
+      expect(seen).toHaveLength(2);
+      expect(seen[1]).toMatchObject({ background: true, method: 'GET' });
+      expect(seen[1]!.cacheEntry?.metadata.etag).toBe('"v1"');
+      expect(new Headers(seen[1]!.init.headers).get('if-none-match')).toBe(
+        '"v1"',
+      );
+    });
+  });
+
+  describe('lifecycle events', () => {
+    function record(client: HttpClient, names: Array<HttpClientEventName>) {
+      const events: Array<{ name: string; event: Record<string, unknown> }> =
+        [];
+      for (const name of names) {
+        client.on(name, (event) => {
+          events.push({ name, event: { ...event } });
+        });
+      }
+      return events;
+    }
+
+    test('emits cacheMiss then cacheHit with the shared request fields', async () => {
+      const client = new HttpClient({ cache: makeSpiedCacheStore() });
+      const events = record(client, [
+        'cacheMiss',
+        'cacheHit',
+        'requestComplete',
+      ]);
+      nock(baseUrl)
+        .get('/items')
+        .reply(200, { id: 1 }, { 'Cache-Control': 'max-age=60' });
+
+      await client.get(`${baseUrl}/items`, { priority: 'user' });
+      await client.get(`${baseUrl}/items`, { priority: 'user' });
+
+      expect(events.map((e) => e.name)).toEqual([
+        'cacheMiss',
+        'requestComplete',
+        'cacheHit',
+        'requestComplete',
+      ]);
+      expect(events[0]!.event).toMatchObject({
+        url: `${baseUrl}/items`,
+        hash: hashRequest(`${baseUrl}/items`, {}),
+        resource: 'api.example.com/items',
+        priority: 'user',
+        reason: 'absent',
+      });
+      expect(events[1]!.event).toMatchObject({
+        method: 'GET',
+        status: 200,
+        cacheStatus: 'miss',
+      });
+      expect(events[2]!.event).toMatchObject({
+        freshness: 'fresh',
+        age: expect.any(Number),
+      });
+      expect(events[3]!.event).toMatchObject({ cacheStatus: 'hit' });
+      for (const { event } of events) {
+        expect(event['timestamp']).toEqual(expect.any(Number));
+        expect(event['elapsedMs']).toBeGreaterThanOrEqual(0);
+      }
+    });
+
+    test('reports stale-while-revalidate and the background outcome', async () => {
+      const now = Date.now();
+      vi.spyOn(Date, 'now').mockReturnValue(now);
+      const client = new HttpClient({ cache: makeSpiedCacheStore() });
+      const events = record(client, [
+        'staleServed',
+        'revalidated',
+        'revalidationFailed',
+      ]);
+      nock(baseUrl)
+        .get('/swr')
+        .reply(
+          200,
+          { v: 1 },
+          { 'Cache-Control': 'max-age=1, stale-while-revalidate=120' },
+        );
+      await client.get(`${baseUrl}/swr`);
+
+      vi.spyOn(Date, 'now').mockReturnValue(now + 5_000);
+      nock(baseUrl)
+        .get('/swr')
+        .reply(
+          200,
+          { v: 2 },
+          { 'Cache-Control': 'max-age=1, stale-while-revalidate=120' },
+        );
+      await client.get(`${baseUrl}/swr`);
+      await client.flushRevalidations();
+
+      vi.spyOn(Date, 'now').mockReturnValue(now + 10_000);
+      nock(baseUrl).get('/swr').reply(500, { message: 'down' });
+      await client.get(`${baseUrl}/swr`);
+      await client.flushRevalidations();
+
+      expect(events.map((e) => e.name)).toEqual([
+        'staleServed',
+        'revalidated',
+        'staleServed',
+        'revalidationFailed',
+      ]);
+      expect(events[0]!.event).toMatchObject({
+        reason: 'stale-while-revalidate',
+        age: 5,
+      });
+      expect(events[1]!.event).toMatchObject({
+        background: true,
+        notModified: false,
+      });
+      expect(events[3]!.event['error']).toBeInstanceOf(HttpClientError);
+    });
+
+    test('reports a conditional 304 as a foreground revalidation', async () => {
+      const now = Date.now();
+      vi.spyOn(Date, 'now').mockReturnValue(now);
+      const client = new HttpClient({ cache: makeSpiedCacheStore() });
+      const events = record(client, ['cacheMiss', 'revalidated']);
+      nock(baseUrl)
+        .get('/etag')
+        .reply(200, { v: 1 }, { 'Cache-Control': 'max-age=1', ETag: '"a"' })
+        .get('/etag')
+        .matchHeader('If-None-Match', '"a"')
+        .reply(304, '', { 'Cache-Control': 'max-age=60' });
+
+      await client.get(`${baseUrl}/etag`);
+      vi.spyOn(Date, 'now').mockReturnValue(now + 5_000);
+      await client.get(`${baseUrl}/etag`);
+
+      expect(events).toEqual([
+        {
+          name: 'cacheMiss',
+          event: expect.objectContaining({ reason: 'absent' }),
+        },
+        {
+          name: 'cacheMiss',
+          event: expect.objectContaining({ reason: 'stale' }),
+        },
+        {
+          name: 'revalidated',
+          event: expect.objectContaining({
+            background: false,
+            notModified: true,
+          }),
+        },
+      ]);
+    });
+
+    test('reports stale-if-error fallbacks with the origin error', async () => {
+      const now = Date.now();
+      vi.spyOn(Date, 'now').mockReturnValue(now);
+      const client = new HttpClient({ cache: makeSpiedCacheStore() });
+      const events = record(client, ['staleServed', 'requestComplete']);
+      nock(baseUrl)
+        .get('/sie')
+        .reply(
+          200,
+          { v: 1 },
+          { 'Cache-Control': 'max-age=1, stale-if-error=120' },
+        )
+        .get('/sie')
+        .reply(500, { message: 'down' });
+
+      await client.get(`${baseUrl}/sie`);
+      vi.spyOn(Date, 'now').mockReturnValue(now + 5_000);
+      await client.get(`${baseUrl}/sie`);
+
+      const served = events.find((e) => e.name === 'staleServed')!.event;
+      expect(served).toMatchObject({ reason: 'stale-if-error', age: 5 });
+      expect(served['error']).toBeInstanceOf(HttpClientError);
+      expect(events.at(-1)!.event).toMatchObject({
+        cacheStatus: 'stale-if-error',
+      });
+    });
+
+    test('emits dedupeJoined without the owner status', async () => {
+      const client = new HttpClient({
+        dedupe: {
+          async waitFor() {
+            return { from: 'dedupe' };
+          },
+          async register() {
+            return 'job-1';
+          },
+          async complete() {},
+          async fail() {},
+          async isInProgress() {
+            return true;
+          },
+        },
+      });
+      const events = record(client, ['dedupeJoined', 'requestComplete']);
+
+      await client.get(`${baseUrl}/joined`);
+
+      expect(events[0]).toMatchObject({
+        name: 'dedupeJoined',
+        event: { waitMs: expect.any(Number) },
+      });
+      expect(events[1]!.event).toMatchObject({ cacheStatus: 'bypass' });
+      expect(events[1]!.event['status']).toBeUndefined();
+    });
+
+    test('emits rateLimitWait before waiting on the store', async () => {
+      let checks = 0;
+      const client = new HttpClient(
+        {
+          rateLimit: {
+            async canProceed() {
+              checks += 1;
+              return checks > 1;
+            },
+            async record() {},
+            async getStatus() {
+              return { remaining: 0, resetTime: new Date(), limit: 60 };
+            },
+            async reset() {},
+            async getWaitTime() {
+              return 5;
+            },
+          },
+        },
+        { throwOnRateLimit: false },
+      );
+      const events = record(client, ['rateLimitWait']);
+      nock(baseUrl).get('/limited').reply(200, { ok: true });
+
+      await client.get(`${baseUrl}/limited`);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]!.event).toMatchObject({
+        resource: 'api.example.com/limited',
+        waitMs: 5,
+      });
+    });
+
+    test('emits retry with the attempt context', async () => {
+      const client = new HttpClient(
+        {},
+        { retry: { jitter: 'none', baseDelay: 1 } },
+      );
+      const events = record(client, ['retry']);
+      nock(baseUrl)
+        .get('/flaky')
+        .reply(503, { message: 'busy' })
+        .get('/flaky')
+        .reply(200, { ok: true });
+
+      await client.get(`${baseUrl}/flaky`);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]!.event).toMatchObject({ attempt: 1, delayMs: 1 });
+      expect(events[0]!.event['context']).toMatchObject({ statusCode: 503 });
+    });
+
+    test('emits requestComplete with the thrown error', async () => {
+      const client = new HttpClient();
+      const events = record(client, ['requestComplete']);
+      nock(baseUrl).get('/missing').reply(404, { message: 'nope' });
+
+      const error = await client.get(`${baseUrl}/missing`).catch((e) => e);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]!.event).toMatchObject({ status: 404, method: 'GET' });
+      expect(events[0]!.event['error']).toBe(error);
+    });
+
+    test('accepts hooks, supports unsubscribing and ignores listener errors', async () => {
+      const cacheMiss = vi.fn(() => {
+        throw new Error('listener bug');
+      });
+      const client = new HttpClient(
+        { cache: makeSpiedCacheStore() },
+        { hooks: { cacheMiss } },
+      );
+      const completed = vi.fn();
+      const unsubscribe = client.on('requestComplete', completed);
+      nock(baseUrl)
+        .get('/hooks')
+        .twice()
+        .reply(200, { ok: true }, { 'Cache-Control': 'no-store' });
+
+      await expect(client.get(`${baseUrl}/hooks`)).resolves.toEqual({
+        ok: true,
+      });
+      unsubscribe();
+      client.off('cacheMiss', cacheMiss);
+      await client.get(`${baseUrl}/hooks`);
+
+      expect(cacheMiss).toHaveBeenCalledTimes(1);
+      expect(completed).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('tracing', () => {
+    const exporter = new InMemorySpanExporter();
+    const provider = new BasicTracerProvider({
+      spanProcessors: [new SimpleSpanProcessor(exporter)],
+    });
+    const tracer = provider.getTracer('http-client-test');
+
+    beforeEach(() => {
+      exporter.reset();
+    });
+
+    function spanNamed(name: string) {
+      const span = exporter.getFinishedSpans().find((s) => s.name === name);
+      expect(span).toBeDefined();
+      return span!;
+    }
+
+    test('creates a parent span with child spans per phase', async () => {
+      const client = new HttpClient(
+        { cache: makeSpiedCacheStore() },
+        { tracing: { tracer } },
+      );
+      let traceparent: string | undefined;
+      nock(baseUrl)
+        .get('/items')
+        .reply(function () {
+          traceparent = this.req.headers['traceparent'] as string;
+          return [200, { id: 1 }];
+        });
+
+      await client.get(`${baseUrl}/items`, { priority: 'user' });
+
+      const parent = spanNamed('HttpClient GET');
+      const lookup = spanNamed('cache.lookup');
+      const attempt = spanNamed('GET');
+
+      expect(parent.kind).toBe(SpanKind.INTERNAL);
+      expect(parent.attributes).toMatchObject({
+        'http.request.method': 'GET',
+        'url.full': `${baseUrl}/items`,
+        'http.response.status_code': 200,
+        'http_client.cache.status': 'miss',
+        'http_client.resource': 'api.example.com/items',
+        'http_client.priority': 'user',
+      });
+      for (const child of [lookup, attempt]) {
+        expect(child.spanContext().traceId).toBe(parent.spanContext().traceId);
+        expect(child.parentSpanContext?.spanId).toBe(
+          parent.spanContext().spanId,
+        );
+      }
+      expect(attempt.kind).toBe(SpanKind.CLIENT);
+      expect(attempt.attributes).toMatchObject({
+        'http.request.method': 'GET',
+        'url.full': `${baseUrl}/items`,
+        'http.response.status_code': 200,
+      });
+      expect(attempt.attributes['http.request.resend_count']).toBeUndefined();
+      expect(traceparent).toBe(
+        `00-${attempt.spanContext().traceId}-${attempt.spanContext().spanId}-01`,
+      );
+    });
+
+    test('records the cache status of a hit without an attempt span', async () => {
+      const client = new HttpClient(
+        { cache: makeSpiedCacheStore() },
+        { tracing: { tracer } },
+      );
+      nock(baseUrl)
+        .get('/cached')
+        .reply(200, { id: 1 }, { 'Cache-Control': 'max-age=60' });
+
+      await client.get(`${baseUrl}/cached`);
+      exporter.reset();
+      await client.get(`${baseUrl}/cached`);
+
+      expect(exporter.getFinishedSpans().map((s) => s.name)).toEqual([
+        'cache.lookup',
+        'HttpClient GET',
+      ]);
+      expect(spanNamed('HttpClient GET').attributes).toMatchObject({
+        'http_client.cache.status': 'hit',
+      });
+    });
+
+    test('creates a span per attempt with the resend count', async () => {
+      const client = new HttpClient(
+        {},
+        { tracing: { tracer }, retry: { jitter: 'none', baseDelay: 1 } },
+      );
+      nock(baseUrl)
+        .get('/flaky')
+        .reply(503, { message: 'busy' })
+        .get('/flaky')
+        .reply(200, { ok: true });
+
+      await client.get(`${baseUrl}/flaky`);
+
+      const attempts = exporter
+        .getFinishedSpans()
+        .filter((s) => s.name === 'GET');
+      expect(attempts).toHaveLength(2);
+      expect(attempts[0]!.attributes).toMatchObject({
+        'http.response.status_code': 503,
+        'error.type': '503',
+      });
+      expect(attempts[0]!.status.code).toBe(SpanStatusCode.ERROR);
+      expect(attempts[1]!.attributes).toMatchObject({
+        'http.request.resend_count': 1,
+        'http.response.status_code': 200,
+      });
+    });
+
+    test('records the rate-limit wait on the request span', async () => {
+      let checks = 0;
+      const client = new HttpClient(
+        {
+          rateLimit: {
+            async canProceed() {
+              checks += 1;
+              return checks > 1;
+            },
+            async record() {},
+            async getStatus() {
+              return { remaining: 0, resetTime: new Date(), limit: 60 };
+            },
+            async reset() {},
+            async getWaitTime() {
+              return 5;
+            },
+          },
+        },
+        { tracing: { tracer }, throwOnRateLimit: false },
+      );
+      nock(baseUrl).get('/limited').reply(200, { ok: true });
+
+      await client.get(`${baseUrl}/limited`);
+
+      expect(spanNamed('rate_limit.wait').parentSpanContext?.spanId).toBe(
+        spanNamed('HttpClient GET').spanContext().spanId,
+      );
+      expect(spanNamed('HttpClient GET').attributes).toMatchObject({
+        'http_client.rate_limit.wait_ms': 5,
+      });
+    });
+
+    test('traces background revalidation under the request span', async () => {
+      const now = Date.now();
+      vi.spyOn(Date, 'now').mockReturnValue(now);
+      const client = new HttpClient(
+        { cache: makeSpiedCacheStore() },
+        { tracing: { tracer } },
+      );
+      nock(baseUrl)
+        .get('/swr')
+        .twice()
+        .reply(
+          200,
+          { v: 1 },
+          { 'Cache-Control': 'max-age=1, stale-while-revalidate=60' },
+        );
+
+      await client.get(`${baseUrl}/swr`);
+      exporter.reset();
+      vi.spyOn(Date, 'now').mockReturnValue(now + 5_000);
+      await client.get(`${baseUrl}/swr`);
+      await client.flushRevalidations();
+
+      const parent = spanNamed('HttpClient GET');
+      const revalidation = spanNamed('HttpClient revalidate');
+      expect(parent.attributes).toMatchObject({
+        'http_client.cache.status': 'stale-while-revalidate',
+      });
+      expect(revalidation.parentSpanContext?.spanId).toBe(
+        parent.spanContext().spanId,
+      );
+      expect(revalidation.attributes).toMatchObject({
+        'http_client.background': true,
+        'http.response.status_code': 200,
+      });
+      expect(spanNamed('GET').parentSpanContext?.spanId).toBe(
+        revalidation.spanContext().spanId,
+      );
+    });
+
+    test('marks the request span as failed when the request throws', async () => {
+      const client = new HttpClient({}, { tracing: { tracer } });
+      nock(baseUrl).get('/missing').reply(404, { message: 'nope' });
+
+      await expect(client.get(`${baseUrl}/missing`)).rejects.toThrow(
+        HttpClientError,
+      );
+
+      const parent = spanNamed('HttpClient GET');
+      expect(parent.status.code).toBe(SpanStatusCode.ERROR);
+      expect(parent.attributes).toMatchObject({
+        'http.response.status_code': 404,
+        'error.type': 'HttpClientError',
+      });
+      expect(parent.events.map((e) => e.name)).toEqual(['exception']);
+    });
+
+    test('does not inject trace headers when propagation is disabled', async () => {
+      const client = new HttpClient(
+        {},
+        { tracing: { tracer, propagate: false } },
+      );
+      let headers: Record<string, unknown> = {};
+      nock(baseUrl)
+        .get('/quiet')
+        .reply(function () {
+          headers = this.req.headers;
+          return [200, { ok: true }];
+        });
+
+      await client.get(`${baseUrl}/quiet`);
+
+      expect(headers['traceparent']).toBeUndefined();
+      expect(spanNamed('GET')).toBeDefined();
+    });
+  });
+
+  describe('metrics', () => {
+    const origin = baseUrl;
+
+    test('counts requests by outcome with duration histograms', async () => {
+      const metrics = new InMemoryMetricsCollector();
+      const client = new HttpClient(
+        { cache: makeSpiedCacheStore() },
+        { metrics },
+      );
+      nock(baseUrl)
+        .get('/items')
+        .reply(200, { id: 1 }, { 'Cache-Control': 'max-age=60' })
+        .get('/missing')
+        .reply(404, { message: 'nope' });
+
+      await client.get(`${baseUrl}/items`, { priority: 'user' });
+      await client.get(`${baseUrl}/items`, { priority: 'user' });
+      await client.get(`${baseUrl}/missing`).catch(() => undefined);
+
+      const labels = {
+        origin,
+        resource: 'api.example.com/items',
+        priority: 'user',
+      };
+      expect(
+        metrics.getCounter(HttpClientMetricNames.REQUESTS, {
+          ...labels,
+          outcome: 'miss',
+        }),
+      ).toBe(1);
+      expect(
+        metrics.getCounter(HttpClientMetricNames.REQUESTS, {
+          ...labels,
+          outcome: 'hit',
+        }),
+      ).toBe(1);
+      expect(
+        metrics.getCounter(HttpClientMetricNames.REQUESTS, {
+          origin,
+          resource: 'api.example.com/missing',
+          priority: 'background',
+          outcome: 'error',
+        }),
+      ).toBe(1);
+      expect(
+        metrics.getHistogram(HttpClientMetricNames.REQUEST_DURATION, {
+          ...labels,
+          outcome: 'hit',
+        })?.count,
+      ).toBe(1);
+      expect(
+        metrics.getGauge(HttpClientMetricNames.REQUESTS_IN_FLIGHT, { origin }),
+      ).toBe(0);
+    });
+
+    test('tracks in-flight requests per origin', async () => {
+      const metrics = new InMemoryMetricsCollector();
+      let release!: () => void;
+      const gate = new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      const client = new HttpClient(
+        {},
+        {
+          metrics,
+          fetchFn: async () => {
+            await gate;
+            return new Response('{}', {
+              headers: { 'Content-Type': 'application/json' },
+            });
+          },
+        },
+      );
+
+      const pending = client.get(`${baseUrl}/slow`);
+      await vi.waitFor(() => {
+        expect(
+          metrics.getGauge(HttpClientMetricNames.REQUESTS_IN_FLIGHT, {
+            origin,
+          }),
+        ).toBe(1);
+      });
+      release();
+      await pending;
+
+      expect(
+        metrics.getGauge(HttpClientMetricNames.REQUESTS_IN_FLIGHT, { origin }),
+      ).toBe(0);
+    });
+
+    test('counts retries, dedupe joins and rate-limit waits', async () => {
+      const metrics = new InMemoryMetricsCollector();
+      let checks = 0;
+      const client = new HttpClient(
+        {
+          rateLimit: {
+            async canProceed() {
+              checks += 1;
+              return checks > 1;
+            },
+            async record() {},
+            async getStatus() {
+              return { remaining: 0, resetTime: new Date(), limit: 60 };
+            },
+            async reset() {},
+            async getWaitTime() {
+              return 5;
+            },
+          },
+        },
+        {
+          metrics,
+          throwOnRateLimit: false,
+          retry: { jitter: 'none', baseDelay: 1 },
+        },
+      );
+      nock(baseUrl)
+        .get('/flaky')
+        .reply(503, { message: 'busy' })
+        .get('/flaky')
+        .reply(200, { ok: true });
+
+      await client.get(`${baseUrl}/flaky`);
+
+      const labels = {
+        origin,
+        resource: 'api.example.com/flaky',
+        priority: 'background',
+      };
+      expect(metrics.getCounter(HttpClientMetricNames.RETRIES, labels)).toBe(1);
+      expect(
+        metrics.getHistogram(HttpClientMetricNames.RATE_LIMIT_WAIT, {
+          ...labels,
+          source: 'store',
+        })?.sum,
+      ).toBe(0.005);
+
+      const deduped = new HttpClient(
+        {
+          dedupe: {
+            async waitFor() {
+              return { from: 'dedupe' };
+            },
+            async register() {
+              return 'job-1';
+            },
+            async complete() {},
+            async fail() {},
+            async isInProgress() {
+              return true;
+            },
+          },
+        },
+        { metrics },
+      );
+      await deduped.get(`${baseUrl}/joined`);
+
+      expect(
+        metrics.getCounter(HttpClientMetricNames.DEDUPE_JOINED, {
+          origin,
+          resource: 'api.example.com/joined',
+          priority: 'background',
+        }),
+      ).toBe(1);
+    });
+
+    test('counts background revalidations by outcome', async () => {
+      const now = Date.now();
+      vi.spyOn(Date, 'now').mockReturnValue(now);
+      const metrics = new InMemoryMetricsCollector();
+      const client = new HttpClient(
+        { cache: makeSpiedCacheStore() },
+        { metrics },
+      );
+      nock(baseUrl)
+        .get('/swr')
+        .reply(
+          200,
+          { v: 1 },
+          { 'Cache-Control': 'max-age=1, stale-while-revalidate=60' },
+        )
+        .get('/swr')
+        .reply(500, { message: 'down' });
+
+      await client.get(`${baseUrl}/swr`);
+      vi.spyOn(Date, 'now').mockReturnValue(now + 5_000);
+      await client.get(`${baseUrl}/swr`);
+      await client.flushRevalidations();
+
+      expect(
+        metrics.getCounter(HttpClientMetricNames.REVALIDATIONS, {
+          origin,
+          resource: 'api.example.com/swr',
+          priority: 'background',
+          outcome: 'failed',
+        }),
+      ).toBe(1);
+      expect(metrics.renderPrometheus()).toContain(
+        'http_client_requests_total{origin="https://api.example.com",resource="api.example.com/swr",priority="background",outcome="stale-while-revalidate"} 1',
+      );
+    });
+  });
+
+  describe('circuit breaker', () => {
+    test('fails fast once the origin breaker opens', async () => {
+      const client = new HttpClient(
+        {},
+        { circuitBreaker: { consecutiveFailureThreshold: 2 } },
+      );
+      nock(baseUrl).get('/down').times(2).reply(503, { message: 'down' });
+
+      await expect(client.get(`${baseUrl}/down`)).rejects.toThrow(
+        HttpClientError,
+      );
+      await expect(client.get(`${baseUrl}/down`)).rejects.toThrow(
+        HttpClientError,
+      );
+
+      // Any path on the same origin is rejected without a request
+      const error = await client.get(`${baseUrl}/other`).catch((e) => e);
+      expect(error).toBeInstanceOf(CircuitOpenError);
+      expect(error.origin).toBe(baseUrl);
+      expect(nock.isDone()).toBe(true);
+
+      nock(alternateBaseUrl).get('/fine').reply(200, { ok: true });
+      await expect(client.get(`${alternateBaseUrl}/fine`)).resolves.toEqual({
+        ok: true,
+      });
+    });
+
+    test('stops retrying when the breaker opens mid-request', async () => {
+      const client = new HttpClient(
+        {},
+        {
+          circuitBreaker: { consecutiveFailureThreshold: 2 },
+          retry: { jitter: 'none', baseDelay: 1, maxRetries: 5 },
+        },
+      );
+      nock(baseUrl).get('/down').times(2).reply(500, { message: 'down' });
+
+      await expect(client.get(`${baseUrl}/down`)).rejects.toThrow(
+        CircuitOpenError,
+      );
+      expect(nock.isDone()).toBe(true);
+    });
+
+    test('closes again after a successful probe', async () => {
+      const now = Date.now();
+      vi.spyOn(Date, 'now').mockReturnValue(now);
+      const client = new HttpClient(
+        {},
+        {
+          circuitBreaker: { consecutiveFailureThreshold: 1, coolOffMs: 1_000 },
+        },
+      );
+      nock(baseUrl)
+        .get('/flaky')
+        .reply(500, { message: 'down' })
+        .get('/flaky')
+        .reply(200, { ok: true })
+        .get('/flaky')
+        .reply(200, { ok: true });
+
+      await client.get(`${baseUrl}/flaky`).catch(() => undefined);
+      await expect(client.get(`${baseUrl}/flaky`)).rejects.toThrow(
+        CircuitOpenError,
+      );
+
+      vi.spyOn(Date, 'now').mockReturnValue(now + 1_000);
+      await expect(client.get(`${baseUrl}/flaky`)).resolves.toEqual({
+        ok: true,
+      });
+      await expect(client.get(`${baseUrl}/flaky`)).resolves.toEqual({
+        ok: true,
+      });
+    });
+
+    test('does not count client errors or aborts as failures', async () => {
+      const client = new HttpClient(
+        {},
+        { circuitBreaker: { consecutiveFailureThreshold: 1 } },
+      );
+      nock(baseUrl).get('/missing').reply(404, { message: 'nope' });
+
+      await client.get(`${baseUrl}/missing`).catch(() => undefined);
+      const controller = new AbortController();
+      controller.abort();
+      await client
+        .get(`${baseUrl}/aborted`, { signal: controller.signal })
+        .catch(() => undefined);
+
+      nock(baseUrl).get('/ok').reply(200, { ok: true });
+      await expect(client.get(`${baseUrl}/ok`)).resolves.toEqual({ ok: true });
+    });
+
+    test('serves stale-if-error entries while open', async () => {
+      const now = Date.now();
+      vi.spyOn(Date, 'now').mockReturnValue(now);
+      const client = new HttpClient(
+        { cache: makeSpiedCacheStore() },
+        { circuitBreaker: { consecutiveFailureThreshold: 1 } },
+      );
+      nock(baseUrl)
+        .get('/sie')
+        .reply(
+          200,
+          { v: 1 },
+          { 'Cache-Control': 'max-age=1, stale-if-error=600' },
+        )
+        .get('/down')
+        .reply(500, { message: 'down' });
+
+      await client.get(`${baseUrl}/sie`);
+      await client.get(`${baseUrl}/down`).catch(() => undefined);
+      vi.spyOn(Date, 'now').mockReturnValue(now + 5_000);
+
+      const response = await client.getResponse(`${baseUrl}/sie`);
+      expect(response.data).toEqual({ v: 1 });
+      expect(response.cache.status).toBe('stale-if-error');
+    });
+
+    test('serves entries outside stale-if-error only when configured', async () => {
+      const now = Date.now();
+      vi.spyOn(Date, 'now').mockReturnValue(now);
+      const cache = makeSpiedCacheStore();
+      const strict = new HttpClient(
+        { cache },
+        {
+          circuitBreaker: {
+            consecutiveFailureThreshold: 1,
+            coolOffMs: 120_000,
+          },
+        },
+      );
+      const lenient = new HttpClient(
+        { cache },
+        {
+          circuitBreaker: {
+            consecutiveFailureThreshold: 1,
+            coolOffMs: 120_000,
+            serveStaleWhenOpen: true,
+          },
+        },
+      );
+      nock(baseUrl)
+        .get('/stale')
+        .reply(200, { v: 1 }, { 'Cache-Control': 'max-age=1' })
+        .get('/down')
+        .twice()
+        .reply(500, { message: 'down' });
+
+      await strict.get(`${baseUrl}/stale`);
+      await strict.get(`${baseUrl}/down`).catch(() => undefined);
+      await lenient.get(`${baseUrl}/down`).catch(() => undefined);
+      vi.spyOn(Date, 'now').mockReturnValue(now + 60_000);
+
+      await expect(strict.get(`${baseUrl}/stale`)).rejects.toThrow(
+        CircuitOpenError,
+      );
+      await expect(lenient.get(`${baseUrl}/stale`)).resolves.toEqual({ v: 1 });
+    });
+
+    test('trips every client sharing a breaker store', async () => {
+      const states = new Map<string, CircuitBreakerState>();
+      const circuitBreaker = {
+        get: async (key: string) => states.get(key),
+        set: async (key: string, state: CircuitBreakerState) => {
+          states.set(key, state);
+        },
+        delete: async (key: string) => {
+          states.delete(key);
+        },
+      };
+      const first = new HttpClient(
+        { circuitBreaker },
+        { circuitBreaker: { consecutiveFailureThreshold: 1 } },
+      );
+      const second = new HttpClient({ circuitBreaker });
+      nock(baseUrl).get('/down').reply(500, { message: 'down' });
+
+      await first.get(`${baseUrl}/down`).catch(() => undefined);
+
+      await expect(second.get(`${baseUrl}/down`)).rejects.toThrow(
+        CircuitOpenError,
+      );
+    });
+  });
+
+  describe('hedging', () => {
+    type Attempt = (signal: AbortSignal) => Promise<Response>;
+
+    /** Never responds; rejects when its attempt is aborted. */
+    const hang: Attempt = (signal) =>
+      new Promise((_, reject) => {
+        signal.addEventListener('abort', () => reject(signal.reason));
+      });
+    const respond =
+      (body: unknown, afterMs = 0): Attempt =>
+      () =>
+        new Promise((resolve) =>
+          setTimeout(() => resolve(Response.json(body)), afterMs),
+        );
+
+    function scriptedFetch(attempts: Array<Attempt>) {
+      const signals: Array<AbortSignal> = [];
+      const fetchFn = vi.fn(async (_url: string, init?: RequestInit) => {
+        const signal = init!.signal!;
+        signals.push(signal);
+        return attempts[signals.length - 1]!(signal);
+      });
+      return { fetchFn, signals };
+    }
+
+    test('sends a hedge for a slow user request and aborts the loser', async () => {
+      const { fetchFn, signals } = scriptedFetch([hang, respond({ id: 2 })]);
+      const client = new HttpClient({}, { fetchFn, hedging: { delayMs: 10 } });
+
+      const result = await client.get(`${baseUrl}/slow`, { priority: 'user' });
+
+      expect(result).toEqual({ id: 2 });
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+      expect(signals[0]!.aborted).toBe(true);
+      expect(signals[1]!.aborted).toBe(false);
+    });
+
+    test('keeps the first attempt when it responds before the hedge', async () => {
+      const { fetchFn, signals } = scriptedFetch([
+        respond({ id: 1 }, 20),
+        hang,
+      ]);
+      const client = new HttpClient({}, { fetchFn, hedging: { delayMs: 5 } });
+
+      const result = await client.get(`${baseUrl}/slow`, { priority: 'user' });
+
+      expect(result).toEqual({ id: 1 });
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+      expect(signals[1]!.aborted).toBe(true);
+    });
+
+    test('does not hedge background requests, unsafe methods or opted-out calls', async () => {
+      const fetchFn = vi.fn(
+        async () =>
+          new Promise<Response>((resolve) =>
+            setTimeout(() => resolve(Response.json({ ok: true })), 20),
+          ),
+      );
+      const client = new HttpClient({}, { fetchFn, hedging: { delayMs: 1 } });
+
+      await client.get(`${baseUrl}/a`);
+      await client.post(`${baseUrl}/b`, { x: 1 }, { priority: 'user' });
+      await client.get(`${baseUrl}/c`, { priority: 'user', hedging: false });
+
+      expect(fetchFn).toHaveBeenCalledTimes(3);
+    });
+
+    test('uses the hedge when the first attempt fails', async () => {
+      const { fetchFn } = scriptedFetch([
+        (signal) =>
+          new Promise((_, reject) => {
+            setTimeout(() => reject(new TypeError('socket hang up')), 20);
+            signal.addEventListener('abort', () => reject(signal.reason));
+          }),
+        respond({ id: 2 }, 40),
+      ]);
+      const client = new HttpClient({}, { fetchFn, hedging: { delayMs: 5 } });
+
+      await expect(
+        client.get(`${baseUrl}/flaky`, { priority: 'user' }),
+      ).resolves.toEqual({ id: 2 });
+    });
+
+    test('fails with the first error when every attempt fails', async () => {
+      const { fetchFn } = scriptedFetch([
+        () =>
+          new Promise((_, reject) =>
+            setTimeout(() => reject(new TypeError('first')), 20),
+          ),
+        () => Promise.reject(new TypeError('second')),
+      ]);
+      const client = new HttpClient({}, { fetchFn, hedging: { delayMs: 5 } });
+
+      await expect(
+        client.get(`${baseUrl}/down`, { priority: 'user' }),
+      ).rejects.toThrow('first');
+    });
+
+    test('counts hedges against the rate-limit store', async () => {
+      const rateLimit = {
+        canProceed: vi.fn().mockResolvedValue(true),
+        record: vi.fn().mockResolvedValue(undefined),
+        getStatus: vi.fn(),
+        reset: vi.fn(),
+        getWaitTime: vi.fn().mockResolvedValue(0),
+      };
+      const { fetchFn } = scriptedFetch([hang, respond({ id: 2 })]);
+      const client = new HttpClient(
+        { rateLimit },
+        { fetchFn, hedging: { delayMs: 5 } },
+      );
+
+      await client.get(`${baseUrl}/slow`, { priority: 'user' });
+
+      // Once for the hedge when it is sent, once for the request
+      expect(rateLimit.canProceed).toHaveBeenCalledTimes(2);
+      expect(rateLimit.record).toHaveBeenCalledTimes(2);
+      expect(rateLimit.record).toHaveBeenCalledWith(
+        'api.example.com/slow',
+        'user',
+      );
+    });
+
+    test('skips the hedge when the rate limit has no room', async () => {
+      const rateLimit = {
+        acquire: vi
+          .fn()
+          .mockResolvedValueOnce(true)
+          .mockResolvedValueOnce(false),
+        canProceed: vi.fn(),
+        record: vi.fn(),
+        getStatus: vi.fn(),
+        reset: vi.fn(),
+        getWaitTime: vi.fn().mockResolvedValue(0),
+      };
+      const { fetchFn } = scriptedFetch([respond({ id: 1 }, 30), hang]);
+      const client = new HttpClient(
+        { rateLimit },
+        { fetchFn, hedging: { delayMs: 5 } },
+      );
+
+      await expect(
+        client.get(`${baseUrl}/slow`, { priority: 'user' }),
+      ).resolves.toEqual({ id: 1 });
+      expect(rateLimit.acquire).toHaveBeenCalledTimes(2);
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+    });
+
+    test('caps hedges in flight per origin', async () => {
+      const { fetchFn } = scriptedFetch([
+        respond({ id: 1 }, 30),
+        respond({ id: 2 }, 30),
+        hang,
+        hang,
+      ]);
+      const client = new HttpClient(
+        {},
+        { fetchFn, hedging: { delayMs: 5, maxPerOrigin: 1 } },
+      );
+
+      await Promise.all([
+        client.get(`${baseUrl}/a`, { priority: 'user' }),
+        client.get(`${baseUrl}/b`, { priority: 'user' }),
+      ]);
+
+      expect(fetchFn).toHaveBeenCalledTimes(3);
+    });
+
+    test('emits a hedge event and counts hedges', async () => {
+      const metrics = new InMemoryMetricsCollector();
+      const hedge = vi.fn();
+      const { fetchFn } = scriptedFetch([hang, respond({ id: 2 })]);
+      const client = new HttpClient(
+        {},
+        { fetchFn, metrics, hedging: { delayMs: 5 }, hooks: { hedge } },
+      );
+
+      await client.get(`${baseUrl}/slow`, { priority: 'user' });
+
+      expect(hedge).toHaveBeenCalledWith(
+        expect.objectContaining({ attempt: 1, delayMs: 5, priority: 'user' }),
+      );
+      expect(
+        metrics.getCounter(HttpClientMetricNames.HEDGES, {
+          origin: baseUrl,
+          resource: 'api.example.com/slow',
+          priority: 'user',
+        }),
+      ).toBe(1);
+    });
+
+    test('removes its listeners from a reused caller signal', async () => {
+      const { fetchFn } = scriptedFetch([
+        hang,
+        respond({ id: 1 }),
+        respond({ id: 2 }, 20),
+        hang,
+      ]);
+      const client = new HttpClient({}, { fetchFn, hedging: { delayMs: 5 } });
+      const signal = new AbortController().signal;
+      const listeners = new Set<unknown>();
+      const add = signal.addEventListener.bind(signal);
+      const remove = signal.removeEventListener.bind(signal);
+      vi.spyOn(signal, 'addEventListener').mockImplementation(
+        (type, listener, options) => {
+          listeners.add(listener);
+          add(type, listener, options);
+        },
+      );
+      vi.spyOn(signal, 'removeEventListener').mockImplementation(
+        (type, listener, options) => {
+          listeners.delete(listener);
+          remove(type, listener, options);
+        },
+      );
+
+      await client.get(`${baseUrl}/a`, { priority: 'user', signal });
+      await client.get(`${baseUrl}/b`, { priority: 'user', signal });
+
+      expect(fetchFn).toHaveBeenCalledTimes(4);
+      expect(listeners.size).toBe(0);
+    });
+  });
+
+  describe('bulkhead', () => {
+    function deferredFetch() {
+      const pending: Array<{ url: string; resolve: () => void }> = [];
+      const fetchFn = vi.fn(
+        (url: string) =>
+          new Promise<Response>((resolve) => {
+            pending.push({
+              url,
+              resolve: () => resolve(Response.json({ url })),
+            });
+          }),
+      );
+      return { fetchFn, pending };
+    }
+
+    const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+    test('holds requests over maxConcurrent until a slot frees', async () => {
+      const { fetchFn, pending } = deferredFetch();
+      const client = new HttpClient(
+        {},
+        { fetchFn, bulkhead: { maxConcurrentPerOrigin: 2 } },
+      );
+
+      const requests = [1, 2, 3].map((id) =>
+        client.get(`${baseUrl}/items/${id}`),
+      );
+      await flush();
+
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+      expect(client.getBulkheadStatus().origins[baseUrl]).toEqual({
+        maxConcurrent: 2,
+        inFlight: 2,
+        queued: 1,
+      });
+
+      pending[0]!.resolve();
+      await requests[0];
+      await flush();
+      expect(fetchFn).toHaveBeenCalledTimes(3);
+      expect(pending[2]!.url).toBe(`${baseUrl}/items/3`);
+
+      pending[1]!.resolve();
+      pending[2]!.resolve();
+      await Promise.all(requests);
+      expect(client.getBulkheadStatus()).toEqual({
+        origins: {},
+        resources: {},
+      });
+    });
+
+    test('limits each resource separately', async () => {
+      const { fetchFn, pending } = deferredFetch();
+      const client = new HttpClient(
+        {},
+        { fetchFn, bulkhead: { resources: { 'api.example.com/search': 1 } } },
+      );
+
+      const searches = [
+        client.get(`${baseUrl}/search?q=a`),
+        client.get(`${baseUrl}/search?q=b`),
+      ];
+      const item = client.get(`${baseUrl}/items/1`);
+      await flush();
+
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+      expect(
+        client.getBulkheadStatus().resources['api.example.com/search'],
+      ).toMatchObject({
+        inFlight: 1,
+        queued: 1,
+      });
+
+      for (const request of pending) request.resolve();
+      await flush();
+      for (const request of pending) request.resolve();
+      await Promise.all([...searches, item]);
+      expect(fetchFn).toHaveBeenCalledTimes(3);
+    });
+
+    test('admits queued user requests before background requests', async () => {
+      const { fetchFn, pending } = deferredFetch();
+      const client = new HttpClient(
+        {},
+        { fetchFn, bulkhead: { maxConcurrentPerOrigin: 1 } },
+      );
+
+      const first = client.get(`${baseUrl}/first`);
+      await flush();
+      const background = client.get(`${baseUrl}/background`);
+      const user = client.get(`${baseUrl}/user`, { priority: 'user' });
+      await flush();
+
+      pending[0]!.resolve();
+      await first;
+      await flush();
+
+      expect(pending[1]!.url).toBe(`${baseUrl}/user`);
+      pending[1]!.resolve();
+      await user;
+      await flush();
+      pending[2]!.resolve();
+      await background;
+    });
+
+    test('rejects a queued request after maxWaitTime', async () => {
+      const { fetchFn, pending } = deferredFetch();
+      const client = new HttpClient(
+        {},
+        { fetchFn, bulkhead: { maxConcurrentPerOrigin: 1, maxWaitTime: 10 } },
+      );
+
+      const first = client.get(`${baseUrl}/slow`);
+      await expect(client.get(`${baseUrl}/queued`)).rejects.toThrow(
+        /Concurrency limit wait exceeded maxWaitTime \(10ms\)/,
+      );
+
+      pending[0]!.resolve();
+      await first;
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+    });
+
+    test('aborts a queued request without sending it', async () => {
+      const { fetchFn, pending } = deferredFetch();
+      const client = new HttpClient(
+        {},
+        { fetchFn, bulkhead: { maxConcurrentPerOrigin: 1 } },
+      );
+      const controller = new AbortController();
+
+      const first = client.get(`${baseUrl}/slow`);
+      const queued = client.get(`${baseUrl}/queued`, {
+        signal: controller.signal,
+      });
+      await flush();
+      controller.abort();
+
+      await expect(queued).rejects.toMatchObject({ name: 'AbortError' });
+      expect(client.getBulkheadStatus().origins[baseUrl]!.queued).toBe(0);
+
+      pending[0]!.resolve();
+      await first;
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+    });
+
+    test('releases the slot when the request fails', async () => {
+      const client = new HttpClient(
+        {},
+        { bulkhead: { maxConcurrentPerOrigin: 1 } },
+      );
+      nock(baseUrl)
+        .get('/broken')
+        .reply(500, { message: 'down' })
+        .get('/fine')
+        .reply(200, { ok: true });
+
+      await expect(client.get(`${baseUrl}/broken`)).rejects.toThrow(
+        HttpClientError,
+      );
+      await expect(client.get(`${baseUrl}/fine`)).resolves.toEqual({
+        ok: true,
+      });
+      expect(client.getBulkheadStatus()).toEqual({
+        origins: {},
+        resources: {},
+      });
+    });
+
+    test('holds the slot while an unbuffered stream is open', async () => {
+      let push!: ReadableStreamDefaultController<Uint8Array>;
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          push = controller;
+        },
+      });
+      const fetchFn = vi
+        .fn()
+        .mockResolvedValueOnce(new Response(body))
+        .mockResolvedValueOnce(Response.json({ ok: true }));
+      const client = new HttpClient(
+        {},
+        { fetchFn, bulkhead: { maxConcurrentPerOrigin: 1 } },
+      );
+
+      const stream = (await client.get(`${baseUrl}/download`, {
+        responseType: 'stream',
+      })) as ReadableStream<Uint8Array>;
+      const next = client.get(`${baseUrl}/next`);
+      await flush();
+
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+      expect(client.getBulkheadStatus().origins[baseUrl]).toMatchObject({
+        inFlight: 1,
+        queued: 1,
+      });
+
+      const reader = stream.getReader();
+      push.enqueue(new Uint8Array([1, 2]));
+      await reader.read();
+      await flush();
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+
+      push.close();
+      await expect(reader.read()).resolves.toMatchObject({ done: true });
+      await expect(next).resolves.toEqual({ ok: true });
+    });
+
+    test('releases a stream slot when the caller cancels it', async () => {
+      const fetchFn = vi.fn(
+        async () => new Response(new ReadableStream<Uint8Array>()),
+      );
+      const client = new HttpClient(
+        {},
+        { fetchFn, bulkhead: { maxConcurrentPerOrigin: 1 } },
+      );
+
+      const stream = (await client.get(`${baseUrl}/download`, {
+        responseType: 'stream',
+      })) as ReadableStream<Uint8Array>;
+      await stream.cancel();
+
+      expect(client.getBulkheadStatus()).toEqual({
+        origins: {},
+        resources: {},
+      });
+    });
+  });
+
+  describe('cache modes', () => {
+    async function primeCache(client: HttpClient) {
+      nock(baseUrl)
+        .get('/items')
+        .reply(200, { v: 1 }, { 'Cache-Control': 'max-age=60', ETag: '"v1"' });
+      await client.get(`${baseUrl}/items`);
+    }
+
+    function makeStale() {
+      const now = Date.now();
+      vi.spyOn(Date, 'now').mockReturnValue(now + 120_000);
+    }
+
+    test("'no-store' neither reads nor writes the cache", async () => {
+      const cache = makeSpiedCacheStore();
+      const client = new HttpClient({ cache });
+      await primeCache(client);
+      nock(baseUrl).get('/items').reply(200, { v: 2 });
+
+      const response = await client.getResponse(`${baseUrl}/items`, {
+        cache: 'no-store',
+      });
+
+      expect(response.data).toEqual({ v: 2 });
+      expect(response.cache).toEqual({ status: 'bypass' });
+      expect(cache.get).toHaveBeenCalledTimes(1);
+      expect(cache.set).toHaveBeenCalledTimes(1);
+    });
+
+    test("'reload' skips a fresh entry and overwrites it", async () => {
+      const client = new HttpClient({ cache: makeSpiedCacheStore() });
+      await primeCache(client);
+      nock(baseUrl)
+        .get('/items')
+        .matchHeader('if-none-match', (value) => value === undefined)
+        .reply(200, { v: 2 }, { 'Cache-Control': 'max-age=60' });
+
+      const reloaded = await client.getResponse(`${baseUrl}/items`, {
+        cache: 'reload',
+      });
+      const cached = await client.getResponse(`${baseUrl}/items`);
+
+      expect(reloaded.data).toEqual({ v: 2 });
+      expect(reloaded.cache).toEqual({ status: 'miss' });
+      expect(cached.data).toEqual({ v: 2 });
+      expect(cached.cache.status).toBe('hit');
+    });
+
+    test("'no-cache' revalidates a fresh entry", async () => {
+      const client = new HttpClient({ cache: makeSpiedCacheStore() });
+      await primeCache(client);
+      nock(baseUrl)
+        .get('/items')
+        .matchHeader('if-none-match', '"v1"')
+        .reply(304, undefined, { 'Cache-Control': 'max-age=60' });
+
+      const response = await client.getResponse(`${baseUrl}/items`, {
+        cache: 'no-cache',
+      });
+
+      expect(response.data).toEqual({ v: 1 });
+      expect(response.cache.status).toBe('revalidated');
+      expect(nock.isDone()).toBe(true);
+    });
+
+    test("'force-cache' serves a stale entry without contacting the origin", async () => {
+      const client = new HttpClient({ cache: makeSpiedCacheStore() });
+      await primeCache(client);
+      makeStale();
+
+      const response = await client.getResponse(`${baseUrl}/items`, {
+        cache: 'force-cache',
+      });
+
+      expect(response.data).toEqual({ v: 1 });
+      expect(response.cache).toMatchObject({
+        status: 'hit',
+        freshness: 'stale',
+      });
+    });
+
+    test("'force-cache' fetches and stores on a miss", async () => {
+      const cache = makeSpiedCacheStore();
+      const client = new HttpClient({ cache });
+      nock(baseUrl).get('/items').reply(200, { v: 1 });
+
+      await expect(
+        client.get(`${baseUrl}/items`, { cache: 'force-cache' }),
+      ).resolves.toEqual({ v: 1 });
+      expect(cache.set).toHaveBeenCalledTimes(1);
+    });
+
+    test("'only-if-cached' serves a stale entry", async () => {
+      const client = new HttpClient({ cache: makeSpiedCacheStore() });
+      await primeCache(client);
+      makeStale();
+
+      await expect(
+        client.get(`${baseUrl}/items`, { cache: 'only-if-cached' }),
+      ).resolves.toEqual({ v: 1 });
+    });
+
+    test("'only-if-cached' throws CacheMissError without a cached entry", async () => {
+      const fetchFn = vi.fn();
+      const client = new HttpClient(
+        { cache: makeSpiedCacheStore() },
+        { fetchFn },
+      );
+
+      const error = await client
+        .get(`${baseUrl}/items`, { cache: 'only-if-cached' })
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(CacheMissError);
+      expect(error).toBeInstanceOf(HttpClientError);
+      expect(error.statusCode).toBe(504);
+      expect(error.url).toBe(`${baseUrl}/items`);
+      await expect(
+        client.post(`${baseUrl}/items`, {}, { cache: 'only-if-cached' }),
+      ).rejects.toThrow(CacheMissError);
+      await expect(
+        new HttpClient({}, { fetchFn }).get(`${baseUrl}/items`, {
+          cache: 'only-if-cached',
+        }),
+      ).rejects.toThrow(CacheMissError);
+      expect(fetchFn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('request Cache-Control', () => {
+    async function primeCache(client: HttpClient) {
+      nock(baseUrl)
+        .get('/items')
+        .reply(200, { v: 1 }, { 'Cache-Control': 'max-age=60', ETag: '"v1"' });
+      await client.get(`${baseUrl}/items`);
+    }
+
+    function advance(ms: number) {
+      const now = Date.now();
+      vi.spyOn(Date, 'now').mockReturnValue(now + ms);
+    }
+
+    test('max-stale serves an entry past its lifetime, reported as stale', async () => {
+      const client = new HttpClient({ cache: makeSpiedCacheStore() });
+      await primeCache(client);
+      advance(120_000);
+
+      const response = await client.getResponse(`${baseUrl}/items`, {
+        headers: { 'Cache-Control': 'max-stale=300' },
+      });
+
+      expect(response.data).toEqual({ v: 1 });
+      expect(response.cache).toMatchObject({
+        status: 'hit',
+        freshness: 'stale',
+      });
+    });
+
+    test('min-fresh revalidates an entry that expires too soon', async () => {
+      const client = new HttpClient({ cache: makeSpiedCacheStore() });
+      await primeCache(client);
+      advance(30_000);
+      nock(baseUrl)
+        .get('/items')
+        .matchHeader('if-none-match', '"v1"')
+        .reply(304, undefined, { 'Cache-Control': 'max-age=60' });
+
+      const response = await client.getResponse(`${baseUrl}/items`, {
+        headers: { 'cache-control': 'min-fresh=60' },
+      });
+
+      expect(response.data).toEqual({ v: 1 });
+      expect(response.cache.status).toBe('revalidated');
+      expect(nock.isDone()).toBe(true);
+    });
+
+    test('no-cache revalidates a fresh entry', async () => {
+      const client = new HttpClient({ cache: makeSpiedCacheStore() });
+      await primeCache(client);
+      nock(baseUrl)
+        .get('/items')
+        .matchHeader('if-none-match', '"v1"')
+        .reply(200, { v: 2 }, { 'Cache-Control': 'max-age=60' });
+
+      await expect(
+        client.get(`${baseUrl}/items`, {
+          headers: { 'Cache-Control': 'no-cache' },
+        }),
+      ).resolves.toEqual({ v: 2 });
+    });
+
+    test('no-store skips writing the response', async () => {
+      const cache = makeSpiedCacheStore();
+      const client = new HttpClient({ cache });
+      nock(baseUrl)
+        .get('/items')
+        .reply(200, { v: 1 }, { 'Cache-Control': 'max-age=60' });
+
+      await client.get(`${baseUrl}/items`, {
+        headers: { 'Cache-Control': 'no-store' },
+      });
+
+      expect(cache.get).toHaveBeenCalledTimes(1);
+      expect(cache.set).not.toHaveBeenCalled();
+    });
+
+    test('only-if-cached serves only entries the other directives accept', async () => {
+      const client = new HttpClient({ cache: makeSpiedCacheStore() });
+      await primeCache(client);
+      advance(120_000);
+
+      await expect(
+        client.get(`${baseUrl}/items`, {
+          headers: { 'Cache-Control': 'only-if-cached' },
+        }),
+      ).rejects.toThrow(CacheMissError);
+      await expect(
+        client.get(`${baseUrl}/items`, {
+          headers: { 'Cache-Control': 'only-if-cached, max-stale' },
+        }),
+      ).resolves.toEqual({ v: 1 });
+    });
+  });
+
+  describe('cache keys', () => {
+    function countingFetch() {
+      return vi.fn(
+        async () =>
+          new Response(JSON.stringify({ ok: true }), {
+            status: 200,
+            headers: {
+              'Content-Type': 'application/json',
+              'Cache-Control': 'max-age=60',
+            },
+          }),
+      );
+    }
+
+    test('ignoreParams leaves volatile query params out of the key', async () => {
+      const fetchFn = countingFetch();
+      const client = new HttpClient(
+        { cache: makeSpiedCacheStore() },
+        { fetchFn, cacheKey: { ignoreParams: ['api_key', 'timestamp'] } },
+      );
+
+      await client.get(`${baseUrl}/items?page=1&api_key=a&timestamp=1`);
+      await client.get(`${baseUrl}/items?timestamp=2&page=1&api_key=b`);
+      await client.get(`${baseUrl}/items?page=2&api_key=a`);
+
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+    });
+
+    test('includeHeaders keys entries by header value', async () => {
+      const fetchFn = countingFetch();
+      const client = new HttpClient(
+        { cache: makeSpiedCacheStore() },
+        { fetchFn, cacheKey: { includeHeaders: ['Authorization'] } },
+      );
+
+      await client.get(`${baseUrl}/me`, {
+        headers: { Authorization: 'Bearer a' },
+      });
+      await client.get(`${baseUrl}/me`, {
+        headers: { authorization: 'Bearer a' },
+      });
+      await client.get(`${baseUrl}/me`, {
+        headers: { Authorization: 'Bearer b' },
+      });
+
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+    });
+
+    test('namespace keeps clients sharing a store apart', async () => {
+      const cache = makeSpiedCacheStore();
+      const fetchFn = countingFetch();
+      const tenantA = new HttpClient(
+        { cache },
+        { fetchFn, cacheKey: { namespace: 'tenant-a' } },
+      );
+      const tenantB = new HttpClient(
+        { cache },
+        { fetchFn, cacheKey: { namespace: 'tenant-b' } },
+      );
+
+      await tenantA.get(`${baseUrl}/items`);
+      await tenantB.get(`${baseUrl}/items`);
+      await tenantA.get(`${baseUrl}/items`);
+
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+      expect(cache.get.mock.calls[0]![0]).not.toBe(
+        hashRequest(`${baseUrl}/items`, {}),
+      );
+    });
+
+    test('a custom function receives the url, headers and method', async () => {
+      const fetchFn = countingFetch();
+      const cacheKey = vi.fn(
+        (url: string) => new URL(url).pathname.split('/')[1]!,
+      );
+      const client = new HttpClient(
+        { cache: makeSpiedCacheStore() },
+        { fetchFn },
+      );
+
+      await client.get(`${baseUrl}/items/1`, {
+        headers: { 'X-Trace': '1' },
+        cacheKey,
+      });
+      await client.get(`${baseUrl}/items/2`, { cacheKey });
+
+      expect(cacheKey).toHaveBeenNthCalledWith(
+        1,
+        `${baseUrl}/items/1`,
+        { 'X-Trace': '1' },
+        'GET',
+      );
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+    });
+
+    test('request fields override client fields', async () => {
+      const fetchFn = countingFetch();
+      const client = new HttpClient(
+        { cache: makeSpiedCacheStore() },
+        {
+          fetchFn,
+          cacheKey: { ignoreParams: ['api_key'], namespace: 'v1' },
+        },
+      );
+
+      await client.get(`${baseUrl}/items?api_key=a`);
+      await client.get(`${baseUrl}/items?api_key=b`, {
+        cacheKey: { namespace: 'v2' },
+      });
+      await client.get(`${baseUrl}/items?api_key=c`, {
+        cacheKey: { namespace: 'v2' },
+      });
+
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+    });
+
+    test('the same key drives deduplication', async () => {
+      const registered: Array<string> = [];
+      const dedupe = {
+        waitFor: vi.fn(async () => undefined),
+        register: vi.fn(async (hash: string) => {
+          registered.push(hash);
+          return 'job';
+        }),
+        complete: vi.fn(async () => {}),
+        fail: vi.fn(async () => {}),
+        isInProgress: vi.fn(async () => false),
+      };
+      const cache = makeSpiedCacheStore();
+      const client = new HttpClient(
+        { cache, dedupe },
+        {
+          fetchFn: countingFetch(),
+          cacheKey: { ignoreParams: ['api_key'] },
+        },
+      );
+
+      await client.get(`${baseUrl}/items?api_key=a`, {
+        cache: 'no-store',
+      });
+      await client.get(`${baseUrl}/items?api_key=b`, {
+        cache: 'no-store',
+      });
+
+      expect(registered).toHaveLength(2);
+      expect(registered[0]).toBe(registered[1]);
+      expect(cache.get).not.toHaveBeenCalled();
+    });
+
+    test('unsafe requests evict entries keyed with their headers', async () => {
+      const cache = makeSpiedCacheStore();
+      const client = new HttpClient(
+        { cache },
+        {
+          fetchFn: countingFetch(),
+          cacheKey: { includeHeaders: ['Authorization'] },
+        },
+      );
+      const headers = { Authorization: 'Bearer a' };
+
+      await client.get(`${baseUrl}/items`, { headers });
+      const [[hash]] = cache.set.mock.calls;
+      await client.post(`${baseUrl}/items`, {}, { headers });
+
+      expect(cache.delete).toHaveBeenCalledWith(hash);
+    });
+  });
+
+  describe('paginate', () => {
+    function makeDedupeStore() {
+      return {
+        waitFor: vi.fn(async () => undefined),
+        register: vi.fn(async () => 'job'),
+        complete: vi.fn(async () => {}),
+        fail: vi.fn(async () => {}),
+        isInProgress: vi.fn(async () => false),
+      };
+    }
+
+    async function collect<T>(iterable: AsyncIterable<T>): Promise<Array<T>> {
+      const values: Array<T> = [];
+      for await (const value of iterable) {
+        values.push(value);
+      }
+      return values;
+    }
+
+    test('follows Link headers at the caller priority', async () => {
+      const record = vi.fn(async () => {});
+      const client = new HttpClient({
+        rateLimit: {
+          canProceed: async () => true,
+          record,
+          getStatus: async () => ({
+            remaining: 1,
+            resetTime: new Date(),
+            limit: 1,
+          }),
+          reset: async () => {},
+          getWaitTime: async () => 0,
+        },
+      });
+      nock(baseUrl)
+        .get('/items')
+        .reply(200, [1, 2], { Link: '</items?page=2>; rel="next"' });
+      nock(baseUrl).get('/items').query({ page: '2' }).reply(200, [3]);
+
+      const items = await collect(
+        client.paginate<number>(`${baseUrl}/items`, linkHeaderPagination(), {
+          priority: 'user',
+        }),
+      );
+
+      expect(items).toEqual([1, 2, 3]);
+      expect(record).toHaveBeenCalledTimes(2);
+      expect(record).toHaveBeenCalledWith('api.example.com/items', 'user');
+    });
+
+    test('serves pages from the cache on a second pass', async () => {
+      const client = new HttpClient({ cache: makeSpiedCacheStore() });
+      nock(baseUrl)
+        .get('/items')
+        .query({ offset: '0', limit: '2' })
+        .reply(200, [1, 2], { 'Cache-Control': 'max-age=60' });
+      nock(baseUrl)
+        .get('/items')
+        .query({ offset: '2', limit: '2' })
+        .reply(200, [3], { 'Cache-Control': 'max-age=60' });
+
+      const items = client.paginate<number>(
+        `${baseUrl}/items`,
+        offsetPagination({ pageSize: 2 }),
+      );
+      await collect(items);
+      const pages = await collect(items.pages());
+
+      expect(pages.map((page) => page.response.cache.status)).toEqual([
+        'hit',
+        'hit',
+      ]);
+      expect(pages.flatMap((page) => page.items)).toEqual([1, 2, 3]);
+    });
+
+    test('deduplicates body-driven pages but not header-driven ones', async () => {
+      const dedupe = makeDedupeStore();
+      const client = new HttpClient({ dedupe });
+      nock(baseUrl)
+        .get('/items')
+        .query({ limit: '10' })
+        .reply(200, { data: [1], next: null });
+      nock(baseUrl).get('/links').reply(200, [1]);
+
+      await collect(
+        client.paginate(
+          `${baseUrl}/items`,
+          cursorPagination({ cursor: 'next', items: 'data', pageSize: 10 }),
+        ),
+      );
+      await collect(
+        client.paginate(`${baseUrl}/links`, linkHeaderPagination()),
+      );
+
+      expect(dedupe.register).toHaveBeenCalledTimes(1);
+    });
+
+    test('maxPages bounds the iteration', async () => {
+      nock(baseUrl)
+        .get('/items')
+        .query(true)
+        .times(2)
+        .reply(200, (uri) => [uri]);
+
+      const pages = await collect(
+        httpClient
+          .paginate(`${baseUrl}/items`, pageNumberPagination(), {
+            maxPages: 2,
+          })
+          .pages(),
+      );
+
+      expect(pages.map((page) => page.url)).toEqual([
+        `${baseUrl}/items?page=1`,
+        `${baseUrl}/items?page=2`,
+      ]);
+      expect(nock.isDone()).toBe(true);
+    });
+  });
+
+  describe('getMany', () => {
+    /** {@link makeSpiedCacheStore} with a bulk `getMany`. */
+    function makeBulkCacheStore() {
+      const cache = makeSpiedCacheStore();
+      return {
+        ...cache,
+        getMany: vi.fn(async (hashes: Array<string>) =>
+          hashes.map((hash) => cache._store.get(hash)?.value),
+        ),
+      };
+    }
+
+    function jsonResponse(body: unknown, status = 200) {
+      return new Response(JSON.stringify(body), {
+        status,
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'max-age=60',
+        },
+      });
+    }
+
+    test('settles every URL in input order', async () => {
+      const fetchFn = vi.fn(async (url: string) =>
+        url.endsWith('/2')
+          ? jsonResponse({ message: 'missing' }, 404)
+          : jsonResponse({ url }),
+      );
+      const client = new HttpClient({}, { fetchFn });
+      const urls = [1, 2, 3].map((n) => `${baseUrl}/items/${n}`);
+
+      const results = await client.getMany(urls, { concurrency: 2 });
+
+      expect(results).toEqual([
+        { status: 'fulfilled', url: urls[0], data: { url: urls[0] } },
+        {
+          status: 'rejected',
+          url: urls[1],
+          error: expect.any(HttpClientError),
+        },
+        { status: 'fulfilled', url: urls[2], data: { url: urls[2] } },
+      ]);
+    });
+
+    test('serves fresh entries from one bulk lookup before any fetch', async () => {
+      const cache = makeBulkCacheStore();
+      const fetchFn = vi.fn(async (url: string) => jsonResponse({ url }));
+      const client = new HttpClient({ cache }, { fetchFn });
+      await client.get(`${baseUrl}/items/1`);
+      cache.get.mockClear();
+      fetchFn.mockClear();
+
+      const results = await client.getMany([
+        `${baseUrl}/items/1`,
+        `${baseUrl}/items/2`,
+      ]);
+
+      expect(cache.getMany).toHaveBeenCalledTimes(1);
+      expect(cache.getMany.mock.calls[0]![0]).toHaveLength(2);
+      // Only the miss is looked up again, on its way to the origin
+      expect(cache.get).toHaveBeenCalledTimes(1);
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+      expect(results.map((result) => result.status)).toEqual([
+        'fulfilled',
+        'fulfilled',
+      ]);
+    });
+
+    test('falls back to get() for stores without getMany', async () => {
+      const cache = makeSpiedCacheStore();
+      const fetchFn = vi.fn(async (url: string) => jsonResponse({ url }));
+      const client = new HttpClient({ cache }, { fetchFn });
+      await client.get(`${baseUrl}/items/1`);
+      fetchFn.mockClear();
+
+      await client.getMany([`${baseUrl}/items/1`, `${baseUrl}/items/1`]);
+
+      expect(fetchFn).not.toHaveBeenCalled();
+    });
+
+    test('settles each URL on its own when the bulk lookup fails', async () => {
+      const cache = makeBulkCacheStore();
+      cache.getMany.mockRejectedValue(new Error('store unavailable'));
+      const fetchFn = vi.fn(async (url: string) => jsonResponse({ url }));
+      const client = new HttpClient({ cache }, { fetchFn });
+      await client.get(`${baseUrl}/items/1`);
+      fetchFn.mockClear();
+
+      const results = await client.getMany([
+        `${baseUrl}/items/1`,
+        `${baseUrl}/items/2`,
+      ]);
+
+      expect(results).toEqual([
+        {
+          status: 'fulfilled',
+          url: `${baseUrl}/items/1`,
+          data: { url: `${baseUrl}/items/1` },
+        },
+        {
+          status: 'fulfilled',
+          url: `${baseUrl}/items/2`,
+          data: { url: `${baseUrl}/items/2` },
+        },
+      ]);
+      // The cached entry is still served, through the per-request lookup
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+    });
+
+    test('waits for rate-limit room instead of failing', async () => {
+      let allowed = 1;
+      const getWaitTime = vi.fn(async () => (allowed > 0 ? 0 : 20));
+      const client = new HttpClient(
+        {
+          rateLimit: {
+            canProceed: async () => allowed > 0,
+            record: async () => {
+              allowed -= 1;
+              // The window resets shortly after it fills
+              setTimeout(() => {
+                allowed = 1;
+              }, 10);
+            },
+            getStatus: async () => ({
+              remaining: allowed,
+              resetTime: new Date(),
+              limit: 1,
+            }),
+            reset: async () => {},
+            getWaitTime,
+          },
+        },
+        { fetchFn: async (url: string) => jsonResponse({ url }) },
+      );
+
+      const results = await client.getMany(
+        [1, 2, 3].map((n) => `${baseUrl}/items?id=${n}`),
+        { concurrency: 1, priority: 'user' },
+      );
+
+      expect(results.map((result) => result.status)).toEqual([
+        'fulfilled',
+        'fulfilled',
+        'fulfilled',
+      ]);
+      expect(getWaitTime).toHaveBeenCalledWith('api.example.com/items', 'user');
+    });
+
+    test('stopOnError reports the remaining URLs as aborted', async () => {
+      const fetchFn = vi.fn(async () => jsonResponse({}, 500));
+      const client = new HttpClient({}, { fetchFn, retry: false });
+
+      const results = await client.getMany(
+        [1, 2, 3].map((n) => `${baseUrl}/items/${n}`),
+        { concurrency: 1, stopOnError: true },
+      );
+
+      expect(results.map((result) => result.status)).toEqual([
+        'rejected',
+        'aborted',
+        'aborted',
+      ]);
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('baseUrl and params', () => {
+    function jsonResponse(body: unknown) {
+      return new Response(JSON.stringify(body), {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+          'Cache-Control': 'max-age=60',
+        },
+      });
+    }
+
+    test('joins relative URLs onto baseUrl and appends params', async () => {
+      const fetchFn = vi.fn(async (url: string) => jsonResponse({ url }));
+      const client = new HttpClient({}, { fetchFn, baseUrl: `${baseUrl}/v1` });
+
+      const data = await client.get(buildPath('/users/:id/repos', { id: 7 }), {
+        params: { sort: 'name', page: 2 },
+      });
+
+      expect(data).toEqual({
+        url: `${baseUrl}/v1/users/7/repos?sort=name&page=2`,
+      });
+    });
+
+    test('params share a cache key with the same query written by hand', async () => {
+      const fetchFn = vi.fn(async (url: string) => jsonResponse({ url }));
+      const client = new HttpClient(
+        { cache: makeSpiedCacheStore() },
+        { fetchFn, baseUrl },
+      );
+
+      await client.get(`${baseUrl}/items?tag=a&tag=b&limit=10`);
+      await client.get('/items', { params: { limit: 10, tag: ['a', 'b'] } });
+
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+    });
+
+    test('per-request arrayFormat overrides the client default', async () => {
+      const fetchFn = vi.fn(async (url: string) => jsonResponse({ url }));
+      const client = new HttpClient(
+        {},
+        { fetchFn, baseUrl, arrayFormat: 'comma' },
+      );
+
+      await client.get('/items', { params: { tag: ['a', 'b'] } });
+      await client.get('/items', {
+        params: { tag: ['a', 'b'] },
+        arrayFormat: 'brackets',
+      });
+
+      expect(fetchFn.mock.calls.map(([url]) => url)).toEqual([
+        `${baseUrl}/items?tag=a%2Cb`,
+        `${baseUrl}/items?tag%5B%5D=a&tag%5B%5D=b`,
+      ]);
+    });
+
+    test('getMany and paginate resolve relative URLs', async () => {
+      const fetchFn = vi.fn(async (url: string) =>
+        jsonResponse(url.includes('page=2') ? [] : [url]),
+      );
+      const client = new HttpClient({}, { fetchFn, baseUrl });
+
+      const results = await client.getMany(['/a', '/b'], {
+        params: { lang: 'en' },
+      });
+      const items: Array<unknown> = [];
+      for await (const item of client.paginate('/c', pageNumberPagination())) {
+        items.push(item);
+      }
+
+      expect(results.map((result) => result.status)).toEqual([
+        'fulfilled',
+        'fulfilled',
+      ]);
+      expect(fetchFn.mock.calls.map(([url]) => url)).toEqual([
+        `${baseUrl}/a?lang=en`,
+        `${baseUrl}/b?lang=en`,
+        `${baseUrl}/c?page=1`,
+        `${baseUrl}/c?page=2`,
+      ]);
+      expect(items).toEqual([`${baseUrl}/c?page=1`]);
+    });
+
+    test('fills a path template and names the resource after it', async () => {
+      const fetchFn = vi.fn(async (url: string) => jsonResponse({ url }));
+      const requestComplete = vi.fn();
+      const client = new HttpClient(
+        {},
+        { fetchFn, baseUrl: `${baseUrl}/v1`, hooks: { requestComplete } },
+      );
+
+      const data = await client.get('/users/:id/repos', {
+        pathParams: { id: 'a/b' },
+        params: { sort: 'name' },
+      });
+      await client.get('/users/:id/repos', { pathParams: { id: 7 } });
+      await client.get('/users/:id/repos', {
+        pathParams: { id: 8 },
+        resource: 'pinned',
+      });
+
+      expect(data).toEqual({
+        url: `${baseUrl}/v1/users/a%2Fb/repos?sort=name`,
+      });
+      expect(fetchFn.mock.calls[1]![0]).toBe(`${baseUrl}/v1/users/7/repos`);
+      expect(
+        requestComplete.mock.calls.map(([event]) => event.resource),
+      ).toEqual([
+        'api.example.com/v1/users/:id/repos',
+        'api.example.com/v1/users/:id/repos',
+        'pinned',
+      ]);
+    });
+
+    test('caches each filled path separately', async () => {
+      const fetchFn = vi.fn(async (url: string) => jsonResponse({ url }));
+      const client = new HttpClient(
+        { cache: makeSpiedCacheStore() },
+        { fetchFn, baseUrl },
+      );
+
+      await client.get('/users/:id', { pathParams: { id: 1 } });
+      await client.get('/users/:id', { pathParams: { id: 2 } });
+      await client.get(`${baseUrl}/users/1`);
+
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+    });
+
+    test('types pathParams from the path template', async () => {
+      const fetchFn = vi.fn(async () => jsonResponse({ id: 1 }));
+      const client = new HttpClient({}, { fetchFn, baseUrl });
+
+      const user = await client.get('/users/:id', {
+        pathParams: { id: 1 },
+        schema: z.object({ id: z.number() }),
+      });
+      const response = await client.getResponse('/users/:id/repos/:repo', {
+        pathParams: { id: 1, repo: 'toolkit' },
+      });
+      await client.request('DELETE', '/users/:id', { pathParams: { id: 1 } });
+
+      expectTypeOf(user).toEqualTypeOf<{ id: number }>();
+      expect(response.status).toBe(200);
+      await expect(
+        // @ts-expect-error `id` is missing
+        client.get('/users/:id', { pathParams: {} }),
+      ).rejects.toThrow(`Missing path param 'id' for '${baseUrl}/users/:id'`);
+      await client.get('/users/:id', {
+        // @ts-expect-error `name` is not a placeholder of the template
+        pathParams: { id: 1, name: 'ada' },
+      });
+    });
+
+    test('rejects relative URLs without a baseUrl', async () => {
+      const client = new HttpClient({}, { fetchFn: vi.fn() });
+
+      await expect(client.get('/items')).rejects.toThrow(
+        "Cannot resolve relative URL '/items' without a baseUrl",
+      );
+      const [result] = await client.getMany(['/items']);
+      expect(result).toMatchObject({ status: 'rejected', url: '/items' });
+    });
+  });
+
+  describe('resource resolution', () => {
+    test('resourceResolver rules pick the rate-limit bucket', async () => {
+      const record = vi.fn(async () => {});
+      const rateLimit = {
+        canProceed: vi.fn(async () => true),
+        record,
+        getStatus: vi.fn(),
+        reset: vi.fn(),
+        getWaitTime: vi.fn(async () => 0),
+      };
+      const client = new HttpClient(
+        { rateLimit },
+        {
+          resourceResolver: [
+            { match: `GET ${baseUrl}/users/:id`, resource: 'users' },
+          ],
+        },
+      );
+      nock(baseUrl).get('/users/1').reply(200, {});
+      nock(baseUrl).get('/orders/1').reply(200, {});
+
+      await client.get(`${baseUrl}/users/1`);
+      await client.get(`${baseUrl}/orders/1`);
+
+      expect(record.mock.calls).toEqual([
+        ['users', 'background'],
+        ['api.example.com/1', 'background'],
+      ]);
+    });
+
+    test('a per-request resource overrides the resolver', async () => {
+      const requestComplete = vi.fn();
+      const client = new HttpClient(
+        {},
+        {
+          resourceResolver: () => 'resolved',
+          hooks: { requestComplete },
+        },
+      );
+      nock(baseUrl).get('/items').twice().reply(200, {});
+
+      await client.get(`${baseUrl}/items`);
+      await client.getMany([`${baseUrl}/items`], { resource: 'pinned' });
+
+      expect(
+        requestComplete.mock.calls.map(([event]) => event.resource),
+      ).toEqual(['resolved', 'pinned']);
+    });
+  });
+
+  describe('auth', () => {
+    function makeProvider(initial = 'old') {
+      let current = initial;
+      let refreshes = 0;
+      return {
+        getToken: vi.fn(async () => current),
+        refreshToken: vi.fn(async () => {
+          await new Promise((resolve) => setTimeout(resolve, 5));
+          current = `new-${++refreshes}`;
+          return current;
+        }),
+      };
+    }
+
+    /** Accept only `valid` as the bearer token. */
+    function authFetch(valid: string) {
+      return vi.fn(async (url: string, init?: RequestInit) => {
+        const authorization = new Headers(init?.headers).get('authorization');
+        return authorization === `Bearer ${valid}`
+          ? Response.json({ url })
+          : Response.json({ message: 'unauthorized' }, { status: 401 });
+      });
+    }
+
+    test('sends the provider token as a bearer token', async () => {
+      const auth = makeProvider('abc');
+      const fetchFn = authFetch('abc');
+      const client = new HttpClient({}, { fetchFn, auth });
+
+      await expect(client.get(`${baseUrl}/items`)).resolves.toEqual({
+        url: `${baseUrl}/items`,
+      });
+      expect(auth.refreshToken).not.toHaveBeenCalled();
+    });
+
+    test('refreshes once for concurrent 401s and replays each request', async () => {
+      const auth = makeProvider();
+      const fetchFn = authFetch('new-1');
+      const client = new HttpClient({}, { fetchFn, auth });
+
+      const results = await Promise.all(
+        ['a', 'b', 'c'].map((id) => client.get(`${baseUrl}/items?id=${id}`)),
+      );
+
+      expect(results).toHaveLength(3);
+      expect(auth.refreshToken).toHaveBeenCalledTimes(1);
+      expect(fetchFn).toHaveBeenCalledTimes(6);
+    });
+
+    test('a request rejected after a refresh reuses the new token', async () => {
+      const auth = makeProvider();
+      const fetchFn = authFetch('new-1');
+      const client = new HttpClient({}, { fetchFn, auth });
+      await client.get(`${baseUrl}/items?id=1`);
+
+      // Simulate a request that read the old token before the refresh
+      const session = (
+        client as unknown as {
+          authSession: { refreshAfter: (token: string) => Promise<string> };
+        }
+      ).authSession;
+
+      await expect(session.refreshAfter('old')).resolves.toBe('new-1');
+      expect(auth.refreshToken).toHaveBeenCalledTimes(1);
+    });
+
+    test('a second 401 after the refresh is not replayed again', async () => {
+      const auth = makeProvider();
+      const fetchFn = authFetch('never');
+      const client = new HttpClient({}, { fetchFn, auth });
+
+      const error = await client.get(`${baseUrl}/items`).catch((e) => e);
+
+      expect(error).toBeInstanceOf(HttpClientError);
+      expect(error.statusCode).toBe(401);
+      expect(fetchFn).toHaveBeenCalledTimes(2);
+      expect(auth.refreshToken).toHaveBeenCalledTimes(1);
+    });
+
+    test('returns the 401 for a stream body instead of replaying it', async () => {
+      const auth = makeProvider();
+      const fetchFn = authFetch('new-1');
+      const client = new HttpClient({}, { fetchFn, auth });
+
+      const error = await client
+        .post(`${baseUrl}/upload`, new Blob(['chunk']).stream())
+        .catch((e) => e);
+
+      expect(error).toBeInstanceOf(HttpClientError);
+      expect(error.statusCode).toBe(401);
+      expect(fetchFn).toHaveBeenCalledTimes(1);
+      expect(auth.refreshToken).not.toHaveBeenCalled();
+    });
+
+    test('leaves requests with their own Authorization header alone', async () => {
+      const auth = makeProvider();
+      const fetchFn = authFetch('mine');
+      const client = new HttpClient({}, { fetchFn, auth });
+
+      await client.get(`${baseUrl}/items`, {
+        headers: { Authorization: 'Bearer mine' },
+      });
+
+      expect(auth.getToken).not.toHaveBeenCalled();
+    });
+
+    test('replays from the original init after middleware ran', async () => {
+      const auth = makeProvider();
+      const fetchFn = authFetch('new-1');
+      const client = new HttpClient(
+        {},
+        {
+          fetchFn,
+          auth,
+          requestInterceptor: (_url, init) => {
+            const headers = new Headers(init.headers);
+            headers.append('X-Trail', 'seen');
+            return { ...init, headers };
+          },
+        },
+      );
+
+      await client.get(`${baseUrl}/items`);
+
+      const replay = fetchFn.mock.calls[1]![1] as RequestInit;
+      expect(new Headers(replay.headers).get('x-trail')).toBe('seen');
+    });
+  });
+
+  describe('Vary variants', () => {
+    // Round-trips values the way persistent stores do
+    function makeSerializingCacheStore() {
+      const store = new Map<string, ReturnType<typeof serializeStoreValue>>();
+      return {
+        get: vi.fn(async (hash: string) => {
+          const stored = store.get(hash);
+          return stored ? deserializeStoreValue(stored) : undefined;
+        }),
+        set: vi.fn(async (hash: string, value: unknown) => {
+          store.set(hash, serializeStoreValue(value));
+        }),
+        delete: vi.fn(async (hash: string) => {
+          store.delete(hash);
+        }),
+        clear: vi.fn(async () => {
+          store.clear();
+        }),
+        _store: store,
+      };
+    }
+
+    function replyInLanguage(path: string, times: number) {
+      nock(baseUrl)
+        .get(path)
+        .times(times)
+        .reply(function () {
+          return [
+            200,
+            { lang: this.req.headers['accept-language'] },
+            { 'Cache-Control': 'max-age=3600', Vary: 'Accept-Language' },
+          ];
+        });
+    }
+
+    function getIn(client: HttpClient, path: string, lang: string) {
+      return client.get(`${baseUrl}${path}`, {
+        headers: { 'accept-language': lang },
+      });
+    }
+
+    test('alternating variants are served from cache', async () => {
+      const cache = makeSerializingCacheStore();
+      const client = new HttpClient({ cache });
+      replyInLanguage('/greeting', 2);
+
+      await getIn(client, '/greeting', 'en');
+      await getIn(client, '/greeting', 'fr');
+
+      await expect(getIn(client, '/greeting', 'en')).resolves.toEqual({
+        lang: 'en',
+      });
+      await expect(getIn(client, '/greeting', 'fr')).resolves.toEqual({
+        lang: 'fr',
+      });
+      expect(nock.isDone()).toBe(true);
+      // One index plus one entry per variant
+      expect(cache._store.size).toBe(3);
+    });
+
+    test('evicts the least recently used variant beyond maxCacheVariants', async () => {
+      const cache = makeSerializingCacheStore();
+      const client = new HttpClient({ cache }, { maxCacheVariants: 2 });
+      replyInLanguage('/greeting', 3);
+
+      await getIn(client, '/greeting', 'en');
+      await getIn(client, '/greeting', 'fr');
+      // Using 'en' again makes 'fr' the least recently used
+      await getIn(client, '/greeting', 'en');
+      await getIn(client, '/greeting', 'de');
+      expect(nock.isDone()).toBe(true);
+      expect(cache._store.size).toBe(3);
+
+      await expect(getIn(client, '/greeting', 'en')).resolves.toEqual({
+        lang: 'en',
+      });
+      replyInLanguage('/greeting', 1);
+      await expect(getIn(client, '/greeting', 'fr')).resolves.toEqual({
+        lang: 'fr',
+      });
+      expect(nock.isDone()).toBe(true);
+    });
+
+    test('unsafe requests invalidate every variant', async () => {
+      const cache = makeSerializingCacheStore();
+      const client = new HttpClient({ cache });
+      replyInLanguage('/greeting', 2);
+      await getIn(client, '/greeting', 'en');
+      await getIn(client, '/greeting', 'fr');
+
+      nock(baseUrl).post('/greeting').reply(204);
+      await client.post(`${baseUrl}/greeting`, {});
+
+      replyInLanguage('/greeting', 2);
+      await getIn(client, '/greeting', 'en');
+      await getIn(client, '/greeting', 'fr');
+      expect(nock.isDone()).toBe(true);
+    });
+
+    test('getMany reads variants from the bulk lookup', async () => {
+      const cache = makeSerializingCacheStore();
+      const client = new HttpClient({ cache });
+      replyInLanguage('/greeting', 2);
+      await getIn(client, '/greeting', 'en');
+      await getIn(client, '/greeting', 'fr');
+
+      const results = await client.getMany([`${baseUrl}/greeting`], {
+        headers: { 'accept-language': 'en' },
+      });
+
+      expect(results[0]).toMatchObject({
+        status: 'fulfilled',
+        data: { lang: 'en' },
+      });
+      expect(nock.isDone()).toBe(true);
+    });
+  });
+
+  describe('shared cache mode', () => {
+    function replyTwice(path: string, cacheControl: string) {
+      let served = 0;
+      nock(baseUrl)
+        .get(path)
+        .times(2)
+        .reply(() => [
+          200,
+          { served: ++served },
+          { 'Cache-Control': cacheControl },
+        ]);
+    }
+
+    test('s-maxage governs freshness only in a shared cache', async () => {
+      const shared = new HttpClient(
+        { cache: makeSpiedCacheStore() },
+        { cacheMode: 'shared' },
+      );
+      replyTwice('/s-maxage', 'max-age=0, s-maxage=60');
+      await shared.get(`${baseUrl}/s-maxage`);
+      await expect(shared.get(`${baseUrl}/s-maxage`)).resolves.toEqual({
+        served: 1,
+      });
+      nock.cleanAll();
+
+      const privateClient = new HttpClient({ cache: makeSpiedCacheStore() });
+      replyTwice('/s-maxage', 'max-age=0, s-maxage=60');
+      await privateClient.get(`${baseUrl}/s-maxage`);
+      await expect(privateClient.get(`${baseUrl}/s-maxage`)).resolves.toEqual({
+        served: 2,
+      });
+    });
+
+    test('does not store private responses', async () => {
+      const cache = makeSpiedCacheStore();
+      const client = new HttpClient({ cache }, { cacheMode: 'shared' });
+      replyTwice('/private', 'private, max-age=60');
+
+      await client.get(`${baseUrl}/private`);
+      await expect(client.get(`${baseUrl}/private`)).resolves.toEqual({
+        served: 2,
+      });
+      expect(cache.set).not.toHaveBeenCalled();
+    });
+
+    test('stores authorized responses only when marked shareable', async () => {
+      const cache = makeSpiedCacheStore();
+      const client = new HttpClient({ cache }, { cacheMode: 'shared' });
+      const headers = { Authorization: 'Bearer user-1' };
+
+      replyTwice('/me', 'max-age=60');
+      await client.get(`${baseUrl}/me`, { headers });
+      await expect(client.get(`${baseUrl}/me`, { headers })).resolves.toEqual({
+        served: 2,
+      });
+      expect(cache.set).not.toHaveBeenCalled();
+
+      replyTwice('/catalog', 'public, max-age=60');
+      await client.get(`${baseUrl}/catalog`, { headers });
+      await expect(
+        client.get(`${baseUrl}/catalog`, { headers }),
+      ).resolves.toEqual({ served: 1 });
+    });
+
+    test('treats requests from an auth provider as authorized', async () => {
+      const cache = makeSpiedCacheStore();
+      const client = new HttpClient(
+        { cache },
+        {
+          cacheMode: 'shared',
+          auth: {
+            getToken: async () => 'token',
+            refreshToken: async () => 'token',
+          },
+        },
+      );
+      replyTwice('/me', 'max-age=60');
+
+      await client.get(`${baseUrl}/me`);
+      await client.get(`${baseUrl}/me`);
+
+      expect(cache.set).not.toHaveBeenCalled();
+      expect(nock.isDone()).toBe(true);
+    });
+  });
+
+  describe('partitionBy', () => {
+    const byUser = (_url: string, headers: Record<string, string>) =>
+      headers['x-user'];
+
+    function replyPerUser(path: string, times: number) {
+      nock(baseUrl)
+        .get(path)
+        .times(times)
+        .reply(function () {
+          return [
+            200,
+            { user: this.req.headers['x-user'] },
+            { 'Cache-Control': 'max-age=60' },
+          ];
+        });
+    }
+
+    function getAs(client: HttpClient, path: string, user: string) {
+      return client.get(`${baseUrl}${path}`, { headers: { 'x-user': user } });
+    }
+
+    test('keeps cached responses apart per partition', async () => {
+      const client = new HttpClient(
+        { cache: makeSpiedCacheStore() },
+        { partitionBy: byUser },
+      );
+      replyPerUser('/me', 2);
+
+      await getAs(client, '/me', 'alice');
+      await expect(getAs(client, '/me', 'bob')).resolves.toEqual({
+        user: 'bob',
+      });
+      await expect(getAs(client, '/me', 'alice')).resolves.toEqual({
+        user: 'alice',
+      });
+      expect(nock.isDone()).toBe(true);
+    });
+
+    test('dedupe keys differ per partition', async () => {
+      const registered: Array<string> = [];
+      const dedupe = {
+        waitFor: vi.fn(async () => undefined),
+        register: vi.fn(async (hash: string) => {
+          registered.push(hash);
+          return 'job';
+        }),
+        complete: vi.fn(async () => {}),
+        fail: vi.fn(async () => {}),
+        isInProgress: vi.fn(async () => false),
+      };
+      const client = new HttpClient({ dedupe }, { partitionBy: byUser });
+      replyPerUser('/me', 3);
+
+      await getAs(client, '/me', 'alice');
+      await getAs(client, '/me', 'bob');
+      await getAs(client, '/me', 'alice');
+
+      expect(registered[0]).not.toBe(registered[1]);
+      expect(registered[0]).toBe(registered[2]);
+    });
+
+    test('unpartitioned requests keep their usual keys', async () => {
+      const partitioned = makeSpiedCacheStore();
+      const plain = makeSpiedCacheStore();
+      replyPerUser('/public', 2);
+
+      await new HttpClient(
+        { cache: partitioned },
+        { partitionBy: () => undefined },
+      ).get(`${baseUrl}/public`);
+      await new HttpClient({ cache: plain }).get(`${baseUrl}/public`);
+
+      expect(partitioned.set.mock.calls[0]![0]).toBe(
+        plain.set.mock.calls[0]![0],
+      );
+    });
+
+    test('purgePartition drops only that partition', async () => {
+      const client = new HttpClient(
+        { cache: makeSpiedCacheStore() },
+        { partitionBy: byUser },
+      );
+      replyPerUser('/me', 2);
+      await getAs(client, '/me', 'alice');
+      await getAs(client, '/me', 'bob');
+
+      await client.purgePartition('alice');
+
+      replyPerUser('/me', 1);
+      await getAs(client, '/me', 'alice');
+      await getAs(client, '/me', 'bob');
+      expect(nock.isDone()).toBe(true);
+    });
+
+    test('never serves purged entries after the generation is evicted', async () => {
+      const cache = makeSpiedCacheStore();
+      const client = new HttpClient({ cache }, { partitionBy: byUser });
+      replyPerUser('/me', 1);
+      await getAs(client, '/me', 'alice');
+
+      await client.purgePartition('alice');
+      // Evict every generation key, as an LRU store under pressure may
+      for (const [hash] of cache.set.mock.calls.filter(
+        ([, value]) => typeof value === 'string',
+      )) {
+        await cache.delete(hash);
+      }
+
+      replyPerUser('/me', 1);
+      await getAs(client, '/me', 'alice');
+      expect(nock.isDone()).toBe(true);
+    });
+
+    test('stores generations without expiry', async () => {
+      const cache = makeSpiedCacheStore();
+      const client = new HttpClient({ cache }, { partitionBy: byUser });
+      replyPerUser('/me', 1);
+
+      await getAs(client, '/me', 'alice');
+      await client.purgePartition('alice');
+
+      const generationWrites = cache.set.mock.calls.filter(
+        ([, value]) => typeof value === 'string',
+      );
+      expect(generationWrites).toHaveLength(2);
+      expect(generationWrites.map(([, , ttl]) => ttl)).toEqual([0, 0]);
+    });
+
+    test('unsafe requests invalidate within the partition', async () => {
+      const client = new HttpClient(
+        { cache: makeSpiedCacheStore() },
+        { partitionBy: byUser },
+      );
+      replyPerUser('/me', 2);
+      await getAs(client, '/me', 'alice');
+      await getAs(client, '/me', 'bob');
+
+      nock(baseUrl).put('/me').reply(204);
+      await client.put(`${baseUrl}/me`, {}, { headers: { 'x-user': 'alice' } });
+
+      replyPerUser('/me', 1);
+      await getAs(client, '/me', 'alice');
+      await getAs(client, '/me', 'bob');
+      expect(nock.isDone()).toBe(true);
+    });
+  });
 });
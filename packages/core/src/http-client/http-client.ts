@@ -1,18 +1,90 @@
+import type { z, ZodTypeAny } from 'zod';
+import { AuthSession } from './auth.js';
+import { runBatch, type GetManyOptions, type GetManyResult } from './batch.js';
+import {
+  Bulkhead,
+  type BulkheadOptions,
+  type BulkheadSnapshot,
+} from './bulkhead.js';
+import {
+  CircuitBreaker,
+  type CircuitBreakerOptions,
+} from './circuit-breaker.js';
+import {
+  HttpClientEventEmitter,
+  type HttpClientEventBase,
+  type HttpClientEventListener,
+  type HttpClientEventName,
+  type HttpClientEvents,
+  type HttpClientHooks,
+} from './events.js';
+import { RequestHedger, type HedgingOptions } from './hedging.js';
+import {
+  composeMiddleware,
+  type Middleware,
+  type MiddlewareContext,
+} from './middleware.js';
+import {
+  createPaginated,
+  type PaginateOptions,
+  type Paginated,
+  type PaginationStrategy,
+} from './pagination.js';
+import { fillPathParams, resolveRequestUrl } from './request-url.js';
+import {
+  createResourceResolver,
+  templateResource,
+  type ResourceResolver,
+} from './resource-resolver.js';
+import { onStreamSettled } from './stream-settled.js';
+import {
+  endAttemptSpan,
+  RequestTrace,
+  TracingAttributes,
+  type TracingOptions,
+} from './tracing.js';
+import type { AuthProvider } from '../auth/index.js';
 import {
   parseCacheControl,
+  parseRequestCacheControl,
   createCacheEntry,
   refreshCacheEntry,
   isCacheEntry,
   getFreshnessStatus,
+  acceptsStale,
   calculateStoreTTL,
   parseVaryHeader,
   captureVaryValues,
   varyMatches,
+  isStorableInSharedCache,
+  getInvalidationTargets,
+  buildCachedHeaders,
+  calculateCurrentAge,
+  isCacheVariantIndex,
+  selectVariant,
+  touchVariant,
+  addVariant,
+  variantKey,
+  type CacheControlDirectives,
   type CacheEntry,
+  type CacheMode,
+  type CacheVariantIndex,
+  type FreshnessStatus,
+  type RequestCacheControlDirectives,
 } from '../cache/index.js';
+import { CacheMissError } from '../errors/cache-miss-error.js';
+import { CircuitOpenError } from '../errors/circuit-open-error.js';
 import { HttpClientError } from '../errors/http-client-error.js';
+import { ResponseValidationError } from '../errors/response-validation-error.js';
+import { TimeoutError } from '../errors/timeout-error.js';
+import {
+  HttpClientMetricNames,
+  type MetricLabels,
+  type MetricsCollector,
+} from '../metrics/index.js';
 import {
   CacheStore,
+  CircuitBreakerStore,
   DedupeStore,
   RateLimitStore,
   AdaptiveRateLimitStore,
@@ -21,9 +93,25 @@ import {
 } from '../stores/index.js';
 import {
   HttpClientContract,
+  type ArrayFormat,
+  type CacheKeyFunction,
+  type CacheKeyOptions,
   type HttpErrorContext,
+  type HttpMethod,
+  type HttpResponse,
+  type PartitionFunction,
+  type PathTemplateRequestOptions,
+  type RequestBody,
+  type RequestOptions,
+  type RequestWithBodyOptions,
+  type ResponseCacheStatus,
+  type ResponseType,
+  type ResponseTypeMap,
   type RetryContext,
   type RetryOptions,
+  type SchemaRequestOptions,
+  type TimeoutOptions,
+  type TypedResponseRequestOptions,
 } from '../types/index.js';
 
 const DEFAULT_RATE_LIMIT_HEADER_NAMES = {
@@ -73,10 +161,96 @@ function wait(ms: number, signal?: AbortSignal): Promise<void> {
   });
 }
 
+interface TimeoutScope {
+  /** Aborts when the parent signal aborts or the budget expires. */
+  signal: AbortSignal;
+  /** The TimeoutError raised by this scope, once its budget has expired. */
+  readonly error: TimeoutError | undefined;
+  /** Clear the timer and detach from the parent signal. */
+  dispose(): void;
+}
+
+/**
+ * Create an AbortSignal that follows `parent` and additionally aborts after
+ * `ms` milliseconds. The scope records its own TimeoutError so callers can
+ * tell a timeout apart from a caller abort, whatever error fetch surfaces.
+ */
+function createTimeoutScope(
+  parent: AbortSignal | undefined,
+  ms: number,
+  createError: () => TimeoutError,
+): TimeoutScope {
+  const controller = new AbortController();
+  let error: TimeoutError | undefined;
+
+  const onParentAbort = () => controller.abort(parent?.reason);
+  if (parent) {
+    if (parent.aborted) {
+      onParentAbort();
+    } else {
+      parent.addEventListener('abort', onParentAbort, { once: true });
+    }
+  }
+
+  const timer = setTimeout(() => {
+    error = createError();
+    controller.abort(error);
+  }, ms);
+
+  return {
+    signal: controller.signal,
+    get error() {
+      return error;
+    },
+    dispose() {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onParentAbort);
+    },
+  };
+}
+
+/**
+ * Settle with `promise`, or reject with an AbortError as soon as `signal`
+ * aborts. Used for waits that cannot be cancelled themselves, such as
+ * joining another caller's in-flight request.
+ */
+function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    function onAbort() {
+      const err = new Error('Aborted');
+      err.name = 'AbortError';
+      reject(err);
+    }
+
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      (value) => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      (error: unknown) => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    );
+  });
+}
+
 export interface HttpClientStores {
   cache?: CacheStore;
   dedupe?: DedupeStore;
   rateLimit?: RateLimitStore | AdaptiveRateLimitStore;
+  /** Shares circuit breaker state between clients and processes. */
+  circuitBreaker?: CircuitBreakerStore;
 }
 
 export interface HttpClientOptions {
@@ -87,11 +261,77 @@ export interface HttpClientOptions {
    * the caching layer.
    */
   fetchFn?: (url: string, init?: RequestInit) => Promise<Response>;
+  /**
+   * Base URL that relative request URLs are joined onto, including any
+   * base path: `/users` against `https://api.example.com/v1` requests
+   * `https://api.example.com/v1/users`. Absolute URLs are used as given.
+   */
+  baseUrl?: string;
+  /**
+   * How array values in per-request `params` are serialised. Defaults to
+   * `'repeat'`.
+   */
+  arrayFormat?: ArrayFormat;
+  /**
+   * How requests are grouped into resources for rate limiting and
+   * bulkheads: route rules such as
+   * `{ match: 'GET https://api.example.com/users/:id', resource: 'users' }`,
+   * regexes, or a function. Unmatched requests use the default resource,
+   * the host plus the last path segment (`api.example.com/items`).
+   */
+  resourceResolver?: ResourceResolver;
+  /**
+   * Bearer token source, e.g. `OAuth2ClientCredentials`. Every attempt is
+   * sent with `Authorization: Bearer <token>` unless the request sets its
+   * own `Authorization` header. A 401 triggers one token refresh, shared by
+   * every request rejected at the same moment, and a single replay.
+   */
+  auth?: AuthProvider;
+  /**
+   * Cap on requests in flight per origin and per resource, independent of
+   * windowed rate limiting. Requests over a cap wait in a queue (user
+   * priority first) for up to `maxWaitTime`.
+   */
+  bulkhead?: BulkheadOptions;
+  /**
+   * Hedged requests for `priority: 'user'` GET and HEAD calls. When an
+   * attempt has not responded within the hedge delay, an identical attempt
+   * is sent and the first response wins; the other is aborted. Hedges count
+   * against the rate-limit store and are capped per origin.
+   */
+  hedging?: HedgingOptions;
+  /**
+   * Per-origin circuit breaker. Enabled when this is set or a
+   * `circuitBreaker` store is given. While open, requests fail fast with
+   * `CircuitOpenError` or are served from cache.
+   */
+  circuitBreaker?: CircuitBreakerOptions;
+  /**
+   * Lifecycle event listeners, one per event. More can be added with `on()`.
+   */
+  hooks?: HttpClientHooks;
+  /**
+   * Ordered middleware wrapping the fetch stage of every attempt, outermost
+   * first. See {@link Middleware}. More can be appended with `use()`.
+   */
+  middleware?: Array<Middleware>;
+  /**
+   * Collector to report request, cache, dedupe, retry and rate-limit wait
+   * metrics to. One collector may be shared by many clients.
+   */
+  metrics?: MetricsCollector;
+  /**
+   * OpenTelemetry tracing. Each request gets a parent span with child spans
+   * for the cache lookup, dedupe wait, rate-limit wait, every fetch attempt
+   * and any background revalidation.
+   */
+  tracing?: TracingOptions;
   /**
    * Pre-request hook. Runs before every outbound request, allowing
    * modification of the request init (e.g., injecting auth headers,
    * adding tracing headers). Called with the URL and current RequestInit;
-   * must return a (possibly modified) RequestInit.
+   * must return a (possibly modified) RequestInit. Installed as built-in
+   * middleware inside any user middleware, right before `fetch`.
    */
   requestInterceptor?: (
     url: string,
@@ -102,6 +342,8 @@ export interface HttpClientOptions {
    * response body parsing, transformation, and caching. Use this for
    * logging, modifying headers, or replacing the Response entirely.
    * Distinct from `responseTransformer` which operates on parsed data.
+   * Installed as built-in middleware inside any user middleware, right
+   * after `fetch`.
    */
   responseInterceptor?: (
     response: Response,
@@ -123,6 +365,8 @@ export interface HttpClientOptions {
    * Transforms parsed response data before caching and further processing.
    * Runs on every response (cache miss or revalidation). Use this for
    * structural mapping like converting snake_case keys to camelCase.
+   * Unlike the interceptors this is not middleware: it runs once on the
+   * parsed body after the final attempt, so the chain never sees its result.
    */
   responseTransformer?: (data: unknown) => unknown;
   /**
@@ -136,9 +380,16 @@ export interface HttpClientOptions {
    * Runs after `responseTransformer` on the final data. Throw to reject
    * responses that are technically 2xx but contain application-level errors
    * (e.g. `{ error_code: 404 }` inside a 200 response). The return value
-   * replaces the response data.
+   * replaces the response data. Like `responseTransformer`, it runs on
+   * parsed data outside the middleware chain.
    */
   responseHandler?: (data: unknown) => unknown;
+  /**
+   * Default Zod schema for response data, applied after `responseTransformer`
+   * and `responseHandler`. Failures reject with `ResponseValidationError` and
+   * are never cached. A per-request `schema` takes precedence.
+   */
+  schema?: ZodTypeAny;
   /**
    * Configure rate-limit response header names for standards and custom APIs.
    */
@@ -154,6 +405,41 @@ export interface HttpClientOptions {
    * Pass an options object to enable retries with custom settings.
    */
   retry?: RetryOptions | false;
+  /**
+   * Default timeout for every request. A number sets the `total` budget
+   * (including rate-limit waits and retries); pass an object to also bound
+   * each fetch attempt. Expiry rejects with a `TimeoutError`.
+   */
+  timeout?: number | TimeoutOptions;
+  /**
+   * How cache and dedupe keys are derived. By default the key covers the
+   * method, full URL and response type. Ignore volatile query params, add
+   * request headers or a namespace, or pass a function to derive the key
+   * yourself. Per-request `cacheKey` fields take precedence.
+   */
+  cacheKey?: CacheKeyOptions | CacheKeyFunction;
+  /**
+   * Derive a partition ID from each request, e.g. a hash of its
+   * `Authorization` header, so users never share cache entries or deduped
+   * results. The ID is mixed into cache and dedupe keys. Purge a partition
+   * with `purgePartition()`, e.g. on logout.
+   */
+  partitionBy?: PartitionFunction;
+  /**
+   * Variants kept per URL for responses with a `Vary` header, e.g. one per
+   * `Accept-Language`. The least recently used variant is evicted beyond
+   * this. Defaults to 8.
+   */
+  maxCacheVariants?: number;
+  /**
+   * Whether the cache store serves one user (`'private'`, the default) or is
+   * shared between users and services, as a SQLite or DynamoDB store often
+   * is. A `'shared'` cache honors `s-maxage` and `proxy-revalidate`, and
+   * does not store `private` responses or responses to requests carrying
+   * `Authorization` unless they are `public`, `s-maxage` or
+   * `must-revalidate` (RFC 9111 §3.5).
+   */
+  cacheMode?: CacheMode;
   /**
    * Override specific cache header behaviors.
    */
@@ -181,50 +467,596 @@ interface ParsedResponseBody {
   data: unknown;
 }
 
-export { type HttpErrorContext, type RetryContext, type RetryOptions };
+/** A request's cache entry, or why there is none to use. */
+type CacheLookup =
+  | { entry: CacheEntry<unknown>; reason?: undefined }
+  | { entry?: undefined; reason: 'absent' | 'vary-mismatch' };
+
+interface OutgoingRequest {
+  url: string;
+  method: HttpMethod;
+  priority: RequestPriority;
+  resource: string;
+  /** Whether slow attempts may be hedged. */
+  hedge: boolean;
+  headers: Headers;
+  body?: BodyInit;
+  /** How to read a successful body. Error bodies are always read as JSON/text. */
+  responseType?: ResponseType;
+}
+
+/**
+ * Methods that never change server state (RFC 9110 §9.2.1). Only these
+ * participate in deduplication; only GET participates in caching.
+ */
+const SAFE_METHODS: ReadonlySet<HttpMethod> = new Set([
+  'GET',
+  'HEAD',
+  'OPTIONS',
+]);
+
+/**
+ * Identity of a request, attached to every lifecycle event it emits, plus
+ * its trace when tracing is enabled.
+ */
+interface RequestEventScope {
+  url: string;
+  hash: string;
+  resource: string;
+  priority: RequestPriority;
+  startedAt: number;
+  trace?: RequestTrace;
+}
+
+/**
+ * Response types whose bodies are held as bytes. Cached and buffered values
+ * are always an `ArrayBuffer`, converted to the requested type per caller.
+ */
+const BINARY_RESPONSE_TYPES: ReadonlySet<ResponseType> = new Set([
+  'arrayBuffer',
+  'blob',
+  'stream',
+]);
+
+/** Cache key under which a partition's current generation is stored. */
+function partitionGenerationKey(partition: string): string {
+  return hashRequest('partition generation', { partition });
+}
+
+/**
+ * Options as the request methods receive them. `pathParams` were checked
+ * against the URL template by the public overloads.
+ */
+type SendOptions = RequestWithBodyOptions & {
+  pathParams?: Record<string, string | number>;
+};
+
+export {
+  type HttpErrorContext,
+  type HttpMethod,
+  type RequestBody,
+  type RequestOptions,
+  type RequestWithBodyOptions,
+  type RetryContext,
+  type RetryOptions,
+};
 
 export class HttpClient implements HttpClientContract {
   private stores: HttpClientStores;
+  private middleware: Array<Middleware>;
+  private readonly builtInMiddleware: Array<Middleware>;
+  private readonly events = new HttpClientEventEmitter();
+  private readonly tracing?: TracingOptions;
+  private readonly metrics?: MetricsCollector;
+  private readonly circuitBreaker?: CircuitBreaker;
+  private readonly hedger?: RequestHedger;
+  private readonly bulkhead?: Bulkhead;
+  private readonly authSession?: AuthSession;
+  private readonly resolveResourceName: (
+    url: string,
+    method: HttpMethod,
+  ) => string;
   private serverCooldowns = new Map<string, number>();
   private pendingRevalidations: Array<Promise<void>> = [];
-  private options: Required<
+  private config: Required<
     Pick<
       HttpClientOptions,
-      'defaultCacheTTL' | 'throwOnRateLimit' | 'maxWaitTime'
+      | 'defaultCacheTTL'
+      | 'throwOnRateLimit'
+      | 'maxWaitTime'
+      | 'maxCacheVariants'
+      | 'cacheMode'
     >
   > &
     Pick<
       HttpClientOptions,
       | 'fetchFn'
+      | 'baseUrl'
+      | 'arrayFormat'
       | 'requestInterceptor'
       | 'responseInterceptor'
       | 'responseTransformer'
       | 'errorHandler'
       | 'responseHandler'
       | 'cacheOverrides'
+      | 'cacheKey'
+      | 'partitionBy'
       | 'retry'
+      | 'timeout'
+      | 'schema'
     > & {
       rateLimitHeaders: RateLimitHeaderConfig;
     };
 
   constructor(stores: HttpClientStores = {}, options: HttpClientOptions = {}) {
     this.stores = stores;
-    this.options = {
+    this.config = {
       fetchFn: options.fetchFn,
+      baseUrl: options.baseUrl,
+      arrayFormat: options.arrayFormat,
       requestInterceptor: options.requestInterceptor,
       responseInterceptor: options.responseInterceptor,
       defaultCacheTTL: options.defaultCacheTTL ?? 3600,
       throwOnRateLimit: options.throwOnRateLimit ?? true,
       maxWaitTime: options.maxWaitTime ?? 60000,
+      maxCacheVariants: options.maxCacheVariants ?? 8,
+      cacheMode: options.cacheMode ?? 'private',
       responseTransformer: options.responseTransformer,
       errorHandler: options.errorHandler,
       responseHandler: options.responseHandler,
+      schema: options.schema,
       retry: options.retry,
+      timeout: options.timeout,
       cacheOverrides: options.cacheOverrides,
+      cacheKey: options.cacheKey,
+      partitionBy: options.partitionBy,
       rateLimitHeaders: this.normalizeRateLimitHeaders(
         options.rateLimitHeaders,
       ),
     };
+    this.middleware = [...(options.middleware ?? [])];
+    this.builtInMiddleware = this.createBuiltInMiddleware();
+    this.tracing = options.tracing;
+    this.metrics = options.metrics;
+    if (options.circuitBreaker || stores.circuitBreaker) {
+      this.circuitBreaker = new CircuitBreaker(
+        options.circuitBreaker,
+        stores.circuitBreaker,
+      );
+    }
+    if (options.hedging) {
+      this.hedger = new RequestHedger(options.hedging);
+    }
+    if (options.bulkhead) {
+      this.bulkhead = new Bulkhead(options.bulkhead, this.config.maxWaitTime);
+    }
+    if (options.auth) {
+      this.authSession = new AuthSession(options.auth);
+    }
+    this.resolveResourceName = createResourceResolver(options.resourceResolver);
+
+    for (const [name, listener] of Object.entries(options.hooks ?? {})) {
+      if (listener) {
+        this.events.on(
+          name as HttpClientEventName,
+          listener as HttpClientEventListener<HttpClientEventName>,
+        );
+      }
+    }
+    if (this.metrics) {
+      this.reportMetrics(this.metrics);
+    }
+  }
+
+  /**
+   * Subscribe to a lifecycle event. Returns a function that unsubscribes.
+   * Listener errors are swallowed and never affect the request.
+   */
+  on<Name extends HttpClientEventName>(
+    name: Name,
+    listener: HttpClientEventListener<Name>,
+  ): () => void {
+    return this.events.on(name, listener);
+  }
+
+  /**
+   * Remove a listener added with `on()` or the `hooks` option.
+   */
+  off<Name extends HttpClientEventName>(
+    name: Name,
+    listener: HttpClientEventListener<Name>,
+  ): void {
+    this.events.off(name, listener);
+  }
+
+  /** Translate lifecycle events into metrics. */
+  private reportMetrics(metrics: MetricsCollector): void {
+    const labelsFor = (event: HttpClientEventBase): MetricLabels => ({
+      origin: this.getOriginScope(event.url),
+      resource: event.resource,
+      priority: event.priority,
+    });
+
+    this.events.on('requestComplete', (event) => {
+      const labels = {
+        ...labelsFor(event),
+        outcome:
+          event.error !== undefined ? 'error' : (event.cacheStatus ?? 'bypass'),
+      };
+      metrics.incrementCounter(HttpClientMetricNames.REQUESTS, labels);
+      metrics.observeHistogram(
+        HttpClientMetricNames.REQUEST_DURATION,
+        labels,
+        event.durationMs / 1000,
+      );
+    });
+    this.events.on('dedupeJoined', (event) => {
+      metrics.incrementCounter(
+        HttpClientMetricNames.DEDUPE_JOINED,
+        labelsFor(event),
+      );
+    });
+    this.events.on('retry', (event) => {
+      metrics.incrementCounter(HttpClientMetricNames.RETRIES, labelsFor(event));
+    });
+    this.events.on('hedge', (event) => {
+      metrics.incrementCounter(HttpClientMetricNames.HEDGES, labelsFor(event));
+    });
+    this.events.on('rateLimitWait', (event) => {
+      metrics.observeHistogram(
+        HttpClientMetricNames.RATE_LIMIT_WAIT,
+        { ...labelsFor(event), source: 'store' },
+        event.waitMs / 1000,
+      );
+    });
+    this.events.on('serverCooldown', (event) => {
+      metrics.observeHistogram(
+        HttpClientMetricNames.RATE_LIMIT_WAIT,
+        { ...labelsFor(event), source: 'server' },
+        event.waitMs / 1000,
+      );
+    });
+    this.events.on('revalidated', (event) => {
+      metrics.incrementCounter(HttpClientMetricNames.REVALIDATIONS, {
+        ...labelsFor(event),
+        outcome: event.notModified ? 'not_modified' : 'refreshed',
+      });
+    });
+    this.events.on('revalidationFailed', (event) => {
+      metrics.incrementCounter(HttpClientMetricNames.REVALIDATIONS, {
+        ...labelsFor(event),
+        outcome: 'failed',
+      });
+    });
+  }
+
+  private emit<Name extends HttpClientEventName>(
+    name: Name,
+    scope: RequestEventScope | undefined,
+    fields: Omit<HttpClientEvents[Name], keyof HttpClientEventBase>,
+  ): void {
+    if (!scope || !this.events.hasListeners(name)) {
+      return;
+    }
+
+    const now = Date.now();
+    this.events.emit(name, {
+      url: scope.url,
+      hash: scope.hash,
+      resource: scope.resource,
+      priority: scope.priority,
+      timestamp: now,
+      elapsedMs: now - scope.startedAt,
+      ...fields,
+    } as HttpClientEvents[Name]);
+  }
+
+  /**
+   * Append middleware to the end of the chain (closest to `fetch`, but still
+   * outside the built-in interceptors). Returns the client for chaining.
+   */
+  use(...middleware: Array<Middleware>): this {
+    this.middleware.push(...middleware);
+    return this;
+  }
+
+  /**
+   * The interceptor options expressed as middleware, so they keep running
+   * immediately around `fetch` whatever else is in the chain.
+   */
+  private createBuiltInMiddleware(): Array<Middleware> {
+    const { requestInterceptor, responseInterceptor } = this.config;
+    const builtIns: Array<Middleware> = [];
+
+    if (responseInterceptor) {
+      builtIns.push(async (ctx, next) =>
+        responseInterceptor(await next(), ctx.url),
+      );
+    }
+    if (requestInterceptor) {
+      builtIns.push(async (ctx, next) => {
+        ctx.init = await requestInterceptor(ctx.url, ctx.init);
+        return next();
+      });
+    }
+
+    return builtIns;
+  }
+
+  /**
+   * Run one fetch attempt through the middleware chain.
+   */
+  private async dispatch(
+    ctx: MiddlewareContext,
+    trace?: RequestTrace,
+  ): Promise<Response> {
+    const fetchFn = this.config.fetchFn ?? globalThis.fetch;
+    const chain = composeMiddleware(
+      [...this.middleware, ...this.builtInMiddleware],
+      (finalCtx) => fetchFn(finalCtx.url, finalCtx.init),
+    );
+    const authSession = this.authSession;
+    const run = authSession
+      ? (attemptCtx: MiddlewareContext) =>
+          this.dispatchAuthorized(attemptCtx, chain, authSession)
+      : chain;
+    if (!trace) {
+      return run(ctx);
+    }
+
+    // The attempt span wraps the whole chain; its context is injected before
+    // middleware runs so interceptors see the final headers.
+    const headers = new Headers(ctx.init.headers);
+    const span = trace.startAttempt(ctx.method, ctx.url, ctx.attempt, headers);
+    ctx.init.headers = headers;
+    try {
+      const response = await run(ctx);
+      endAttemptSpan(span, { status: response.status });
+      return response;
+    } catch (error) {
+      endAttemptSpan(span, { error });
+      throw error;
+    }
+  }
+
+  /**
+   * Run the chain with a bearer token. On a 401 the chain runs once more,
+   * from the original URL and init, with a refreshed token. Requests that
+   * carry their own `Authorization` header are left alone, and a 401 for a
+   * stream body is returned as is, since the stream has already been read.
+   */
+  private async dispatchAuthorized(
+    ctx: MiddlewareContext,
+    chain: (ctx: MiddlewareContext) => Promise<Response>,
+    authSession: AuthSession,
+  ): Promise<Response> {
+    const headers = new Headers(ctx.init.headers);
+    if (headers.has('authorization')) {
+      return chain(ctx);
+    }
+
+    // Middleware may reassign url and init, so the replay starts from these
+    const { url, init } = ctx;
+    const token = await authSession.getToken();
+    headers.set('Authorization', `Bearer ${token}`);
+    ctx.init = { ...init, headers };
+    const response = await chain(ctx);
+    if (response.status !== 401 || init.body instanceof ReadableStream) {
+      return response;
+    }
+
+    await response.body?.cancel();
+    const refreshed = await authSession.refreshAfter(token);
+    const replayHeaders = new Headers(headers);
+    replayHeaders.set('Authorization', `Bearer ${refreshed}`);
+    ctx.url = url;
+    ctx.init = { ...init, headers: replayHeaders };
+    return chain(ctx);
+  }
+
+  /**
+   * Dispatch an attempt through the origin's circuit breaker, recording
+   * whether the origin failed. 5xx responses, network errors and timeouts
+   * count as failures; aborts are not counted either way.
+   */
+  private async dispatchGuarded(
+    ctx: MiddlewareContext,
+    trace?: RequestTrace,
+  ): Promise<Response> {
+    const breaker = this.circuitBreaker;
+    if (!breaker) {
+      return this.dispatch(ctx, trace);
+    }
+
+    const origin = this.getOriginScope(ctx.url);
+    await breaker.acquire(origin);
+
+    let response: Response;
+    try {
+      response = await this.dispatch(ctx, trace);
+    } catch (error) {
+      // A timed-out fetch rejects with an AbortError; the reason says why
+      const signal = ctx.init.signal;
+      const failure =
+        signal?.aborted && signal.reason instanceof TimeoutError
+          ? signal.reason
+          : error;
+      if (failure instanceof TypeError || failure instanceof TimeoutError) {
+        await breaker.onFailure(origin);
+      } else {
+        breaker.release(origin);
+      }
+      throw error;
+    }
+
+    if (response.status >= 500) {
+      await breaker.onFailure(origin);
+    } else {
+      await breaker.onSuccess(origin);
+    }
+    return response;
+  }
+
+  /**
+   * Dispatch an attempt, and if it is still outstanding after the hedge
+   * delay, an identical one beside it. The first response wins and the
+   * other attempt is aborted through its own controller. The request fails
+   * only when every attempt has failed, with the first attempt's error.
+   */
+  private dispatchHedged(
+    ctx: MiddlewareContext,
+    resource: string,
+    hedger: RequestHedger,
+    eventScope?: RequestEventScope,
+  ): Promise<Response> {
+    const origin = this.getOriginScope(ctx.url);
+    const parent = ctx.init.signal ?? undefined;
+    const controllers: Array<AbortController> = [];
+    const delayMs = hedger.getDelay(origin);
+
+    return new Promise<Response>((resolve, reject) => {
+      let settled = false;
+      let pending = 0;
+      let primaryError: unknown;
+      let hedgeError: unknown;
+
+      const launch = (hedged: boolean): Promise<Response> => {
+        const controller = new AbortController();
+        controllers.push(controller);
+        // Follow the caller's signal even after winning, while the body is
+        // read, and stop once the attempt is done so a reused signal does not
+        // collect a listener per attempt
+        const follow = () => controller.abort(parent?.reason);
+        const unfollow = () => parent?.removeEventListener('abort', follow);
+        if (parent?.aborted) {
+          controller.abort(parent.reason);
+        } else {
+          parent?.addEventListener('abort', follow, { once: true });
+        }
+
+        const init: RequestInit = { ...ctx.init, signal: controller.signal };
+        if (ctx.init.headers) {
+          init.headers = new Headers(ctx.init.headers);
+        }
+        const startedAt = Date.now();
+        const attempt = this.dispatchGuarded(
+          { ...ctx, init },
+          eventScope?.trace,
+        );
+
+        pending++;
+        attempt.then(
+          (response) => {
+            pending--;
+            hedger.recordLatency(origin, Date.now() - startedAt);
+            if (settled) {
+              unfollow();
+              void response.body?.cancel().catch(() => {});
+              return;
+            }
+            settled = true;
+            clearTimeout(timer);
+            for (const other of controllers) {
+              if (other !== controller) other.abort();
+            }
+            if (!response.body) {
+              unfollow();
+              resolve(response);
+              return;
+            }
+            resolve(
+              new Response(onStreamSettled(response.body, unfollow), response),
+            );
+          },
+          (error: unknown) => {
+            pending--;
+            unfollow();
+            if (hedged) {
+              hedgeError ??= error;
+            } else {
+              primaryError = error;
+            }
+            settleIfFailed();
+          },
+        );
+        return attempt;
+      };
+
+      const settleIfFailed = () => {
+        if (settled || pending > 0) return;
+        settled = true;
+        clearTimeout(timer);
+        reject(primaryError ?? hedgeError);
+      };
+
+      const sendHedge = async () => {
+        if (settled || !hedger.tryAcquire(origin)) return;
+
+        // Reserve the hedge so a failing first attempt waits for it
+        pending++;
+        let admitted = false;
+        try {
+          admitted = !settled && (await this.acquireHedgeSlot(resource, ctx));
+        } catch {
+          // A rate-limit store failure just means no hedge
+        }
+        pending--;
+
+        // A hedge never queues for a concurrency slot
+        const releaseSlot = admitted
+          ? this.bulkhead?.tryAcquire(origin, resource)
+          : undefined;
+        if (!admitted || settled || (this.bulkhead && !releaseSlot)) {
+          releaseSlot?.();
+          hedger.release(origin);
+          settleIfFailed();
+          return;
+        }
+
+        this.emit('hedge', eventScope, { attempt: ctx.attempt, delayMs });
+        const done = () => {
+          releaseSlot?.();
+          hedger.release(origin);
+        };
+        launch(true).then(done, done);
+      };
+
+      const timer = setTimeout(() => void sendHedge(), delayMs);
+      launch(false).catch(() => {});
+    });
+  }
+
+  /**
+   * Count a hedge against the rate-limit store without waiting: a hedge
+   * that would have to wait is not worth sending.
+   */
+  private async acquireHedgeSlot(
+    resource: string,
+    ctx: MiddlewareContext,
+  ): Promise<boolean> {
+    const rateLimit = this.stores.rateLimit as
+      | AdaptiveRateLimitStore
+      | undefined;
+    if (!rateLimit) {
+      return true;
+    }
+    if (typeof rateLimit.acquire === 'function') {
+      return rateLimit.acquire(resource, ctx.priority);
+    }
+    if (!(await rateLimit.canProceed(resource, ctx.priority))) {
+      return false;
+    }
+    await rateLimit.record(resource, ctx.priority);
+    return true;
+  }
+
+  /** Run `fn` in a child span of the request's trace, if it has one. */
+  private traced<T>(
+    scope: RequestEventScope | undefined,
+    name: string,
+    fn: () => Promise<T>,
+  ): Promise<T> {
+    return scope?.trace ? scope.trace.phase(name, fn) : fn();
   }
 
   private normalizeRateLimitHeaders(
@@ -274,19 +1106,19 @@ export class HttpClient implements HttpClientContract {
   }
 
   /**
-   * Infer the resource name from the endpoint URL
-   * @param url The full URL or endpoint path
+   * Resource name for rate limiting and bulkheads: the per-request
+   * `resource` override, else the `resourceResolver` result
+   * @param method The request method
+   * @param url The full URL
+   * @param override The per-request `resource` option
    * @returns The resource name for rate limiting
    */
-  private inferResource(url: string): string {
-    try {
-      const urlObj = new URL(url);
-      // Use the first meaningful path segment as the resource name
-      const segments = urlObj.pathname.split('/').filter(Boolean);
-      return segments[segments.length - 1] || 'unknown';
-    } catch {
-      return 'unknown';
-    }
+  private resolveResource(
+    method: HttpMethod,
+    url: string,
+    override?: string,
+  ): string {
+    return override ?? this.resolveResourceName(url, method);
   }
 
   /**
@@ -294,7 +1126,10 @@ export class HttpClient implements HttpClientContract {
    * @param url The full URL
    * @returns Object with endpoint and params for hashing
    */
-  private parseUrlForHashing(url: string): {
+  private parseUrlForHashing(
+    url: string,
+    ignoreParams: Array<string> = [],
+  ): {
     endpoint: string;
     params: Record<string, unknown>;
   } {
@@ -303,6 +1138,9 @@ export class HttpClient implements HttpClientContract {
     const params: Record<string, unknown> = {};
 
     urlObj.searchParams.forEach((value, key) => {
+      if (ignoreParams.includes(key)) {
+        return;
+      }
       const existing = params[key];
 
       // Keep repeated query keys as arrays so semantically distinct URLs like
@@ -323,6 +1161,160 @@ export class HttpClient implements HttpClientContract {
     return { endpoint, params };
   }
 
+  /**
+   * Compute the cache/dedupe key for a request. A JSON GET keeps the
+   * historical `hashRequest(endpoint, params)` key so existing cache entries
+   * stay valid; other methods are namespaced so a HEAD never collides with a
+   * GET, and text and binary bodies are namespaced so a URL fetched as bytes
+   * never serves a JSON caller. `cacheKey` options narrow or widen the key,
+   * and a `partitionKey` keeps each partition's keys apart.
+   */
+  private computeRequestHash(
+    method: HttpMethod,
+    url: string,
+    responseType: ResponseType = 'json',
+    headers: Record<string, string> = {},
+    cacheKey?: CacheKeyOptions | CacheKeyFunction,
+    partitionKey?: string,
+  ): string {
+    const bodyNamespace =
+      responseType === 'text'
+        ? 'text'
+        : BINARY_RESPONSE_TYPES.has(responseType)
+          ? 'binary'
+          : undefined;
+
+    if (typeof cacheKey === 'function') {
+      // A custom key replaces the URL; body namespaces still keep bytes apart
+      return hashRequest([bodyNamespace, 'custom'].filter(Boolean).join(' '), {
+        key: cacheKey(url, headers, method),
+        partition: partitionKey,
+      });
+    }
+
+    const { endpoint, params } = this.parseUrlForHashing(
+      url,
+      cacheKey?.ignoreParams,
+    );
+    const namespace = [
+      partitionKey === undefined ? undefined : `partition:${partitionKey}`,
+      cacheKey?.namespace === undefined ? undefined : `[${cacheKey.namespace}]`,
+      method === 'GET' ? undefined : method,
+      bodyNamespace,
+    ]
+      .filter(Boolean)
+      .join(' ');
+    // Endpoints never contain a raw space, so the suffix cannot collide
+    const keyedHeaders = this.pickKeyHeaders(headers, cacheKey?.includeHeaders);
+    const target = keyedHeaders
+      ? `${endpoint} ${JSON.stringify(keyedHeaders)}`
+      : endpoint;
+    return hashRequest(namespace ? `${namespace} ${target}` : target, params);
+  }
+
+  /**
+   * The `includeHeaders` values present on a request, as sorted
+   * `[name, value]` pairs, or undefined when none are configured.
+   */
+  private pickKeyHeaders(
+    headers: Record<string, string>,
+    names: Array<string> | undefined,
+  ): Array<[string, string]> | undefined {
+    if (!names || names.length === 0) {
+      return undefined;
+    }
+    const wanted = new Set(names.map((name) => name.toLowerCase()));
+    return Object.entries(headers)
+      .map(([name, value]): [string, string] => [name.toLowerCase(), value])
+      .filter(([name]) => wanted.has(name))
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  }
+
+  /** The `partitionBy` partition of a request, if any. */
+  private partitionOf(
+    method: HttpMethod,
+    url: string,
+    headers: Record<string, string> | undefined,
+  ): string | undefined {
+    return this.config.partitionBy?.(url, headers ?? {}, method);
+  }
+
+  /**
+   * Key segment for a partition: its ID plus its current generation, read
+   * from the cache store. Without a cache store there is nothing to purge,
+   * so the ID alone is used.
+   */
+  private async partitionKey(
+    partition: string | undefined,
+  ): Promise<string | undefined> {
+    const cache = this.stores.cache;
+    if (partition === undefined || !cache) {
+      return partition === undefined
+        ? undefined
+        : hashRequest('partition', { partition });
+    }
+    const key = partitionGenerationKey(partition);
+    let generation = await cache.get(key);
+    if (typeof generation !== 'string') {
+      // The generation is stored without expiry, but a store may still
+      // evict it, possibly after a purge. A missing generation therefore
+      // never means earlier keys: start a new one, leaving every entry
+      // written before it unreachable. Concurrent first requests may each
+      // start one; the losers' entries are only missed, never wrongly hit.
+      generation = crypto.randomUUID();
+      await cache.set(key, generation, 0);
+    }
+    return hashRequest('partition', { partition, generation });
+  }
+
+  /**
+   * Merge per-request `cacheKey` options over the constructor-level ones.
+   * A function at either level is used as is, the request's first.
+   */
+  private resolveCacheKey(
+    perRequest?: CacheKeyOptions | CacheKeyFunction,
+  ): CacheKeyOptions | CacheKeyFunction | undefined {
+    const base = this.config.cacheKey;
+    if (typeof perRequest === 'function' || perRequest === undefined) {
+      return perRequest ?? base;
+    }
+    if (typeof base === 'function' || base === undefined) {
+      return perRequest;
+    }
+    return { ...base, ...perRequest };
+  }
+
+  /**
+   * Convert a {@link RequestBody} into a fetch-compatible body. Plain objects
+   * and arrays are JSON-encoded and get a JSON content type unless the caller
+   * already provided one.
+   */
+  private encodeRequestBody(
+    body: RequestBody | undefined,
+    headers: Headers,
+  ): BodyInit | undefined {
+    if (body === undefined) {
+      return undefined;
+    }
+
+    if (
+      typeof body === 'string' ||
+      body instanceof FormData ||
+      body instanceof URLSearchParams ||
+      body instanceof Blob ||
+      body instanceof ArrayBuffer ||
+      ArrayBuffer.isView(body) ||
+      body instanceof ReadableStream
+    ) {
+      return body as BodyInit;
+    }
+
+    if (!headers.has('content-type')) {
+      headers.set('content-type', 'application/json');
+    }
+    return JSON.stringify(body);
+  }
+
   private getOriginScope(url: string): string {
     try {
       return new URL(url).origin;
@@ -446,7 +1438,7 @@ export class HttpClient implements HttpClientContract {
       return;
     }
 
-    const config = this.options.rateLimitHeaders;
+    const config = this.config.rateLimitHeaders;
     const retryAfterRaw = this.getHeaderValue(headers, config.retryAfter);
     const resetRaw = this.getHeaderValue(headers, config.reset);
     const remainingRaw = this.getHeaderValue(headers, config.remaining);
@@ -485,6 +1477,7 @@ export class HttpClient implements HttpClientContract {
     url: string,
     signal?: AbortSignal,
     forceWait = false,
+    eventScope?: RequestEventScope,
   ): Promise<void> {
     const scope = this.getOriginScope(url);
     const startedAt = Date.now();
@@ -504,22 +1497,28 @@ export class HttpClient implements HttpClientContract {
         return;
       }
 
-      if (this.options.throwOnRateLimit && !forceWait) {
+      if (this.config.throwOnRateLimit && !forceWait) {
         throw new Error(
           `Rate limit exceeded for origin '${scope}'. Wait ${waitMs}ms before retrying.`,
         );
       }
 
       const elapsedMs = Date.now() - startedAt;
-      const remainingWaitBudgetMs = this.options.maxWaitTime - elapsedMs;
+      const remainingWaitBudgetMs = this.config.maxWaitTime - elapsedMs;
 
       if (remainingWaitBudgetMs <= 0) {
         throw new Error(
-          `Rate limit wait exceeded maxWaitTime (${this.options.maxWaitTime}ms) for origin '${scope}'.`,
+          `Rate limit wait exceeded maxWaitTime (${this.config.maxWaitTime}ms) for origin '${scope}'.`,
         );
       }
 
-      await wait(Math.min(waitMs, remainingWaitBudgetMs), signal);
+      const sleepMs = Math.min(waitMs, remainingWaitBudgetMs);
+      eventScope?.trace?.recordRateLimitWait(sleepMs);
+      this.emit('serverCooldown', eventScope, {
+        origin: scope,
+        waitMs: sleepMs,
+      });
+      await wait(sleepMs, signal);
     }
   }
 
@@ -527,6 +1526,7 @@ export class HttpClient implements HttpClientContract {
     resource: string,
     priority: RequestPriority,
     signal?: AbortSignal,
+    eventScope?: RequestEventScope,
   ): Promise<boolean> {
     const rateLimit = this.stores.rateLimit as AdaptiveRateLimitStore;
     const startedAt = Date.now();
@@ -539,7 +1539,7 @@ export class HttpClient implements HttpClientContract {
       return rateLimit.canProceed(resource, priority);
     };
 
-    if (this.options.throwOnRateLimit) {
+    if (this.config.throwOnRateLimit) {
       const canProceed = await canProceedNow();
       if (!canProceed) {
         const waitTime = await rateLimit.getWaitTime(resource, priority);
@@ -556,11 +1556,11 @@ export class HttpClient implements HttpClientContract {
     while (!(await canProceedNow())) {
       const suggestedWaitMs = await rateLimit.getWaitTime(resource, priority);
       const elapsedMs = Date.now() - startedAt;
-      const remainingWaitBudgetMs = this.options.maxWaitTime - elapsedMs;
+      const remainingWaitBudgetMs = this.config.maxWaitTime - elapsedMs;
 
       if (remainingWaitBudgetMs <= 0) {
         throw new Error(
-          `Rate limit wait exceeded maxWaitTime (${this.options.maxWaitTime}ms) for resource '${resource}'.`,
+          `Rate limit wait exceeded maxWaitTime (${this.config.maxWaitTime}ms) for resource '${resource}'.`,
         );
       }
 
@@ -571,6 +1571,8 @@ export class HttpClient implements HttpClientContract {
           ? Math.min(suggestedWaitMs, remainingWaitBudgetMs)
           : Math.min(25, remainingWaitBudgetMs);
 
+      eventScope?.trace?.recordRateLimitWait(waitTime);
+      this.emit('rateLimitWait', eventScope, { waitMs: waitTime });
       await wait(waitTime, signal);
     }
 
@@ -586,11 +1588,37 @@ export class HttpClient implements HttpClientContract {
     this.pendingRevalidations = [];
   }
 
+  /**
+   * Requests in flight and queued for every origin and resource with a
+   * `bulkhead` limit. Empty when no bulkhead is configured.
+   */
+  getBulkheadStatus(): BulkheadSnapshot {
+    return this.bulkhead?.getStatus() ?? { origins: {}, resources: {} };
+  }
+
+  /**
+   * Purge every cache entry in a `partitionBy` partition, e.g. when a user
+   * logs out. Entries are not deleted one by one, since stores cannot list
+   * keys: the partition moves to a new generation, stored without expiry,
+   * so later requests use new keys and the old entries expire unread. A
+   * request already in flight may still store into the old generation.
+   */
+  async purgePartition(partition: string): Promise<void> {
+    await this.stores.cache?.set(
+      partitionGenerationKey(partition),
+      crypto.randomUUID(),
+      0,
+    );
+  }
+
   private async backgroundRevalidate(
     url: string,
     hash: string,
     entry: CacheEntry<unknown>,
-    requestHeaders?: Record<string, string>,
+    requestHeaders: Record<string, string> | undefined,
+    schema: ZodTypeAny | undefined,
+    responseType: ResponseType,
+    eventScope: RequestEventScope,
   ): Promise<void> {
     const fetchHeaders = new Headers(requestHeaders);
     if (entry.metadata.etag) {
@@ -600,65 +1628,281 @@ export class HttpClient implements HttpClientContract {
       fetchHeaders.set('If-Modified-Since', entry.metadata.lastModified);
     }
 
+    // Nobody awaits a background revalidation, so bound it by the
+    // client-level timeout to keep a hung upstream from pinning it forever.
+    const { total, perAttempt } = this.resolveTimeouts();
+    const revalTimeout = perAttempt ?? total;
+    const revalScope =
+      revalTimeout !== undefined
+        ? createTimeoutScope(
+            undefined,
+            revalTimeout,
+            () =>
+              new TimeoutError(
+                `Revalidation of ${url} timed out after ${revalTimeout}ms`,
+                revalTimeout,
+                'attempt',
+              ),
+          )
+        : undefined;
+    let status: number | undefined;
+    let failure: unknown;
+    let releaseSlot: (() => void) | undefined;
+
     try {
-      let revalInit: RequestInit = { headers: fetchHeaders };
-      if (this.options.requestInterceptor) {
-        revalInit = await this.options.requestInterceptor(url, revalInit);
+      releaseSlot = await this.bulkhead?.acquire(
+        this.getOriginScope(url),
+        eventScope.resource,
+        'background',
+        revalScope?.signal,
+      );
+      const response = await this.dispatchGuarded(
+        {
+          url,
+          init: { headers: fetchHeaders, signal: revalScope?.signal },
+          method: 'GET',
+          attempt: 1,
+          priority: 'background',
+          cacheEntry: entry,
+          background: true,
+        },
+        eventScope.trace,
+      );
+      status = response.status;
+
+      this.applyServerRateLimitHints(url, response.headers, response.status);
+
+      if (response.status === 304) {
+        const refreshed = refreshCacheEntry(entry, response.headers);
+        const ttl = this.clampTTL(
+          calculateStoreTTL(
+            refreshed.metadata,
+            this.config.defaultCacheTTL,
+            this.config.cacheMode,
+          ),
+        );
+        if (
+          this.stores.cache &&
+          this.isStorable(refreshed.metadata.cacheControl, requestHeaders)
+        ) {
+          await this.writeCacheEntry(this.stores.cache, hash, refreshed, ttl);
+        }
+        this.emit('revalidated', eventScope, {
+          background: true,
+          notModified: true,
+        });
+        return;
       }
 
-      const revalFetchFn = this.options.fetchFn ?? globalThis.fetch;
-      let response = await revalFetchFn(url, revalInit);
+      if (!response.ok) {
+        failure = new HttpClientError(
+          `Revalidation failed with status ${response.status}`,
+          response.status,
+          { headers: response.headers },
+        );
+        this.emit('revalidationFailed', eventScope, { error: failure });
+        return;
+      }
 
-      if (this.options.responseInterceptor) {
-        response = await this.options.responseInterceptor(response, url);
+      const parsedBody = await this.parseResponseBody(
+        response,
+        BINARY_RESPONSE_TYPES.has(responseType) ? 'arrayBuffer' : responseType,
+      );
+      const data = this.processResponseData(
+        parsedBody.data,
+        url,
+        response,
+        schema,
+        responseType,
+      );
+      const newEntry = createCacheEntry(
+        data,
+        response.headers,
+        response.status,
+      );
+      if (newEntry.metadata.varyHeaders) {
+        const varyFields = parseVaryHeader(newEntry.metadata.varyHeaders);
+        newEntry.metadata.varyValues = captureVaryValues(
+          varyFields,
+          requestHeaders ?? {},
+        );
+      }
+      const ttl = this.clampTTL(
+        calculateStoreTTL(
+          newEntry.metadata,
+          this.config.defaultCacheTTL,
+          this.config.cacheMode,
+        ),
+      );
+      if (
+        this.stores.cache &&
+        this.isStorable(newEntry.metadata.cacheControl, requestHeaders)
+      ) {
+        await this.writeCacheEntry(this.stores.cache, hash, newEntry, ttl);
       }
+      this.emit('revalidated', eventScope, {
+        background: true,
+        notModified: false,
+      });
+    } catch (caughtError) {
+      // Background revalidation failures never reach a caller. The stale
+      // entry remains in the cache and will be served until it falls out of
+      // the stale-while-revalidate window.
+      failure = revalScope?.error ?? caughtError;
+      this.emit('revalidationFailed', eventScope, { error: failure });
+    } finally {
+      releaseSlot?.();
+      revalScope?.dispose();
+      eventScope.trace?.end({ status, error: failure });
+    }
+  }
 
-      this.applyServerRateLimitHints(url, response.headers, response.status);
+  /**
+   * Evict cached GET responses invalidated by a successful unsafe request
+   * (RFC 9111 §4.4): the target URL plus same-origin `Location` and
+   * `Content-Location` URLs. Keys are derived exactly as `get()` derives them.
+   */
+  private async invalidateCacheEntries(
+    url: string,
+    responseHeaders: Headers,
+    requestHeaders: Record<string, string> | undefined,
+    cacheKey: CacheKeyOptions | CacheKeyFunction | undefined,
+  ): Promise<void> {
+    const targets = getInvalidationTargets(url, responseHeaders);
+    // One key per body namespace, so text and binary reads are evicted too
+    const responseTypes: Array<ResponseType> = ['json', 'text', 'arrayBuffer'];
+    // Deleting a variant index leaves its variants unreachable until they expire
+    await Promise.all(
+      targets.map(async (target) => {
+        const partitionKey = await this.partitionKey(
+          this.partitionOf('GET', target, requestHeaders),
+        );
+        await Promise.all(
+          responseTypes.map((responseType) =>
+            this.stores.cache!.delete(
+              this.computeRequestHash(
+                'GET',
+                target,
+                responseType,
+                requestHeaders,
+                cacheKey,
+                partitionKey,
+              ),
+            ),
+          ),
+        );
+      }),
+    );
+  }
+
+  /**
+   * Resolve the value stored under a request's primary key to the entry
+   * matching its Vary headers. A variant index is followed to the matching
+   * variant, which becomes the most recently used.
+   */
+  private async resolveCacheValue(
+    cache: CacheStore,
+    hash: string,
+    value: unknown,
+    requestHeaders: Record<string, string>,
+  ): Promise<CacheLookup> {
+    if (isCacheEntry(value)) {
+      return varyMatches(
+        value.metadata.varyValues,
+        value.metadata.varyHeaders,
+        requestHeaders,
+      )
+        ? { entry: value }
+        : { reason: 'vary-mismatch' };
+    }
+    if (!isCacheVariantIndex(value)) {
+      return { reason: 'absent' };
+    }
+
+    const variant = selectVariant(value, requestHeaders);
+    if (!variant) {
+      return { reason: 'vary-mismatch' };
+    }
+    const entry = await cache.get(variant.key);
+    if (!isCacheEntry(entry)) {
+      return { reason: 'absent' };
+    }
+    const touched = touchVariant(value, variant.key);
+    if (touched) {
+      await cache.set(hash, touched, this.variantIndexTTL(touched));
+    }
+    return { entry };
+  }
+
+  /**
+   * Store an entry under its primary key, or, when the response has a
+   * `Vary` header, under a secondary key recorded in the primary key's
+   * variant index. The index keeps at most `maxCacheVariants` variants and
+   * evicts the least recently used. The index is read and rewritten
+   * without a lock, so concurrent writers may drop a variant from it; the
+   * dropped entry then expires on its own.
+   */
+  private async writeCacheEntry(
+    cache: CacheStore,
+    hash: string,
+    entry: CacheEntry<unknown>,
+    ttl: number,
+  ): Promise<void> {
+    const { varyHeaders, varyValues } = entry.metadata;
+    const varyFields = parseVaryHeader(varyHeaders);
+    // `Vary: *` never matches, so it has no variants to tell apart
+    if (
+      !varyHeaders ||
+      !varyValues ||
+      varyFields.length === 0 ||
+      varyFields[0] === '*'
+    ) {
+      await cache.set(hash, entry, ttl);
+      return;
+    }
 
-      if (response.status === 304) {
-        const refreshed = refreshCacheEntry(entry, response.headers);
-        const ttl = this.clampTTL(
-          calculateStoreTTL(refreshed.metadata, this.options.defaultCacheTTL),
-        );
-        await this.stores.cache?.set(hash, refreshed, ttl);
-        return;
-      }
+    const key = variantKey(hash, varyHeaders, varyValues);
+    const existing = await cache.get(hash);
+    const { index, evicted } = addVariant(
+      isCacheVariantIndex(existing) ? existing : undefined,
+      { key, varyHeaders, varyValues, expiresAt: Date.now() + ttl * 1000 },
+      this.config.maxCacheVariants,
+    );
+    await cache.set(key, entry, ttl);
+    await cache.set(hash, index, this.variantIndexTTL(index));
+    await Promise.all(evicted.map((variant) => cache.delete(variant.key)));
+  }
 
-      if (response.ok) {
-        const parsedBody = await this.parseResponseBody(response);
-        let data: unknown = parsedBody.data;
-        if (this.options.responseTransformer && data) {
-          data = this.options.responseTransformer(data);
-        }
-        if (this.options.responseHandler) {
-          data = this.options.responseHandler(data);
-        }
-        const newEntry = createCacheEntry(
-          data,
-          response.headers,
-          response.status,
-        );
-        if (newEntry.metadata.varyHeaders && requestHeaders) {
-          const varyFields = parseVaryHeader(newEntry.metadata.varyHeaders);
-          newEntry.metadata.varyValues = captureVaryValues(
-            varyFields,
-            requestHeaders,
-          );
-        }
-        const ttl = this.clampTTL(
-          calculateStoreTTL(newEntry.metadata, this.options.defaultCacheTTL),
-        );
-        await this.stores.cache?.set(hash, newEntry, ttl);
-      }
-    } catch {
-      // Background revalidation failures are silently ignored.
-      // The stale entry remains in the cache and will be served until
-      // it falls out of the stale-while-revalidate window.
+  /**
+   * Apply the shared-cache storage rules when `cacheMode` is `'shared'`. A
+   * request counts as authorized when it has an `Authorization` header or
+   * the client has `auth`.
+   */
+  private isStorable(
+    cacheControl: CacheControlDirectives,
+    requestHeaders: Record<string, string> | undefined,
+  ): boolean {
+    if (this.config.cacheMode !== 'shared') {
+      return true;
     }
+    const authorized =
+      this.authSession !== undefined ||
+      Object.keys(requestHeaders ?? {}).some(
+        (name) => name.toLowerCase() === 'authorization',
+      );
+    return isStorableInSharedCache(cacheControl, authorized);
+  }
+
+  /** An index lives as long as its longest-lived variant. */
+  private variantIndexTTL(index: CacheVariantIndex): number {
+    const expiresAt = Math.max(
+      ...index.variants.map((variant) => variant.expiresAt),
+    );
+    return Math.max(Math.ceil((expiresAt - Date.now()) / 1000), 1);
   }
 
   private clampTTL(ttl: number): number {
-    const overrides = this.options.cacheOverrides;
+    const overrides = this.config.cacheOverrides;
     if (!overrides) return ttl;
     let clamped = ttl;
     if (overrides.minimumTTL !== undefined) {
@@ -675,14 +1919,16 @@ export class HttpClient implements HttpClientContract {
       if (error.response.status >= 500) return true;
     }
     if (error instanceof TypeError) return true;
+    if (error instanceof TimeoutError) return true;
+    if (error instanceof CircuitOpenError) return true;
     return false;
   }
 
   private generateClientError(err: unknown): Error {
     // HTTP errors: the consumer classifies these
     if (this.isHttpErrorContext(err)) {
-      if (this.options.errorHandler) {
-        return this.options.errorHandler(err);
+      if (this.config.errorHandler) {
+        return this.config.errorHandler(err);
       }
       return this.defaultHttpError(err);
     }
@@ -731,17 +1977,17 @@ export class HttpClient implements HttpClientContract {
     // Per-request `false` disables retries for this call
     if (perRequest === false) return null;
     // Constructor `false` disables retries globally
-    if (this.options.retry === false) return null;
+    if (this.config.retry === false) return null;
 
     const base = (
-      typeof this.options.retry === 'object' ? this.options.retry : {}
+      typeof this.config.retry === 'object' ? this.config.retry : {}
     ) as RetryOptions;
     const override = (
       typeof perRequest === 'object' ? perRequest : {}
     ) as RetryOptions;
 
     // No retry config provided at all → retries disabled
-    if (this.options.retry === undefined && perRequest === undefined)
+    if (this.config.retry === undefined && perRequest === undefined)
       return null;
 
     return {
@@ -754,6 +2000,21 @@ export class HttpClient implements HttpClientContract {
     };
   }
 
+  private resolveTimeouts(
+    perRequest?: number | TimeoutOptions,
+  ): TimeoutOptions {
+    const normalize = (value?: number | TimeoutOptions): TimeoutOptions =>
+      typeof value === 'number' ? { total: value } : (value ?? {});
+
+    const base = normalize(this.config.timeout);
+    const override = normalize(perRequest);
+
+    return {
+      total: override.total ?? base.total,
+      perAttempt: override.perAttempt ?? base.perAttempt,
+    };
+  }
+
   private calculateRetryDelay(
     attempt: number,
     baseDelay: number,
@@ -785,7 +2046,7 @@ export class HttpClient implements HttpClientContract {
       statusCode = error.response.status;
       const retryAfterRaw = this.getHeaderValue(
         error.response.headers,
-        this.options.rateLimitHeaders.retryAfter,
+        this.config.rateLimitHeaders.retryAfter,
       );
       retryAfterMs = this.parseRetryAfterMs(retryAfterRaw);
     }
@@ -808,21 +2069,74 @@ export class HttpClient implements HttpClientContract {
       };
     }
 
-    // Network errors (TypeError) are retryable
-    if (error instanceof TypeError) {
+    // Network errors (TypeError) and per-attempt timeouts are retryable
+    if (
+      error instanceof TypeError ||
+      (error instanceof TimeoutError && error.phase === 'attempt')
+    ) {
       return { shouldRetry: true, context };
     }
 
     return { shouldRetry: false, context };
   }
 
+  /**
+   * Run the transformer → handler → schema chain over freshly parsed data.
+   * Shared by foreground requests and background revalidation so both
+   * produce identical cached values. Binary and stream bodies pass through
+   * untouched.
+   */
+  private processResponseData(
+    data: unknown,
+    url: string,
+    response: Response,
+    schema: ZodTypeAny | undefined,
+    responseType: ResponseType,
+  ): unknown {
+    if (BINARY_RESPONSE_TYPES.has(responseType)) {
+      return data;
+    }
+
+    let processed = data;
+    if (this.config.responseTransformer && processed) {
+      processed = this.config.responseTransformer(processed);
+    }
+    if (this.config.responseHandler) {
+      processed = this.config.responseHandler(processed);
+    }
+    if (!schema) {
+      return processed;
+    }
+
+    const parsed = schema.safeParse(processed);
+    if (!parsed.success) {
+      throw new ResponseValidationError(url, parsed.error.issues, {
+        data: processed,
+        headers: response.headers,
+      });
+    }
+    return parsed.data;
+  }
+
   private async parseResponseBody(
     response: Response,
+    responseType: ResponseType = 'json',
   ): Promise<ParsedResponseBody> {
     if (response.status === 204 || response.status === 205) {
       return { data: undefined };
     }
 
+    switch (responseType) {
+      case 'stream':
+        return { data: response.body ?? undefined };
+      case 'arrayBuffer':
+        return { data: await response.arrayBuffer() };
+      case 'blob':
+        return { data: await response.blob() };
+      case 'text':
+        return { data: await response.text() };
+    }
+
     const rawBody = await response.text();
     if (!rawBody) {
       return { data: undefined };
@@ -853,47 +2167,90 @@ export class HttpClient implements HttpClientContract {
   }
 
   private async executeFetch(
-    url: string,
-    fetchHeaders: Headers,
+    request: OutgoingRequest,
     signal: AbortSignal | undefined,
-    retryConfig: NonNullable<ReturnType<HttpClient['resolveRetryConfig']>> | null,
+    retryConfig: NonNullable<
+      ReturnType<HttpClient['resolveRetryConfig']>
+    > | null,
     staleEntry: CacheEntry<unknown> | undefined,
+    attemptTimeout?: number,
+    eventScope?: RequestEventScope,
   ): Promise<
     | { notModified: true; refreshedEntry: CacheEntry<unknown> }
     | { notModified: false; response: Response; parsedBody: ParsedResponseBody }
   > {
-    const maxAttempts = retryConfig ? retryConfig.maxRetries + 1 : 1;
+    const {
+      url,
+      method,
+      priority,
+      resource,
+      hedge,
+      headers: fetchHeaders,
+      body,
+      responseType,
+    } = request;
+    // A stream body is consumed by the first attempt
+    const maxAttempts =
+      retryConfig && !(body instanceof ReadableStream)
+        ? retryConfig.maxRetries + 1
+        : 1;
 
     for (let attempt = 1; attempt <= maxAttempts; attempt++) {
       // Re-check server cooldown between retries — the previous attempt may
       // have set a cooldown via applyServerRateLimitHints. Always wait (never
       // throw) since the retry mechanism is handling recovery.
       if (attempt > 1) {
-        await this.enforceServerCooldown(url, signal, true);
+        await this.enforceServerCooldown(url, signal, true, eventScope);
       }
 
+      // Each attempt gets its own budget; the scope follows the call-level
+      // signal so caller aborts and the total timeout still cancel it.
+      const attemptScope =
+        attemptTimeout !== undefined
+          ? createTimeoutScope(
+              signal,
+              attemptTimeout,
+              () =>
+                new TimeoutError(
+                  `Attempt ${attempt} for ${url} timed out after ${attemptTimeout}ms`,
+                  attemptTimeout,
+                  'attempt',
+                ),
+            )
+          : undefined;
+
       try {
-        let fetchInit: RequestInit = { signal };
+        // `duplex` is missing from the DOM typings of RequestInit
+        const fetchInit: RequestInit & { duplex?: 'half' } = {
+          method,
+          signal: attemptScope?.signal ?? signal,
+        };
         if ([...fetchHeaders].length > 0) {
           fetchInit.headers = new Headers(fetchHeaders);
         }
-
-        // Re-run interceptor each attempt (auth tokens may refresh)
-        if (this.options.requestInterceptor) {
-          fetchInit = await this.options.requestInterceptor(url, fetchInit);
+        if (body !== undefined) {
+          fetchInit.body = body;
         }
-
-        const fetchFn = this.options.fetchFn ?? globalThis.fetch;
-        let response = await fetchFn(url, fetchInit);
-
-        if (this.options.responseInterceptor) {
-          response = await this.options.responseInterceptor(response, url);
+        // Node's fetch refuses a stream body without a duplex mode
+        if (body instanceof ReadableStream) {
+          fetchInit.duplex = 'half';
         }
-        this.applyServerRateLimitHints(
+
+        // Re-run the chain each attempt (auth tokens may refresh)
+        const ctx: MiddlewareContext = {
           url,
-          response.headers,
-          response.status,
-        );
+          init: fetchInit,
+          method,
+          attempt,
+          priority,
+          cacheEntry: staleEntry,
+          background: false,
+        };
+        const response =
+          hedge && this.hedger
+            ? await this.dispatchHedged(ctx, resource, this.hedger, eventScope)
+            : await this.dispatchGuarded(ctx, eventScope?.trace);
+        this.applyServerRateLimitHints(url, response.headers, response.status);
 
         // Handle 304 Not Modified — must be checked BEFORE !response.ok
         if (response.status === 304 && staleEntry) {
@@ -903,7 +2260,11 @@ export class HttpClient implements HttpClientContract {
           };
         }
 
-        const parsedBody = await this.parseResponseBody(response);
+        // Error bodies are read as JSON/text so errorHandler sees useful data
+        const parsedBody = await this.parseResponseBody(
+          response,
+          response.ok ? responseType : undefined,
+        );
 
         if (!response.ok) {
           const httpError: HttpErrorContext = {
@@ -933,6 +2294,11 @@ export class HttpClient implements HttpClientContract {
                 context.retryAfterMs,
               );
               retryConfig.onRetry?.(context, attempt, delay);
+              this.emit('retry', eventScope, {
+                attempt,
+                delayMs: delay,
+                context,
+              });
               await wait(delay, signal);
               continue;
             }
@@ -942,15 +2308,19 @@ export class HttpClient implements HttpClientContract {
         }
 
         return { notModified: false, response, parsedBody };
-      } catch (fetchError) {
+      } catch (caughtError) {
+        // Whatever fetch surfaced for the aborted attempt, report the timeout
+        const fetchError = attemptScope?.error ?? caughtError;
+
         // AbortError always propagates immediately — no retry
         if (fetchError instanceof Error && fetchError.name === 'AbortError') {
           throw fetchError;
         }
 
-        // Network errors (TypeError) — may be retryable
+        // Network errors (TypeError) and attempt timeouts — may be retryable
         if (
-          fetchError instanceof TypeError &&
+          (fetchError instanceof TypeError ||
+            fetchError instanceof TimeoutError) &&
           retryConfig &&
           attempt < maxAttempts
         ) {
@@ -969,6 +2339,11 @@ export class HttpClient implements HttpClientContract {
               context.retryAfterMs,
             );
             retryConfig.onRetry?.(context, attempt, delay);
+            this.emit('retry', eventScope, {
+              attempt,
+              delayMs: delay,
+              context,
+            });
             await wait(delay, signal);
             continue;
           }
@@ -977,6 +2352,8 @@ export class HttpClient implements HttpClientContract {
         // HttpErrorContext thrown from the !response.ok branch above
         // or other non-retryable errors — propagate
         throw fetchError;
+      } finally {
+        attemptScope?.dispose();
       }
     }
 
@@ -984,121 +2361,726 @@ export class HttpClient implements HttpClientContract {
     throw new Error('Unexpected end of retry loop');
   }
 
-  async get<Result>(
+  get<Schema extends ZodTypeAny>(
+    url: string,
+    options: SchemaRequestOptions<Schema>,
+  ): Promise<z.output<Schema>>;
+  get<Type extends Exclude<ResponseType, 'json'>>(
+    url: string,
+    options: TypedResponseRequestOptions<Type>,
+  ): Promise<ResponseTypeMap[Type]>;
+  get<Template extends string, Schema extends ZodTypeAny>(
+    url: Template,
+    options: PathTemplateRequestOptions<Template, SchemaRequestOptions<Schema>>,
+  ): Promise<z.output<Schema>>;
+  get<Template extends string, Result = unknown>(
+    url: Template,
+    options: PathTemplateRequestOptions<Template>,
+  ): Promise<Result>;
+  get<Result>(url: string, options?: RequestOptions): Promise<Result>;
+  async get<Result>(url: string, options: SendOptions = {}): Promise<Result> {
+    return this.request<Result>('GET', url, options);
+  }
+
+  async post<Result>(
+    url: string,
+    body?: RequestBody,
+    options: RequestOptions = {},
+  ): Promise<Result> {
+    return this.request<Result>('POST', url, { ...options, body });
+  }
+
+  async put<Result>(
+    url: string,
+    body?: RequestBody,
+    options: RequestOptions = {},
+  ): Promise<Result> {
+    return this.request<Result>('PUT', url, { ...options, body });
+  }
+
+  async patch<Result>(
+    url: string,
+    body?: RequestBody,
+    options: RequestOptions = {},
+  ): Promise<Result> {
+    return this.request<Result>('PATCH', url, { ...options, body });
+  }
+
+  async delete<Result>(
+    url: string,
+    options: RequestWithBodyOptions = {},
+  ): Promise<Result> {
+    return this.request<Result>('DELETE', url, options);
+  }
+
+  async head<Result = undefined>(
+    url: string,
+    options: RequestOptions = {},
+  ): Promise<Result> {
+    return this.request<Result>('HEAD', url, options);
+  }
+
+  async options<Result>(
+    url: string,
+    options: RequestOptions = {},
+  ): Promise<Result> {
+    return this.request<Result>('OPTIONS', url, options);
+  }
+
+  getResponse<Schema extends ZodTypeAny>(
+    url: string,
+    options: SchemaRequestOptions<Schema>,
+  ): Promise<HttpResponse<z.output<Schema>>>;
+  getResponse<Type extends Exclude<ResponseType, 'json'>>(
+    url: string,
+    options: TypedResponseRequestOptions<Type>,
+  ): Promise<HttpResponse<ResponseTypeMap[Type]>>;
+  getResponse<Template extends string, Schema extends ZodTypeAny>(
+    url: Template,
+    options: PathTemplateRequestOptions<Template, SchemaRequestOptions<Schema>>,
+  ): Promise<HttpResponse<z.output<Schema>>>;
+  getResponse<Template extends string, Result = unknown>(
+    url: Template,
+    options: PathTemplateRequestOptions<Template>,
+  ): Promise<HttpResponse<Result>>;
+  getResponse<Result>(
+    url: string,
+    options?: RequestOptions,
+  ): Promise<HttpResponse<Result>>;
+  async getResponse<Result>(
+    url: string,
+    options: SendOptions = {},
+  ): Promise<HttpResponse<Result>> {
+    const response = await this.send(
+      'GET',
+      this.resolveUrl(url, options),
+      options,
+      true,
+    );
+    return this.toResponseType(
+      response,
+      options.responseType,
+    ) as HttpResponse<Result>;
+  }
+
+  /**
+   * Iterate a paginated collection item by item, or page by page with
+   * `pages()`. Every page is an ordinary GET through the cache, dedupe and
+   * rate limiting, at the given `priority`. Nothing is fetched until the
+   * iteration starts.
+   */
+  paginate<Item = unknown>(
+    url: string,
+    strategy: PaginationStrategy<Item>,
+    options: PaginateOptions<Item> = {},
+  ): Paginated<Item> {
+    const { maxPages, stopWhen, ...requestOptions } = options;
+    const firstUrl = this.resolveUrl(url, requestOptions);
+    return createPaginated(
+      firstUrl,
+      strategy,
+      { maxPages, stopWhen },
+      (pageUrl) =>
+        this.send(
+          'GET',
+          pageUrl,
+          requestOptions,
+          strategy.needsHeaders === true,
+        ),
+    );
+  }
+
+  /**
+   * GET many URLs with bounded concurrency. Resolves with one settled result
+   * per URL, in input order, and never rejects. Fresh cache entries for the
+   * whole batch are read in one bulk lookup and served straight away; the
+   * rest are queued and wait for rate-limit room before being sent.
+   */
+  async getMany<Result = unknown>(
+    urls: Array<string>,
+    options: GetManyOptions<Result> = {},
+  ): Promise<Array<GetManyResult<Result>>> {
+    const {
+      concurrency = 4,
+      stopOnError = false,
+      onProgress,
+      ...requestOptions
+    } = options;
+    const priority = requestOptions.priority ?? 'background';
+    let fresh: Map<number, CacheEntry<unknown>>;
+    try {
+      fresh = await this.prefetchFreshEntries(urls, requestOptions);
+    } catch {
+      // getMany never rejects: without the bulk lookup every URL goes
+      // through send() and succeeds or fails on its own
+      fresh = new Map();
+    }
+
+    return runBatch<Result>(
+      urls,
+      {
+        concurrency,
+        stopOnError,
+        signal: requestOptions.signal,
+        onProgress,
+        immediate: new Set(fresh.keys()),
+      },
+      async (url, index, signal) => {
+        const target = this.resolveUrl(url, requestOptions);
+        const entry = fresh.get(index);
+        if (!entry) {
+          await this.awaitRateLimitRoom(
+            this.resolveResource('GET', target, requestOptions.resource),
+            priority,
+            signal,
+          );
+        }
+        const response = await this.send(
+          'GET',
+          target,
+          { ...requestOptions, signal },
+          false,
+          entry,
+        );
+        return response.data as Result;
+      },
+    );
+  }
+
+  /**
+   * Read the cache entries for a batch of GETs in one bulk lookup, keeping
+   * by index those that can be served without contacting the origin.
+   */
+  private async prefetchFreshEntries(
+    urls: Array<string>,
+    options: RequestOptions,
+  ): Promise<Map<number, CacheEntry<unknown>>> {
+    const fresh = new Map<number, CacheEntry<unknown>>();
+    const cache = this.stores.cache;
+    if (!cache || (options.cache ?? 'default') !== 'default') {
+      return fresh;
+    }
+
+    const cacheKey = this.resolveCacheKey(options.cacheKey);
+    const requestCacheControl = this.requestCacheControl(options.headers);
+    // One generation read per partition, however many URLs share it
+    const partitionKeys = new Map<string, Promise<string | undefined>>();
+    const lookups: Array<{ index: number; hash: string }> = [];
+    for (const [index, url] of urls.entries()) {
+      let target: string;
+      try {
+        target = this.resolveUrl(url, options);
+      } catch {
+        // An unresolvable URL fails on its own when the batch runs
+        continue;
+      }
+      const partition = this.partitionOf('GET', target, options.headers);
+      if (partition !== undefined && !partitionKeys.has(partition)) {
+        partitionKeys.set(partition, this.partitionKey(partition));
+      }
+      const partitionKey =
+        partition === undefined
+          ? undefined
+          : await partitionKeys.get(partition);
+      try {
+        lookups.push({
+          index,
+          hash: this.computeRequestHash(
+            'GET',
+            target,
+            'json',
+            options.headers,
+            cacheKey,
+            partitionKey,
+          ),
+        });
+      } catch {
+        // An invalid URL fails on its own when the batch runs
+      }
+    }
+    if (lookups.length === 0) {
+      return fresh;
+    }
+
+    const hashes = lookups.map(({ hash }) => hash);
+    const values = cache.getMany
+      ? await cache.getMany(hashes)
+      : await Promise.all(hashes.map((hash) => cache.get(hash)));
+
+    await Promise.all(
+      lookups.map(async ({ index, hash }, i) => {
+        const { entry } = await this.resolveCacheValue(
+          cache,
+          hash,
+          values[i],
+          options.headers ?? {},
+        );
+        if (
+          entry &&
+          (getFreshnessStatus(
+            entry.metadata,
+            undefined,
+            requestCacheControl,
+            this.config.cacheMode,
+          ) === 'fresh' ||
+            acceptsStale(
+              entry.metadata,
+              undefined,
+              requestCacheControl,
+              this.config.cacheMode,
+            ))
+        ) {
+          fresh.set(index, entry);
+        }
+      }),
+    );
+    return fresh;
+  }
+
+  /**
+   * Wait until the rate-limit store expects room for `resource`, so a batch
+   * paces its requests instead of queueing them all inside the limiter.
+   * Bounded by `maxWaitTime`; the request itself still enforces the limit.
+   */
+  private async awaitRateLimitRoom(
+    resource: string,
+    priority: RequestPriority,
+    signal: AbortSignal,
+  ): Promise<void> {
+    const rateLimit = this.stores.rateLimit as
+      | AdaptiveRateLimitStore
+      | undefined;
+    if (!rateLimit) {
+      return;
+    }
+    const deadline = Date.now() + this.config.maxWaitTime;
+    for (;;) {
+      const waitMs = await rateLimit.getWaitTime(resource, priority);
+      const remaining = deadline - Date.now();
+      if (waitMs <= 0 || remaining <= 0) {
+        return;
+      }
+      await wait(Math.min(waitMs, remaining), signal);
+    }
+  }
+
+  request<Template extends string, Result = unknown>(
+    method: HttpMethod,
+    url: Template,
+    options: PathTemplateRequestOptions<Template, RequestWithBodyOptions>,
+  ): Promise<Result>;
+  request<Result>(
+    method: HttpMethod,
     url: string,
-    options: {
-      signal?: AbortSignal;
-      priority?: RequestPriority;
-      headers?: Record<string, string>;
-      retry?: RetryOptions | false;
-    } = {},
+    options?: RequestWithBodyOptions,
+  ): Promise<Result>;
+  async request<Result>(
+    method: HttpMethod,
+    url: string,
+    options: SendOptions = {},
   ): Promise<Result> {
-    const { signal, priority = 'background', headers } = options;
-    const { endpoint, params } = this.parseUrlForHashing(url);
-    const hash = hashRequest(endpoint, params);
-    const resource = this.inferResource(url);
+    const response = await this.send(
+      method,
+      this.resolveUrl(url, options),
+      options,
+      false,
+    );
+    return this.toResponseType(response, options.responseType).data as Result;
+  }
+
+  /** Join `url` onto `baseUrl` and append the request's `params`. */
+  private resolveUrl(url: string, options: RequestOptions): string {
+    return resolveRequestUrl(
+      url,
+      this.config.baseUrl,
+      options.params,
+      options.arrayFormat ?? this.config.arrayFormat,
+    );
+  }
+
+  /**
+   * Convert buffered bytes into the caller's requested binary type. Cached
+   * and buffered binary bodies are held as an `ArrayBuffer` so every store
+   * can persist them; each caller gets a fresh `Blob` or stream.
+   */
+  private toResponseType(
+    response: HttpResponse<unknown>,
+    responseType: ResponseType | undefined,
+  ): HttpResponse<unknown> {
+    const { data } = response;
+    if (!(data instanceof ArrayBuffer)) {
+      return response;
+    }
+
+    if (responseType === 'blob') {
+      const type = response.headers.get('content-type') ?? '';
+      return { ...response, data: new Blob([data], { type }) };
+    }
+    if (responseType === 'stream') {
+      return { ...response, data: new Blob([data]).stream() };
+    }
+    return response;
+  }
+
+  /**
+   * Wrap data received from a deduplicated owner. Only reachable from
+   * `request()`, which discards everything but `data`.
+   */
+  private dedupedResponse(data: unknown): HttpResponse<unknown> {
+    return {
+      data,
+      status: 200,
+      headers: new Headers(),
+      cache: { status: 'bypass' },
+    };
+  }
+
+  /**
+   * Describe a value served from a cache entry as a response, with headers
+   * reconstructed from the entry metadata.
+   */
+  private cachedResponse(
+    entry: CacheEntry<unknown>,
+    status: ResponseCacheStatus,
+    freshness: FreshnessStatus,
+  ): HttpResponse<unknown> {
+    const now = Date.now();
+    return {
+      data: entry.value,
+      status: entry.metadata.statusCode,
+      headers: buildCachedHeaders(entry.metadata, now),
+      cache: {
+        status,
+        age: calculateCurrentAge(entry.metadata, now),
+        freshness,
+        storedAt: entry.metadata.storedAt,
+      },
+    };
+  }
+
+  private requestCacheControl(
+    headers: Record<string, string> | undefined,
+  ): RequestCacheControlDirectives {
+    return parseRequestCacheControl(
+      Object.entries(headers ?? {}).find(
+        ([name]) => name.toLowerCase() === 'cache-control',
+      )?.[1],
+    );
+  }
+
+  /**
+   * Shared request pipeline behind `request()` and `getResponse()`.
+   *
+   * Deduplicated waiters only receive the owner's data, so raw calls never
+   * join in-flight requests — they would have no status or headers to report.
+   * `prefetched` is an entry `getMany()` already read in bulk, used in place
+   * of the cache lookup.
+   */
+  private async send(
+    method: HttpMethod,
+    template: string,
+    options: SendOptions,
+    raw: boolean,
+    prefetched?: CacheEntry<unknown>,
+  ): Promise<HttpResponse<unknown>> {
+    const url = options.pathParams
+      ? fillPathParams(template, options.pathParams)
+      : template;
+    const {
+      priority = 'background',
+      headers,
+      responseType = 'json',
+      bufferStream = false,
+    } = options;
+    // Request Cache-Control narrows what the cache may serve (RFC 9111 §5.2.1)
+    const requestCacheControl = this.requestCacheControl(headers);
+    const cacheMode = options.cache ?? 'default';
+    const schema = options.schema ?? this.config.schema;
+    const cacheKey = this.resolveCacheKey(options.cacheKey);
+    // Unsafe requests use neither store, so skip the partition lookup
+    const partitionKey = SAFE_METHODS.has(method)
+      ? await this.partitionKey(this.partitionOf(method, url, headers))
+      : undefined;
+    const hash = this.computeRequestHash(
+      method,
+      url,
+      responseType,
+      headers,
+      cacheKey,
+      partitionKey,
+    );
+    const resource = this.resolveResource(
+      method,
+      url,
+      options.resource ??
+        (options.pathParams ? templateResource(template) : undefined),
+    );
+    const isBinary = BINARY_RESPONSE_TYPES.has(responseType);
+    // An unbuffered stream is handed to the caller unread, so it can be
+    // neither cached nor shared. Everything else binary is read as bytes.
+    const isUnbufferedStream = responseType === 'stream' && !bufferStream;
+    const readAs: ResponseType = isUnbufferedStream
+      ? 'stream'
+      : isBinary
+        ? 'arrayBuffer'
+        : responseType;
+    const cache =
+      method === 'GET' && !isUnbufferedStream ? this.stores.cache : undefined;
+    // Fetch cache modes: which of lookup and storage this request uses
+    const cacheRead =
+      cacheMode === 'no-store' || cacheMode === 'reload' ? undefined : cache;
+    const cacheWrite =
+      cacheMode === 'no-store' || requestCacheControl.noStore
+        ? undefined
+        : cache;
+    // Dedupe stores share results as JSON, which cannot carry bytes
+    const dedupe =
+      SAFE_METHODS.has(method) && !raw && !isBinary
+        ? this.stores.dedupe
+        : undefined;
+
+    // The total budget covers every wait below, so it wraps the caller signal
+    const timeouts = this.resolveTimeouts(options.timeout);
+    const totalTimeout = timeouts.total;
+    const callScope =
+      totalTimeout !== undefined
+        ? createTimeoutScope(
+            options.signal,
+            totalTimeout,
+            () =>
+              new TimeoutError(
+                `Request to ${url} timed out after ${totalTimeout}ms`,
+                totalTimeout,
+                'total',
+              ),
+          )
+        : undefined;
+    const signal = callScope?.signal ?? options.signal;
+
+    const eventScope: RequestEventScope = {
+      url,
+      hash,
+      resource,
+      priority,
+      startedAt: Date.now(),
+      trace: this.tracing
+        ? RequestTrace.start(this.tracing, `HttpClient ${method}`, {
+            [TracingAttributes.HTTP_REQUEST_METHOD]: method,
+            [TracingAttributes.URL_FULL]: url,
+            [TracingAttributes.RESOURCE]: resource,
+            [TracingAttributes.PRIORITY]: priority,
+          })
+        : undefined,
+    };
+    // Deduplicated waiters never see the owner's status, so omit it for them
+    const complete = (
+      response: HttpResponse<unknown>,
+      statusKnown = true,
+    ): HttpResponse<unknown> => {
+      const status = statusKnown ? response.status : undefined;
+      this.emit('requestComplete', eventScope, {
+        method,
+        status,
+        cacheStatus: response.cache.status,
+        durationMs: Date.now() - eventScope.startedAt,
+      });
+      eventScope.trace?.end({ status, cacheStatus: response.cache.status });
+      return response;
+    };
+    const hit = (
+      entry: CacheEntry<unknown>,
+      freshness: FreshnessStatus,
+    ): HttpResponse<unknown> => {
+      const response = this.cachedResponse(entry, 'hit', freshness);
+      this.emit('cacheHit', eventScope, {
+        age: response.cache.age ?? 0,
+        freshness,
+      });
+      return complete(response);
+    };
+
+    const inFlightLabels = { origin: this.getOriginScope(url) };
+    this.metrics?.adjustGauge(
+      HttpClientMetricNames.REQUESTS_IN_FLIGHT,
+      inFlightLabels,
+      1,
+    );
 
     // Track stale entry for conditional requests and stale-if-error fallback
     let staleEntry: CacheEntry<unknown> | undefined;
     let staleCandidate: CacheEntry<unknown> | undefined;
+    let releaseSlot: (() => void) | undefined;
 
     try {
-      await this.enforceServerCooldown(url, signal);
+      await this.enforceServerCooldown(url, signal, false, eventScope);
 
       // 1. Cache — check for cached response
-      if (this.stores.cache) {
-        const cachedResult = await this.stores.cache.get(hash);
+      if (cacheRead) {
+        const lookup: CacheLookup = prefetched
+          ? { entry: prefetched }
+          : await this.traced(eventScope, 'cache.lookup', async () =>
+              this.resolveCacheValue(
+                cacheRead,
+                hash,
+                await cacheRead.get(hash),
+                headers ?? {},
+              ),
+            );
+
+        if (!lookup.entry) {
+          this.emit('cacheMiss', eventScope, { reason: lookup.reason });
+        } else {
+          const entry = lookup.entry;
+          const status = getFreshnessStatus(
+            entry.metadata,
+            undefined,
+            requestCacheControl,
+            this.config.cacheMode,
+          );
 
-        if (cachedResult !== undefined && isCacheEntry(cachedResult)) {
-          const entry = cachedResult as CacheEntry<unknown>;
+          // These modes take any stored entry, however stale
+          if (cacheMode === 'force-cache' || cacheMode === 'only-if-cached') {
+            return hit(entry, status);
+          }
 
-          // Vary mismatch → treat as cache miss
+          // Request max-stale: served as is, but still reported as stale
           if (
-            !varyMatches(
-              entry.metadata.varyValues,
-              entry.metadata.varyHeaders,
-              headers ?? {},
+            cacheMode !== 'no-cache' &&
+            acceptsStale(
+              entry.metadata,
+              undefined,
+              requestCacheControl,
+              this.config.cacheMode,
             )
           ) {
-            // fall through to fetch
-          } else {
-            const status = getFreshnessStatus(entry.metadata);
-
-            switch (status) {
-              case 'fresh':
-                return entry.value as Result;
-
-              case 'no-cache':
-                if (this.options.cacheOverrides?.ignoreNoCache) {
-                  return entry.value as Result;
-                }
-                staleEntry = entry;
-                break;
-
-              case 'must-revalidate':
-                staleEntry = entry;
-                break;
-
-              case 'stale-while-revalidate': {
-                // Serve stale immediately, revalidate in background
-                const revalidation = this.backgroundRevalidate(
-                  url,
-                  hash,
-                  entry,
-                  headers,
-                );
-                this.pendingRevalidations.push(revalidation);
-                // Cleanup resolved promises periodically
-                revalidation.finally(() => {
-                  this.pendingRevalidations = this.pendingRevalidations.filter(
-                    (p) => p !== revalidation,
-                  );
-                });
-                return entry.value as Result;
-              }
+            return hit(entry, status);
+          }
 
-              case 'stale-if-error':
-                // Attempt fresh fetch, fall back to stale on error
-                staleCandidate = entry;
-                staleEntry = entry; // Also use for conditional request
-                break;
+          // `no-cache` revalidates every entry, even a fresh one
+          switch (cacheMode === 'no-cache' ? 'must-revalidate' : status) {
+            case 'fresh':
+              return hit(entry, status);
 
-              case 'stale':
-                staleEntry = entry;
-                break;
+            case 'no-cache':
+              if (this.config.cacheOverrides?.ignoreNoCache) {
+                return hit(entry, status);
+              }
+              staleEntry = entry;
+              break;
+
+            case 'must-revalidate':
+              staleEntry = entry;
+              break;
+
+            case 'stale-while-revalidate': {
+              // Serve stale immediately, revalidate in background
+              const revalidation = this.backgroundRevalidate(
+                url,
+                hash,
+                entry,
+                headers,
+                schema,
+                responseType,
+                {
+                  ...eventScope,
+                  startedAt: Date.now(),
+                  trace: eventScope.trace?.fork('HttpClient revalidate', {
+                    [TracingAttributes.HTTP_REQUEST_METHOD]: 'GET',
+                    [TracingAttributes.URL_FULL]: url,
+                    [TracingAttributes.BACKGROUND]: true,
+                  }),
+                },
+              );
+              this.pendingRevalidations.push(revalidation);
+              // Cleanup resolved promises periodically
+              revalidation.finally(() => {
+                this.pendingRevalidations = this.pendingRevalidations.filter(
+                  (p) => p !== revalidation,
+                );
+              });
+              const response = this.cachedResponse(
+                entry,
+                'stale-while-revalidate',
+                status,
+              );
+              this.emit('staleServed', eventScope, {
+                reason: 'stale-while-revalidate',
+                age: response.cache.age ?? 0,
+              });
+              return complete(response);
             }
+
+            case 'stale-if-error':
+              // Attempt fresh fetch, fall back to stale on error
+              staleCandidate = entry;
+              staleEntry = entry; // Also use for conditional request
+              break;
+
+            case 'stale':
+              staleEntry = entry;
+              break;
+          }
+
+          if (staleEntry) {
+            this.emit('cacheMiss', eventScope, { reason: 'stale' });
           }
         }
       }
 
+      // The request directive, unlike the mode, still honours freshness
+      if (cacheMode === 'only-if-cached' || requestCacheControl.onlyIfCached) {
+        throw new CacheMissError(url);
+      }
+
       // 2. Deduplication — check for in-progress request
-      if (this.stores.dedupe) {
-        const existingResult = await this.stores.dedupe.waitFor(hash);
+      if (dedupe) {
+        const joined = (result: unknown, waitStartedAt: number) => {
+          this.emit('dedupeJoined', eventScope, {
+            waitMs: Date.now() - waitStartedAt,
+          });
+          return complete(this.dedupedResponse(result), false);
+        };
+
+        let waitStartedAt = Date.now();
+        const existingResult = await this.traced(
+          eventScope,
+          'dedupe.wait',
+          () => abortable(dedupe.waitFor(hash), signal),
+        );
         if (existingResult !== undefined) {
-          return existingResult as Result;
+          return joined(existingResult, waitStartedAt);
         }
 
-        if (this.stores.dedupe.registerOrJoin) {
-          const registration = await this.stores.dedupe.registerOrJoin(hash);
+        if (dedupe.registerOrJoin) {
+          const registration = await dedupe.registerOrJoin(hash);
 
           if (!registration.isOwner) {
-            const joinedResult = await this.stores.dedupe.waitFor(hash);
+            waitStartedAt = Date.now();
+            const joinedResult = await this.traced(
+              eventScope,
+              'dedupe.wait',
+              () => abortable(dedupe.waitFor(hash), signal),
+            );
             if (joinedResult !== undefined) {
-              return joinedResult as Result;
+              return joined(joinedResult, waitStartedAt);
             }
           }
         } else {
-          await this.stores.dedupe.register(hash);
+          await dedupe.register(hash);
         }
       }
 
+      // Fail fast on an open circuit before waiting on any rate limit
+      await this.circuitBreaker?.assertNotOpen(this.getOriginScope(url));
+
       // 3. Rate limiting — check if request can proceed
       let alreadyRecordedRateLimit = false;
       if (this.stores.rateLimit) {
-        alreadyRecordedRateLimit = await this.enforceStoreRateLimit(
-          resource,
-          priority,
-          signal,
+        alreadyRecordedRateLimit = await this.traced(
+          eventScope,
+          'rate_limit.wait',
+          () =>
+            this.enforceStoreRateLimit(resource, priority, signal, eventScope),
         );
       }
 
@@ -1117,52 +3099,109 @@ export class HttpClient implements HttpClientContract {
         }
       }
 
+      const requestBody = this.encodeRequestBody(options.body, fetchHeaders);
+
+      // 4a. Concurrency — wait for a slot, held until the body has been read
+      releaseSlot = this.bulkhead
+        ? await this.traced(eventScope, 'bulkhead.wait', () =>
+            this.bulkhead!.acquire(
+              this.getOriginScope(url),
+              resource,
+              priority,
+              signal,
+            ),
+          )
+        : undefined;
+
       const retryConfig = this.resolveRetryConfig(options.retry);
       const fetchResult = await this.executeFetch(
-        url,
-        fetchHeaders,
+        {
+          url,
+          method,
+          priority,
+          resource,
+          hedge:
+            priority === 'user' &&
+            (method === 'GET' || method === 'HEAD') &&
+            options.hedging !== false,
+          headers: fetchHeaders,
+          body: requestBody,
+          responseType: readAs,
+        },
         signal,
         retryConfig,
         staleEntry,
+        timeouts.perAttempt,
+        eventScope,
       );
 
+      // An unbuffered stream is read after send() returns, so it keeps the
+      // slot until the caller finishes or cancels it
+      if (
+        releaseSlot &&
+        isUnbufferedStream &&
+        !fetchResult.notModified &&
+        fetchResult.parsedBody.data instanceof ReadableStream
+      ) {
+        fetchResult.parsedBody.data = onStreamSettled(
+          fetchResult.parsedBody.data,
+          releaseSlot,
+        );
+      } else {
+        releaseSlot?.();
+      }
+
       // Handle 304 Not Modified
       if (fetchResult.notModified) {
         const { refreshedEntry } = fetchResult;
         const ttl = this.clampTTL(
           calculateStoreTTL(
             refreshedEntry.metadata,
-            this.options.defaultCacheTTL,
+            this.config.defaultCacheTTL,
+            this.config.cacheMode,
           ),
         );
 
-        if (this.stores.cache) {
-          await this.stores.cache.set(hash, refreshedEntry, ttl);
+        if (
+          cacheWrite &&
+          this.isStorable(refreshedEntry.metadata.cacheControl, headers)
+        ) {
+          await this.writeCacheEntry(cacheWrite, hash, refreshedEntry, ttl);
         }
 
-        const result = refreshedEntry.value as Result;
-
-        if (this.stores.dedupe) {
-          await this.stores.dedupe.complete(hash, result);
+        if (dedupe) {
+          await dedupe.complete(hash, refreshedEntry.value);
         }
 
-        return result;
+        this.emit('revalidated', eventScope, {
+          background: false,
+          notModified: true,
+        });
+        return complete(
+          this.cachedResponse(
+            refreshedEntry,
+            'revalidated',
+            getFreshnessStatus(
+              refreshedEntry.metadata,
+              undefined,
+              undefined,
+              this.config.cacheMode,
+            ),
+          ),
+        );
       }
 
       const { response, parsedBody } = fetchResult;
 
-      // 5. Apply response transformer if provided
-      let data: unknown = parsedBody.data;
-      if (this.options.responseTransformer && data) {
-        data = this.options.responseTransformer(data);
-      }
-
-      // 6. Apply response handler if provided (for domain-specific validation)
-      if (this.options.responseHandler) {
-        data = this.options.responseHandler(data);
-      }
-
-      const result = data as Result;
+      // 5–6. Apply response transformer, response handler and schema. A
+      // validation failure throws here, before anything is cached or shared.
+      const result = this.processResponseData(
+        parsedBody.data,
+        url,
+        response,
+        schema,
+        responseType,
+      );
 
       // 7. Record the request for rate limiting
       if (this.stores.rateLimit && !alreadyRecordedRateLimit) {
@@ -1171,10 +3210,11 @@ export class HttpClient implements HttpClientContract {
       }
 
       // 8. Cache the result
-      if (this.stores.cache) {
+      if (cacheWrite) {
         const cc = parseCacheControl(response.headers.get('cache-control'));
         const shouldStore =
-          !cc.noStore || this.options.cacheOverrides?.ignoreNoStore;
+          (!cc.noStore || this.config.cacheOverrides?.ignoreNoStore) &&
+          this.isStorable(cc, headers);
 
         if (shouldStore) {
           const entry = createCacheEntry(
@@ -1182,51 +3222,112 @@ export class HttpClient implements HttpClientContract {
             response.headers,
             response.status,
           );
-          if (entry.metadata.varyHeaders && headers) {
+          if (entry.metadata.varyHeaders) {
             const varyFields = parseVaryHeader(entry.metadata.varyHeaders);
-            entry.metadata.varyValues = captureVaryValues(varyFields, headers);
+            entry.metadata.varyValues = captureVaryValues(
+              varyFields,
+              headers ?? {},
+            );
           }
           const ttl = this.clampTTL(
-            calculateStoreTTL(entry.metadata, this.options.defaultCacheTTL),
+            calculateStoreTTL(
+              entry.metadata,
+              this.config.defaultCacheTTL,
+              this.config.cacheMode,
+            ),
           );
-          await this.stores.cache.set(hash, entry, ttl);
+          await this.writeCacheEntry(cacheWrite, hash, entry, ttl);
         }
+      } else if (this.stores.cache && !SAFE_METHODS.has(method)) {
+        // Unsafe request succeeded — evict entries it may have changed
+        await this.invalidateCacheEntries(
+          url,
+          response.headers,
+          headers,
+          cacheKey,
+        );
       }
 
       // 9. Mark deduplication as complete
-      if (this.stores.dedupe) {
-        await this.stores.dedupe.complete(hash, result);
+      if (dedupe) {
+        await dedupe.complete(hash, result);
       }
 
-      return result;
-    } catch (error) {
-      // stale-if-error fallback: serve stale entry when origin fails
-      if (staleCandidate && this.isServerErrorOrNetworkFailure(error)) {
-        const result = staleCandidate.value as Result;
-
-        if (this.stores.dedupe) {
-          await this.stores.dedupe.complete(hash, result);
+      return complete({
+        data: result,
+        status: response.status,
+        headers: response.headers,
+        cache: { status: cacheWrite ? 'miss' : 'bypass' },
+      });
+    } catch (caughtError) {
+      // The caller never sees a stream that was wrapped to hold the slot
+      releaseSlot?.();
+
+      // An expired total budget surfaces as whatever the interrupted wait or
+      // fetch threw; report it as the TimeoutError instead.
+      const error = callScope?.error ?? caughtError;
+
+      // stale-if-error fallback: serve stale entry when origin fails. An open
+      // circuit may also opt in to serving entries outside that window.
+      const fallback =
+        staleCandidate && this.isServerErrorOrNetworkFailure(error)
+          ? staleCandidate
+          : error instanceof CircuitOpenError &&
+              this.circuitBreaker?.serveStaleWhenOpen
+            ? staleEntry
+            : undefined;
+      if (fallback) {
+        if (dedupe) {
+          await dedupe.complete(hash, fallback.value);
         }
 
-        return result;
+        const response = this.cachedResponse(
+          fallback,
+          'stale-if-error',
+          'stale-if-error',
+        );
+        this.emit('staleServed', eventScope, {
+          reason: 'stale-if-error',
+          age: response.cache.age ?? 0,
+          error: this.isHttpErrorContext(error)
+            ? this.defaultHttpError(error)
+            : error,
+        });
+        return complete(response);
       }
 
       // Mark deduplication as failed
-      if (this.stores.dedupe) {
-        await this.stores.dedupe.fail(hash, error as Error);
+      if (dedupe) {
+        await dedupe.fail(hash, error as Error);
       }
 
       // Allow callers to detect aborts distinctly – do not wrap AbortError.
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw error;
-      }
-
-      // Already a processed error from the !response.ok branch above
-      if (error instanceof HttpClientError) {
-        throw error;
-      }
-
-      throw this.generateClientError(error);
+      // A processed error from the !response.ok branch above is also final.
+      const finalError =
+        (error instanceof Error && error.name === 'AbortError') ||
+        error instanceof HttpClientError
+          ? error
+          : this.generateClientError(error);
+
+      const status =
+        finalError instanceof HttpClientError
+          ? finalError.statusCode
+          : undefined;
+      this.emit('requestComplete', eventScope, {
+        method,
+        status,
+        durationMs: Date.now() - eventScope.startedAt,
+        error: finalError,
+      });
+      eventScope.trace?.end({ status, error: finalError });
+      throw finalError;
+    } finally {
+      callScope?.dispose();
+      this.metrics?.adjustGauge(
+        HttpClientMetricNames.REQUESTS_IN_FLIGHT,
+        inFlightLabels,
+        -1,
+      );
     }
   }
 }
@@ -1 +1,43 @@
 export * from './http-client.js';
+export * from './middleware.js';
+export * from './events.js';
+export type {
+  GetManyOptions,
+  GetManyProgress,
+  GetManyResult,
+} from './batch.js';
+export { TracingAttributes, type TracingOptions } from './tracing.js';
+export type { CircuitBreakerOptions } from './circuit-breaker.js';
+export type { HedgingOptions } from './hedging.js';
+export type {
+  BulkheadOptions,
+  BulkheadSnapshot,
+  BulkheadStatus,
+} from './bulkhead.js';
+export {
+  linkHeaderPagination,
+  cursorPagination,
+  offsetPagination,
+  pageNumberPagination,
+  parseNextLink,
+  type CursorPaginationOptions,
+  type LinkHeaderPaginationOptions,
+  type OffsetPaginationOptions,
+  type Page,
+  type PageItems,
+  type PageNumberPaginationOptions,
+  type PaginateOptions,
+  type Paginated,
+  type PaginationStrategy,
+} from './pagination.js';
+export {
+  buildPath,
+  type PathParamNames,
+  type PathParams,
+} from './request-url.js';
+export {
+  defaultResource,
+  type ResourceResolver,
+  type ResourceResolverFunction,
+  type ResourceRule,
+} from './resource-resolver.js';
@@ -0,0 +1,103 @@
+import {
+  composeMiddleware,
+  type Middleware,
+  type MiddlewareContext,
+} from './middleware.js';
+
+function makeContext(): MiddlewareContext {
+  return {
+    url: 'https://api.example.com/items',
+    init: {},
+    method: 'GET',
+    attempt: 1,
+    priority: 'background',
+    background: false,
+  };
+}
+
+describe('composeMiddleware', () => {
+  test('runs middleware outermost first around the terminal', async () => {
+    const order: Array<string> = [];
+    const track =
+      (name: string): Middleware =>
+      async (_ctx, next) => {
+        order.push(`${name}:before`);
+        const response = await next();
+        order.push(`${name}:after`);
+        return response;
+      };
+    const terminal = vi.fn(async () => {
+      order.push('fetch');
+      return new Response('ok');
+    });
+
+    await composeMiddleware([track('a'), track('b')], terminal)(makeContext());
+
+    expect(order).toEqual([
+      'a:before',
+      'b:before',
+      'fetch',
+      'b:after',
+      'a:after',
+    ]);
+  });
+
+  test('passes context changes down the chain', async () => {
+    const terminal = vi.fn(async (ctx: MiddlewareContext) => {
+      return new Response(ctx.url);
+    });
+
+    const response = await composeMiddleware(
+      [
+        (ctx, next) => {
+          ctx.url = `${ctx.url}?signed=1`;
+          return next();
+        },
+      ],
+      terminal,
+    )(makeContext());
+
+    expect(await response.text()).toBe(
+      'https://api.example.com/items?signed=1',
+    );
+  });
+
+  test('short-circuits when a middleware does not call next', async () => {
+    const terminal = vi.fn(async () => new Response('network'));
+    const later = vi.fn<Middleware>((_ctx, next) => next());
+
+    const response = await composeMiddleware(
+      [() => new Response('synthetic'), later],
+      terminal,
+    )(makeContext());
+
+    expect(await response.text()).toBe('synthetic');
+    expect(later).not.toHaveBeenCalled();
+    expect(terminal).not.toHaveBeenCalled();
+  });
+
+  test('rejects when next() is called twice', async () => {
+    const terminal = vi.fn(async () => new Response('ok'));
+
+    await expect(
+      composeMiddleware(
+        [
+          async (_ctx, next) => {
+            await next();
+            return next();
+          },
+        ],
+        terminal,
+      )(makeContext()),
+    ).rejects.toThrow('next() called multiple times');
+  });
+
+  test('calls the terminal directly with no middleware', async () => {
+    const terminal = vi.fn(async () => new Response('ok'));
+    const ctx = makeContext();
+
+    await composeMiddleware([], terminal)(ctx);
+
+    expect(terminal).toHaveBeenCalledWith(ctx);
+  });
+});
@@ -0,0 +1,68 @@
+import type { CacheEntry } from '../cache/index.js';
+import type { RequestPriority } from '../stores/index.js';
+import type { HttpMethod } from '../types/index.js';
+
+/**
+ * Per-attempt state shared by every middleware in the chain. `url` and
+ * `init` may be reassigned or mutated before calling `next()`; the rest
+ * describes the attempt and is read-only.
+ */
+export interface MiddlewareContext {
+  /** URL that will be fetched. */
+  url: string;
+  /** Fetch init, including method, headers, body and the attempt's signal. */
+  init: RequestInit;
+  readonly method: HttpMethod;
+  /** 1 for the first attempt, incremented on every retry. */
+  readonly attempt: number;
+  readonly priority: RequestPriority;
+  /**
+   * Stale cache entry being revalidated by this request, if any. Its
+   * validators have already been added to `init.headers`.
+   */
+  readonly cacheEntry?: CacheEntry<unknown>;
+  /** True for stale-while-revalidate refreshes nobody is waiting on. */
+  readonly background: boolean;
+}
+
+/** Invoke the rest of the chain (and eventually `fetch`). */
+export type MiddlewareNext = () => Promise<Response>;
+
+/**
+ * Wraps the fetch stage of each attempt. Call `next()` to continue down the
+ * chain, or return a `Response` without calling it to short-circuit.
+ * Whatever `Response` is returned flows through status handling, retries,
+ * parsing and caching exactly as a network response would.
+ */
+export type Middleware = (
+  ctx: MiddlewareContext,
+  next: MiddlewareNext,
+) => Promise<Response> | Response;
+
+/**
+ * Compose middleware into a single dispatcher, outermost first. Each
+ * middleware may call `next()` at most once.
+ */
+export function composeMiddleware(
+  middleware: ReadonlyArray<Middleware>,
+  terminal: (ctx: MiddlewareContext) => Promise<Response>,
+): (ctx: MiddlewareContext) => Promise<Response> {
+  return (ctx) => {
+    let lastIndex = -1;
+
+    const dispatch = async (index: number): Promise<Response> => {
+      if (index <= lastIndex) {
+        throw new Error('next() called multiple times');
+      }
+      lastIndex = index;
+
+      const current = middleware[index];
+      if (!current) {
+        return terminal(ctx);
+      }
+      return current(ctx, () => dispatch(index + 1));
+    };
+
+    return dispatch(0);
+  };
+}
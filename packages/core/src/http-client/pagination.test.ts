@@ -0,0 +1,228 @@
+import {
+  createPaginated,
+  cursorPagination,
+  linkHeaderPagination,
+  offsetPagination,
+  pageNumberPagination,
+  parseNextLink,
+  type PaginationStrategy,
+} from './pagination.js';
+import { HttpClientError } from '../errors/http-client-error.js';
+import type { HttpResponse } from '../types/index.js';
+
+const base = 'https://api.example.com/items';
+
+function page(data: unknown, headers: HeadersInit = {}): HttpResponse<unknown> {
+  return {
+    data,
+    status: 200,
+    headers: new Headers(headers),
+    cache: { status: 'miss' },
+  };
+}
+
+/** Serve pages from a map of URL to response, recording each fetch. */
+function fakeFetch(pages: Record<string, HttpResponse<unknown>>) {
+  return vi.fn(async (url: string) => {
+    const response = pages[url];
+    if (!response) throw new Error(`Unexpected fetch of ${url}`);
+    return response;
+  });
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<Array<T>> {
+  const values: Array<T> = [];
+  for await (const value of iterable) {
+    values.push(value);
+  }
+  return values;
+}
+
+describe('parseNextLink', () => {
+  test('finds rel="next" among several links', () => {
+    expect(
+      parseNextLink(
+        `<${base}?page=1>; rel="prev", <${base}?page=3>; rel="next", <${base}?page=9>; rel="last"`,
+        base,
+      ),
+    ).toBe(`${base}?page=3`);
+  });
+
+  test('resolves relative targets and accepts unquoted or multiple relations', () => {
+    expect(parseNextLink('</items?page=2>; rel=next', base)).toBe(
+      `${base}?page=2`,
+    );
+    expect(parseNextLink('<?page=2>; title="x"; REL="last next"', base)).toBe(
+      `${base}?page=2`,
+    );
+  });
+
+  test('returns undefined without a next link', () => {
+    expect(parseNextLink(null, base)).toBeUndefined();
+    expect(parseNextLink(`<${base}?page=1>; rel="prev"`, base)).toBeUndefined();
+  });
+});
+
+describe('pagination strategies', () => {
+  test('linkHeaderPagination follows Link headers until there is none', async () => {
+    const fetchPage = fakeFetch({
+      [base]: page([1, 2], { Link: '</items?page=2>; rel="next"' }),
+      [`${base}?page=2`]: page([3]),
+    });
+
+    const items = await collect(
+      createPaginated(base, linkHeaderPagination<number>(), {}, fetchPage),
+    );
+
+    expect(items).toEqual([1, 2, 3]);
+    expect(linkHeaderPagination().needsHeaders).toBe(true);
+  });
+
+  test('cursorPagination sends the body cursor until it runs out', async () => {
+    const fetchPage = fakeFetch({
+      [`${base}?limit=2`]: page({ data: ['a', 'b'], meta: { next: 'c1' } }),
+      [`${base}?limit=2&after=c1`]: page({ data: ['c'], meta: { next: null } }),
+    });
+
+    const items = await collect(
+      createPaginated(
+        base,
+        cursorPagination<string>({
+          cursor: 'meta.next',
+          cursorParam: 'after',
+          items: 'data',
+          pageSize: 2,
+        }),
+        {},
+        fetchPage,
+      ),
+    );
+
+    expect(items).toEqual(['a', 'b', 'c']);
+  });
+
+  test('offsetPagination steps the offset until a short page', async () => {
+    const fetchPage = fakeFetch({
+      [`${base}?offset=0&limit=2`]: page([1, 2]),
+      [`${base}?offset=2&limit=2`]: page([3, 4]),
+      [`${base}?offset=4&limit=2`]: page([5]),
+    });
+
+    const items = await collect(
+      createPaginated(
+        base,
+        offsetPagination<number>({ pageSize: 2 }),
+        {},
+        fetchPage,
+      ),
+    );
+
+    expect(items).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  test('pageNumberPagination increments the page until an empty page', async () => {
+    const fetchPage = fakeFetch({
+      [`${base}?p=0`]: page({ results: [1] }),
+      [`${base}?p=1`]: page({ results: [2] }),
+      [`${base}?p=2`]: page({ results: [] }),
+    });
+
+    const items = await collect(
+      createPaginated(
+        base,
+        pageNumberPagination<number>({
+          pageParam: 'p',
+          firstPage: 0,
+          items: (data) => (data as { results: Array<number> }).results,
+        }),
+        {},
+        fetchPage,
+      ),
+    );
+
+    expect(items).toEqual([1, 2]);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+  });
+
+  test('rejects a page whose items are not an array', async () => {
+    const fetchPage = fakeFetch({ [base]: page({ data: 'nope' }) });
+
+    const error = await collect(
+      createPaginated(
+        base,
+        linkHeaderPagination({ items: 'data' }),
+        {},
+        fetchPage,
+      ),
+    ).catch((e) => e);
+
+    expect(error).toBeInstanceOf(HttpClientError);
+    expect(error.message).toContain("'data'");
+  });
+});
+
+describe('createPaginated', () => {
+  const endless: PaginationStrategy<number> = {
+    getItems: (response) => response.data as Array<number>,
+    getNextUrl: (current) => `${base}?page=${current.index + 2}`,
+  };
+
+  function endlessFetch() {
+    return vi.fn(async (url: string) => {
+      const n = Number(new URL(url).searchParams.get('page') ?? 1);
+      return page([n]);
+    });
+  }
+
+  test('stops after maxPages', async () => {
+    const fetchPage = endlessFetch();
+
+    const items = await collect(
+      createPaginated(base, endless, { maxPages: 3 }, fetchPage),
+    );
+
+    expect(items).toEqual([1, 2, 3]);
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+  });
+
+  test('stops after the page stopWhen accepts', async () => {
+    const fetchPage = endlessFetch();
+
+    const pages = await collect(
+      createPaginated(
+        base,
+        endless,
+        { stopWhen: (current) => current.items.includes(2) },
+        fetchPage,
+      ).pages(),
+    );
+
+    expect(pages.map((p) => [p.index, p.url])).toEqual([
+      [0, base],
+      [1, `${base}?page=2`],
+    ]);
+  });
+
+  test('fetches nothing past an early break', async () => {
+    const fetchPage = endlessFetch();
+
+    for await (const item of createPaginated(base, endless, {}, fetchPage)) {
+      if (item === 2) break;
+    }
+
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  test('stops when the next page was already visited', async () => {
+    const fetchPage = fakeFetch({
+      [base]: page([1], { Link: `<${base}?page=2>; rel="next"` }),
+      [`${base}?page=2`]: page([2], { Link: `<${base}>; rel="next"` }),
+    });
+
+    const items = await collect(
+      createPaginated(base, linkHeaderPagination<number>(), {}, fetchPage),
+    );
+
+    expect(items).toEqual([1, 2]);
+  });
+});
@@ -0,0 +1,312 @@
+import { HttpClientError } from '../errors/http-client-error.js';
+import type { HttpResponse, RequestOptions } from '../types/index.js';
+
+/** One fetched page of a paginated collection. */
+export interface Page<Item> {
+  /** URL the page was fetched from. */
+  url: string;
+  /** Zero-based position of the page in the iteration. */
+  index: number;
+  /** Items on the page, as extracted by the strategy. */
+  items: Array<Item>;
+  response: HttpResponse<unknown>;
+}
+
+/**
+ * How to walk a paginated API: where the items are on each page and how to
+ * find the next page. See the built-in `linkHeaderPagination`,
+ * `cursorPagination`, `offsetPagination` and `pageNumberPagination`.
+ */
+export interface PaginationStrategy<Item> {
+  /** URL of the first page, e.g. with a page size added. Defaults to `url`. */
+  first?(url: string): string;
+  /** Items on a fetched page. */
+  getItems(response: HttpResponse<unknown>): Array<Item>;
+  /** URL of the page after `page`, or `undefined` when it is the last. */
+  getNextUrl(page: Page<Item>): string | undefined;
+  /**
+   * Whether `getNextUrl` reads response headers. Deduplicated waiters only
+   * receive the body, so such pages are fetched without deduplication.
+   */
+  needsHeaders?: boolean;
+}
+
+export interface PaginateOptions<Item>
+  extends Omit<RequestOptions, 'responseType' | 'bufferStream'> {
+  /** Stop after this many pages. */
+  maxPages?: number;
+  /** Called with each page; return `true` to stop after it. */
+  stopWhen?: (page: Page<Item>) => boolean;
+}
+
+/**
+ * Lazily fetched collection returned by `paginate()`. Iterating yields
+ * items; `pages()` yields whole pages. Each iteration starts from the
+ * first page, and breaking out of a loop fetches nothing further.
+ */
+export interface Paginated<Item> extends AsyncIterable<Item> {
+  pages(): AsyncIterable<Page<Item>>;
+}
+
+/**
+ * Where a page's items are: a dot-separated path into the JSON body such
+ * as `'data.results'`, or a function. Defaults to the body itself.
+ */
+export type PageItems<Item> = string | ((data: unknown) => Array<Item>);
+
+export interface LinkHeaderPaginationOptions<Item> {
+  items?: PageItems<Item>;
+}
+
+export interface CursorPaginationOptions<Item> {
+  /** Path to the next cursor in the JSON body, or a function returning it. */
+  cursor: string | ((data: unknown) => unknown);
+  /** Query param the cursor is sent in. Defaults to `'cursor'`. */
+  cursorParam?: string;
+  items?: PageItems<Item>;
+  /** Items to request per page. */
+  pageSize?: number;
+  /** Query param the page size is sent in. Defaults to `'limit'`. */
+  pageSizeParam?: string;
+}
+
+export interface OffsetPaginationOptions<Item> {
+  /** Items to request per page. A shorter page ends the iteration. */
+  pageSize: number;
+  /** Defaults to `'offset'`. */
+  offsetParam?: string;
+  /** Defaults to `'limit'`. */
+  limitParam?: string;
+  items?: PageItems<Item>;
+}
+
+export interface PageNumberPaginationOptions<Item> {
+  /** Defaults to `'page'`. */
+  pageParam?: string;
+  /** Number of the first page. Defaults to 1. */
+  firstPage?: number;
+  /** Items to request per page. A shorter page ends the iteration. */
+  pageSize?: number;
+  /** Query param the page size is sent in. Defaults to `'per_page'`. */
+  pageSizeParam?: string;
+  items?: PageItems<Item>;
+}
+
+function valueAt(data: unknown, path: string): unknown {
+  let value = data;
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function itemsOf<Item>(
+  response: HttpResponse<unknown>,
+  items: PageItems<Item> | undefined,
+): Array<Item> {
+  if (typeof items === 'function') {
+    return items(response.data);
+  }
+  const value =
+    items === undefined ? response.data : valueAt(response.data, items);
+  if (!Array.isArray(value)) {
+    throw new HttpClientError(
+      `Expected an array of items ${items === undefined ? 'as the page body' : `at '${items}' in the page body`}`,
+      response.status,
+      { headers: response.headers },
+    );
+  }
+  return value as Array<Item>;
+}
+
+function withParams(
+  url: string,
+  params: Record<string, string | number | undefined>,
+): string {
+  const target = new URL(url);
+  for (const [name, value] of Object.entries(params)) {
+    if (value !== undefined) {
+      target.searchParams.set(name, String(value));
+    }
+  }
+  return target.toString();
+}
+
+/**
+ * The `rel="next"` target of an RFC 8288 `Link` header, resolved against
+ * the URL of the page it came from.
+ */
+export function parseNextLink(
+  header: string | null,
+  baseUrl: string,
+): string | undefined {
+  if (!header) return undefined;
+
+  for (const match of header.matchAll(/<([^>]*)>([^<]*)/g)) {
+    const rel = /;\s*rel\s*=\s*(?:"([^"]*)"|([^\s;,]+))/i.exec(match[2]!);
+    const relations = (rel?.[1] ?? rel?.[2] ?? '').toLowerCase().split(/\s+/);
+    if (relations.includes('next')) {
+      return new URL(match[1]!, baseUrl).toString();
+    }
+  }
+  return undefined;
+}
+
+/** Follow `Link: <…>; rel="next"` response headers (RFC 8288). */
+export function linkHeaderPagination<Item = unknown>(
+  options: LinkHeaderPaginationOptions<Item> = {},
+): PaginationStrategy<Item> {
+  return {
+    getItems: (response) => itemsOf(response, options.items),
+    getNextUrl: (page) =>
+      parseNextLink(page.response.headers.get('link'), page.url),
+    needsHeaders: true,
+  };
+}
+
+/**
+ * Send the cursor found in each page's body as a query param for the next
+ * page. A missing or empty cursor, or an empty page, ends the iteration.
+ */
+export function cursorPagination<Item = unknown>(
+  options: CursorPaginationOptions<Item>,
+): PaginationStrategy<Item> {
+  const { cursorParam = 'cursor', pageSizeParam = 'limit' } = options;
+  return {
+    first: (url) => withParams(url, { [pageSizeParam]: options.pageSize }),
+    getItems: (response) => itemsOf(response, options.items),
+    getNextUrl: (page) => {
+      const data = page.response.data;
+      const cursor =
+        typeof options.cursor === 'function'
+          ? options.cursor(data)
+          : valueAt(data, options.cursor);
+      if (
+        page.items.length === 0 ||
+        cursor === undefined ||
+        cursor === null ||
+        cursor === ''
+      ) {
+        return undefined;
+      }
+      return withParams(page.url, { [cursorParam]: String(cursor) });
+    },
+  };
+}
+
+/**
+ * Step an `offset`/`limit` pair of query params by `pageSize`. Starts from
+ * the offset already in the URL, if any.
+ */
+export function offsetPagination<Item = unknown>(
+  options: OffsetPaginationOptions<Item>,
+): PaginationStrategy<Item> {
+  const { pageSize, offsetParam = 'offset', limitParam = 'limit' } = options;
+  return {
+    first: (url) =>
+      withParams(url, {
+        [offsetParam]: new URL(url).searchParams.get(offsetParam) ?? 0,
+        [limitParam]: pageSize,
+      }),
+    getItems: (response) => itemsOf(response, options.items),
+    getNextUrl: (page) => {
+      if (page.items.length < pageSize) {
+        return undefined;
+      }
+      const offset = Number(
+        new URL(page.url).searchParams.get(offsetParam) ?? 0,
+      );
+      return withParams(page.url, {
+        [offsetParam]: offset + page.items.length,
+      });
+    },
+  };
+}
+
+/**
+ * Increment a page-number query param. An empty page, or one shorter than
+ * `pageSize`, ends the iteration.
+ */
+export function pageNumberPagination<Item = unknown>(
+  options: PageNumberPaginationOptions<Item> = {},
+): PaginationStrategy<Item> {
+  const {
+    pageParam = 'page',
+    firstPage = 1,
+    pageSize,
+    pageSizeParam = 'per_page',
+  } = options;
+  return {
+    first: (url) =>
+      withParams(url, {
+        [pageParam]: new URL(url).searchParams.get(pageParam) ?? firstPage,
+        [pageSizeParam]: pageSize,
+      }),
+    getItems: (response) => itemsOf(response, options.items),
+    getNextUrl: (page) => {
+      if (
+        page.items.length === 0 ||
+        (pageSize !== undefined && page.items.length < pageSize)
+      ) {
+        return undefined;
+      }
+      const current = Number(
+        new URL(page.url).searchParams.get(pageParam) ?? firstPage,
+      );
+      return withParams(page.url, { [pageParam]: current + 1 });
+    },
+  };
+}
+
+/**
+ * Build the iterable behind `HttpClient.paginate()`. Internal: pages are
+ * fetched through `fetchPage` so they take the client's full pipeline.
+ */
+export function createPaginated<Item>(
+  url: string,
+  strategy: PaginationStrategy<Item>,
+  options: Pick<PaginateOptions<Item>, 'maxPages' | 'stopWhen'>,
+  fetchPage: (url: string) => Promise<HttpResponse<unknown>>,
+): Paginated<Item> {
+  async function* pages(): AsyncGenerator<Page<Item>> {
+    const seen = new Set<string>();
+    let next: string | undefined = strategy.first?.(url) ?? url;
+
+    for (let index = 0; next !== undefined; index++) {
+      if (options.maxPages !== undefined && index >= options.maxPages) {
+        return;
+      }
+      seen.add(next);
+
+      const response = await fetchPage(next);
+      const page: Page<Item> = {
+        url: next,
+        index,
+        items: strategy.getItems(response),
+        response,
+      };
+      yield page;
+
+      if (options.stopWhen?.(page)) {
+        return;
+      }
+      next = strategy.getNextUrl(page);
+      // A next link pointing back at a visited page would never end
+      if (next !== undefined && seen.has(next)) {
+        return;
+      }
+    }
+  }
+
+  return {
+    pages,
+    async *[Symbol.asyncIterator]() {
+      for await (const page of pages()) {
+        yield* page.items;
+      }
+    },
+  };
+}
@@ -0,0 +1,101 @@
+import {
+  buildPath,
+  fillPathParams,
+  resolveRequestUrl,
+  type PathParamNames,
+} from './request-url.js';
+
+describe('buildPath', () => {
+  test('fills in and encodes every placeholder', () => {
+    expect(
+      buildPath('/users/:user/repos/:repo', { user: 'a b', repo: 7 }),
+    ).toBe('/users/a%20b/repos/7');
+  });
+
+  test('leaves ports and templates without placeholders alone', () => {
+    expect(buildPath('https://api.test:8080/users/:id', { id: 1 })).toBe(
+      'https://api.test:8080/users/1',
+    );
+    expect(buildPath('/users', {})).toBe('/users');
+  });
+
+  test('types each placeholder as a required param', () => {
+    expectTypeOf<PathParamNames<'/users/:id/repos/:repo'>>().toEqualTypeOf<
+      'id' | 'repo'
+    >();
+    expectTypeOf<PathParamNames<'https://api.test:8080/users'>>().toBeNever();
+
+    // @ts-expect-error `repo` is missing
+    expect(() => buildPath('/users/:id/repos/:repo', { id: 1 })).toThrow(
+      "Missing path param 'repo' for '/users/:id/repos/:repo'",
+    );
+  });
+});
+
+describe('fillPathParams', () => {
+  test('fills the path and leaves the query and fragment alone', () => {
+    expect(
+      fillPathParams('https://api.test:8080/users/:id?fields=:all#:top', {
+        id: 7,
+      }),
+    ).toBe('https://api.test:8080/users/7?fields=:all#:top');
+    expect(fillPathParams('https://api.test/users/:id', { id: 'a/b' })).toBe(
+      'https://api.test/users/a%2Fb',
+    );
+  });
+});
+
+describe('resolveRequestUrl', () => {
+  test('joins relative URLs onto the base URL and its path', () => {
+    const base = 'https://api.test/v1/';
+
+    expect(resolveRequestUrl('/users', base, undefined)).toBe(
+      'https://api.test/v1/users',
+    );
+    expect(resolveRequestUrl('users', 'https://api.test/v1', undefined)).toBe(
+      'https://api.test/v1/users',
+    );
+    expect(resolveRequestUrl('?q=1', 'https://api.test/v1', undefined)).toBe(
+      'https://api.test/v1?q=1',
+    );
+  });
+
+  test('uses absolute URLs as given', () => {
+    expect(
+      resolveRequestUrl('http://other.test/a?b=1', 'https://api.test', {}),
+    ).toBe('http://other.test/a?b=1');
+  });
+
+  test('rejects relative URLs without a base URL', () => {
+    expect(() => resolveRequestUrl('/users', undefined, undefined)).toThrow(
+      "Cannot resolve relative URL '/users' without a baseUrl",
+    );
+  });
+
+  test('appends params after the existing query, skipping empty values', () => {
+    expect(
+      resolveRequestUrl('https://api.test/items?sort=name', undefined, {
+        page: 2,
+        draft: false,
+        q: 'a b',
+        missing: undefined,
+        none: null,
+      }),
+    ).toBe('https://api.test/items?sort=name&page=2&draft=false&q=a+b');
+  });
+
+  test.each([
+    ['repeat', 'tag=a&tag=b'],
+    ['comma', 'tag=a%2Cb'],
+    ['brackets', 'tag%5B%5D=a&tag%5B%5D=b'],
+  ] as const)('serialises arrays in %s format', (format, query) => {
+    expect(
+      resolveRequestUrl(
+        'https://api.test/items',
+        undefined,
+        { tag: ['a', null, 'b'] },
+        format,
+      ),
+    ).toBe(`https://api.test/items?${query}`);
+  });
+});
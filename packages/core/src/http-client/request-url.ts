@@ -0,0 +1,114 @@
+import type { ArrayFormat, QueryParams } from '../types/index.js';
+
+/**
+ * Names of the `:name` placeholders in a path template. A placeholder
+ * starts right after a `/` and runs to the next `/`, so the port in
+ * `https://host:8080/…` is never mistaken for one.
+ */
+export type PathParamNames<Template extends string> =
+  Template extends `${string}/:${infer Rest}`
+    ? Rest extends `${infer Name}/${infer Tail}`
+      ? Name | PathParamNames<`/${Tail}`>
+      : Rest
+    : never;
+
+/** Values for every placeholder of a path template. */
+export type PathParams<Template extends string> = {
+  [Name in PathParamNames<Template>]: string | number;
+};
+
+/**
+ * Fill in the `:name` placeholders of a path template, URL-encoding each
+ * value. Leaving out a placeholder is a compile error:
+ *
+ * ```typescript
+ * client.get(buildPath('/users/:id/repos', { id: 42 }));
+ * ```
+ */
+export function buildPath<Template extends string>(
+  template: Template,
+  params: PathParams<Template>,
+): string {
+  const values = params as Record<string, string | number | undefined>;
+  return template.replace(/\/:([^/]+)/g, (_, name: string) => {
+    const value = values[name];
+    if (value === undefined) {
+      throw new Error(`Missing path param '${name}' for '${template}'`);
+    }
+    return `/${encodeURIComponent(String(value))}`;
+  });
+}
+
+/**
+ * Fill in the `:name` placeholders in the path of a resolved URL with
+ * {@link buildPath}, leaving its query string and fragment alone.
+ */
+export function fillPathParams(
+  url: string,
+  params: Record<string, string | number>,
+): string {
+  const end = url.search(/[?#]/);
+  if (end === -1) {
+    return buildPath(url, params);
+  }
+  return buildPath(url.slice(0, end), params) + url.slice(end);
+}
+
+const ABSOLUTE_URL = /^[a-z][a-z\d+\-.]*:/i;
+
+/**
+ * Resolve a request URL: join a relative `url` onto `baseUrl` and append
+ * `params` to its query string. Absolute URLs are used as given. Without
+ * params the URL is returned untouched, so its cache key is unchanged.
+ */
+export function resolveRequestUrl(
+  url: string,
+  baseUrl: string | undefined,
+  params: QueryParams | undefined,
+  arrayFormat: ArrayFormat = 'repeat',
+): string {
+  let resolved = url;
+  if (!ABSOLUTE_URL.test(url)) {
+    if (baseUrl === undefined) {
+      throw new Error(`Cannot resolve relative URL '${url}' without a baseUrl`);
+    }
+    // Join rather than `new URL(url, baseUrl)`, which would drop a base path
+    // such as `/v1` for URLs starting with `/`
+    resolved =
+      url === '' || url.startsWith('?') || url.startsWith('#')
+        ? `${baseUrl}${url}`
+        : `${baseUrl.replace(/\/+$/, '')}/${url.replace(/^\/+/, '')}`;
+  }
+
+  const entries = Object.entries(params ?? {});
+  if (entries.length === 0) {
+    return resolved;
+  }
+
+  const target = new URL(resolved);
+  for (const [name, value] of entries) {
+    if (!Array.isArray(value)) {
+      if (value !== undefined && value !== null) {
+        target.searchParams.append(name, String(value));
+      }
+      continue;
+    }
+
+    const values = value
+      .filter((item) => item !== undefined && item !== null)
+      .map(String);
+    if (arrayFormat === 'comma') {
+      if (values.length > 0) {
+        target.searchParams.append(name, values.join(','));
+      }
+      continue;
+    }
+    // `repeat` sends `?tag=a&tag=b`, which hashes exactly like the same
+    // query written into the URL by hand
+    const key = arrayFormat === 'brackets' ? `${name}[]` : name;
+    for (const item of values) {
+      target.searchParams.append(key, item);
+    }
+  }
+  return target.toString();
+}
@@ -0,0 +1,79 @@
+import {
+  createResourceResolver,
+  defaultResource,
+  templateResource,
+} from './resource-resolver.js';
+
+describe('defaultResource', () => {
+  test('scopes the last path segment by host', () => {
+    expect(defaultResource('https://api.a.test/v1/items?page=2')).toBe(
+      'api.a.test/items',
+    );
+    expect(defaultResource('http://api.b.test:8080/v1/items')).toBe(
+      'api.b.test:8080/items',
+    );
+  });
+
+  test('falls back to the host, then to unknown', () => {
+    expect(defaultResource('https://api.a.test/')).toBe('api.a.test');
+    expect(defaultResource('not a url')).toBe('unknown');
+  });
+});
+
+describe('templateResource', () => {
+  test('keeps the whole unfilled path, without the query', () => {
+    expect(templateResource('https://api.test/v1/users/:id?x=1')).toBe(
+      'api.test/v1/users/:id',
+    );
+    expect(templateResource('not a url')).toBe('unknown');
+  });
+});
+
+describe('createResourceResolver', () => {
+  test('matches route patterns by method, origin and path', () => {
+    const resolve = createResourceResolver([
+      { match: 'GET https://api.a.test/users/:id', resource: 'users' },
+      { match: '/orders/:id/*', resource: 'order-details' },
+      { match: 'post /orders', resource: 'order-writes' },
+    ]);
+
+    expect(resolve('https://api.a.test/users/123/', 'GET')).toBe('users');
+    expect(resolve('https://api.a.test/users/123', 'DELETE')).toBe(
+      'api.a.test/123',
+    );
+    expect(resolve('https://api.b.test/users/123', 'GET')).toBe(
+      'api.b.test/123',
+    );
+    expect(resolve('https://api.b.test/orders/9/lines/2', 'GET')).toBe(
+      'order-details',
+    );
+    expect(resolve('https://api.b.test/orders/9', 'GET')).toBe('order-details');
+    expect(resolve('https://api.b.test/orders', 'POST')).toBe('order-writes');
+  });
+
+  test('tests regexes against the full URL, first match winning', () => {
+    const resolve = createResourceResolver([
+      { match: /\/search\?/g, resource: 'search' },
+      { match: /api\.a\.test/, resource: 'a' },
+    ]);
+
+    expect(resolve('https://api.a.test/search?q=1', 'GET')).toBe('search');
+    expect(resolve('https://api.a.test/search?q=2', 'GET')).toBe('search');
+    expect(resolve('https://api.a.test/items', 'GET')).toBe('a');
+  });
+
+  test('falls back to the default when a function returns undefined', () => {
+    const resolve = createResourceResolver((url, method) =>
+      method === 'GET' && url.includes('/users/') ? 'users' : undefined,
+    );
+
+    expect(resolve('https://api.a.test/users/1', 'GET')).toBe('users');
+    expect(resolve('https://api.a.test/users/1', 'PUT')).toBe('api.a.test/1');
+  });
+
+  test('rejects malformed route patterns', () => {
+    expect(() =>
+      createResourceResolver([{ match: 'GET /a /b', resource: 'x' }]),
+    ).toThrow("Invalid resource route pattern 'GET /a /b'");
+  });
+});
@@ -0,0 +1,136 @@
+import type { HttpMethod } from '../types/index.js';
+
+/**
+ * Picks the rate-limit and bulkhead resource for a request. Return
+ * `undefined` to fall back to the default, origin-aware resource.
+ */
+export type ResourceResolverFunction = (
+  url: string,
+  method: HttpMethod,
+) => string | undefined;
+
+/**
+ * Maps matching requests to a resource. A string `match` is a route
+ * pattern: an optional method, then a path or absolute URL where `:name`
+ * matches one segment and a trailing `*` matches the rest, e.g.
+ * `'GET https://api.example.com/users/:id'` or `'/orders/*'`. A path-only
+ * pattern matches on every origin. A `RegExp` is tested against the full
+ * URL.
+ */
+export interface ResourceRule {
+  match: string | RegExp;
+  resource: string;
+}
+
+/**
+ * How requests are assigned to resources: route rules, tried in order with
+ * the first match winning, or a function.
+ */
+export type ResourceResolver = Array<ResourceRule> | ResourceResolverFunction;
+
+/**
+ * The default resource: the URL's host plus its last path segment, e.g.
+ * `api.example.com/items` for `https://api.example.com/v1/items`, so the
+ * same path on two APIs never shares a bucket. The bare host for the root
+ * path, and `'unknown'` for URLs that do not parse.
+ */
+export function defaultResource(url: string): string {
+  try {
+    const urlObj = new URL(url);
+    const segments = urlObj.pathname.split('/').filter(Boolean);
+    const last = segments[segments.length - 1];
+    return last ? `${urlObj.host}/${last}` : urlObj.host || 'unknown';
+  } catch {
+    return 'unknown';
+  }
+}
+
+/**
+ * The resource for a request whose path was filled from a template: the
+ * URL's host plus the unfilled path, e.g. `api.example.com/v1/users/:id`,
+ * so every id shares one bucket.
+ */
+export function templateResource(template: string): string {
+  try {
+    const urlObj = new URL(template);
+    return `${urlObj.host}${urlObj.pathname}`;
+  } catch {
+    return 'unknown';
+  }
+}
+
+type RouteMatcher = (url: URL, method: HttpMethod) => boolean;
+
+const ROUTE_PATTERN = /^(?:([A-Za-z]+)\s+)?(\S+)$/;
+const ABSOLUTE_PATTERN = /^([a-z][a-z\d+\-.]*:\/\/[^/]+)(\/.*)?$/i;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** Compile a route pattern into a matcher. Trailing slashes are ignored. */
+function compileRoutePattern(pattern: string): RouteMatcher {
+  const parts = ROUTE_PATTERN.exec(pattern.trim());
+  if (!parts) {
+    throw new Error(`Invalid resource route pattern '${pattern}'`);
+  }
+  const method = parts[1]?.toUpperCase();
+  const absolute = ABSOLUTE_PATTERN.exec(parts[2]!);
+  const origin = absolute ? new URL(absolute[1]!).origin : undefined;
+  const path = absolute ? (absolute[2] ?? '/') : parts[2]!;
+
+  const segments = path.split('/').filter(Boolean);
+  const source = segments
+    .map((segment, index) => {
+      if (segment === '*' && index === segments.length - 1) {
+        return '(?:/.*)?';
+      }
+      return segment.startsWith(':') ? '/[^/]+' : `/${escapeRegExp(segment)}`;
+    })
+    .join('');
+  const pathRegExp = new RegExp(`^${source}/?$`);
+
+  return (url, requestMethod) =>
+    (method === undefined || method === requestMethod) &&
+    (origin === undefined || origin === url.origin) &&
+    pathRegExp.test(url.pathname);
+}
+
+/**
+ * Build the resolver behind the `resourceResolver` option. Internal: route
+ * patterns are compiled once, when the client is constructed.
+ */
+export function createResourceResolver(
+  resolver: ResourceResolver | undefined,
+): (url: string, method: HttpMethod) => string {
+  if (typeof resolver === 'function') {
+    return (url, method) => resolver(url, method) ?? defaultResource(url);
+  }
+
+  const rules = (resolver ?? []).map(({ match, resource }) => ({
+    resource,
+    route: typeof match === 'string' ? compileRoutePattern(match) : undefined,
+    regExp: typeof match === 'string' ? undefined : match,
+  }));
+
+  return (url, method) => {
+    let urlObj: URL | undefined;
+    try {
+      urlObj = new URL(url);
+    } catch {
+      // Only regexes can match a URL that does not parse
+    }
+    for (const { resource, route, regExp } of rules) {
+      if (regExp) {
+        // Global and sticky regexes keep state between `test()` calls
+        regExp.lastIndex = 0;
+        if (regExp.test(url)) {
+          return resource;
+        }
+      } else if (urlObj && route!(urlObj, method)) {
+        return resource;
+      }
+    }
+    return defaultResource(url);
+  };
+}
@@ -0,0 +1,54 @@
+import { onStreamSettled } from './stream-settled.js';
+
+function streamOf(chunks: Array<string>, error?: Error) {
+  return new ReadableStream<string>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(chunk);
+      if (error) {
+        controller.error(error);
+      } else {
+        controller.close();
+      }
+    },
+  });
+}
+
+async function readAll(stream: ReadableStream<string>) {
+  const chunks: Array<string> = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return chunks;
+    chunks.push(value);
+  }
+}
+
+describe('onStreamSettled', () => {
+  test('passes chunks through and settles once at the end', async () => {
+    const onSettled = vi.fn();
+    const stream = onStreamSettled(streamOf(['a', 'b']), onSettled);
+
+    expect(onSettled).not.toHaveBeenCalled();
+    await expect(readAll(stream)).resolves.toEqual(['a', 'b']);
+    expect(onSettled).toHaveBeenCalledTimes(1);
+  });
+
+  test('settles when the source errors', async () => {
+    const onSettled = vi.fn();
+    const stream = onStreamSettled(streamOf([], new Error('reset')), onSettled);
+
+    await expect(readAll(stream)).rejects.toThrow('reset');
+    expect(onSettled).toHaveBeenCalledTimes(1);
+  });
+
+  test('settles and cancels the source when the reader cancels', async () => {
+    const cancel = vi.fn();
+    const onSettled = vi.fn();
+    const stream = onStreamSettled(new ReadableStream({ cancel }), onSettled);
+
+    await stream.cancel('done');
+
+    expect(onSettled).toHaveBeenCalledTimes(1);
+    expect(cancel).toHaveBeenCalledWith('done');
+  });
+});
@@ -0,0 +1,39 @@
+/**
+ * Pass `stream` through unchanged, calling `onSettled` once when it has been
+ * read to the end, has errored or has been cancelled by its reader. Used to
+ * hold resources tied to a response, such as a concurrency slot, for as long
+ * as the caller is still reading its body.
+ */
+export function onStreamSettled<T>(
+  stream: ReadableStream<T>,
+  onSettled: () => void,
+): ReadableStream<T> {
+  let settled = false;
+  const settle = () => {
+    if (settled) return;
+    settled = true;
+    onSettled();
+  };
+  const reader = stream.getReader();
+
+  return new ReadableStream<T>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          settle();
+          controller.close();
+          return;
+        }
+        controller.enqueue(value);
+      } catch (error) {
+        settle();
+        controller.error(error);
+      }
+    },
+    async cancel(reason) {
+      settle();
+      await reader.cancel(reason);
+    },
+  });
+}
@@ -0,0 +1,213 @@
+import {
+  context as otelContext,
+  trace,
+  SpanKind,
+  SpanStatusCode,
+  type Attributes,
+  type Context,
+  type Span,
+  type Tracer,
+} from '@opentelemetry/api';
+import type { ResponseCacheStatus } from '../types/index.js';
+
+export interface TracingOptions {
+  /** Tracer from `@opentelemetry/api`, e.g. `trace.getTracer('my-service')`. */
+  tracer: Tracer;
+  /**
+   * Inject W3C `traceparent` (and `tracestate`) headers into outgoing
+   * requests so the server can continue the trace. Defaults to `true`.
+   */
+  propagate?: boolean;
+}
+
+/** Span attribute names set by the client. */
+export const TracingAttributes = {
+  HTTP_REQUEST_METHOD: 'http.request.method',
+  HTTP_RESPONSE_STATUS_CODE: 'http.response.status_code',
+  HTTP_REQUEST_RESEND_COUNT: 'http.request.resend_count',
+  URL_FULL: 'url.full',
+  ERROR_TYPE: 'error.type',
+  CACHE_STATUS: 'http_client.cache.status',
+  RATE_LIMIT_WAIT_MS: 'http_client.rate_limit.wait_ms',
+  RESOURCE: 'http_client.resource',
+  PRIORITY: 'http_client.priority',
+  BACKGROUND: 'http_client.background',
+} as const;
+
+/**
+ * Spans for one logical request: a parent span plus child spans for each
+ * phase (cache lookup, dedupe wait, rate-limit wait, fetch attempts).
+ * Internal: the client creates one per request when a tracer is configured.
+ */
+export class RequestTrace {
+  private readonly context: Context;
+  private rateLimitWaitMs = 0;
+
+  private constructor(
+    private readonly options: TracingOptions,
+    private readonly span: Span,
+    parent: Context,
+  ) {
+    this.context = trace.setSpan(parent, span);
+  }
+
+  /** Start the parent span for a request, under the caller's active span. */
+  static start(
+    options: TracingOptions,
+    name: string,
+    attributes: Attributes,
+  ): RequestTrace {
+    const parent = otelContext.active();
+    const span = options.tracer.startSpan(
+      name,
+      { kind: SpanKind.INTERNAL, attributes },
+      parent,
+    );
+    return new RequestTrace(options, span, parent);
+  }
+
+  /**
+   * Start a nested trace whose span is a child of this one, e.g. for a
+   * background revalidation that outlives the request that triggered it.
+   */
+  fork(name: string, attributes: Attributes): RequestTrace {
+    const span = this.options.tracer.startSpan(
+      name,
+      { kind: SpanKind.INTERNAL, attributes },
+      this.context,
+    );
+    return new RequestTrace(this.options, span, this.context);
+  }
+
+  /** Run `fn` inside a child span that ends when it settles. */
+  async phase<T>(
+    name: string,
+    fn: (span: Span) => Promise<T>,
+    attributes?: Attributes,
+  ): Promise<T> {
+    const span = this.options.tracer.startSpan(
+      name,
+      { kind: SpanKind.INTERNAL, attributes },
+      this.context,
+    );
+    try {
+      return await fn(span);
+    } catch (error) {
+      recordError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Start a client span for one fetch attempt and, unless disabled, inject
+   * its trace context into `headers`.
+   */
+  startAttempt(
+    method: string,
+    url: string,
+    attempt: number,
+    headers: Headers,
+  ): Span {
+    const attributes: Attributes = {
+      [TracingAttributes.HTTP_REQUEST_METHOD]: method,
+      [TracingAttributes.URL_FULL]: url,
+    };
+    if (attempt > 1) {
+      attributes[TracingAttributes.HTTP_REQUEST_RESEND_COUNT] = attempt - 1;
+    }
+    const span = this.options.tracer.startSpan(
+      method,
+      { kind: SpanKind.CLIENT, attributes },
+      this.context,
+    );
+
+    if (this.options.propagate !== false) {
+      injectTraceContext(span, headers);
+    }
+    return span;
+  }
+
+  /** Add to the total time spent waiting on rate limits and cooldowns. */
+  recordRateLimitWait(ms: number): void {
+    this.rateLimitWaitMs += ms;
+  }
+
+  end(outcome: {
+    status?: number;
+    cacheStatus?: ResponseCacheStatus;
+    error?: unknown;
+  }): void {
+    if (outcome.status !== undefined) {
+      this.span.setAttribute(
+        TracingAttributes.HTTP_RESPONSE_STATUS_CODE,
+        outcome.status,
+      );
+    }
+    if (outcome.cacheStatus !== undefined) {
+      this.span.setAttribute(
+        TracingAttributes.CACHE_STATUS,
+        outcome.cacheStatus,
+      );
+    }
+    if (this.rateLimitWaitMs > 0) {
+      this.span.setAttribute(
+        TracingAttributes.RATE_LIMIT_WAIT_MS,
+        this.rateLimitWaitMs,
+      );
+    }
+    if (outcome.error !== undefined) {
+      recordError(this.span, outcome.error);
+    }
+    this.span.end();
+  }
+}
+
+/** Record a response (or failure) on an attempt span and end it. */
+export function endAttemptSpan(
+  span: Span,
+  outcome: { status?: number; error?: unknown },
+): void {
+  if (outcome.status !== undefined) {
+    span.setAttribute(
+      TracingAttributes.HTTP_RESPONSE_STATUS_CODE,
+      outcome.status,
+    );
+    // Per semantic conventions, 4xx/5xx mark client spans as errors
+    if (outcome.status >= 400) {
+      span.setAttribute(TracingAttributes.ERROR_TYPE, String(outcome.status));
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+  }
+  if (outcome.error !== undefined) {
+    recordError(span, outcome.error);
+  }
+  span.end();
+}
+
+function recordError(span: Span, error: unknown): void {
+  if (error instanceof Error) {
+    span.recordException(error);
+    span.setAttribute(TracingAttributes.ERROR_TYPE, error.name);
+    span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+  } else {
+    span.setStatus({ code: SpanStatusCode.ERROR, message: String(error) });
+  }
+}
+
+function injectTraceContext(span: Span, headers: Headers): void {
+  const spanContext = span.spanContext();
+  // Non-recording spans from a no-op tracer carry an invalid context
+  if (!trace.isSpanContextValid(spanContext)) return;
+
+  const flags = spanContext.traceFlags.toString(16).padStart(2, '0');
+  headers.set(
+    'traceparent',
+    `00-${spanContext.traceId}-${spanContext.spanId}-${flags}`,
+  );
+  const traceState = spanContext.traceState?.serialize();
+  if (traceState) {
+    headers.set('tracestate', traceState);
+  }
+}
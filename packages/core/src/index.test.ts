@@ -4,9 +4,16 @@ describe('core index exports', () => {
   it('re-exports runtime modules', () => {
     expect(core.HttpClient).toBeTypeOf('function');
     expect(core.HttpClientError).toBeTypeOf('function');
+    expect(core.TimeoutError).toBeTypeOf('function');
+    expect(core.ResponseValidationError).toBeTypeOf('function');
+    expect(core.CircuitOpenError).toBeTypeOf('function');
+    expect(core.CacheMissError).toBeTypeOf('function');
     expect(core.hashRequest).toBeTypeOf('function');
+    expect(core.serializeStoreValue).toBeTypeOf('function');
+    expect(core.deserializeStoreValue).toBeTypeOf('function');
     expect(core.AdaptiveConfigSchema).toBeDefined();
     expect(core.DEFAULT_RATE_LIMIT).toBeDefined();
     expect(core.AdaptiveCapacityCalculator).toBeTypeOf('function');
+    expect(core.InMemoryMetricsCollector).toBeTypeOf('function');
   });
 });
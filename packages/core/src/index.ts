@@ -1,5 +1,7 @@
+export * from './auth/index.js';
 export * from './cache/index.js';
 export * from './http-client/index.js';
+export * from './metrics/index.js';
 export * from './stores/index.js';
 export * from './types/index.js';
 export * from './errors/index.js';
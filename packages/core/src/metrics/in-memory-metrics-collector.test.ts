@@ -0,0 +1,111 @@
+import { InMemoryMetricsCollector } from './in-memory-metrics-collector.js';
+import { HttpClientMetricNames } from './metrics-collector.js';
+
+describe('InMemoryMetricsCollector', () => {
+  test('accumulates counters per label set, regardless of label order', () => {
+    const collector = new InMemoryMetricsCollector();
+
+    collector.incrementCounter('jobs_total', { queue: 'a', status: 'ok' });
+    collector.incrementCounter('jobs_total', { status: 'ok', queue: 'a' }, 2);
+    collector.incrementCounter('jobs_total', { queue: 'b', status: 'ok' });
+
+    expect(
+      collector.getCounter('jobs_total', { queue: 'a', status: 'ok' }),
+    ).toBe(3);
+    expect(
+      collector.getCounter('jobs_total', { queue: 'b', status: 'ok' }),
+    ).toBe(1);
+    expect(collector.getCounter('jobs_total', { queue: 'c' })).toBe(0);
+  });
+
+  test('rejects negative counter increments', () => {
+    const collector = new InMemoryMetricsCollector();
+
+    expect(() => collector.incrementCounter('jobs_total', {}, -1)).toThrow(
+      "Counter 'jobs_total' cannot be decreased",
+    );
+  });
+
+  test('adjusts gauges up and down', () => {
+    const collector = new InMemoryMetricsCollector();
+
+    collector.adjustGauge('in_flight', { origin: 'x' }, 1);
+    collector.adjustGauge('in_flight', { origin: 'x' }, 1);
+    collector.adjustGauge('in_flight', { origin: 'x' }, -1);
+
+    expect(collector.getGauge('in_flight', { origin: 'x' })).toBe(1);
+  });
+
+  test('tracks cumulative histogram buckets', () => {
+    const collector = new InMemoryMetricsCollector({ buckets: [1, 0.1] });
+
+    collector.observeHistogram('latency_seconds', {}, 0.05);
+    collector.observeHistogram('latency_seconds', {}, 0.5);
+    collector.observeHistogram('latency_seconds', {}, 3);
+
+    const histogram = collector.getHistogram('latency_seconds');
+    expect(histogram?.count).toBe(3);
+    expect(histogram?.sum).toBeCloseTo(3.55);
+    expect([...histogram!.buckets]).toEqual([
+      [0.1, 1],
+      [1, 2],
+    ]);
+    expect(collector.getHistogram('latency_seconds', { other: 'x' })).toBe(
+      undefined,
+    );
+  });
+
+  test('refuses to reuse a metric name with a different type', () => {
+    const collector = new InMemoryMetricsCollector();
+    collector.incrementCounter('jobs', {});
+
+    expect(() => collector.adjustGauge('jobs', {}, 1)).toThrow(
+      "Metric 'jobs' is a counter, not a gauge",
+    );
+  });
+
+  test('renders the Prometheus text exposition format', () => {
+    const collector = new InMemoryMetricsCollector({
+      buckets: [0.1, 1],
+      help: { custom_total: 'A custom counter.' },
+    });
+
+    collector.incrementCounter(HttpClientMetricNames.REQUESTS, {
+      origin: 'https://api.example.com',
+      outcome: 'hit',
+    });
+    collector.incrementCounter('custom_total', { path: 'a"b\\c\nd' });
+    collector.adjustGauge('unlabelled', {}, 2);
+    collector.observeHistogram('latency_seconds', { route: 'x' }, 0.5);
+
+    expect(collector.renderPrometheus()).toBe(
+      [
+        '# HELP http_client_requests_total Requests completed, by outcome (cache status or error).',
+        '# TYPE http_client_requests_total counter',
+        'http_client_requests_total{origin="https://api.example.com",outcome="hit"} 1',
+        '# HELP custom_total A custom counter.',
+        '# TYPE custom_total counter',
+        'custom_total{path="a\\"b\\\\c\\nd"} 1',
+        '# TYPE unlabelled gauge',
+        'unlabelled 2',
+        '# TYPE latency_seconds histogram',
+        'latency_seconds_bucket{route="x",le="0.1"} 0',
+        'latency_seconds_bucket{route="x",le="1"} 1',
+        'latency_seconds_bucket{route="x",le="+Inf"} 1',
+        'latency_seconds_sum{route="x"} 0.5',
+        'latency_seconds_count{route="x"} 1',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  test('renders nothing when empty and after reset', () => {
+    const collector = new InMemoryMetricsCollector();
+    expect(collector.renderPrometheus()).toBe('');
+
+    collector.incrementCounter('jobs_total', {});
+    collector.reset();
+
+    expect(collector.renderPrometheus()).toBe('');
+  });
+});
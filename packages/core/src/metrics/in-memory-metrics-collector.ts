@@ -0,0 +1,221 @@
+import {
+  HTTP_CLIENT_METRIC_HELP,
+  type MetricLabels,
+  type MetricsCollector,
+} from './metrics-collector.js';
+
+export interface InMemoryMetricsCollectorOptions {
+  /**
+   * Upper bounds of histogram buckets, ascending. Defaults to the Prometheus
+   * client defaults (5ms to 10s).
+   */
+  buckets?: Array<number>;
+  /** `# HELP` text for custom metrics, merged over the built-in descriptions. */
+  help?: Record<string, string>;
+}
+
+export interface HistogramSnapshot {
+  /** Cumulative counts, keyed by bucket upper bound. */
+  buckets: Map<number, number>;
+  sum: number;
+  count: number;
+}
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+interface Series<Value> {
+  labels: MetricLabels;
+  value: Value;
+}
+
+interface Metric {
+  type: MetricType;
+  series: Map<string, Series<number | HistogramSnapshot>>;
+}
+
+const DEFAULT_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+/**
+ * Keeps every metric in memory and renders them in the Prometheus text
+ * exposition format. Suitable for serving a `/metrics` endpoint from a single
+ * process, and for asserting on metrics in tests.
+ */
+export class InMemoryMetricsCollector implements MetricsCollector {
+  private readonly metrics = new Map<string, Metric>();
+  private readonly buckets: Array<number>;
+  private readonly help: Record<string, string>;
+
+  constructor(options: InMemoryMetricsCollectorOptions = {}) {
+    this.buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort(
+      (a, b) => a - b,
+    );
+    this.help = { ...HTTP_CLIENT_METRIC_HELP, ...options.help };
+  }
+
+  incrementCounter(name: string, labels: MetricLabels, value = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter '${name}' cannot be decreased`);
+    }
+    const series = this.getSeries(name, 'counter', labels, () => 0);
+    series.value = (series.value as number) + value;
+  }
+
+  observeHistogram(name: string, labels: MetricLabels, value: number): void {
+    const series = this.getSeries(name, 'histogram', labels, () => ({
+      buckets: new Map(this.buckets.map((bound) => [bound, 0])),
+      sum: 0,
+      count: 0,
+    }));
+    const histogram = series.value as HistogramSnapshot;
+    for (const bound of this.buckets) {
+      if (value <= bound) {
+        histogram.buckets.set(bound, histogram.buckets.get(bound)! + 1);
+      }
+    }
+    histogram.sum += value;
+    histogram.count += 1;
+  }
+
+  adjustGauge(name: string, labels: MetricLabels, delta: number): void {
+    const series = this.getSeries(name, 'gauge', labels, () => 0);
+    series.value = (series.value as number) + delta;
+  }
+
+  /** Current value of a counter, or 0 if it was never incremented. */
+  getCounter(name: string, labels: MetricLabels = {}): number {
+    return (this.findSeries(name, 'counter', labels) as number) ?? 0;
+  }
+
+  /** Current value of a gauge, or 0 if it was never adjusted. */
+  getGauge(name: string, labels: MetricLabels = {}): number {
+    return (this.findSeries(name, 'gauge', labels) as number) ?? 0;
+  }
+
+  /** Snapshot of a histogram series, or `undefined` if it has no samples. */
+  getHistogram(
+    name: string,
+    labels: MetricLabels = {},
+  ): HistogramSnapshot | undefined {
+    const histogram = this.findSeries(name, 'histogram', labels) as
+      | HistogramSnapshot
+      | undefined;
+    return histogram
+      ? { ...histogram, buckets: new Map(histogram.buckets) }
+      : undefined;
+  }
+
+  reset(): void {
+    this.metrics.clear();
+  }
+
+  /** Render every metric in the Prometheus text exposition format (0.0.4). */
+  renderPrometheus(): string {
+    const lines: Array<string> = [];
+
+    for (const [name, metric] of this.metrics) {
+      const help = this.help[name];
+      if (help) {
+        lines.push(`# HELP ${name} ${escapeHelp(help)}`);
+      }
+      lines.push(`# TYPE ${name} ${metric.type}`);
+
+      for (const { labels, value } of metric.series.values()) {
+        if (metric.type !== 'histogram') {
+          lines.push(
+            `${name}${formatLabels(labels)} ${formatValue(value as number)}`,
+          );
+          continue;
+        }
+
+        const histogram = value as HistogramSnapshot;
+        for (const [bound, count] of histogram.buckets) {
+          lines.push(
+            `${name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${count}`,
+          );
+        }
+        lines.push(
+          `${name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${histogram.count}`,
+        );
+        lines.push(
+          `${name}_sum${formatLabels(labels)} ${formatValue(histogram.sum)}`,
+        );
+        lines.push(`${name}_count${formatLabels(labels)} ${histogram.count}`);
+      }
+    }
+
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+
+  private getSeries(
+    name: string,
+    type: MetricType,
+    labels: MetricLabels,
+    initial: () => number | HistogramSnapshot,
+  ): Series<number | HistogramSnapshot> {
+    let metric = this.metrics.get(name);
+    if (!metric) {
+      metric = { type, series: new Map() };
+      this.metrics.set(name, metric);
+    } else if (metric.type !== type) {
+      throw new Error(`Metric '${name}' is a ${metric.type}, not a ${type}`);
+    }
+
+    const key = seriesKey(labels);
+    let series = metric.series.get(key);
+    if (!series) {
+      series = { labels: { ...labels }, value: initial() };
+      metric.series.set(key, series);
+    }
+    return series;
+  }
+
+  private findSeries(
+    name: string,
+    type: MetricType,
+    labels: MetricLabels,
+  ): number | HistogramSnapshot | undefined {
+    const metric = this.metrics.get(name);
+    if (!metric || metric.type !== type) {
+      return undefined;
+    }
+    return metric.series.get(seriesKey(labels))?.value;
+  }
+}
+
+/** Stable key for a label set, independent of property order. */
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(
+    Object.entries(labels).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+  );
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const pairs = entries.map(
+    ([name, value]) => `${name}="${escapeLabelValue(value)}"`,
+  );
+  return `{${pairs.join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) return 'NaN';
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n');
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,10 @@
+export type { MetricLabels, MetricsCollector } from './metrics-collector.js';
+export {
+  HttpClientMetricNames,
+  HTTP_CLIENT_METRIC_HELP,
+} from './metrics-collector.js';
+export { InMemoryMetricsCollector } from './in-memory-metrics-collector.js';
+export type {
+  InMemoryMetricsCollectorOptions,
+  HistogramSnapshot,
+} from './in-memory-metrics-collector.js';
@@ -0,0 +1,57 @@
+/** Label names and values attached to a single metric sample. */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Receives the client's measurements. Implement it to forward to any metrics
+ * backend, or use {@link InMemoryMetricsCollector}. Calls are synchronous and
+ * frequent, so implementations should only record, never block.
+ */
+export interface MetricsCollector {
+  /** Add `value` (default 1) to a monotonically increasing counter. */
+  incrementCounter(name: string, labels: MetricLabels, value?: number): void;
+  /** Record one observation in a histogram. */
+  observeHistogram(name: string, labels: MetricLabels, value: number): void;
+  /**
+   * Add `delta` (which may be negative) to a gauge. Deltas rather than
+   * absolute values let several clients share one collector.
+   */
+  adjustGauge(name: string, labels: MetricLabels, delta: number): void;
+}
+
+/** Names of the metrics reported by `HttpClient`. */
+export const HttpClientMetricNames = {
+  /** Counter. Labels: origin, resource, priority, outcome. */
+  REQUESTS: 'http_client_requests_total',
+  /** Histogram (seconds). Labels: origin, resource, priority, outcome. */
+  REQUEST_DURATION: 'http_client_request_duration_seconds',
+  /** Gauge. Labels: origin. */
+  REQUESTS_IN_FLIGHT: 'http_client_requests_in_flight',
+  /** Counter. Labels: origin, resource, priority. */
+  DEDUPE_JOINED: 'http_client_dedupe_joined_total',
+  /** Counter. Labels: origin, resource, priority. */
+  RETRIES: 'http_client_retries_total',
+  /** Counter. Labels: origin, resource, priority. */
+  HEDGES: 'http_client_hedges_total',
+  /** Histogram (seconds). Labels: origin, resource, priority, source. */
+  RATE_LIMIT_WAIT: 'http_client_rate_limit_wait_seconds',
+  /** Counter. Labels: origin, resource, priority, outcome. */
+  REVALIDATIONS: 'http_client_revalidations_total',
+} as const;
+
+/** `# HELP` text for the metrics reported by `HttpClient`. */
+export const HTTP_CLIENT_METRIC_HELP: Readonly<Record<string, string>> = {
+  [HttpClientMetricNames.REQUESTS]:
+    'Requests completed, by outcome (cache status or error).',
+  [HttpClientMetricNames.REQUEST_DURATION]:
+    'Request duration in seconds, including cache, dedupe and rate-limit waits.',
+  [HttpClientMetricNames.REQUESTS_IN_FLIGHT]: 'Requests currently in progress.',
+  [HttpClientMetricNames.DEDUPE_JOINED]:
+    'Requests answered by an identical in-flight request.',
+  [HttpClientMetricNames.RETRIES]: 'Failed attempts that were retried.',
+  [HttpClientMetricNames.HEDGES]:
+    'Slow attempts that were hedged with an identical attempt.',
+  [HttpClientMetricNames.RATE_LIMIT_WAIT]:
+    'Time spent waiting on the rate-limit store or a server cooldown, in seconds.',
+  [HttpClientMetricNames.REVALIDATIONS]:
+    'Stale cache entries revalidated, by outcome.',
+};
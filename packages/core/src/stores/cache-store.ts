@@ -9,6 +9,14 @@ export interface CacheStore<T = unknown> {
    */
   get(hash: string): Promise<T | undefined>;
 
+  /**
+   * Retrieve many cached values in one round trip. Optional: callers fall
+   * back to `get()` per hash when a store does not implement it.
+   * @param hashes The hash keys of the cached items
+   * @returns The cached values, in the order of `hashes`
+   */
+  getMany?(hashes: Array<string>): Promise<Array<T | undefined>>;
+
   /**
    * Store a value in the cache with a TTL
    * @param hash The hash key for the cached item
@@ -0,0 +1,67 @@
+/**
+ * State of a circuit breaker:
+ * - `'closed'`: requests flow and outcomes are counted
+ * - `'open'`: requests fail fast until the cool-off period ends
+ * - `'half-open'`: a limited number of probe requests decide whether to close
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Persisted breaker state for one origin.
+ */
+export interface CircuitBreakerState {
+  state: CircuitState;
+  /** Epoch ms when the breaker last opened. 0 while it has never opened. */
+  openedAt: number;
+  /** Failures since the last success. */
+  consecutiveFailures: number;
+  /** Epoch ms when the current failure-rate window started. */
+  windowStart: number;
+  /** Requests recorded in the current window. */
+  windowRequests: number;
+  /** Failures recorded in the current window. */
+  windowFailures: number;
+}
+
+/**
+ * Interface for sharing circuit breaker state, so every process using the
+ * same store trips and recovers together.
+ */
+export interface CircuitBreakerStore {
+  /**
+   * Get the breaker state for an origin
+   * @param origin The origin, e.g. `https://api.example.com`
+   * @returns The stored state, or undefined if none was recorded
+   */
+  get(origin: string): Promise<CircuitBreakerState | undefined>;
+
+  /**
+   * Store the breaker state for an origin
+   * @param origin The origin
+   * @param state The new state
+   */
+  set(origin: string, state: CircuitBreakerState): Promise<void>;
+
+  /**
+   * Atomically read and replace the breaker state for an origin, so that
+   * processes recording outcomes at the same time do not overwrite each
+   * other. Without it, the breaker falls back to `get` and `set`.
+   * @param origin The origin
+   * @param updater Computes the new state from the stored one, or returns
+   * undefined to leave it unchanged. It may run more than once when another
+   * writer gets in first, so it must not have side effects.
+   * @returns The stored state once the update has been applied
+   */
+  update?(
+    origin: string,
+    updater: (
+      state: CircuitBreakerState | undefined,
+    ) => CircuitBreakerState | undefined,
+  ): Promise<CircuitBreakerState | undefined>;
+
+  /**
+   * Forget the breaker state for an origin, closing its breaker
+   * @param origin The origin
+   */
+  delete(origin: string): Promise<void>;
+}
@@ -1,5 +1,10 @@
 export type { CacheStore } from './cache-store.js';
 export type { DedupeStore } from './dedupe-store.js';
+export type {
+  CircuitBreakerStore,
+  CircuitBreakerState,
+  CircuitState,
+} from './circuit-breaker-store.js';
 export type {
   RateLimitStore,
   AdaptiveRateLimitStore,
@@ -15,3 +20,19 @@ export type {
   ActivityMetrics,
   DynamicCapacityResult,
 } from './adaptive-capacity-calculator.js';
+export {
+  serializeStoreValue,
+  deserializeStoreValue,
+} from './value-serialization.js';
+export type { SerializedStoreValue } from './value-serialization.js';
+export type { RateLimitAlgorithm } from './rate-limit-config.js';
+export {
+  usesSlidingLog,
+  peekRateLimit,
+  consumeRateLimit,
+  rateLimitStateExpiresAt,
+} from './rate-limit-algorithms.js';
+export type {
+  RateLimitState,
+  RateLimitDecision,
+} from './rate-limit-algorithms.js';
@@ -0,0 +1,193 @@
+import {
+  usesSlidingLog,
+  peekRateLimit,
+  consumeRateLimit,
+  rateLimitStateExpiresAt,
+  type RateLimitState,
+} from './rate-limit-algorithms.js';
+import type { RateLimitConfig } from './rate-limit-config.js';
+
+/** Record `count` requests at `now`, starting from `state`. */
+function consume(
+  config: RateLimitConfig,
+  count: number,
+  now: number,
+  state?: RateLimitState,
+): RateLimitState | undefined {
+  for (let i = 0; i < count; i++) {
+    state = consumeRateLimit(config, state, now);
+  }
+  return state;
+}
+
+describe('usesSlidingLog', () => {
+  test('is true by default and for sliding-log only', () => {
+    expect(usesSlidingLog({ limit: 1, windowMs: 1000 })).toBe(true);
+    expect(
+      usesSlidingLog({ limit: 1, windowMs: 1000, algorithm: 'sliding-log' }),
+    ).toBe(true);
+    expect(
+      usesSlidingLog({ limit: 1, windowMs: 1000, algorithm: 'gcra' }),
+    ).toBe(false);
+  });
+});
+
+describe('token-bucket', () => {
+  const config: RateLimitConfig = {
+    limit: 2,
+    windowMs: 1000,
+    algorithm: 'token-bucket',
+    burst: 3,
+  };
+
+  test('allows a burst and then refills at limit per window', () => {
+    expect(peekRateLimit(config, undefined, 0)).toMatchObject({
+      allowed: true,
+      remaining: 3,
+      limit: 3,
+    });
+
+    const state = consume(config, 3, 0);
+    expect(peekRateLimit(config, state, 0)).toMatchObject({
+      allowed: false,
+      remaining: 0,
+      waitMs: 500,
+    });
+    expect(peekRateLimit(config, state, 0).resetTime.getTime()).toBe(1500);
+    expect(peekRateLimit(config, state, 500)).toMatchObject({
+      allowed: true,
+      remaining: 1,
+    });
+    expect(rateLimitStateExpiresAt(config, state!)).toBe(1500);
+  });
+
+  test('uses refillRate in requests per second and goes into debt', () => {
+    const perSecond = { ...config, refillRate: 10 };
+    const state = consume(perSecond, 4, 0);
+
+    expect(state!.value).toBe(-1);
+    expect(peekRateLimit(perSecond, state, 0).waitMs).toBe(200);
+  });
+});
+
+describe('gcra', () => {
+  const config: RateLimitConfig = {
+    limit: 3,
+    windowMs: 1000,
+    algorithm: 'gcra',
+  };
+
+  test('allows burst requests and then spaces them by the emission interval', () => {
+    const state = consume(config, 3, 0);
+
+    expect(peekRateLimit(config, undefined, 0).remaining).toBe(3);
+    expect(peekRateLimit(config, consume(config, 1, 0), 0).remaining).toBe(2);
+    expect(peekRateLimit(config, state, 0)).toMatchObject({
+      allowed: false,
+      remaining: 0,
+      waitMs: 334,
+    });
+    expect(peekRateLimit(config, state, 334)).toMatchObject({
+      allowed: true,
+      remaining: 1,
+    });
+    expect(rateLimitStateExpiresAt(config, state!)).toBe(1000);
+  });
+
+  test('honours burst and refillRate', () => {
+    const smooth = { ...config, burst: 1, refillRate: 2 };
+    const state = consume(smooth, 1, 0);
+
+    expect(peekRateLimit(smooth, state, 0)).toMatchObject({
+      allowed: false,
+      waitMs: 500,
+      limit: 1,
+    });
+  });
+});
+
+describe('fixed-window', () => {
+  const config: RateLimitConfig = {
+    limit: 2,
+    windowMs: 1000,
+    algorithm: 'fixed-window',
+  };
+
+  test('counts requests per aligned window', () => {
+    const state = consume(config, 2, 1200);
+
+    expect(peekRateLimit(config, state, 1500)).toMatchObject({
+      allowed: false,
+      remaining: 0,
+      waitMs: 500,
+    });
+    expect(peekRateLimit(config, state, 1500).resetTime.getTime()).toBe(2000);
+    expect(peekRateLimit(config, state, 2000)).toMatchObject({
+      allowed: true,
+      remaining: 2,
+    });
+    expect(rateLimitStateExpiresAt(config, state!)).toBe(2000);
+  });
+});
+
+describe('sliding-window', () => {
+  const config: RateLimitConfig = {
+    limit: 4,
+    windowMs: 1000,
+    algorithm: 'sliding-window',
+  };
+
+  test('weights the previous window by its overlap', () => {
+    const state = consume(config, 4, 500);
+
+    expect(peekRateLimit(config, state, 900)).toMatchObject({
+      allowed: false,
+      waitMs: 350,
+    });
+    // At 1250, 75% of the previous window's 4 requests still count
+    expect(peekRateLimit(config, state, 1250)).toMatchObject({
+      allowed: true,
+      remaining: 1,
+    });
+
+    const next = consume(config, 1, 1250, state);
+    expect(next).toEqual({ value: 1, updatedAt: 1000, previous: 4 });
+    expect(peekRateLimit(config, next, 1250)).toMatchObject({
+      allowed: false,
+      waitMs: 250,
+    });
+    expect(peekRateLimit(config, next, 3000).remaining).toBe(4);
+    expect(rateLimitStateExpiresAt(config, next)).toBe(3000);
+  });
+});
+
+describe('peekRateLimit', () => {
+  test('refuses everything when capacity is below one request', () => {
+    for (const algorithm of [
+      'token-bucket',
+      'gcra',
+      'fixed-window',
+      'sliding-window',
+    ] as const) {
+      expect(
+        peekRateLimit({ limit: 0, windowMs: 1000, algorithm }, undefined, 0),
+      ).toMatchObject({ allowed: false, remaining: 0, waitMs: 1000 });
+    }
+    expect(
+      peekRateLimit(
+        { limit: 1, windowMs: 1000, algorithm: 'gcra', refillRate: 0 },
+        undefined,
+        0,
+      ).allowed,
+    ).toBe(false);
+  });
+
+  test('expires a bucket that never refills after one window', () => {
+    expect(
+      rateLimitStateExpiresAt(
+        { limit: 1, windowMs: 1000, algorithm: 'token-bucket', refillRate: 0 },
+        { value: 0, updatedAt: 100, previous: 0 },
+      ),
+    ).toBe(1100);
+  });
+});
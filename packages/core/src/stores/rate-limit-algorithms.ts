@@ -0,0 +1,235 @@
+import type { RateLimitConfig } from './rate-limit-config.js';
+
+/**
+ * Per-resource state for every algorithm except `'sliding-log'`, which
+ * keeps request timestamps instead. Stores persist it as-is, so each
+ * resource needs a single row or item.
+ */
+export interface RateLimitState {
+  /**
+   * Tokens left (`'token-bucket'`), the theoretical arrival time in epoch
+   * ms (`'gcra'`) or the current window's request count (windows).
+   */
+  value: number;
+  /**
+   * Epoch ms of the last refill (`'token-bucket'`) or the start of the
+   * current window (windows). Unused by `'gcra'`.
+   */
+  updatedAt: number;
+  /** Request count of the previous window (`'sliding-window'` only). */
+  previous: number;
+}
+
+/** Whether a request may proceed now, as computed from a state. */
+export interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  /** Ms until a request would be allowed; 0 when `allowed`. */
+  waitMs: number;
+  resetTime: Date;
+  limit: number;
+}
+
+// Absorbs float error in refill arithmetic, e.g. 2.9999999999999996 tokens
+const EPSILON = 1e-9;
+
+/**
+ * Whether `config` uses the default timestamp log rather than a
+ * {@link RateLimitState}.
+ */
+export function usesSlidingLog(config: RateLimitConfig): boolean {
+  return (config.algorithm ?? 'sliding-log') === 'sliding-log';
+}
+
+function isBucket(config: RateLimitConfig): boolean {
+  return config.algorithm === 'token-bucket' || config.algorithm === 'gcra';
+}
+
+function capacityOf(config: RateLimitConfig): number {
+  return isBucket(config) ? (config.burst ?? config.limit) : config.limit;
+}
+
+/** Refill rate in requests per ms. */
+function rateOf(config: RateLimitConfig): number {
+  return config.refillRate !== undefined
+    ? config.refillRate / 1000
+    : config.limit / config.windowMs;
+}
+
+function windowStart(config: RateLimitConfig, now: number): number {
+  return Math.floor(now / config.windowMs) * config.windowMs;
+}
+
+function tokensAt(
+  config: RateLimitConfig,
+  state: RateLimitState | undefined,
+  now: number,
+): number {
+  const capacity = capacityOf(config);
+  if (!state) {
+    return capacity;
+  }
+  const elapsed = Math.max(0, now - state.updatedAt);
+  return Math.min(capacity, state.value + elapsed * rateOf(config));
+}
+
+/** Counts of the current and previous aligned windows at `now`. */
+function windowCounts(
+  config: RateLimitConfig,
+  state: RateLimitState | undefined,
+  now: number,
+): { start: number; current: number; previous: number } {
+  const start = windowStart(config, now);
+  if (state?.updatedAt === start) {
+    return { start, current: state.value, previous: state.previous };
+  }
+  if (state?.updatedAt === start - config.windowMs) {
+    return { start, current: 0, previous: state.value };
+  }
+  return { start, current: 0, previous: 0 };
+}
+
+/**
+ * Decide whether a request may proceed under `config` without consuming
+ * capacity. A missing `state` means the resource has no recent requests.
+ */
+export function peekRateLimit(
+  config: RateLimitConfig,
+  state: RateLimitState | undefined,
+  now = Date.now(),
+): RateLimitDecision {
+  const limit = capacityOf(config);
+  const rate = rateOf(config);
+  const { windowMs } = config;
+
+  // A bucket that holds no whole token, or never refills, admits nothing
+  if (limit < 1 || (isBucket(config) && !(rate > 0))) {
+    return {
+      allowed: false,
+      remaining: 0,
+      waitMs: windowMs,
+      resetTime: new Date(now + windowMs),
+      limit,
+    };
+  }
+
+  switch (config.algorithm) {
+    case 'token-bucket': {
+      const tokens = tokensAt(config, state, now);
+      const allowed = tokens + EPSILON >= 1;
+      return {
+        allowed,
+        remaining: Math.max(0, Math.floor(tokens + EPSILON)),
+        waitMs: allowed ? 0 : Math.ceil((1 - tokens) / rate),
+        resetTime: new Date(now + Math.ceil((limit - tokens) / rate)),
+        limit,
+      };
+    }
+    case 'gcra': {
+      const interval = 1 / rate;
+      const tolerance = (limit - 1) * interval;
+      const tat = Math.max(state?.value ?? now, now);
+      const allowed = tat - now <= tolerance + EPSILON;
+      return {
+        allowed,
+        remaining: allowed
+          ? Math.floor(
+              (tolerance + interval - (tat - now)) / interval + EPSILON,
+            )
+          : 0,
+        waitMs: allowed ? 0 : Math.ceil(tat - tolerance - now),
+        resetTime: new Date(Math.ceil(tat)),
+        limit,
+      };
+    }
+    case 'fixed-window': {
+      const { start, current } = windowCounts(config, state, now);
+      const allowed = current < limit;
+      return {
+        allowed,
+        remaining: Math.max(0, limit - current),
+        waitMs: allowed ? 0 : start + windowMs - now,
+        resetTime: new Date(start + windowMs),
+        limit,
+      };
+    }
+    default: {
+      // 'sliding-window': weight the previous window by its overlap
+      const { start, current, previous } = windowCounts(config, state, now);
+      const used = previous * (1 - (now - start) / windowMs) + current;
+      const allowed = used + 1 <= limit + EPSILON;
+      let allowedAt = now;
+      if (!allowed) {
+        allowedAt =
+          current + 1 <= limit
+            ? // Wait until enough of the previous window slides out
+              start + windowMs * (1 - (limit - 1 - current) / previous)
+            : // Wait into the next window, where this one becomes previous
+              start + windowMs * (2 - (limit - 1) / current);
+      }
+      return {
+        allowed,
+        remaining: Math.max(0, Math.floor(limit - used + EPSILON)),
+        waitMs: Math.max(0, Math.ceil(allowedAt - now)),
+        resetTime: new Date(start + windowMs),
+        limit,
+      };
+    }
+  }
+}
+
+/**
+ * Record one request in `state`. Capacity is consumed even when
+ * {@link peekRateLimit} would refuse the request, because `record` runs
+ * after the request was sent; a token bucket goes into debt.
+ */
+export function consumeRateLimit(
+  config: RateLimitConfig,
+  state: RateLimitState | undefined,
+  now = Date.now(),
+): RateLimitState {
+  switch (config.algorithm) {
+    case 'token-bucket':
+      return {
+        value: tokensAt(config, state, now) - 1,
+        updatedAt: now,
+        previous: 0,
+      };
+    case 'gcra': {
+      const tat = Math.max(state?.value ?? now, now);
+      return { value: tat + 1 / rateOf(config), updatedAt: now, previous: 0 };
+    }
+    default: {
+      const { start, current, previous } = windowCounts(config, state, now);
+      return {
+        value: current + 1,
+        updatedAt: start,
+        previous: config.algorithm === 'sliding-window' ? previous : 0,
+      };
+    }
+  }
+}
+
+/**
+ * Epoch ms after which `state` no longer affects any decision, so stores
+ * can expire it: when a token bucket is full again, at a GCRA theoretical
+ * arrival time, or when no window still counts the state's requests.
+ */
+export function rateLimitStateExpiresAt(
+  config: RateLimitConfig,
+  state: RateLimitState,
+): number {
+  const rate = rateOf(config);
+  switch (config.algorithm) {
+    case 'token-bucket':
+      return rate > 0
+        ? Math.ceil(state.updatedAt + (capacityOf(config) - state.value) / rate)
+        : state.updatedAt + config.windowMs;
+    case 'gcra':
+      return Math.ceil(state.value);
+    case 'fixed-window':
+      return state.updatedAt + config.windowMs;
+    default:
+      return state.updatedAt + 2 * config.windowMs;
+  }
+}
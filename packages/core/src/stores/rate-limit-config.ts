@@ -1,3 +1,24 @@
+/**
+ * Algorithm a store uses to enforce a {@link RateLimitConfig}:
+ *
+ *  - `'sliding-log'` (default): keeps a timestamp per request and allows
+ *    `limit` requests in any rolling `windowMs`.
+ *  - `'token-bucket'`: a bucket of `burst` tokens refilled at `refillRate`.
+ *  - `'gcra'`: the generic cell rate algorithm. It behaves like a token
+ *    bucket but stores a single timestamp per resource.
+ *  - `'fixed-window'`: counts requests in windows aligned to multiples of
+ *    `windowMs`.
+ *  - `'sliding-window'`: a fixed-window counter that also weights the
+ *    previous window's count by how much of it still overlaps the rolling
+ *    window.
+ */
+export type RateLimitAlgorithm =
+  | 'sliding-log'
+  | 'token-bucket'
+  | 'gcra'
+  | 'fixed-window'
+  | 'sliding-window';
+
 /**
  * Configuration for per-resource rate limiting.
  *
@@ -9,6 +30,18 @@ export interface RateLimitConfig {
   limit: number;
   /** Duration of the window in milliseconds */
   windowMs: number;
+  /** Enforcement algorithm. Defaults to `'sliding-log'`. */
+  algorithm?: RateLimitAlgorithm;
+  /**
+   * Most requests that may be sent back to back (`'token-bucket'` and
+   * `'gcra'` only). Defaults to `limit`.
+   */
+  burst?: number;
+  /**
+   * Sustained requests per second (`'token-bucket'` and `'gcra'` only).
+   * Defaults to `limit` per `windowMs`.
+   */
+  refillRate?: number;
 }
 
 /**
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import {
+  serializeStoreValue,
+  deserializeStoreValue,
+} from './value-serialization.js';
+
+describe('serializeStoreValue', () => {
+  it('should produce plain JSON when there is no binary data', () => {
+    const value = { a: 1, b: ['x', null] };
+
+    const serialized = serializeStoreValue(value);
+
+    expect(serialized).toEqual({ json: JSON.stringify(value) });
+    expect(deserializeStoreValue(serialized)).toEqual(value);
+  });
+
+  it('should move ArrayBuffers into the binary payload', () => {
+    const bytes = new Uint8Array([0, 255, 10, 13, 128]);
+
+    const serialized = serializeStoreValue({ body: bytes.buffer });
+
+    expect(serialized.json).not.toContain('255');
+    expect(serialized.binary).toEqual(bytes);
+
+    const restored = deserializeStoreValue(serialized) as {
+      body: ArrayBuffer;
+    };
+    expect(restored.body).toBeInstanceOf(ArrayBuffer);
+    expect(new Uint8Array(restored.body)).toEqual(bytes);
+  });
+
+  it('should round-trip a top-level ArrayBuffer', () => {
+    const bytes = new Uint8Array([1, 2, 3]);
+
+    const restored = deserializeStoreValue(serializeStoreValue(bytes.buffer));
+
+    expect(new Uint8Array(restored as ArrayBuffer)).toEqual(bytes);
+  });
+
+  it('should restore typed arrays with their element type', () => {
+    const value = {
+      ints: new Int16Array([-1, 2, 300]),
+      floats: new Float64Array([1.5, -2.25]),
+    };
+
+    const restored = deserializeStoreValue(serializeStoreValue(value)) as {
+      ints: Int16Array;
+      floats: Float64Array;
+    };
+
+    expect(restored.ints).toBeInstanceOf(Int16Array);
+    expect([...restored.ints]).toEqual([-1, 2, 300]);
+    expect(restored.floats).toBeInstanceOf(Float64Array);
+    expect([...restored.floats]).toEqual([1.5, -2.25]);
+  });
+
+  it('should only copy the visible window of a view', () => {
+    const backing = new Uint8Array([9, 9, 1, 2, 9]);
+    const view = backing.subarray(2, 4);
+
+    const serialized = serializeStoreValue({ view });
+
+    expect(serialized.binary).toEqual(new Uint8Array([1, 2]));
+  });
+
+  it('should restore Buffers as Uint8Arrays', () => {
+    const restored = deserializeStoreValue(
+      serializeStoreValue({ buf: Buffer.from('hi') }),
+    ) as { buf: Uint8Array };
+
+    expect(restored.buf).toBeInstanceOf(Uint8Array);
+    expect(Buffer.from(restored.buf).toString()).toBe('hi');
+  });
+
+  it('should keep several binary values apart', () => {
+    const value = {
+      first: new Uint8Array([1]).buffer,
+      nested: [{ second: new Uint8Array([2, 3]).buffer }],
+    };
+
+    const restored = deserializeStoreValue(serializeStoreValue(value)) as {
+      first: ArrayBuffer;
+      nested: Array<{ second: ArrayBuffer }>;
+    };
+
+    expect(new Uint8Array(restored.first)).toEqual(new Uint8Array([1]));
+    expect(new Uint8Array(restored.nested[0]!.second)).toEqual(
+      new Uint8Array([2, 3]),
+    );
+  });
+
+  it('should leave lookalike objects alone when there is no binary payload', () => {
+    const value = { __binary: 'ArrayBuffer', offset: 0, length: 1 };
+
+    expect(deserializeStoreValue(serializeStoreValue(value))).toEqual(value);
+  });
+
+  it('should throw for circular structures like JSON.stringify', () => {
+    const value: Record<string, unknown> = {};
+    value['self'] = value;
+
+    expect(() => serializeStoreValue(value)).toThrow(TypeError);
+  });
+});
@@ -0,0 +1,158 @@
+/**
+ * A store value split into a JSON document and the raw bytes of any binary
+ * data it contained. Stores persist `json` as text and `binary` in a native
+ * binary column or attribute, so bytes never round-trip through base64.
+ */
+export interface SerializedStoreValue {
+  json: string;
+  /** Concatenated bytes of every binary value, or undefined if there were none. */
+  binary?: Uint8Array;
+}
+
+type BinaryKind =
+  | 'ArrayBuffer'
+  | 'DataView'
+  | 'Int8Array'
+  | 'Uint8Array'
+  | 'Uint8ClampedArray'
+  | 'Int16Array'
+  | 'Uint16Array'
+  | 'Int32Array'
+  | 'Uint32Array'
+  | 'Float32Array'
+  | 'Float64Array'
+  | 'BigInt64Array'
+  | 'BigUint64Array';
+
+type ViewConstructor = new (
+  buffer: ArrayBuffer,
+  byteOffset?: number,
+  length?: number,
+) => ArrayBufferView;
+
+const VIEW_CONSTRUCTORS: Record<Exclude<BinaryKind, 'ArrayBuffer'>, unknown> = {
+  DataView,
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array,
+};
+
+/** Placeholder left in the JSON document where a binary value was. */
+interface BinaryMarker {
+  __binary: BinaryKind;
+  offset: number;
+  length: number;
+}
+
+function isBinaryMarker(value: unknown): value is BinaryMarker {
+  if (typeof value !== 'object' || value === null) return false;
+  const marker = value as Record<string, unknown>;
+  return (
+    Object.keys(marker).length === 3 &&
+    typeof marker['__binary'] === 'string' &&
+    (marker['__binary'] === 'ArrayBuffer' ||
+      marker['__binary'] in VIEW_CONSTRUCTORS) &&
+    typeof marker['offset'] === 'number' &&
+    typeof marker['length'] === 'number'
+  );
+}
+
+function binaryKind(value: ArrayBuffer | ArrayBufferView): BinaryKind {
+  if (value instanceof ArrayBuffer) return 'ArrayBuffer';
+  if (value instanceof DataView) return 'DataView';
+  // Node's Buffer is a Uint8Array subclass; restore it as a plain Uint8Array
+  if (value instanceof Uint8Array) return 'Uint8Array';
+  const name = value.constructor.name;
+  return name in VIEW_CONSTRUCTORS ? (name as BinaryKind) : 'Uint8Array';
+}
+
+/**
+ * Serialize a value for a persistent store. `ArrayBuffer`s and typed arrays
+ * anywhere in the value are moved out of the JSON document into `binary`;
+ * everything else is encoded exactly as `JSON.stringify` would.
+ *
+ * @throws whatever `JSON.stringify` throws, e.g. for circular references
+ */
+export function serializeStoreValue(value: unknown): SerializedStoreValue {
+  const chunks: Array<Uint8Array> = [];
+  let size = 0;
+
+  const json = JSON.stringify(
+    value,
+    function (this: Record<string, unknown>, key: string, replaced: unknown) {
+      // `replaced` has already been through toJSON (Buffer defines one), so
+      // inspect the original value on the holder instead.
+      const original = this[key];
+      if (!(original instanceof ArrayBuffer) && !ArrayBuffer.isView(original)) {
+        return replaced;
+      }
+
+      const bytes =
+        original instanceof ArrayBuffer
+          ? new Uint8Array(original)
+          : new Uint8Array(
+              original.buffer,
+              original.byteOffset,
+              original.byteLength,
+            );
+      const marker: BinaryMarker = {
+        __binary: binaryKind(original),
+        offset: size,
+        length: bytes.byteLength,
+      };
+      chunks.push(bytes);
+      size += bytes.byteLength;
+      return marker;
+    },
+  );
+
+  if (chunks.length === 0) {
+    return { json };
+  }
+
+  const binary = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    binary.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return { json, binary };
+}
+
+/**
+ * Reverse {@link serializeStoreValue}. Binary values are restored as copies,
+ * so the result never aliases the store's own buffer.
+ */
+export function deserializeStoreValue({
+  json,
+  binary,
+}: SerializedStoreValue): unknown {
+  if (!binary) {
+    return JSON.parse(json);
+  }
+
+  return JSON.parse(json, (_key, value: unknown) => {
+    if (!isBinaryMarker(value)) {
+      return value;
+    }
+
+    const start = binary.byteOffset + value.offset;
+    const buffer = binary.buffer.slice(
+      start,
+      start + value.length,
+    ) as ArrayBuffer;
+    if (value.__binary === 'ArrayBuffer') {
+      return buffer;
+    }
+    const View = VIEW_CONSTRUCTORS[value.__binary] as ViewConstructor;
+    return new View(buffer);
+  });
+}
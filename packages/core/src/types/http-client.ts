@@ -1,3 +1,6 @@
+import type { z, ZodTypeAny } from 'zod';
+import type { FreshnessStatus } from '../cache/freshness.js';
+import type { PathParams } from '../http-client/request-url.js';
 import { RequestPriority } from '../stores/rate-limit-store.js';
 
 export interface HttpErrorContext {
@@ -41,38 +44,406 @@ export interface RetryOptions {
   retryCondition?: (context: RetryContext, attempt: number) => boolean;
 }
 
+export interface TimeoutOptions {
+  /**
+   * Budget in milliseconds for the whole call: cooldown and rate-limit waits,
+   * every fetch attempt and every retry delay.
+   */
+  total?: number;
+  /** Budget in milliseconds for each individual fetch attempt. */
+  perAttempt?: number;
+}
+
+/**
+ * HTTP request methods supported by `HttpClient.request()`.
+ */
+export type HttpMethod =
+  | 'GET'
+  | 'HEAD'
+  | 'OPTIONS'
+  | 'POST'
+  | 'PUT'
+  | 'PATCH'
+  | 'DELETE';
+
+/**
+ * Request body accepted by the client. Strings, `FormData`,
+ * `URLSearchParams`, `Blob`, binary buffers and `ReadableStream`s are sent
+ * as-is; plain objects and arrays are serialised as JSON with a
+ * `Content-Type: application/json` header (unless one is already set).
+ * A stream can only be read once, so a request with a stream body is never
+ * retried or replayed.
+ */
+export type RequestBody =
+  | string
+  | FormData
+  | URLSearchParams
+  | Blob
+  | ArrayBuffer
+  | ArrayBufferView
+  | ReadableStream<Uint8Array>
+  | Record<string, unknown>
+  | Array<unknown>;
+
+/**
+ * How the response body is read:
+ * - `'json'`: parse JSON, falling back to text for non-JSON bodies (default)
+ * - `'text'`: the body as a string, never JSON-parsed
+ * - `'arrayBuffer'` / `'blob'`: the raw bytes
+ * - `'stream'`: the unread `ReadableStream` body
+ */
+export type ResponseType = 'json' | 'text' | 'arrayBuffer' | 'blob' | 'stream';
+
+/**
+ * How a request uses the cache, mirroring the Fetch `RequestCache` modes:
+ * - `'default'`: serve fresh entries, revalidate stale ones (default)
+ * - `'no-store'`: neither read nor write the cache
+ * - `'reload'`: skip the cached entry, fetch and overwrite it
+ * - `'no-cache'`: revalidate any cached entry with the origin before use
+ * - `'force-cache'`: serve any cached entry however stale; fetch only on a miss
+ * - `'only-if-cached'`: serve any cached entry; throw `CacheMissError` on a miss
+ */
+export type RequestCacheMode =
+  | 'default'
+  | 'no-store'
+  | 'reload'
+  | 'no-cache'
+  | 'force-cache'
+  | 'only-if-cached';
+
+/**
+ * Derives a cache/dedupe key from a request. The returned string replaces
+ * the URL-derived key; requests returning the same string share cache
+ * entries and in-flight work.
+ */
+export type CacheKeyFunction = (
+  url: string,
+  headers: Record<string, string>,
+  method: HttpMethod,
+) => string;
+
+/**
+ * Derives a partition ID from a request, e.g. a hash of its `Authorization`
+ * header or a tenant header. Requests in different partitions never share
+ * cache entries or in-flight work; `undefined` leaves a request
+ * unpartitioned.
+ */
+export type PartitionFunction = (
+  url: string,
+  headers: Record<string, string>,
+  method: HttpMethod,
+) => string | undefined;
+
+export interface CacheKeyOptions {
+  /** Query params left out of the key, e.g. rotating `api_key` or `timestamp`. */
+  ignoreParams?: Array<string>;
+  /**
+   * Request headers whose values become part of the key, e.g.
+   * `Authorization` or `Accept-Language`. Names are case-insensitive.
+   */
+  includeHeaders?: Array<string>;
+  /** Static prefix that keeps keys apart, e.g. per tenant or API version. */
+  namespace?: string;
+}
+
+/** A single query param value. `null` and `undefined` values are left out. */
+export type QueryParamValue = string | number | boolean | null | undefined;
+
+/** Query params appended to a request URL, as built by the `params` option. */
+export type QueryParams = Record<
+  string,
+  QueryParamValue | ReadonlyArray<QueryParamValue>
+>;
+
+/**
+ * How array query params are serialised:
+ * - `'repeat'`: `?tag=a&tag=b` (default)
+ * - `'comma'`: `?tag=a,b`
+ * - `'brackets'`: `?tag[]=a&tag[]=b`
+ */
+export type ArrayFormat = 'repeat' | 'comma' | 'brackets';
+
+/** Data type produced by each {@link ResponseType}. */
+export interface ResponseTypeMap {
+  json: unknown;
+  text: string;
+  arrayBuffer: ArrayBuffer;
+  blob: Blob;
+  stream: ReadableStream<Uint8Array>;
+}
+
+export interface RequestOptions {
+  /**
+   * AbortSignal that allows the caller to cancel the request, including any
+   * internal rate-limit wait. If the signal is aborted while waiting the
+   * promise rejects with an `AbortError`-like `Error` instance.
+   */
+  signal?: AbortSignal;
+  /**
+   * Priority level for the request (affects rate limiting behavior)
+   */
+  priority?: RequestPriority;
+  /**
+   * Rate-limit and bulkhead resource for this request, in place of the one
+   * the client's `resourceResolver` picks.
+   */
+  resource?: string;
+  /**
+   * Custom headers to send with the request. Also used for Vary-based
+   * cache matching — the client captures header values listed in the
+   * response's Vary header and checks them on subsequent lookups.
+   */
+  headers?: Record<string, string>;
+  /**
+   * Per-request retry configuration. Pass `false` to disable retries for
+   * this specific request even if retries are enabled at the constructor level.
+   */
+  retry?: RetryOptions | false;
+  /**
+   * Pass `false` to never hedge this request, even when `hedging` is enabled
+   * at the constructor level and it has `priority: 'user'`.
+   */
+  hedging?: false;
+  /**
+   * Per-request timeout. A number sets the `total` budget. Fields that are
+   * omitted fall back to the constructor-level `timeout`.
+   */
+  timeout?: number | TimeoutOptions;
+  /**
+   * Zod schema the (transformed) response data must satisfy. The parsed
+   * output is what gets returned, cached and shared with deduplicated
+   * callers. Overrides the constructor-level `schema`.
+   */
+  schema?: ZodTypeAny;
+  /**
+   * How to read the response body. Defaults to `'json'`. Binary and stream
+   * bodies skip `responseTransformer`, `responseHandler` and `schema`, and
+   * are never deduplicated.
+   */
+  responseType?: ResponseType;
+  /**
+   * Read a `'stream'` response into memory so it can be cached. The caller
+   * still receives a stream. Without this, streamed responses bypass the
+   * cache entirely.
+   */
+  bufferStream?: boolean;
+  /**
+   * How this request uses the cache. Defaults to `'default'`. Only GET
+   * responses are cached; for other methods `'only-if-cached'` always
+   * throws `CacheMissError`.
+   */
+  cache?: RequestCacheMode;
+  /**
+   * How this request's cache and dedupe key is derived. Fields override the
+   * constructor-level `cacheKey`; a function replaces it.
+   */
+  cacheKey?: CacheKeyOptions | CacheKeyFunction;
+  /**
+   * Query params appended to the URL. The result is hashed like any other
+   * URL, so `{ tag: ['a', 'b'] }` shares a cache key with `?tag=a&tag=b`.
+   */
+  params?: QueryParams;
+  /**
+   * How array `params` are serialised. Overrides the constructor-level
+   * `arrayFormat`; defaults to `'repeat'`.
+   */
+  arrayFormat?: ArrayFormat;
+}
+
+/**
+ * Request options with a non-JSON response type, used to infer the result
+ * type.
+ */
+export type TypedResponseRequestOptions<
+  Type extends Exclude<ResponseType, 'json'>,
+> = RequestOptions & {
+  responseType: Type;
+  schema?: undefined;
+};
+
+/**
+ * Request options carrying a schema, used to infer the result type.
+ */
+export type SchemaRequestOptions<Schema extends ZodTypeAny> = Omit<
+  RequestOptions,
+  'schema'
+> & {
+  // Replaces rather than intersects `schema?: ZodTypeAny`, which a concrete
+  // Zod schema type does not satisfy
+  schema: Schema;
+};
+
+export interface RequestWithBodyOptions extends RequestOptions {
+  /** Request body. See {@link RequestBody} for how each type is encoded. */
+  body?: RequestBody;
+}
+
+/**
+ * Request options for a URL template such as `/users/:id`, whose
+ * `pathParams` are typed from the template.
+ */
+export type PathTemplateRequestOptions<
+  Template extends string,
+  Options extends RequestOptions = RequestOptions,
+> = Options & {
+  /**
+   * Values for the `:name` placeholders in the URL's path, filled in like
+   * `buildPath()`. Leaving one out or naming one the template lacks is a
+   * compile error. The unfilled template, such as
+   * `api.example.com/users/:id`, names the rate-limit and bulkhead resource
+   * in place of the `resourceResolver`'s, unless `resource` is given, so
+   * requests for different ids share one budget.
+   */
+  pathParams: PathParams<Template>;
+};
+
+/**
+ * How a response was produced with respect to the cache:
+ * - `'hit'`: served from a cache entry without contacting the origin
+ * - `'miss'`: fetched from the origin (and stored, if cacheable)
+ * - `'revalidated'`: the origin answered a conditional request with 304
+ * - `'stale-while-revalidate'`: a stale entry was served while a background
+ *   revalidation runs
+ * - `'stale-if-error'`: the origin failed and a stale entry was served instead
+ * - `'bypass'`: the cache was not consulted (no cache store, or not a GET)
+ */
+export type ResponseCacheStatus =
+  | 'hit'
+  | 'miss'
+  | 'revalidated'
+  | 'stale-while-revalidate'
+  | 'stale-if-error'
+  | 'bypass';
+
+export interface ResponseCacheInfo {
+  status: ResponseCacheStatus;
+  /** Current age of the cache entry in seconds. Absent for origin responses. */
+  age?: number;
+  /** Freshness of the entry at the time it was served. */
+  freshness?: FreshnessStatus;
+  /** Epoch ms when the served entry was written to the cache. */
+  storedAt?: number;
+}
+
+/**
+ * A response with its status, headers and cache metadata, as returned by
+ * `getResponse()`.
+ */
+export interface HttpResponse<T> {
+  data: T;
+  /** HTTP status of the origin response (the original status for cache hits). */
+  status: number;
+  /**
+   * Response headers. For cached responses these are reconstructed from the
+   * cache entry metadata, with `Age` set to the current age.
+   */
+  headers: Headers;
+  cache: ResponseCacheInfo;
+}
+
 export interface HttpClientContract {
   /**
    * Perform a GET request.
    *
-   * @param url     Full request URL
+   * @param url     Request URL, absolute or relative to `baseUrl`
    * @param options Optional configuration – primarily an AbortSignal so
    *                callers can cancel long-running or rate-limited waits.
    */
-  get<Result>(
+  get<Schema extends ZodTypeAny>(
+    url: string,
+    options: SchemaRequestOptions<Schema>,
+  ): Promise<z.output<Schema>>;
+  get<Type extends Exclude<ResponseType, 'json'>>(
+    url: string,
+    options: TypedResponseRequestOptions<Type>,
+  ): Promise<ResponseTypeMap[Type]>;
+  get<Template extends string, Schema extends ZodTypeAny>(
+    url: Template,
+    options: PathTemplateRequestOptions<Template, SchemaRequestOptions<Schema>>,
+  ): Promise<z.output<Schema>>;
+  get<Template extends string, Result = unknown>(
+    url: Template,
+    options: PathTemplateRequestOptions<Template>,
+  ): Promise<Result>;
+  get<Result>(url: string, options?: RequestOptions): Promise<Result>;
+
+  /**
+   * Perform a GET request and resolve with the data plus status, headers and
+   * cache metadata.
+   */
+  getResponse<Schema extends ZodTypeAny>(
+    url: string,
+    options: SchemaRequestOptions<Schema>,
+  ): Promise<HttpResponse<z.output<Schema>>>;
+  getResponse<Type extends Exclude<ResponseType, 'json'>>(
+    url: string,
+    options: TypedResponseRequestOptions<Type>,
+  ): Promise<HttpResponse<ResponseTypeMap[Type]>>;
+  getResponse<Template extends string, Schema extends ZodTypeAny>(
+    url: Template,
+    options: PathTemplateRequestOptions<Template, SchemaRequestOptions<Schema>>,
+  ): Promise<HttpResponse<z.output<Schema>>>;
+  getResponse<Template extends string, Result = unknown>(
+    url: Template,
+    options: PathTemplateRequestOptions<Template>,
+  ): Promise<HttpResponse<Result>>;
+  getResponse<Result>(
+    url: string,
+    options?: RequestOptions,
+  ): Promise<HttpResponse<Result>>;
+
+  /**
+   * Perform a request with an arbitrary HTTP method.
+   *
+   * Safe methods (`GET`, `HEAD`, `OPTIONS`) participate in deduplication and
+   * `GET` additionally in caching. Unsafe methods (`POST`, `PUT`, `PATCH`,
+   * `DELETE`) bypass both layers but still go through rate limiting,
+   * retries, interceptors and error handling.
+   */
+  request<Template extends string, Result = unknown>(
+    method: HttpMethod,
+    url: Template,
+    options: PathTemplateRequestOptions<Template, RequestWithBodyOptions>,
+  ): Promise<Result>;
+  request<Result>(
+    method: HttpMethod,
+    url: string,
+    options?: RequestWithBodyOptions,
+  ): Promise<Result>;
+
+  /** Perform a POST request with an optional body. */
+  post<Result>(
     url: string,
-    options?: {
-      /**
-       * AbortSignal that allows the caller to cancel the request, including any
-       * internal rate-limit wait. If the signal is aborted while waiting the
-       * promise rejects with an `AbortError`-like `Error` instance.
-       */
-      signal?: AbortSignal;
-      /**
-       * Priority level for the request (affects rate limiting behavior)
-       */
-      priority?: RequestPriority;
-      /**
-       * Custom headers to send with the request. Also used for Vary-based
-       * cache matching — the client captures header values listed in the
-       * response's Vary header and checks them on subsequent lookups.
-       */
-      headers?: Record<string, string>;
-      /**
-       * Per-request retry configuration. Pass `false` to disable retries for
-       * this specific request even if retries are enabled at the constructor level.
-       */
-      retry?: RetryOptions | false;
-    },
+    body?: RequestBody,
+    options?: RequestOptions,
   ): Promise<Result>;
+
+  /** Perform a PUT request with an optional body. */
+  put<Result>(
+    url: string,
+    body?: RequestBody,
+    options?: RequestOptions,
+  ): Promise<Result>;
+
+  /** Perform a PATCH request with an optional body. */
+  patch<Result>(
+    url: string,
+    body?: RequestBody,
+    options?: RequestOptions,
+  ): Promise<Result>;
+
+  /** Perform a DELETE request. A body may be passed via `options.body`. */
+  delete<Result>(
+    url: string,
+    options?: RequestWithBodyOptions,
+  ): Promise<Result>;
+
+  /** Perform a HEAD request. Resolves with `undefined` data. */
+  head<Result = undefined>(
+    url: string,
+    options?: RequestOptions,
+  ): Promise<Result>;
+
+  /** Perform an OPTIONS request. */
+  options<Result>(url: string, options?: RequestOptions): Promise<Result>;
 }
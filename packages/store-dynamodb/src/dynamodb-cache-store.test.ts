@@ -8,6 +8,7 @@ import {
   PutCommand,
   DeleteCommand,
   ScanCommand,
+  BatchGetCommand,
   BatchWriteCommand,
 } from '@aws-sdk/lib-dynamodb';
 import { mockClient } from 'aws-sdk-client-mock';
@@ -54,6 +55,55 @@ describe('DynamoDBCacheStore', () => {
       expect(value).toBeUndefined();
     });
 
+    it('should get many values in one batch, in input order', async () => {
+      const ttl = Math.floor(Date.now() / 1000) + 60;
+      ddbMock.on(BatchGetCommand).resolvesOnce({
+        Responses: {
+          'http-client-toolkit': [
+            { pk: 'CACHE#key1', sk: 'CACHE#key1', value: '"value1"', ttl },
+            { pk: 'CACHE#key2', sk: 'CACHE#key2', value: '{"n":2}', ttl },
+          ],
+        },
+      });
+
+      const values = await store.getMany(['key2', 'missing', 'key1', 'key2']);
+
+      expect(values).toEqual([{ n: 2 }, undefined, 'value1', { n: 2 }]);
+      const calls = ddbMock.commandCalls(BatchGetCommand);
+      expect(calls).toHaveLength(1);
+      expect(
+        calls[0]!.args[0].input.RequestItems!['http-client-toolkit']!.Keys,
+      ).toHaveLength(3);
+    });
+
+    it('should retry unprocessed keys in getMany', async () => {
+      const ttl = Math.floor(Date.now() / 1000) + 60;
+      ddbMock
+        .on(BatchGetCommand)
+        .resolvesOnce({
+          Responses: {
+            'http-client-toolkit': [
+              { pk: 'CACHE#key1', sk: 'CACHE#key1', value: '1', ttl },
+            ],
+          },
+          UnprocessedKeys: {
+            'http-client-toolkit': {
+              Keys: [{ pk: 'CACHE#key2', sk: 'CACHE#key2' }],
+            },
+          },
+        })
+        .resolvesOnce({
+          Responses: {
+            'http-client-toolkit': [
+              { pk: 'CACHE#key2', sk: 'CACHE#key2', value: '2', ttl },
+            ],
+          },
+        });
+
+      await expect(store.getMany(['key1', 'key2'])).resolves.toEqual([1, 2]);
+      expect(ddbMock.commandCalls(BatchGetCommand)).toHaveLength(2);
+    });
+
     it('should delete values', async () => {
       ddbMock.on(DeleteCommand).resolvesOnce({});
       await expect(store.delete('key1')).resolves.not.toThrow();
@@ -231,6 +281,30 @@ describe('DynamoDBCacheStore', () => {
       const value = await store.get('key1');
       expect(value).toBeUndefined();
     });
+
+    it('should store binary data in a separate binary attribute', async () => {
+      const bytes = new Uint8Array([0, 1, 254, 255]);
+      ddbMock.on(PutCommand).resolvesOnce({});
+      await store.set('key1', { body: bytes.buffer }, 60);
+
+      const item = ddbMock.commandCalls(PutCommand)[0]!.args[0].input.Item!;
+      expect(item['binaryValue']).toBeInstanceOf(Uint8Array);
+      expect(item['binaryValue']).toEqual(bytes);
+      expect(item['value']).not.toContain('254');
+
+      ddbMock.on(GetCommand).resolvesOnce({ Item: item });
+      const value = (await store.get('key1')) as { body: ArrayBuffer };
+      expect(value.body).toBeInstanceOf(ArrayBuffer);
+      expect(new Uint8Array(value.body)).toEqual(bytes);
+    });
+
+    it('should omit the binary attribute for JSON-only values', async () => {
+      ddbMock.on(PutCommand).resolvesOnce({});
+      await store.set('key1', { id: 1 }, 60);
+
+      const item = ddbMock.commandCalls(PutCommand)[0]!.args[0].input.Item!;
+      expect(item).not.toHaveProperty('binaryValue');
+    });
   });
 
   describe('size guard', () => {
@@ -248,6 +322,18 @@ describe('DynamoDBCacheStore', () => {
       smallStore.destroy();
     });
 
+    it('should count binary bytes towards maxEntrySizeBytes', async () => {
+      const smallStore = new DynamoDBCacheStore({
+        client: DynamoDBDocumentClient.from(new DynamoDBClient({})),
+        maxEntrySizeBytes: 100,
+      });
+
+      await smallStore.set('too-big', new ArrayBuffer(200), 60);
+
+      expect(ddbMock).not.toHaveReceivedCommand(PutCommand);
+      smallStore.destroy();
+    });
+
     it('should cache values within maxEntrySizeBytes', async () => {
       ddbMock.on(PutCommand).resolvesOnce({});
       await store.set('fits', 'small', 60);
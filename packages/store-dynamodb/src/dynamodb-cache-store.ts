@@ -9,10 +9,16 @@ import {
   DeleteCommand,
   ScanCommand,
 } from '@aws-sdk/lib-dynamodb';
-import type { CacheStore } from '@http-client-toolkit/core';
+import {
+  serializeStoreValue,
+  deserializeStoreValue,
+  type CacheStore,
+  type SerializedStoreValue,
+} from '@http-client-toolkit/core';
 import {
   assertDynamoKeyPart,
   batchDeleteWithRetries,
+  batchGetWithRetries,
 } from './dynamodb-utils.js';
 import { throwIfDynamoTableMissing } from './table-missing-error.js';
 import { DEFAULT_TABLE_NAME } from './table.js';
@@ -82,18 +88,62 @@ export class DynamoDBCacheStore<T = unknown> implements CacheStore<T> {
       return undefined;
     }
 
+    return this.readItem(hash, result.Item);
+  }
+
+  async getMany(hashes: Array<string>): Promise<Array<T | undefined>> {
+    if (this.isDestroyed) {
+      throw new Error('Cache store has been destroyed');
+    }
+
+    for (const hash of hashes) {
+      this.assertValidHash(hash);
+    }
+
+    // BatchGetItem rejects requests that list the same key twice
+    const keys = [...new Set(hashes)].map((hash) => {
+      const pk = `CACHE#${hash}`;
+      return { pk, sk: pk };
+    });
+
+    let items;
+    try {
+      items = await batchGetWithRetries(this.docClient, this.tableName, keys);
+    } catch (error: unknown) {
+      throwIfDynamoTableMissing(error, this.tableName);
+      throw error;
+    }
+
+    const itemsByPk = new Map(items.map((item) => [item['pk'], item]));
+    const values: Array<T | undefined> = [];
+    for (const hash of hashes) {
+      const item = itemsByPk.get(`CACHE#${hash}`);
+      values.push(item ? await this.readItem(hash, item) : undefined);
+    }
+    return values;
+  }
+
+  /** Deserialize an item, removing it if it has expired or is corrupted. */
+  private async readItem(
+    hash: string,
+    item: Record<string, unknown>,
+  ): Promise<T | undefined> {
     const now = Math.floor(Date.now() / 1000);
-    if (result.Item['ttl'] > 0 && now >= result.Item['ttl']) {
+    const ttl = item['ttl'] as number;
+    if (ttl > 0 && now >= ttl) {
       await this.delete(hash);
       return undefined;
     }
 
     try {
-      const value = result.Item['value'] as string;
+      const value = item['value'] as string;
       if (value === '__UNDEFINED__') {
         return undefined;
       }
-      return JSON.parse(value);
+      return deserializeStoreValue({
+        json: value,
+        binary: item['binaryValue'] as Uint8Array | undefined,
+      }) as T;
     } catch {
       await this.delete(hash);
       return undefined;
@@ -119,12 +169,12 @@ export class DynamoDBCacheStore<T = unknown> implements CacheStore<T> {
       ttl = nowEpoch + ttlSeconds;
     }
 
-    let serializedValue: string;
+    let serialized: SerializedStoreValue;
     try {
       if (value === undefined) {
-        serializedValue = '__UNDEFINED__';
+        serialized = { json: '__UNDEFINED__' };
       } else {
-        serializedValue = JSON.stringify(value);
+        serialized = serializeStoreValue(value);
       }
     } catch (error) {
       throw new Error(
@@ -132,7 +182,11 @@ export class DynamoDBCacheStore<T = unknown> implements CacheStore<T> {
       );
     }
 
-    if (Buffer.byteLength(serializedValue, 'utf8') > this.maxEntrySizeBytes) {
+    const { json: serializedValue, binary: binaryValue } = serialized;
+    const entrySize =
+      Buffer.byteLength(serializedValue, 'utf8') +
+      (binaryValue?.byteLength ?? 0);
+    if (entrySize > this.maxEntrySizeBytes) {
       return;
     }
 
@@ -146,6 +200,8 @@ export class DynamoDBCacheStore<T = unknown> implements CacheStore<T> {
             pk,
             sk: pk,
             value: serializedValue,
+            // Stored as a native Binary (B) attribute, not base64 text
+            ...(binaryValue && { binaryValue }),
             ttl,
             createdAt: now,
           },
@@ -0,0 +1,229 @@
+import {
+  DynamoDBClient,
+  ResourceNotFoundException,
+} from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  ScanCommand,
+  BatchWriteCommand,
+  DeleteCommand,
+} from '@aws-sdk/lib-dynamodb';
+import type { CircuitBreakerState } from '@http-client-toolkit/core';
+import { mockClient } from 'aws-sdk-client-mock';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { DynamoDBCircuitBreakerStore } from './dynamodb-circuit-breaker-store.js';
+
+const ddbMock = mockClient(DynamoDBDocumentClient);
+
+const openState: CircuitBreakerState = {
+  state: 'open',
+  openedAt: 1_000,
+  consecutiveFailures: 0,
+  windowStart: 1_000,
+  windowRequests: 0,
+  windowFailures: 0,
+};
+
+function conditionalCheckFailed(): Error {
+  const error = new Error('The conditional request failed');
+  error.name = 'ConditionalCheckFailedException';
+  return error;
+}
+
+describe('DynamoDBCircuitBreakerStore', () => {
+  let store: DynamoDBCircuitBreakerStore;
+
+  beforeEach(() => {
+    ddbMock.reset();
+    store = new DynamoDBCircuitBreakerStore({
+      client: DynamoDBDocumentClient.from(new DynamoDBClient({})),
+    });
+  });
+
+  afterEach(() => {
+    store.destroy();
+  });
+
+  it('returns undefined for unknown origins', async () => {
+    ddbMock.on(GetCommand).resolvesOnce({});
+
+    expect(await store.get('https://api.example.com')).toBeUndefined();
+    expect(ddbMock.commandCalls(GetCommand)[0]!.args[0].input.Key).toEqual({
+      pk: 'CIRCUIT#https://api.example.com',
+      sk: 'CIRCUIT#https://api.example.com',
+    });
+  });
+
+  it('reads stored state', async () => {
+    ddbMock.on(GetCommand).resolvesOnce({
+      Item: {
+        pk: 'CIRCUIT#https://api.example.com',
+        sk: 'CIRCUIT#https://api.example.com',
+        ...openState,
+        updatedAt: 2_000,
+      },
+    });
+
+    expect(await store.get('https://api.example.com')).toEqual(openState);
+  });
+
+  it('writes state under the origin key', async () => {
+    ddbMock.on(PutCommand).resolvesOnce({});
+
+    await store.set('https://api.example.com', openState);
+
+    const item = ddbMock.commandCalls(PutCommand)[0]!.args[0].input.Item;
+    expect(item).toMatchObject({
+      pk: 'CIRCUIT#https://api.example.com',
+      sk: 'CIRCUIT#https://api.example.com',
+      ...openState,
+    });
+  });
+
+  it('updates state with a versioned conditional put', async () => {
+    ddbMock.on(GetCommand).resolvesOnce({
+      Item: {
+        pk: 'CIRCUIT#https://api.example.com',
+        sk: 'CIRCUIT#https://api.example.com',
+        ...openState,
+        version: 3,
+      },
+    });
+    ddbMock.on(PutCommand).resolvesOnce({});
+
+    const state = await store.update('https://api.example.com', (current) => ({
+      ...current!,
+      state: 'half-open',
+    }));
+
+    expect(state).toEqual({ ...openState, state: 'half-open' });
+    expect(ddbMock.commandCalls(GetCommand)[0]!.args[0].input).toMatchObject({
+      ConsistentRead: true,
+    });
+    expect(ddbMock.commandCalls(PutCommand)[0]!.args[0].input).toMatchObject({
+      Item: { state: 'half-open', version: 4 },
+      ConditionExpression: '#version = :version',
+      ExpressionAttributeValues: { ':version': 3 },
+    });
+  });
+
+  it('retries an update when another writer got in first', async () => {
+    ddbMock
+      .on(GetCommand)
+      .resolvesOnce({})
+      .resolvesOnce({
+        Item: {
+          pk: 'CIRCUIT#https://api.example.com',
+          sk: 'CIRCUIT#https://api.example.com',
+          ...openState,
+          consecutiveFailures: 1,
+          version: 1,
+        },
+      });
+    ddbMock
+      .on(PutCommand)
+      .rejectsOnce(conditionalCheckFailed())
+      .resolvesOnce({});
+
+    const state = await store.update('https://api.example.com', (current) => ({
+      ...openState,
+      consecutiveFailures: (current?.consecutiveFailures ?? 0) + 1,
+    }));
+
+    expect(state?.consecutiveFailures).toBe(2);
+    const puts = ddbMock.commandCalls(PutCommand);
+    expect(puts[0]!.args[0].input.ConditionExpression).toBe(
+      'attribute_not_exists(pk)',
+    );
+    expect(puts[1]!.args[0].input.Item).toMatchObject({
+      consecutiveFailures: 2,
+      version: 2,
+    });
+  });
+
+  it('does not write when the updater returns undefined', async () => {
+    ddbMock.on(GetCommand).resolvesOnce({
+      Item: {
+        pk: 'CIRCUIT#https://api.example.com',
+        sk: 'CIRCUIT#https://api.example.com',
+        ...openState,
+      },
+    });
+
+    const state = await store.update(
+      'https://api.example.com',
+      () => undefined,
+    );
+
+    expect(state).toEqual(openState);
+    expect(ddbMock.commandCalls(PutCommand)).toHaveLength(0);
+  });
+
+  it('deletes state for one origin', async () => {
+    ddbMock.on(DeleteCommand).resolvesOnce({});
+
+    await store.delete('https://api.example.com');
+
+    expect(ddbMock.commandCalls(DeleteCommand)[0]!.args[0].input.Key).toEqual({
+      pk: 'CIRCUIT#https://api.example.com',
+      sk: 'CIRCUIT#https://api.example.com',
+    });
+  });
+
+  it('clears all breaker items', async () => {
+    ddbMock.on(ScanCommand).resolvesOnce({
+      Items: [
+        {
+          pk: 'CIRCUIT#https://a.example.com',
+          sk: 'CIRCUIT#https://a.example.com',
+        },
+      ],
+    });
+    ddbMock.on(BatchWriteCommand).resolvesOnce({});
+
+    await store.clear();
+
+    const scan = ddbMock.commandCalls(ScanCommand)[0]!.args[0].input;
+    expect(scan.ExpressionAttributeValues).toEqual({ ':prefix': 'CIRCUIT#' });
+    expect(ddbMock.commandCalls(BatchWriteCommand)).toHaveLength(1);
+  });
+
+  it('rejects invalid origins', async () => {
+    await expect(store.get('')).rejects.toThrow('origin must not be empty');
+  });
+
+  it('throws a clear error when the table is missing', async () => {
+    ddbMock.on(GetCommand).rejectsOnce(
+      new ResourceNotFoundException({
+        message: 'Requested resource not found',
+        $metadata: {},
+      }),
+    );
+
+    await expect(store.get('https://api.example.com')).rejects.toThrow(
+      'was not found. Create the table using your infrastructure',
+    );
+  });
+
+  it('throws after being destroyed', async () => {
+    store.destroy();
+
+    await expect(store.get('https://api.example.com')).rejects.toThrow(
+      'Circuit breaker store has been destroyed',
+    );
+    await expect(
+      store.set('https://api.example.com', openState),
+    ).rejects.toThrow('Circuit breaker store has been destroyed');
+    await expect(
+      store.update('https://api.example.com', () => openState),
+    ).rejects.toThrow('Circuit breaker store has been destroyed');
+    await expect(store.delete('https://api.example.com')).rejects.toThrow(
+      'Circuit breaker store has been destroyed',
+    );
+    await expect(store.clear()).rejects.toThrow(
+      'Circuit breaker store has been destroyed',
+    );
+  });
+});
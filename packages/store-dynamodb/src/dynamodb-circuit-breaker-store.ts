@@ -0,0 +1,313 @@
+import {
+  DynamoDBClient,
+  type DynamoDBClientConfig,
+} from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+  DeleteCommand,
+  ScanCommand,
+} from '@aws-sdk/lib-dynamodb';
+import type {
+  CircuitBreakerState,
+  CircuitBreakerStore,
+  CircuitState,
+} from '@http-client-toolkit/core';
+import {
+  assertDynamoKeyPart,
+  batchDeleteWithRetries,
+} from './dynamodb-utils.js';
+import { throwIfDynamoTableMissing } from './table-missing-error.js';
+import { DEFAULT_TABLE_NAME } from './table.js';
+
+export interface DynamoDBCircuitBreakerStoreOptions {
+  client?: DynamoDBDocumentClient | DynamoDBClient;
+  region?: string;
+  tableName?: string;
+}
+
+export class DynamoDBCircuitBreakerStore implements CircuitBreakerStore {
+  private readonly docClient: DynamoDBDocumentClient;
+  private readonly rawClient: DynamoDBClient | undefined;
+  private readonly isClientManaged: boolean;
+  private readonly tableName: string;
+  private isDestroyed = false;
+
+  constructor({
+    client,
+    region,
+    tableName = DEFAULT_TABLE_NAME,
+  }: DynamoDBCircuitBreakerStoreOptions = {}) {
+    this.tableName = tableName;
+
+    if (client instanceof DynamoDBDocumentClient) {
+      this.docClient = client;
+      this.isClientManaged = false;
+    } else if (client instanceof DynamoDBClient) {
+      this.docClient = DynamoDBDocumentClient.from(client);
+      this.isClientManaged = false;
+    } else {
+      const config: DynamoDBClientConfig = {};
+      if (region) config.region = region;
+      this.rawClient = new DynamoDBClient(config);
+      this.docClient = DynamoDBDocumentClient.from(this.rawClient);
+      this.isClientManaged = true;
+    }
+  }
+
+  async get(origin: string): Promise<CircuitBreakerState | undefined> {
+    if (this.isDestroyed) {
+      throw new Error('Circuit breaker store has been destroyed');
+    }
+
+    this.assertValidOrigin(origin);
+
+    const { state } = await this.readState(origin, false);
+    return state;
+  }
+
+  async set(origin: string, state: CircuitBreakerState): Promise<void> {
+    if (this.isDestroyed) {
+      throw new Error('Circuit breaker store has been destroyed');
+    }
+
+    this.assertValidOrigin(origin);
+
+    const pk = `CIRCUIT#${origin}`;
+
+    try {
+      await this.docClient.send(
+        new PutCommand({
+          TableName: this.tableName,
+          Item: {
+            pk,
+            sk: pk,
+            state: state.state,
+            openedAt: state.openedAt,
+            consecutiveFailures: state.consecutiveFailures,
+            windowStart: state.windowStart,
+            windowRequests: state.windowRequests,
+            windowFailures: state.windowFailures,
+            updatedAt: Date.now(),
+          },
+        }),
+      );
+    } catch (error: unknown) {
+      throwIfDynamoTableMissing(error, this.tableName);
+      throw error;
+    }
+  }
+
+  /**
+   * Writes are conditional on the version that was read, so concurrent
+   * writers retry instead of overwriting each other.
+   */
+  async update(
+    origin: string,
+    updater: (
+      state: CircuitBreakerState | undefined,
+    ) => CircuitBreakerState | undefined,
+  ): Promise<CircuitBreakerState | undefined> {
+    if (this.isDestroyed) {
+      throw new Error('Circuit breaker store has been destroyed');
+    }
+
+    this.assertValidOrigin(origin);
+
+    const pk = `CIRCUIT#${origin}`;
+    const maxAttempts = 10;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const { state, version } = await this.readState(origin, true);
+      const next = updater(state);
+      if (!next) {
+        return state;
+      }
+
+      let condition: {
+        ConditionExpression: string;
+        ExpressionAttributeNames?: Record<string, string>;
+        ExpressionAttributeValues?: Record<string, unknown>;
+      };
+      if (!state) {
+        condition = { ConditionExpression: 'attribute_not_exists(pk)' };
+      } else if (version === undefined) {
+        // Written by `set`, which does not version items
+        condition = {
+          ConditionExpression: 'attribute_not_exists(#version)',
+          ExpressionAttributeNames: { '#version': 'version' },
+        };
+      } else {
+        condition = {
+          ConditionExpression: '#version = :version',
+          ExpressionAttributeNames: { '#version': 'version' },
+          ExpressionAttributeValues: { ':version': version },
+        };
+      }
+
+      try {
+        await this.docClient.send(
+          new PutCommand({
+            TableName: this.tableName,
+            Item: {
+              pk,
+              sk: pk,
+              state: next.state,
+              openedAt: next.openedAt,
+              consecutiveFailures: next.consecutiveFailures,
+              windowStart: next.windowStart,
+              windowRequests: next.windowRequests,
+              windowFailures: next.windowFailures,
+              version: (version ?? 0) + 1,
+              updatedAt: Date.now(),
+            },
+            ...condition,
+          }),
+        );
+        return next;
+      } catch (error: unknown) {
+        throwIfDynamoTableMissing(error, this.tableName);
+        // Another writer updated the state since it was read
+        if (
+          error &&
+          typeof error === 'object' &&
+          'name' in error &&
+          error.name === 'ConditionalCheckFailedException'
+        ) {
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    throw new Error(
+      `Failed to update circuit breaker state for origin "${origin}" after ${maxAttempts} attempts`,
+    );
+  }
+
+  async delete(origin: string): Promise<void> {
+    if (this.isDestroyed) {
+      throw new Error('Circuit breaker store has been destroyed');
+    }
+
+    this.assertValidOrigin(origin);
+
+    const pk = `CIRCUIT#${origin}`;
+
+    try {
+      await this.docClient.send(
+        new DeleteCommand({
+          TableName: this.tableName,
+          Key: { pk, sk: pk },
+        }),
+      );
+    } catch (error: unknown) {
+      throwIfDynamoTableMissing(error, this.tableName);
+      throw error;
+    }
+  }
+
+  async clear(): Promise<void> {
+    if (this.isDestroyed) {
+      throw new Error('Circuit breaker store has been destroyed');
+    }
+
+    let lastEvaluatedKey: Record<string, unknown> | undefined;
+
+    do {
+      let scanResult;
+      try {
+        scanResult = await this.docClient.send(
+          new ScanCommand({
+            TableName: this.tableName,
+            FilterExpression: 'begins_with(pk, :prefix)',
+            ExpressionAttributeValues: {
+              ':prefix': 'CIRCUIT#',
+            },
+            ProjectionExpression: 'pk, sk',
+            ExclusiveStartKey: lastEvaluatedKey,
+          }),
+        );
+      } catch (error: unknown) {
+        throwIfDynamoTableMissing(error, this.tableName);
+        throw error;
+      }
+
+      const items = scanResult.Items ?? [];
+      if (items.length > 0) {
+        try {
+          await batchDeleteWithRetries(
+            this.docClient,
+            this.tableName,
+            items.map((item) => ({ pk: item['pk'], sk: item['sk'] })),
+          );
+        } catch (error: unknown) {
+          throwIfDynamoTableMissing(error, this.tableName);
+          throw error;
+        }
+      }
+
+      lastEvaluatedKey = scanResult.LastEvaluatedKey as
+        | Record<string, unknown>
+        | undefined;
+    } while (lastEvaluatedKey);
+  }
+
+  async close(): Promise<void> {
+    this.isDestroyed = true;
+
+    if (this.isClientManaged && this.rawClient) {
+      this.rawClient.destroy();
+    }
+  }
+
+  destroy(): void {
+    this.close();
+  }
+
+  private async readState(
+    origin: string,
+    consistent: boolean,
+  ): Promise<{
+    state?: CircuitBreakerState;
+    version?: number;
+  }> {
+    const pk = `CIRCUIT#${origin}`;
+
+    let item: Record<string, unknown> | undefined;
+    try {
+      const result = await this.docClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: { pk, sk: pk },
+          ...(consistent ? { ConsistentRead: true } : {}),
+        }),
+      );
+      item = result.Item as Record<string, unknown> | undefined;
+    } catch (error: unknown) {
+      throwIfDynamoTableMissing(error, this.tableName);
+      throw error;
+    }
+
+    if (!item) {
+      return {};
+    }
+
+    return {
+      state: {
+        state: item['state'] as CircuitState,
+        openedAt: item['openedAt'] as number,
+        consecutiveFailures: item['consecutiveFailures'] as number,
+        windowStart: item['windowStart'] as number,
+        windowRequests: item['windowRequests'] as number,
+        windowFailures: item['windowFailures'] as number,
+      },
+      version: item['version'] as number | undefined,
+    };
+  }
+
+  private assertValidOrigin(origin: string): void {
+    assertDynamoKeyPart(origin, 'origin');
+  }
+}
@@ -4,18 +4,66 @@ import {
 } from '@aws-sdk/client-dynamodb';
 import {
   DynamoDBDocumentClient,
+  GetCommand,
   PutCommand,
   QueryCommand,
   ScanCommand,
   BatchWriteCommand,
   TransactWriteCommand,
 } from '@aws-sdk/lib-dynamodb';
+import { describeRateLimitAlgorithms } from '@repo/vitest-config/rate-limit-behavior';
 import { mockClient } from 'aws-sdk-client-mock';
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
 import { DynamoDBRateLimitStore } from './dynamodb-rate-limit-store.js';
 
 const ddbMock = mockClient(DynamoDBDocumentClient);
 
+function conditionalCheckFailed(): Error {
+  const error = new Error('The conditional request failed');
+  error.name = 'ConditionalCheckFailedException';
+  return error;
+}
+
+/**
+ * Serve algorithm state items from a map, honouring the conditional puts
+ * the store relies on.
+ */
+function mockStateTable(): Map<string, Record<string, unknown>> {
+  const items = new Map<string, Record<string, unknown>>();
+
+  ddbMock.on(GetCommand).callsFake((input) => ({
+    Item: items.get(input.Key.pk),
+  }));
+  ddbMock.on(PutCommand).callsFake((input) => {
+    const existing = items.get(input.Item.pk);
+    const conflict =
+      input.ConditionExpression === 'attribute_not_exists(pk)'
+        ? existing !== undefined
+        : existing?.['version'] !== input.ExpressionAttributeValues[':version'];
+    if (conflict) {
+      throw conditionalCheckFailed();
+    }
+    items.set(input.Item.pk, input.Item);
+    return {};
+  });
+  ddbMock.on(QueryCommand).callsFake((input) => {
+    const item = items.get(input.ExpressionAttributeValues[':pk']);
+    return { Items: item ? [{ pk: item['pk'], sk: item['sk'] }] : [] };
+  });
+  ddbMock.on(BatchWriteCommand).callsFake((input) => {
+    for (const requests of Object.values(input.RequestItems)) {
+      for (const request of requests as Array<{
+        DeleteRequest: { Key: { pk: string } };
+      }>) {
+        items.delete(request.DeleteRequest.Key.pk);
+      }
+    }
+    return {};
+  });
+
+  return items;
+}
+
 describe('DynamoDBRateLimitStore', () => {
   let store: DynamoDBRateLimitStore;
   const defaultConfig = { limit: 5, windowMs: 1000 };
@@ -85,12 +133,13 @@ describe('DynamoDBRateLimitStore', () => {
             { pk: 'RATELIMIT#test', sk: 'TS#124#uuid2' },
           ],
         })
-        // Slot partition key query returns empty
+        // Slot and state partition key queries return empty
+        .resolvesOnce({ Items: [] })
         .resolvesOnce({ Items: [] });
       ddbMock.on(BatchWriteCommand).resolvesOnce({});
 
       await store.reset('test');
-      expect(ddbMock.calls()).toHaveLength(3);
+      expect(ddbMock.calls()).toHaveLength(4);
     });
 
     it('should retry acquire on conditional transaction cancellation reasons', async () => {
@@ -123,12 +172,13 @@ describe('DynamoDBRateLimitStore', () => {
         .resolvesOnce({
           Items: [{ pk: 'RATELIMIT#test', sk: 'TS#2#u2' }],
         })
-        // Slot partition key query returns empty
+        // Slot and state partition key queries return empty
+        .resolvesOnce({ Items: [] })
         .resolvesOnce({ Items: [] });
       ddbMock.on(BatchWriteCommand).resolves({});
 
       await store.reset('test');
-      expect(ddbMock.calls()).toHaveLength(5);
+      expect(ddbMock.calls()).toHaveLength(6);
     });
   });
 
@@ -341,4 +391,94 @@ describe('DynamoDBRateLimitStore', () => {
       );
     });
   });
+
+  describe('rate-limit algorithms', () => {
+    describeRateLimitAlgorithms({
+      createStore: (config) => {
+        mockStateTable();
+        return new DynamoDBRateLimitStore({
+          client: DynamoDBDocumentClient.from(new DynamoDBClient({})),
+          defaultConfig: config,
+        });
+      },
+      destroyStore: (algorithmStore) => algorithmStore.destroy(),
+    });
+
+    const tokenBucket = {
+      limit: 1,
+      windowMs: 1000,
+      algorithm: 'token-bucket' as const,
+    };
+
+    it('should store one versioned state item per resource', async () => {
+      const items = mockStateTable();
+      store.setResourceConfig('resource', tokenBucket);
+
+      await store.record('resource');
+
+      expect(items.get('RATELIMIT_STATE#resource')).toMatchObject({
+        sk: 'RATELIMIT_STATE#resource',
+        value: 0,
+        version: 1,
+      });
+      const getInput = ddbMock.commandCalls(GetCommand)[0]!.args[0].input;
+      expect(getInput.ConsistentRead).toBe(true);
+    });
+
+    it('should retry when another writer updates the state first', async () => {
+      ddbMock.on(GetCommand).resolves({});
+      ddbMock
+        .on(PutCommand)
+        .rejectsOnce(conditionalCheckFailed())
+        .resolvesOnce({});
+      store.setResourceConfig('resource', tokenBucket);
+
+      await store.record('resource');
+
+      expect(ddbMock.commandCalls(GetCommand)).toHaveLength(2);
+      expect(ddbMock.commandCalls(PutCommand)).toHaveLength(2);
+    });
+
+    it('should give up after repeated conflicts', async () => {
+      ddbMock.on(GetCommand).resolves({});
+      ddbMock.on(PutCommand).rejects(conditionalCheckFailed());
+      store.setResourceConfig('resource', tokenBucket);
+
+      await expect(store.record('resource')).rejects.toThrow(
+        'Failed to update rate limit state for resource "resource" after 10 attempts',
+      );
+    });
+
+    it('should rethrow other state errors', async () => {
+      ddbMock.on(GetCommand).resolves({});
+      ddbMock.on(PutCommand).rejects(new Error('Throttled'));
+      store.setResourceConfig('resource', tokenBucket);
+
+      await expect(store.record('resource')).rejects.toThrow('Throttled');
+    });
+
+    it('should throw a clear error when the table is missing', async () => {
+      ddbMock.on(GetCommand).rejects(
+        new ResourceNotFoundException({
+          message: 'Requested resource not found',
+          $metadata: {},
+        }),
+      );
+      store.setResourceConfig('resource', tokenBucket);
+
+      await expect(store.canProceed('resource')).rejects.toThrow(
+        'was not found',
+      );
+    });
+
+    it('should clear state items', async () => {
+      ddbMock.on(ScanCommand).resolvesOnce({ Items: [] });
+      await store.clear();
+
+      const scanInput = ddbMock.commandCalls(ScanCommand)[0]!.args[0].input;
+      expect(scanInput.ExpressionAttributeValues).toMatchObject({
+        ':statePrefix': 'RATELIMIT_STATE#',
+      });
+    });
+  });
 });
@@ -5,6 +5,7 @@ import {
 } from '@aws-sdk/client-dynamodb';
 import {
   DynamoDBDocumentClient,
+  GetCommand,
   PutCommand,
   QueryCommand,
   ScanCommand,
@@ -12,8 +13,14 @@ import {
 } from '@aws-sdk/lib-dynamodb';
 import {
   type RateLimitConfig,
+  type RateLimitDecision,
+  type RateLimitState,
   type RateLimitStore,
   DEFAULT_RATE_LIMIT,
+  consumeRateLimit,
+  peekRateLimit,
+  rateLimitStateExpiresAt,
+  usesSlidingLog,
 } from '@http-client-toolkit/core';
 import {
   assertDynamoKeyPart,
@@ -76,6 +83,9 @@ export class DynamoDBRateLimitStore implements RateLimitStore {
     this.assertValidResource(resource);
 
     const config = this.resourceConfigs.get(resource) ?? this.defaultConfig;
+    if (!usesSlidingLog(config)) {
+      return (await this.peek(resource, config)).allowed;
+    }
     const now = Date.now();
     const windowStart = now - config.windowMs;
 
@@ -95,6 +105,9 @@ export class DynamoDBRateLimitStore implements RateLimitStore {
     this.assertValidResource(resource);
 
     const config = this.resourceConfigs.get(resource) ?? this.defaultConfig;
+    if (!usesSlidingLog(config)) {
+      return this.consumeState(resource, config, true);
+    }
     if (config.limit <= 0) {
       return false;
     }
@@ -169,8 +182,13 @@ export class DynamoDBRateLimitStore implements RateLimitStore {
 
     this.assertValidResource(resource);
 
-    const now = Date.now();
     const config = this.resourceConfigs.get(resource) ?? this.defaultConfig;
+    if (!usesSlidingLog(config)) {
+      await this.consumeState(resource, config, false);
+      return;
+    }
+
+    const now = Date.now();
     const ttl = Math.floor((now + config.windowMs) / 1000);
     const uuid = randomUUID();
 
@@ -204,6 +222,10 @@ export class DynamoDBRateLimitStore implements RateLimitStore {
     this.assertValidResource(resource);
 
     const config = this.resourceConfigs.get(resource) ?? this.defaultConfig;
+    if (!usesSlidingLog(config)) {
+      const { remaining, resetTime, limit } = await this.peek(resource, config);
+      return { remaining, resetTime, limit };
+    }
     const now = Date.now();
     const windowStart = now - config.windowMs;
 
@@ -239,6 +261,10 @@ export class DynamoDBRateLimitStore implements RateLimitStore {
 
     const config = this.resourceConfigs.get(resource) ?? this.defaultConfig;
 
+    if (!usesSlidingLog(config)) {
+      return (await this.peek(resource, config)).waitMs;
+    }
+
     if (config.limit === 0) {
       return config.windowMs;
     }
@@ -314,10 +340,11 @@ export class DynamoDBRateLimitStore implements RateLimitStore {
           new ScanCommand({
             TableName: this.tableName,
             FilterExpression:
-              'begins_with(pk, :prefix) OR begins_with(pk, :slotPrefix)',
+              'begins_with(pk, :prefix) OR begins_with(pk, :slotPrefix) OR begins_with(pk, :statePrefix)',
             ExpressionAttributeValues: {
               ':prefix': 'RATELIMIT#',
               ':slotPrefix': 'RATELIMIT_SLOT#',
+              ':statePrefix': 'RATELIMIT_STATE#',
             },
             ProjectionExpression: 'pk, sk',
             ExclusiveStartKey: lastEvaluatedKey,
@@ -360,6 +387,115 @@ export class DynamoDBRateLimitStore implements RateLimitStore {
     this.close();
   }
 
+  private async readState(
+    resource: string,
+  ): Promise<{ state?: RateLimitState; version?: number }> {
+    const pk = `RATELIMIT_STATE#${resource}`;
+
+    let item: Record<string, unknown> | undefined;
+    try {
+      const result = await this.docClient.send(
+        new GetCommand({
+          TableName: this.tableName,
+          Key: { pk, sk: pk },
+          ConsistentRead: true,
+        }),
+      );
+      item = result.Item as Record<string, unknown> | undefined;
+    } catch (error: unknown) {
+      throwIfDynamoTableMissing(error, this.tableName);
+      throw error;
+    }
+
+    if (!item) {
+      return {};
+    }
+
+    // Items past their TTL may linger until DynamoDB deletes them, but an
+    // expired state decides the same as no state at all
+    return {
+      state: {
+        value: item['value'] as number,
+        updatedAt: item['updatedAt'] as number,
+        previous: item['previous'] as number,
+      },
+      version: item['version'] as number,
+    };
+  }
+
+  private async peek(
+    resource: string,
+    config: RateLimitConfig,
+  ): Promise<RateLimitDecision> {
+    const { state } = await this.readState(resource);
+    return peekRateLimit(config, state);
+  }
+
+  /**
+   * Record a request in the resource's algorithm state. With
+   * `requireCapacity`, records only if the state allows a request now.
+   * Writes are conditional on the version that was read, so concurrent
+   * writers retry instead of overwriting each other.
+   */
+  private async consumeState(
+    resource: string,
+    config: RateLimitConfig,
+    requireCapacity: boolean,
+  ): Promise<boolean> {
+    const pk = `RATELIMIT_STATE#${resource}`;
+    const maxAttempts = 10;
+
+    for (let attempt = 0; attempt < maxAttempts; attempt++) {
+      const { state, version } = await this.readState(resource);
+      const now = Date.now();
+      if (requireCapacity && !peekRateLimit(config, state, now).allowed) {
+        return false;
+      }
+
+      const next = consumeRateLimit(config, state, now);
+      try {
+        await this.docClient.send(
+          new PutCommand({
+            TableName: this.tableName,
+            Item: {
+              pk,
+              sk: pk,
+              value: next.value,
+              updatedAt: next.updatedAt,
+              previous: next.previous,
+              version: (version ?? 0) + 1,
+              ttl: Math.ceil(rateLimitStateExpiresAt(config, next) / 1000),
+            },
+            ...(version === undefined
+              ? { ConditionExpression: 'attribute_not_exists(pk)' }
+              : {
+                  ConditionExpression: '#version = :version',
+                  ExpressionAttributeNames: { '#version': 'version' },
+                  ExpressionAttributeValues: { ':version': version },
+                }),
+          }),
+        );
+        return true;
+      } catch (error: unknown) {
+        throwIfDynamoTableMissing(error, this.tableName);
+        // Another writer updated the state since it was read
+        if (
+          error &&
+          typeof error === 'object' &&
+          'name' in error &&
+          error.name === 'ConditionalCheckFailedException'
+        ) {
+          continue;
+        }
+        throw error;
+      }
+    }
+
+    throw new Error(
+      `Failed to update rate limit state for resource "${resource}" after ${maxAttempts} attempts`,
+    );
+  }
+
   private async countRequestsInWindow(
     resource: string,
     windowStart: number,
@@ -410,6 +546,7 @@ export class DynamoDBRateLimitStore implements RateLimitStore {
     const partitionKeys = [
       `RATELIMIT#${resource}`,
       `RATELIMIT_SLOT#${resource}`,
+      `RATELIMIT_STATE#${resource}`,
     ];
 
     for (const pk of partitionKeys) {
@@ -1,4 +1,5 @@
 import {
+  BatchGetCommand,
   BatchWriteCommand,
   QueryCommand,
   type DynamoDBDocumentClient,
@@ -8,6 +9,7 @@ import {
 type DynamoItem = Record<string, unknown>;
 
 const MAX_BATCH_WRITE_RETRIES = 8;
+const MAX_BATCH_GET_RETRIES = 8;
 const MAX_DYNAMO_KEY_PART_BYTES = 512;
 
 function sleep(ms: number): Promise<void> {
@@ -60,6 +62,49 @@ export async function batchDeleteWithRetries(
   }
 }
 
+export async function batchGetWithRetries(
+  docClient: DynamoDBDocumentClient,
+  tableName: string,
+  keys: Array<DynamoItem>,
+): Promise<Array<DynamoItem>> {
+  const items: Array<DynamoItem> = [];
+
+  for (let i = 0; i < keys.length; i += 100) {
+    let pendingKeys = keys.slice(i, i + 100);
+
+    for (let attempt = 0; pendingKeys.length > 0; attempt++) {
+      const response = await docClient.send(
+        new BatchGetCommand({
+          RequestItems: {
+            [tableName]: { Keys: pendingKeys },
+          },
+        }),
+      );
+
+      items.push(
+        ...((response.Responses?.[tableName] ?? []) as Array<DynamoItem>),
+      );
+
+      const unprocessed = response.UnprocessedKeys?.[tableName]?.Keys ?? [];
+
+      if (unprocessed.length === 0) {
+        break;
+      }
+
+      if (attempt >= MAX_BATCH_GET_RETRIES) {
+        throw new Error(
+          `Failed to read all items from table "${tableName}" after ${MAX_BATCH_GET_RETRIES + 1} attempts`,
+        );
+      }
+
+      pendingKeys = unprocessed as Array<DynamoItem>;
+      await sleep(getRetryDelayMs(attempt));
+    }
+  }
+
+  return items;
+}
+
 export async function queryCountAllPages(
   docClient: DynamoDBDocumentClient,
   input: QueryCommandInput,
@@ -6,6 +6,7 @@ describe('store-dynamodb index exports', () => {
     expect(dynamodb.DynamoDBDedupeStore).toBeTypeOf('function');
     expect(dynamodb.DynamoDBRateLimitStore).toBeTypeOf('function');
     expect(dynamodb.DynamoDBAdaptiveRateLimitStore).toBeTypeOf('function');
+    expect(dynamodb.DynamoDBCircuitBreakerStore).toBeTypeOf('function');
     expect(dynamodb.DEFAULT_TABLE_NAME).toBe('http-client-toolkit');
     expect(dynamodb.TABLE_SCHEMA).toBeDefined();
   });
@@ -2,11 +2,13 @@ export { DynamoDBCacheStore } from './dynamodb-cache-store.js';
 export { DynamoDBDedupeStore } from './dynamodb-dedupe-store.js';
 export { DynamoDBRateLimitStore } from './dynamodb-rate-limit-store.js';
 export { DynamoDBAdaptiveRateLimitStore } from './dynamodb-adaptive-rate-limit-store.js';
+export { DynamoDBCircuitBreakerStore } from './dynamodb-circuit-breaker-store.js';
 
 export type { DynamoDBCacheStoreOptions } from './dynamodb-cache-store.js';
 export type { DynamoDBDedupeStoreOptions } from './dynamodb-dedupe-store.js';
 export type { DynamoDBRateLimitStoreOptions } from './dynamodb-rate-limit-store.js';
 export type { DynamoDBAdaptiveRateLimitStoreOptions } from './dynamodb-adaptive-rate-limit-store.js';
+export type { DynamoDBCircuitBreakerStoreOptions } from './dynamodb-circuit-breaker-store.js';
 
 export { DEFAULT_TABLE_NAME, TABLE_SCHEMA } from './table.js';
 
@@ -14,6 +16,8 @@ export type { RateLimitConfig } from '@http-client-toolkit/core';
 
 export type {
   CacheStore,
+  CircuitBreakerStore,
+  CircuitBreakerState,
   DedupeStore,
   RateLimitStore,
   AdaptiveRateLimitStore,
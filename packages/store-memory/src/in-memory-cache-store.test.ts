@@ -55,6 +55,15 @@ describe('InMemoryCacheStore', () => {
       expect(value1).toBeUndefined();
       expect(value2).toBeUndefined();
     });
+
+    it('should get many values in input order', async () => {
+      await store.set('key1', 'value1', 60);
+      await store.set('key2', { n: 2 }, 60);
+
+      const values = await store.getMany(['key2', 'missing', 'key1']);
+
+      expect(values).toEqual([{ n: 2 }, undefined, 'value1']);
+    });
   });
 
   describe('TTL functionality', () => {
@@ -143,6 +152,19 @@ describe('InMemoryCacheStore', () => {
       const value = await store.get('key1');
       expect(value).toBeUndefined();
     });
+    it('should handle binary values', async () => {
+      const bytes = new Uint8Array([0, 1, 254, 255]);
+      await store.set('key1', { body: bytes.buffer }, 60);
+      const value = (await store.get('key1')) as { body: ArrayBuffer };
+      expect(new Uint8Array(value.body)).toEqual(bytes);
+    });
+
+    it('should count binary values by byte length', async () => {
+      await store.set('key1', new Uint8Array(10_000), 60);
+      const { memoryUsageBytes } = store.getStats();
+      expect(memoryUsageBytes).toBeGreaterThanOrEqual(10_000);
+      expect(memoryUsageBytes).toBeLessThan(11_000);
+    });
   });
 
   describe('statistics', () => {
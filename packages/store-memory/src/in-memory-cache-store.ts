@@ -70,6 +70,10 @@ export class InMemoryCacheStore<T = unknown> implements CacheStore<T> {
     return item.value;
   }
 
+  async getMany(hashes: Array<string>): Promise<Array<T | undefined>> {
+    return Promise.all(hashes.map((hash) => this.get(hash)));
+  }
+
   async set(hash: string, value: T, ttlSeconds: number): Promise<void> {
     const now = Date.now();
     const expiresAt = ttlSeconds === 0 ? 0 : now + ttlSeconds * 1000;
@@ -254,9 +258,18 @@ export class InMemoryCacheStore<T = unknown> implements CacheStore<T> {
     // Metadata size (expiresAt & lastAccessed)
     size += 16;
 
-    // Value size via safe-stringify
+    // Value size via safe-stringify. Binary values are held as-is, so count
+    // their bytes directly rather than their (much larger) JSON rendering.
     try {
-      const json = safeStringify(value) ?? '';
+      const json =
+        safeStringify(value, function (this: unknown, key, replaced) {
+          const original = (this as Record<string, unknown>)[key];
+          if (original instanceof ArrayBuffer || ArrayBuffer.isView(original)) {
+            size += original.byteLength;
+            return null;
+          }
+          return replaced;
+        }) ?? '';
       size += json.length * 2;
     } catch {
       size += 1024; // fallback estimate
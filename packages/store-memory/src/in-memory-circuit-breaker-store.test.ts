@@ -0,0 +1,79 @@
+import type { CircuitBreakerState } from '@http-client-toolkit/core';
+import { InMemoryCircuitBreakerStore } from './in-memory-circuit-breaker-store.js';
+
+const openState: CircuitBreakerState = {
+  state: 'open',
+  openedAt: 1_000,
+  consecutiveFailures: 0,
+  windowStart: 1_000,
+  windowRequests: 0,
+  windowFailures: 0,
+};
+
+describe('InMemoryCircuitBreakerStore', () => {
+  let store: InMemoryCircuitBreakerStore;
+
+  beforeEach(() => {
+    store = new InMemoryCircuitBreakerStore();
+  });
+
+  it('returns undefined for unknown origins', async () => {
+    expect(await store.get('https://api.example.com')).toBeUndefined();
+  });
+
+  it('stores state per origin', async () => {
+    await store.set('https://api.example.com', openState);
+
+    expect(await store.get('https://api.example.com')).toEqual(openState);
+    expect(await store.get('https://other.example.com')).toBeUndefined();
+  });
+
+  it('copies state so callers cannot mutate the stored value', async () => {
+    const state = { ...openState };
+    await store.set('https://api.example.com', state);
+    state.state = 'closed';
+
+    const stored = await store.get('https://api.example.com');
+    stored!.openedAt = 0;
+
+    expect(await store.get('https://api.example.com')).toEqual(openState);
+  });
+
+  it('applies concurrent updates one after another', async () => {
+    const failure = (state: CircuitBreakerState | undefined) => ({
+      ...openState,
+      consecutiveFailures: (state?.consecutiveFailures ?? 0) + 1,
+    });
+
+    await Promise.all([
+      store.update('https://api.example.com', failure),
+      store.update('https://api.example.com', failure),
+    ]);
+
+    expect(
+      (await store.get('https://api.example.com'))?.consecutiveFailures,
+    ).toBe(2);
+  });
+
+  it('leaves state alone when the updater returns undefined', async () => {
+    await store.set('https://api.example.com', openState);
+
+    const state = await store.update(
+      'https://api.example.com',
+      () => undefined,
+    );
+
+    expect(state).toEqual(openState);
+  });
+
+  it('deletes and clears state', async () => {
+    await store.set('https://a.example.com', openState);
+    await store.set('https://b.example.com', openState);
+
+    await store.delete('https://a.example.com');
+    expect(await store.get('https://a.example.com')).toBeUndefined();
+
+    await store.clear();
+    expect(await store.get('https://b.example.com')).toBeUndefined();
+  });
+});
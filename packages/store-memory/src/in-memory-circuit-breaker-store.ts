@@ -0,0 +1,45 @@
+import type {
+  CircuitBreakerState,
+  CircuitBreakerStore,
+} from '@http-client-toolkit/core';
+
+/**
+ * Keeps circuit breaker state in memory so that several `HttpClient`
+ * instances in one process trip and recover together.
+ */
+export class InMemoryCircuitBreakerStore implements CircuitBreakerStore {
+  private states = new Map<string, CircuitBreakerState>();
+
+  async get(origin: string): Promise<CircuitBreakerState | undefined> {
+    const state = this.states.get(origin);
+    return state ? { ...state } : undefined;
+  }
+
+  async set(origin: string, state: CircuitBreakerState): Promise<void> {
+    this.states.set(origin, { ...state });
+  }
+
+  async update(
+    origin: string,
+    updater: (
+      state: CircuitBreakerState | undefined,
+    ) => CircuitBreakerState | undefined,
+  ): Promise<CircuitBreakerState | undefined> {
+    // Read and write without awaiting in between, so updates cannot interleave
+    const stored = this.states.get(origin);
+    const next = updater(stored ? { ...stored } : undefined);
+    if (next) {
+      this.states.set(origin, { ...next });
+    }
+    const state = this.states.get(origin);
+    return state ? { ...state } : undefined;
+  }
+
+  async delete(origin: string): Promise<void> {
+    this.states.delete(origin);
+  }
+
+  async clear(): Promise<void> {
+    this.states.clear();
+  }
+}
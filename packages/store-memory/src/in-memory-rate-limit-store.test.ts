@@ -1,3 +1,4 @@
+import { describeRateLimitAlgorithms } from '@repo/vitest-config/rate-limit-behavior';
 import { describe, it, expect, beforeEach, afterEach, vi as _vi } from 'vitest';
 import { InMemoryRateLimitStore } from './in-memory-rate-limit-store.js';
 
@@ -462,4 +463,65 @@ describe('InMemoryRateLimitStore', () => {
       expect(status.remaining).toBe(defaultConfig.limit - 1);
     });
   });
+
+  describe('rate-limit algorithms', () => {
+    describeRateLimitAlgorithms({
+      createStore: (config) =>
+        new InMemoryRateLimitStore({
+          defaultConfig: config,
+          cleanupIntervalMs: 0,
+        }),
+      destroyStore: (algorithmStore) => algorithmStore.destroy(),
+    });
+
+    const fixedWindow = {
+      limit: 1,
+      windowMs: 1000,
+      algorithm: 'fixed-window' as const,
+    };
+
+    afterEach(() => {
+      _vi.useRealTimers();
+    });
+
+    it('should include algorithm states in stats until they expire', async () => {
+      _vi.useFakeTimers({ toFake: ['Date'] });
+      _vi.setSystemTime(0);
+      store.setResourceConfig('limited', fixedWindow);
+      store.setResourceConfig('open', { ...fixedWindow, limit: 2 });
+
+      await store.record('limited');
+      await store.record('open');
+
+      expect(store.getStats()).toEqual({
+        totalResources: 2,
+        activeResources: 2,
+        rateLimitedResources: 1,
+        totalRequests: 2,
+      });
+
+      _vi.setSystemTime(1000);
+      store.cleanup();
+      expect(store.getStats()).toMatchObject({
+        totalResources: 0,
+        totalRequests: 0,
+      });
+    });
+
+    it('should drop algorithm state on reset, config change and clear', async () => {
+      store.setResourceConfig('resource', fixedWindow);
+
+      await store.record('resource');
+      await store.reset('resource');
+      expect(await store.canProceed('resource')).toBe(true);
+
+      await store.record('resource');
+      store.setResourceConfig('resource', fixedWindow);
+      expect(await store.canProceed('resource')).toBe(true);
+
+      await store.record('resource');
+      store.clear();
+      expect(store.getStats().totalResources).toBe(0);
+    });
+  });
 });
@@ -1,7 +1,13 @@
 import {
   type RateLimitConfig,
+  type RateLimitDecision,
+  type RateLimitState,
   type RateLimitStore,
   DEFAULT_RATE_LIMIT,
+  consumeRateLimit,
+  peekRateLimit,
+  rateLimitStateExpiresAt,
+  usesSlidingLog,
 } from '@http-client-toolkit/core';
 
 interface RateLimitInfo {
@@ -11,6 +17,14 @@ interface RateLimitInfo {
   resetTime: number;
 }
 
+/** State for resources whose config uses an algorithm other than sliding-log. */
+interface AlgorithmStateInfo {
+  state: RateLimitState;
+  expiresAt: number;
+  /** Requests recorded in `state`, for `totalRequests`. */
+  requests: number;
+}
+
 export interface InMemoryRateLimitStoreOptions {
   defaultConfig?: RateLimitConfig;
   resourceConfigs?: Map<string, RateLimitConfig>;
@@ -19,6 +33,7 @@ export interface InMemoryRateLimitStoreOptions {
 
 export class InMemoryRateLimitStore implements RateLimitStore {
   private limits = new Map<string, RateLimitInfo>();
+  private states = new Map<string, AlgorithmStateInfo>();
   private defaultConfig: RateLimitConfig;
   private resourceConfigs = new Map<string, RateLimitConfig>();
   private cleanupInterval?: NodeJS.Timeout;
@@ -49,6 +64,9 @@ export class InMemoryRateLimitStore implements RateLimitStore {
 
   async canProceed(resource: string): Promise<boolean> {
     const config = this.resourceConfigs.get(resource) || this.defaultConfig;
+    if (!usesSlidingLog(config)) {
+      return this.peek(resource, config).allowed;
+    }
     const info = this.getOrCreateRateLimitInfo(resource, config);
 
     this.cleanupExpiredRequests(info);
@@ -58,6 +76,17 @@ export class InMemoryRateLimitStore implements RateLimitStore {
 
   async record(resource: string): Promise<void> {
     const config = this.resourceConfigs.get(resource) || this.defaultConfig;
+    if (!usesSlidingLog(config)) {
+      const current = this.getState(resource);
+      const state = consumeRateLimit(config, current?.state);
+      this.states.set(resource, {
+        state,
+        expiresAt: rateLimitStateExpiresAt(config, state),
+        requests: (current?.requests ?? 0) + 1,
+      });
+      this.totalRequests++;
+      return;
+    }
     const info = this.getOrCreateRateLimitInfo(resource, config);
 
     this.cleanupExpiredRequests(info);
@@ -76,6 +105,10 @@ export class InMemoryRateLimitStore implements RateLimitStore {
     limit: number;
   }> {
     const config = this.resourceConfigs.get(resource) || this.defaultConfig;
+    if (!usesSlidingLog(config)) {
+      const { remaining, resetTime, limit } = this.peek(resource, config);
+      return { remaining, resetTime, limit };
+    }
     const info = this.getOrCreateRateLimitInfo(resource, config);
 
     this.cleanupExpiredRequests(info);
@@ -97,10 +130,14 @@ export class InMemoryRateLimitStore implements RateLimitStore {
       );
     }
     this.limits.delete(resource);
+    this.deleteState(resource);
   }
 
   async getWaitTime(resource: string): Promise<number> {
     const config = this.resourceConfigs.get(resource) || this.defaultConfig;
+    if (!usesSlidingLog(config)) {
+      return this.peek(resource, config).waitMs;
+    }
     const info = this.getOrCreateRateLimitInfo(resource, config);
 
     this.cleanupExpiredRequests(info);
@@ -131,6 +168,7 @@ export class InMemoryRateLimitStore implements RateLimitStore {
     this.resourceConfigs.set(resource, config);
     // Reset existing limits for this resource to apply new config
     this.limits.delete(resource);
+    this.deleteState(resource);
   }
 
   /**
@@ -163,8 +201,18 @@ export class InMemoryRateLimitStore implements RateLimitStore {
       }
     }
 
+    for (const [resource] of this.states) {
+      const config = this.getResourceConfig(resource);
+      if (this.getState(resource)) {
+        activeResources++;
+        if (!this.peek(resource, config).allowed) {
+          rateLimitedResources++;
+        }
+      }
+    }
+
     return {
-      totalResources: this.limits.size,
+      totalResources: this.limits.size + this.states.size,
       activeResources,
       rateLimitedResources,
       totalRequests: this.totalRequests,
@@ -176,6 +224,7 @@ export class InMemoryRateLimitStore implements RateLimitStore {
    */
   clear(): void {
     this.limits.clear();
+    this.states.clear();
     this.totalRequests = 0;
   }
 
@@ -186,6 +235,9 @@ export class InMemoryRateLimitStore implements RateLimitStore {
     for (const [_resource, info] of this.limits) {
       this.cleanupExpiredRequests(info);
     }
+    for (const [resource] of this.states) {
+      this.getState(resource);
+    }
   }
 
   /**
@@ -199,6 +251,28 @@ export class InMemoryRateLimitStore implements RateLimitStore {
     this.clear();
   }
 
+  private peek(resource: string, config: RateLimitConfig): RateLimitDecision {
+    return peekRateLimit(config, this.getState(resource)?.state);
+  }
+
+  /** The resource's algorithm state, dropping it once expired. */
+  private getState(resource: string): AlgorithmStateInfo | undefined {
+    const info = this.states.get(resource);
+    if (info && info.expiresAt <= Date.now()) {
+      this.deleteState(resource);
+      return undefined;
+    }
+    return info;
+  }
+
+  private deleteState(resource: string): void {
+    const info = this.states.get(resource);
+    if (info) {
+      this.totalRequests = Math.max(0, this.totalRequests - info.requests);
+      this.states.delete(resource);
+    }
+  }
+
   private getOrCreateRateLimitInfo(
     resource: string,
     config: RateLimitConfig,
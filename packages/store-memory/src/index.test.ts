@@ -6,5 +6,6 @@ describe('store-memory index exports', () => {
     expect(memory.InMemoryDedupeStore).toBeTypeOf('function');
     expect(memory.InMemoryRateLimitStore).toBeTypeOf('function');
     expect(memory.AdaptiveRateLimitStore).toBeTypeOf('function');
+    expect(memory.InMemoryCircuitBreakerStore).toBeTypeOf('function');
   });
 });
@@ -6,8 +6,10 @@ describe('store-sqlite index exports', () => {
     expect(sqlite.SQLiteDedupeStore).toBeTypeOf('function');
     expect(sqlite.SQLiteRateLimitStore).toBeTypeOf('function');
     expect(sqlite.SqliteAdaptiveRateLimitStore).toBeTypeOf('function');
+    expect(sqlite.SQLiteCircuitBreakerStore).toBeTypeOf('function');
     expect(sqlite.cacheTable).toBeDefined();
     expect(sqlite.dedupeTable).toBeDefined();
     expect(sqlite.rateLimitTable).toBeDefined();
+    expect(sqlite.circuitBreakerTable).toBeDefined();
   });
 });
@@ -1,9 +1,17 @@
-import { sqliteTable, text, integer, blob } from 'drizzle-orm/sqlite-core';
+import {
+  sqliteTable,
+  text,
+  integer,
+  blob,
+  real,
+} from 'drizzle-orm/sqlite-core';
 
 // Cache table for storing cached API responses
 export const cacheTable = sqliteTable('cache', {
   hash: text('hash').primaryKey(),
   value: blob('value', { mode: 'json' }).notNull(),
+  // Raw bytes of any binary data in `value`, kept out of the JSON document
+  binaryValue: blob('binary_value', { mode: 'buffer' }),
   expiresAt: integer('expires_at').notNull(),
   createdAt: integer('created_at').notNull(),
 });
@@ -26,6 +34,29 @@ export const rateLimitTable = sqliteTable('rate_limits', {
   id: integer('id').primaryKey({ autoIncrement: true }),
 });
 
+// Per-resource state for rate-limit algorithms other than sliding-log
+export const rateLimitStateTable = sqliteTable('rate_limit_states', {
+  resource: text('resource').primaryKey(),
+  value: real('value').notNull(),
+  updatedAt: integer('updated_at').notNull(),
+  previous: real('previous').notNull(),
+  expiresAt: integer('expires_at').notNull(),
+});
+
+// Circuit breaker table for sharing per-origin breaker state between processes
+export const circuitBreakerTable = sqliteTable('circuit_breakers', {
+  origin: text('origin').primaryKey(),
+  state: text('state').notNull(), // 'closed', 'open', 'half-open'
+  openedAt: integer('opened_at').notNull(),
+  consecutiveFailures: integer('consecutive_failures').notNull(),
+  windowStart: integer('window_start').notNull(),
+  windowRequests: integer('window_requests').notNull(),
+  windowFailures: integer('window_failures').notNull(),
+  updatedAt: integer('updated_at').notNull(),
+});
+
 export type CacheRow = typeof cacheTable.$inferSelect;
 export type DedupeRow = typeof dedupeTable.$inferSelect;
 export type RateLimitRow = typeof rateLimitTable.$inferSelect;
+export type RateLimitStateRow = typeof rateLimitStateTable.$inferSelect;
+export type CircuitBreakerRow = typeof circuitBreakerTable.$inferSelect;
@@ -67,6 +67,15 @@ describe('SQLiteCacheStore', () => {
       expect(value1).toBeUndefined();
       expect(value2).toBeUndefined();
     });
+
+    it('should get many values in input order', async () => {
+      await store.set('key1', 'value1', 60);
+      await store.set('key2', { n: 2 }, 60);
+
+      const values = await store.getMany(['key2', 'missing', 'key1']);
+
+      expect(values).toEqual([{ n: 2 }, undefined, 'value1']);
+    });
   });
 
   describe('TTL functionality', () => {
@@ -155,6 +164,35 @@ describe('SQLiteCacheStore', () => {
       const value = await store.get('key1');
       expect(value).toBeUndefined();
     });
+
+    it('should handle binary values', async () => {
+      const bytes = new Uint8Array([0, 1, 127, 128, 254, 255]);
+      await store.set('key1', { body: bytes.buffer, type: 'image/png' }, 60);
+      const value = (await store.get('key1')) as {
+        body: ArrayBuffer;
+        type: string;
+      };
+      expect(value.type).toBe('image/png');
+      expect(value.body).toBeInstanceOf(ArrayBuffer);
+      expect(new Uint8Array(value.body)).toEqual(bytes);
+    });
+
+    it('should store binary values in a blob column', async () => {
+      await store.set('key1', new Uint8Array([1, 2, 3]).buffer, 60);
+
+      const db = new Database(testDbPath);
+      try {
+        const row = db
+          .prepare(
+            'SELECT typeof(binary_value) AS kind, binary_value FROM cache WHERE hash = ?',
+          )
+          .get('key1') as { kind: string; binary_value: Buffer };
+        expect(row.kind).toBe('blob');
+        expect([...row.binary_value]).toEqual([1, 2, 3]);
+      } finally {
+        db.close();
+      }
+    });
   });
 
   describe('persistence', () => {
@@ -617,5 +655,48 @@ describe('SQLiteCacheStore', () => {
         smallLimitStore.destroy();
       }
     });
+
+    it('should count binary bytes towards maxEntrySizeBytes', async () => {
+      const smallLimitStore = new SQLiteCacheStore({
+        database: testDbPath,
+        maxEntrySizeBytes: 100,
+      });
+
+      try {
+        await smallLimitStore.set('too-big', new ArrayBuffer(200), 60);
+        expect(await smallLimitStore.get('too-big')).toBeUndefined();
+      } finally {
+        smallLimitStore.destroy();
+      }
+    });
+  });
+
+  describe('migration', () => {
+    it('should add the binary column to an existing cache table', async () => {
+      store.destroy();
+      fs.unlinkSync(testDbPath);
+
+      const db = new Database(testDbPath);
+      db.exec(`
+        CREATE TABLE cache (
+          hash TEXT PRIMARY KEY,
+          value BLOB NOT NULL,
+          expires_at INTEGER NOT NULL,
+          created_at INTEGER NOT NULL
+        )
+      `);
+      db.prepare(
+        'INSERT INTO cache (hash, value, expires_at, created_at) VALUES (?, ?, 0, 0)',
+      ).run('legacy', Buffer.from(JSON.stringify(JSON.stringify({ a: 1 }))));
+      db.close();
+
+      store = new SQLiteCacheStore({ database: testDbPath });
+
+      expect(await store.get('legacy')).toEqual({ a: 1 });
+      await store.set('binary', new Uint8Array([9]).buffer, 60);
+      expect(
+        new Uint8Array((await store.get('binary')) as ArrayBuffer),
+      ).toEqual(new Uint8Array([9]));
+    });
   });
 });
@@ -1,8 +1,16 @@
-import type { CacheStore } from '@http-client-toolkit/core';
+import {
+  serializeStoreValue,
+  deserializeStoreValue,
+  type CacheStore,
+  type SerializedStoreValue,
+} from '@http-client-toolkit/core';
 import Database from 'better-sqlite3';
-import { and, eq, gt, lt, count, sql } from 'drizzle-orm';
+import { and, eq, gt, inArray, lt, count, sql } from 'drizzle-orm';
 import { drizzle, BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
-import { cacheTable } from './schema.js';
+import { cacheTable, type CacheRow } from './schema.js';
+
+/** Hashes looked up per statement by `getMany()`. */
+const GET_MANY_CHUNK_SIZE = 500;
 
 export interface SQLiteCacheStoreOptions {
   /** File path or existing `better-sqlite3` connection. Defaults to `':memory:'`. */
@@ -72,19 +80,46 @@ export class SQLiteCacheStore<T = unknown> implements CacheStore<T> {
       .where(eq(cacheTable.hash, hash))
       .limit(1);
 
-    if (result.length === 0) {
-      return undefined;
-    }
-
     const item = result[0];
     if (!item) {
       return undefined;
     }
 
+    return this.readRow(item);
+  }
+
+  async getMany(hashes: Array<string>): Promise<Array<T | undefined>> {
+    if (this.isDestroyed) {
+      throw new Error('Cache store has been destroyed');
+    }
+
+    const rows = new Map<string, CacheRow>();
+    // Stay well under SQLite's limit on bound parameters per statement
+    for (let i = 0; i < hashes.length; i += GET_MANY_CHUNK_SIZE) {
+      const chunk = hashes.slice(i, i + GET_MANY_CHUNK_SIZE);
+      const result = await this.db
+        .select()
+        .from(cacheTable)
+        .where(inArray(cacheTable.hash, chunk));
+      for (const row of result) {
+        rows.set(row.hash, row);
+      }
+    }
+
+    const values: Array<T | undefined> = [];
+    for (const hash of hashes) {
+      const row = rows.get(hash);
+      values.push(row ? await this.readRow(row) : undefined);
+    }
+    return values;
+  }
+
+  /** Deserialize a row, removing it if it has expired or is corrupted. */
+  private async readRow(item: CacheRow): Promise<T | undefined> {
     const now = Date.now();
 
     if (item.expiresAt > 0 && now >= item.expiresAt) {
-      await this.db.delete(cacheTable).where(eq(cacheTable.hash, hash));
+      await this.db.delete(cacheTable).where(eq(cacheTable.hash, item.hash));
       return undefined;
     }
 
@@ -92,10 +127,13 @@ export class SQLiteCacheStore<T = unknown> implements CacheStore<T> {
       if (item.value === '__UNDEFINED__') {
         return undefined;
       }
-      return JSON.parse(item.value as string);
+      return deserializeStoreValue({
+        json: item.value as string,
+        binary: item.binaryValue ?? undefined,
+      });
     } catch {
       // If deserialization fails, remove the corrupted item
-      await this.db.delete(cacheTable).where(eq(cacheTable.hash, hash));
+      await this.db.delete(cacheTable).where(eq(cacheTable.hash, item.hash));
       return undefined;
     }
   }
@@ -109,12 +147,12 @@ export class SQLiteCacheStore<T = unknown> implements CacheStore<T> {
     const expiresAt =
       ttlSeconds < 0 ? now : ttlSeconds === 0 ? 0 : now + ttlSeconds * 1000;
 
-    let serializedValue: string;
+    let serialized: SerializedStoreValue;
     try {
       if (value === undefined) {
-        serializedValue = '__UNDEFINED__';
+        serialized = { json: '__UNDEFINED__' };
       } else {
-        serializedValue = JSON.stringify(value);
+        serialized = serializeStoreValue(value);
       }
     } catch (error) {
       throw new Error(
@@ -122,11 +160,22 @@ export class SQLiteCacheStore<T = unknown> implements CacheStore<T> {
       );
     }
 
+    const serializedValue = serialized.json;
+    const binaryValue = serialized.binary
+      ? Buffer.from(
+          serialized.binary.buffer,
+          serialized.binary.byteOffset,
+          serialized.binary.byteLength,
+        )
+      : null;
+
     // SIZE GUARD: Skip caching if the value is too large to avoid hitting
     // SQLite length limits. We **silently** skip because callers shouldn't be
     // penalised for large responses — they will simply be fetched again next
     // time.
-    if (Buffer.byteLength(serializedValue, 'utf8') > this.maxEntrySizeBytes) {
+    const entrySize =
+      Buffer.byteLength(serializedValue, 'utf8') + (binaryValue?.length ?? 0);
+    if (entrySize > this.maxEntrySizeBytes) {
       return;
     }
 
@@ -135,6 +184,7 @@ export class SQLiteCacheStore<T = unknown> implements CacheStore<T> {
       .values({
         hash,
         value: serializedValue,
+        binaryValue,
         expiresAt,
         createdAt: now,
       })
@@ -142,6 +192,7 @@ export class SQLiteCacheStore<T = unknown> implements CacheStore<T> {
         target: cacheTable.hash,
         set: {
           value: serializedValue,
+          binaryValue,
           expiresAt,
           createdAt: now,
         },
@@ -239,11 +290,19 @@ export class SQLiteCacheStore<T = unknown> implements CacheStore<T> {
       CREATE TABLE IF NOT EXISTS cache (
         hash TEXT PRIMARY KEY,
         value BLOB NOT NULL,
+        binary_value BLOB,
         expires_at INTEGER NOT NULL,
         created_at INTEGER NOT NULL
       )
     `);
 
+    // Add the binary column to tables created by older versions
+    try {
+      this.db.run(sql`ALTER TABLE cache ADD COLUMN binary_value BLOB`);
+    } catch {
+      // Column already exists, ignore error
+    }
+
     // Create index on expires_at for efficient cleanup
     this.db.run(sql`
       CREATE INDEX IF NOT EXISTS idx_cache_expires_at ON cache(expires_at)
@@ -0,0 +1,133 @@
+import fs from 'fs';
+import path from 'path';
+import type { CircuitBreakerState } from '@http-client-toolkit/core';
+import Database from 'better-sqlite3';
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { SQLiteCircuitBreakerStore } from './sqlite-circuit-breaker-store.js';
+
+const openState: CircuitBreakerState = {
+  state: 'open',
+  openedAt: 1_000,
+  consecutiveFailures: 0,
+  windowStart: 1_000,
+  windowRequests: 0,
+  windowFailures: 0,
+};
+
+describe('SQLiteCircuitBreakerStore', () => {
+  let store: SQLiteCircuitBreakerStore;
+  const testDbPath = path.join(__dirname, 'test-circuit-breaker.db');
+
+  beforeEach(() => {
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+
+    store = new SQLiteCircuitBreakerStore({ database: testDbPath });
+  });
+
+  afterEach(() => {
+    if (store) {
+      store.destroy();
+    }
+    if (fs.existsSync(testDbPath)) {
+      fs.unlinkSync(testDbPath);
+    }
+  });
+
+  it('returns undefined for unknown origins', async () => {
+    expect(await store.get('https://api.example.com')).toBeUndefined();
+  });
+
+  it('stores and updates state per origin', async () => {
+    await store.set('https://api.example.com', {
+      ...openState,
+      state: 'closed',
+      consecutiveFailures: 2,
+      windowRequests: 4,
+      windowFailures: 2,
+    });
+    await store.set('https://api.example.com', openState);
+
+    expect(await store.get('https://api.example.com')).toEqual(openState);
+    expect(await store.get('https://other.example.com')).toBeUndefined();
+  });
+
+  it('shares state with other stores on the same file', async () => {
+    const other = new SQLiteCircuitBreakerStore({ database: testDbPath });
+
+    await store.set('https://api.example.com', openState);
+
+    expect(await other.get('https://api.example.com')).toEqual(openState);
+    other.destroy();
+  });
+
+  it('updates state from what another store on the same file wrote', async () => {
+    const other = new SQLiteCircuitBreakerStore({ database: testDbPath });
+    const failure = (state: CircuitBreakerState | undefined) => ({
+      ...openState,
+      consecutiveFailures: (state?.consecutiveFailures ?? 0) + 1,
+    });
+
+    await store.update('https://api.example.com', failure);
+    const state = await other.update('https://api.example.com', failure);
+
+    expect(state?.consecutiveFailures).toBe(2);
+    expect(
+      (await store.get('https://api.example.com'))?.consecutiveFailures,
+    ).toBe(2);
+    other.destroy();
+  });
+
+  it('leaves state alone when the updater returns undefined', async () => {
+    await store.set('https://api.example.com', openState);
+
+    const state = await store.update(
+      'https://api.example.com',
+      () => undefined,
+    );
+
+    expect(state).toEqual(openState);
+  });
+
+  it('deletes and clears state', async () => {
+    await store.set('https://a.example.com', openState);
+    await store.set('https://b.example.com', openState);
+
+    await store.delete('https://a.example.com');
+    expect(await store.get('https://a.example.com')).toBeUndefined();
+
+    await store.clear();
+    expect(await store.get('https://b.example.com')).toBeUndefined();
+  });
+
+  it('does not close a connection it does not own', async () => {
+    const db = new Database(':memory:');
+    const shared = new SQLiteCircuitBreakerStore({ database: db });
+
+    await shared.close();
+
+    expect(db.open).toBe(true);
+    db.close();
+  });
+
+  it('throws after being destroyed', async () => {
+    store.destroy();
+
+    await expect(store.get('https://api.example.com')).rejects.toThrow(
+      'Circuit breaker store has been destroyed',
+    );
+    await expect(
+      store.set('https://api.example.com', openState),
+    ).rejects.toThrow('Circuit breaker store has been destroyed');
+    await expect(
+      store.update('https://api.example.com', () => openState),
+    ).rejects.toThrow('Circuit breaker store has been destroyed');
+    await expect(store.delete('https://api.example.com')).rejects.toThrow(
+      'Circuit breaker store has been destroyed',
+    );
+    await expect(store.clear()).rejects.toThrow(
+      'Circuit breaker store has been destroyed',
+    );
+  });
+});
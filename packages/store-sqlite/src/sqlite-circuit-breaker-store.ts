@@ -0,0 +1,184 @@
+import type {
+  CircuitBreakerState,
+  CircuitBreakerStore,
+  CircuitState,
+} from '@http-client-toolkit/core';
+import Database from 'better-sqlite3';
+import { eq, sql } from 'drizzle-orm';
+import { drizzle, BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { circuitBreakerTable } from './schema.js';
+
+export interface SQLiteCircuitBreakerStoreOptions {
+  /** File path or existing `better-sqlite3` Database instance. Defaults to `':memory:'`. */
+  database?: string | InstanceType<typeof Database>;
+}
+
+export class SQLiteCircuitBreakerStore implements CircuitBreakerStore {
+  private db: BetterSQLite3Database;
+  private sqlite: InstanceType<typeof Database>;
+  /** Indicates whether this store manages (and should close) the SQLite connection */
+  private readonly isConnectionManaged: boolean = false;
+  private isDestroyed = false;
+
+  constructor({
+    /** File path or existing `better-sqlite3` Database instance. Defaults to `':memory:'`. */
+    database = ':memory:',
+  }: SQLiteCircuitBreakerStoreOptions = {}) {
+    // Processes sharing one database file share breaker state, which is the
+    // point of this store, so accept an existing connection too.
+    let sqliteInstance: InstanceType<typeof Database>;
+    let isConnectionManaged = false;
+
+    if (typeof database === 'string') {
+      sqliteInstance = new Database(database);
+      isConnectionManaged = true;
+    } else {
+      sqliteInstance = database;
+    }
+
+    this.sqlite = sqliteInstance;
+    this.isConnectionManaged = isConnectionManaged;
+    this.db = drizzle(sqliteInstance);
+
+    this.initializeDatabase();
+  }
+
+  async get(origin: string): Promise<CircuitBreakerState | undefined> {
+    if (this.isDestroyed) {
+      throw new Error('Circuit breaker store has been destroyed');
+    }
+
+    return this.read(this.db, origin);
+  }
+
+  async set(origin: string, state: CircuitBreakerState): Promise<void> {
+    if (this.isDestroyed) {
+      throw new Error('Circuit breaker store has been destroyed');
+    }
+
+    this.write(this.db, origin, state);
+  }
+
+  async update(
+    origin: string,
+    updater: (
+      state: CircuitBreakerState | undefined,
+    ) => CircuitBreakerState | undefined,
+  ): Promise<CircuitBreakerState | undefined> {
+    if (this.isDestroyed) {
+      throw new Error('Circuit breaker store has been destroyed');
+    }
+
+    // Read and write in one write transaction so concurrent processes
+    // sharing the database cannot lose each other's outcomes
+    return this.db.transaction(
+      (tx) => {
+        const state = this.read(tx, origin);
+        const next = updater(state);
+        if (!next) {
+          return state;
+        }
+        this.write(tx, origin, next);
+        return next;
+      },
+      { behavior: 'immediate' },
+    );
+  }
+
+  async delete(origin: string): Promise<void> {
+    if (this.isDestroyed) {
+      throw new Error('Circuit breaker store has been destroyed');
+    }
+    await this.db
+      .delete(circuitBreakerTable)
+      .where(eq(circuitBreakerTable.origin, origin));
+  }
+
+  async clear(): Promise<void> {
+    if (this.isDestroyed) {
+      throw new Error('Circuit breaker store has been destroyed');
+    }
+    await this.db.delete(circuitBreakerTable);
+  }
+
+  /**
+   * Close the database connection
+   */
+  async close(): Promise<void> {
+    this.isDestroyed = true;
+
+    // Close only if this instance established the connection.
+    if (this.isConnectionManaged && typeof this.sqlite.close === 'function') {
+      this.sqlite.close();
+    }
+  }
+
+  /**
+   * Alias for close() to match test expectations
+   */
+  destroy(): void {
+    this.close();
+  }
+
+  private read(
+    db: Pick<BetterSQLite3Database, 'select'>,
+    origin: string,
+  ): CircuitBreakerState | undefined {
+    const row = db
+      .select()
+      .from(circuitBreakerTable)
+      .where(eq(circuitBreakerTable.origin, origin))
+      .get();
+    if (!row) {
+      return undefined;
+    }
+
+    return {
+      state: row.state as CircuitState,
+      openedAt: row.openedAt,
+      consecutiveFailures: row.consecutiveFailures,
+      windowStart: row.windowStart,
+      windowRequests: row.windowRequests,
+      windowFailures: row.windowFailures,
+    };
+  }
+
+  private write(
+    db: Pick<BetterSQLite3Database, 'insert'>,
+    origin: string,
+    state: CircuitBreakerState,
+  ): void {
+    const values = {
+      state: state.state,
+      openedAt: state.openedAt,
+      consecutiveFailures: state.consecutiveFailures,
+      windowStart: state.windowStart,
+      windowRequests: state.windowRequests,
+      windowFailures: state.windowFailures,
+      updatedAt: Date.now(),
+    };
+
+    db.insert(circuitBreakerTable)
+      .values({ origin, ...values })
+      .onConflictDoUpdate({
+        target: circuitBreakerTable.origin,
+        set: values,
+      })
+      .run();
+  }
+
+  private initializeDatabase(): void {
+    this.db.run(sql`
+      CREATE TABLE IF NOT EXISTS circuit_breakers (
+        origin TEXT PRIMARY KEY,
+        state TEXT NOT NULL,
+        opened_at INTEGER NOT NULL,
+        consecutive_failures INTEGER NOT NULL,
+        window_start INTEGER NOT NULL,
+        window_requests INTEGER NOT NULL,
+        window_failures INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+  }
+}
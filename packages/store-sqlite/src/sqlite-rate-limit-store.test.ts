@@ -1,8 +1,9 @@
 import fs from 'fs';
 import path from 'path';
 import type { RateLimitConfig } from '@http-client-toolkit/core';
+import { describeRateLimitAlgorithms } from '@repo/vitest-config/rate-limit-behavior';
 import Database from 'better-sqlite3';
-import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { SQLiteRateLimitStore } from './sqlite-rate-limit-store.js';
 
 describe('SQLiteRateLimitStore', () => {
@@ -629,4 +630,69 @@ describe('SQLiteRateLimitStore', () => {
       expect(stats.totalRequests).toBe(0);
     });
   });
+
+  describe('rate-limit algorithms', () => {
+    describeRateLimitAlgorithms({
+      createStore: (config) =>
+        new SQLiteRateLimitStore({
+          database: ':memory:',
+          defaultConfig: config,
+        }),
+      destroyStore: (algorithmStore) => algorithmStore.destroy(),
+    });
+
+    const fixedWindow: RateLimitConfig = {
+      limit: 1,
+      windowMs: 1000,
+      algorithm: 'fixed-window',
+    };
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should share algorithm state between stores on one database', async () => {
+      const other = new SQLiteRateLimitStore({
+        database: testDbPath,
+        defaultConfig: fixedWindow,
+      });
+      store.setResourceConfig('shared', fixedWindow);
+
+      try {
+        await other.record('shared');
+        expect(await store.canProceed('shared')).toBe(false);
+      } finally {
+        other.destroy();
+      }
+    });
+
+    it('should include algorithm states in stats until cleanup removes them', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(0);
+      store.setResourceConfig('limited', fixedWindow);
+      store.setResourceConfig('open', { ...fixedWindow, limit: 2 });
+
+      await store.record('limited');
+      await store.record('open');
+
+      expect(await store.getStats()).toEqual({
+        totalRequests: 0,
+        uniqueResources: 2,
+        rateLimitedResources: ['limited'],
+      });
+
+      vi.setSystemTime(1000);
+      await store.cleanup();
+      expect((await store.getStats()).uniqueResources).toBe(0);
+    });
+
+    it('should drop algorithm state on clear', async () => {
+      store.setResourceConfig('resource', fixedWindow);
+
+      await store.record('resource');
+      await store.clear();
+
+      expect(await store.canProceed('resource')).toBe(true);
+    });
+  });
 });
@@ -1,12 +1,18 @@
 import {
   type RateLimitConfig,
+  type RateLimitDecision,
+  type RateLimitState,
   type RateLimitStore,
   DEFAULT_RATE_LIMIT,
+  consumeRateLimit,
+  peekRateLimit,
+  rateLimitStateExpiresAt,
+  usesSlidingLog,
 } from '@http-client-toolkit/core';
 import Database from 'better-sqlite3';
-import { and, eq, gte, count, sql, lt } from 'drizzle-orm';
+import { and, eq, gt, gte, count, sql, lt, lte } from 'drizzle-orm';
 import { drizzle, BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
-import { rateLimitTable } from './schema.js';
+import { rateLimitStateTable, rateLimitTable } from './schema.js';
 
 export interface SQLiteRateLimitStoreOptions {
   /** File path or existing `better-sqlite3` Database instance. Defaults to `':memory:'`. */
@@ -61,6 +67,9 @@ export class SQLiteRateLimitStore implements RateLimitStore {
     }
 
     const config = this.resourceConfigs.get(resource) || this.defaultConfig;
+    if (!usesSlidingLog(config)) {
+      return (await this.peek(resource, config)).allowed;
+    }
     const now = Date.now();
     const windowStart = now - config.windowMs;
 
@@ -86,6 +95,42 @@ export class SQLiteRateLimitStore implements RateLimitStore {
       throw new Error('Rate limit store has been destroyed');
     }
 
+    const config = this.resourceConfigs.get(resource) || this.defaultConfig;
+    if (!usesSlidingLog(config)) {
+      // Read and update the state in one write transaction so concurrent
+      // processes sharing the database cannot lose each other's requests
+      this.db.transaction(
+        (tx) => {
+          const now = Date.now();
+          const row = tx
+            .select()
+            .from(rateLimitStateTable)
+            .where(eq(rateLimitStateTable.resource, resource))
+            .get();
+          const state = consumeRateLimit(
+            config,
+            row && row.expiresAt > now ? row : undefined,
+            now,
+          );
+          const values = {
+            value: state.value,
+            updatedAt: state.updatedAt,
+            previous: state.previous,
+            expiresAt: rateLimitStateExpiresAt(config, state),
+          };
+          tx.insert(rateLimitStateTable)
+            .values({ resource, ...values })
+            .onConflictDoUpdate({
+              target: rateLimitStateTable.resource,
+              set: values,
+            })
+            .run();
+        },
+        { behavior: 'immediate' },
+      );
+      return;
+    }
+
     const now = Date.now();
     await this.db.insert(rateLimitTable).values({
       resource,
@@ -103,6 +148,10 @@ export class SQLiteRateLimitStore implements RateLimitStore {
     }
 
     const config = this.resourceConfigs.get(resource) || this.defaultConfig;
+    if (!usesSlidingLog(config)) {
+      const { remaining, resetTime, limit } = await this.peek(resource, config);
+      return { remaining, resetTime, limit };
+    }
     const now = Date.now();
     const windowStart = now - config.windowMs;
 
@@ -138,6 +187,9 @@ export class SQLiteRateLimitStore implements RateLimitStore {
     await this.db
       .delete(rateLimitTable)
       .where(eq(rateLimitTable.resource, resource));
+    await this.db
+      .delete(rateLimitStateTable)
+      .where(eq(rateLimitStateTable.resource, resource));
   }
 
   async getWaitTime(resource: string): Promise<number> {
@@ -147,6 +199,10 @@ export class SQLiteRateLimitStore implements RateLimitStore {
 
     const config = this.resourceConfigs.get(resource) || this.defaultConfig;
 
+    if (!usesSlidingLog(config)) {
+      return (await this.peek(resource, config)).waitMs;
+    }
+
     if (config.limit === 0) {
       return config.windowMs;
     }
@@ -244,9 +300,22 @@ export class SQLiteRateLimitStore implements RateLimitStore {
       }
     }
 
+    // Algorithm states hold no per-request rows, so they add resources only
+    const stateResources = await this.db
+      .select({ resource: rateLimitStateTable.resource })
+      .from(rateLimitStateTable)
+      .where(gt(rateLimitStateTable.expiresAt, Date.now()));
+
+    for (const { resource } of stateResources) {
+      const canProceed = await this.canProceed(resource);
+      if (!canProceed) {
+        rateLimitedResources.push(resource);
+      }
+    }
+
     return {
       totalRequests: (totalResult[0]?.count as number) || 0,
-      uniqueResources,
+      uniqueResources: uniqueResources + stateResources.length,
       rateLimitedResources,
     };
   }
@@ -259,6 +328,7 @@ export class SQLiteRateLimitStore implements RateLimitStore {
       throw new Error('Rate limit store has been destroyed');
     }
     await this.db.delete(rateLimitTable);
+    await this.db.delete(rateLimitStateTable);
   }
 
   /**
@@ -278,6 +348,10 @@ export class SQLiteRateLimitStore implements RateLimitStore {
       const windowStart = now - config.windowMs;
       await this.cleanupExpiredRequests(resource, windowStart);
     }
+
+    await this.db
+      .delete(rateLimitStateTable)
+      .where(lte(rateLimitStateTable.expiresAt, now));
   }
 
   /**
@@ -299,6 +373,24 @@ export class SQLiteRateLimitStore implements RateLimitStore {
     this.close();
   }
 
+  private async peek(
+    resource: string,
+    config: RateLimitConfig,
+  ): Promise<RateLimitDecision> {
+    const now = Date.now();
+    const [row] = await this.db
+      .select()
+      .from(rateLimitStateTable)
+      .where(
+        and(
+          eq(rateLimitStateTable.resource, resource),
+          gt(rateLimitStateTable.expiresAt, now),
+        ),
+      );
+    const state: RateLimitState | undefined = row;
+    return peekRateLimit(config, state, now);
+  }
+
   private async cleanupExpiredRequests(
     resource: string,
     windowStart: number,
@@ -332,5 +424,15 @@ export class SQLiteRateLimitStore implements RateLimitStore {
     this.db.run(sql`
       CREATE INDEX IF NOT EXISTS idx_rate_limit_timestamp ON rate_limits(timestamp)
     `);
+
+    this.db.run(sql`
+      CREATE TABLE IF NOT EXISTS rate_limit_states (
+        resource TEXT PRIMARY KEY,
+        value REAL NOT NULL,
+        updated_at INTEGER NOT NULL,
+        previous REAL NOT NULL,
+        expires_at INTEGER NOT NULL
+      )
+    `);
   }
 }
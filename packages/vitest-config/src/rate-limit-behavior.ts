@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+/**
+ * Shape of `RateLimitConfig` from `@http-client-toolkit/core`, repeated
+ * here because core's own tests build on this package.
+ */
+export interface RateLimitBehaviorConfig {
+  limit: number;
+  windowMs: number;
+  algorithm?:
+    | 'sliding-log'
+    | 'token-bucket'
+    | 'gcra'
+    | 'fixed-window'
+    | 'sliding-window';
+  burst?: number;
+  refillRate?: number;
+}
+
+/** The `RateLimitStore` methods the shared behaviour tests exercise. */
+export interface RateLimitBehaviorStore {
+  acquire?(resource: string): Promise<boolean>;
+  canProceed(resource: string): Promise<boolean>;
+  record(resource: string): Promise<void>;
+  getStatus(resource: string): Promise<{
+    remaining: number;
+    resetTime: Date;
+    limit: number;
+  }>;
+  reset(resource: string): Promise<void>;
+  getWaitTime(resource: string): Promise<number>;
+}
+
+export interface RateLimitBehaviorOptions<S extends RateLimitBehaviorStore> {
+  /** Create a store whose default config is `config`. */
+  createStore: (config: RateLimitBehaviorConfig) => S | Promise<S>;
+  /** Release a store created by `createStore`. */
+  destroyStore?: (store: S) => void | Promise<void>;
+}
+
+// Halfway through a 1000 ms window, which starts on a whole second
+const START = Date.UTC(2025, 0, 1) + 500;
+
+const ALGORITHM_CASES: Array<{
+  config: RateLimitBehaviorConfig;
+  /** Requests allowed back to back from a fresh state. */
+  burst: number;
+  /** Wait after the burst until the next request is allowed. */
+  waitMs: number;
+  /** Requests allowed once that wait is over. */
+  remainingAfterWait: number;
+}> = [
+  {
+    config: { limit: 2, windowMs: 1000, algorithm: 'token-bucket', burst: 3 },
+    burst: 3,
+    waitMs: 500,
+    remainingAfterWait: 1,
+  },
+  {
+    config: {
+      limit: 2,
+      windowMs: 1000,
+      algorithm: 'gcra',
+      burst: 3,
+      refillRate: 4,
+    },
+    burst: 3,
+    waitMs: 250,
+    remainingAfterWait: 1,
+  },
+  {
+    config: { limit: 2, windowMs: 1000, algorithm: 'fixed-window' },
+    burst: 2,
+    waitMs: 500,
+    remainingAfterWait: 2,
+  },
+  {
+    // Both requests still weigh 1 in the next window until it is half over
+    config: { limit: 2, windowMs: 1000, algorithm: 'sliding-window' },
+    burst: 2,
+    waitMs: 1000,
+    remainingAfterWait: 1,
+  },
+];
+
+/**
+ * Behaviour every rate-limit store must share for the algorithms selected
+ * by `RateLimitConfig.algorithm`, so that switching backends never changes
+ * which requests are allowed.
+ */
+export function describeRateLimitAlgorithms<S extends RateLimitBehaviorStore>({
+  createStore,
+  destroyStore,
+}: RateLimitBehaviorOptions<S>): void {
+  describe.each(ALGORITHM_CASES)(
+    'rate-limit algorithm $config.algorithm',
+    ({ config, burst, waitMs, remainingAfterWait }) => {
+      let store: S;
+
+      beforeEach(async () => {
+        vi.useFakeTimers({ toFake: ['Date'] });
+        vi.setSystemTime(START);
+        store = await createStore(config);
+      });
+
+      afterEach(async () => {
+        await destroyStore?.(store);
+        vi.useRealTimers();
+      });
+
+      it('allows a burst, then blocks until capacity returns', async () => {
+        for (let i = 0; i < burst; i++) {
+          expect(await store.canProceed('resource')).toBe(true);
+          await store.record('resource');
+        }
+
+        expect(await store.canProceed('resource')).toBe(false);
+        expect(await store.getWaitTime('resource')).toBe(waitMs);
+        expect(await store.getStatus('resource')).toMatchObject({
+          remaining: 0,
+          limit: burst,
+        });
+
+        vi.setSystemTime(START + waitMs - 1);
+        expect(await store.canProceed('resource')).toBe(false);
+
+        vi.setSystemTime(START + waitMs);
+        expect(await store.canProceed('resource')).toBe(true);
+        expect(await store.getWaitTime('resource')).toBe(0);
+        expect((await store.getStatus('resource')).remaining).toBe(
+          remainingAfterWait,
+        );
+      });
+
+      it('reports full capacity for unused resources', async () => {
+        expect(await store.getStatus('resource')).toMatchObject({
+          remaining: burst,
+          limit: burst,
+        });
+        expect(await store.getWaitTime('resource')).toBe(0);
+      });
+
+      it('keeps resources independent and reset clears one', async () => {
+        for (let i = 0; i < burst; i++) {
+          await store.record('resource');
+        }
+
+        expect(await store.canProceed('other')).toBe(true);
+
+        await store.reset('resource');
+        expect((await store.getStatus('resource')).remaining).toBe(burst);
+      });
+
+      it('acquire takes capacity only while some is left', async (context) => {
+        if (!store.acquire) {
+          context.skip();
+          return;
+        }
+
+        for (let i = 0; i < burst; i++) {
+          expect(await store.acquire('resource')).toBe(true);
+        }
+        expect(await store.acquire('resource')).toBe(false);
+        expect(await store.canProceed('resource')).toBe(false);
+      });
+    },
+  );
+}